@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
+import { evaluateAlertRule, getAlertRule } from "@/lib/alerts";
+
+// POST /api/alerts/evaluate - check a rule now (notifies when it fires)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "alerts", "write");
+    if (auth.error) return auth.error;
+
+    const { id } = (await request.json()) as { id?: string };
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const rule = await getAlertRule(id);
+    if (!rule) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+    const denied = await requireTabAccess(auth.user, rule.tabId);
+    if (denied) return denied;
+
+    const event = await evaluateAlertRule(rule, "manual");
+    const alert = await getAlertRule(id);
+    return NextResponse.json({ event, alert });
+  } catch (error) {
+    console.error("Error evaluating alert:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate alert" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
+import { listAlertEvents } from "@/lib/alerts";
+
+// GET /api/alerts/history?tabId=... - fired and failed checks of a tab, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "alerts", "read");
+    if (auth.error) return auth.error;
+
+    const tabId = request.nextUrl.searchParams.get("tabId");
+    if (!tabId) {
+      return NextResponse.json({ error: "tabId is required" }, { status: 400 });
+    }
+    const denied = await requireTabAccess(auth.user, tabId);
+    if (denied) return denied;
+
+    const events = await listAlertEvents(tabId);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching alert history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch alert history" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHiddenTabIds, requireAccess, requireTabAccess } from "@/lib/auth";
+import { isValidCron } from "@/lib/cron";
+import { validateNotifier } from "@/lib/alert-notifiers";
+import {
+  computeNextAlertRunAt,
+  deleteAlertRule,
+  getAlertRule,
+  listAlertRules,
+  saveAlertRule,
+} from "@/lib/alerts";
+import {
+  AlertAggregate,
+  AlertCondition,
+  AlertMetric,
+  AlertNotifier,
+  AlertRule,
+  AlertThresholdOperator,
+} from "@/types/alert";
+
+const AGGREGATES: AlertAggregate[] = ["sum", "avg", "min", "max", "count", "last"];
+const OPERATORS: AlertThresholdOperator[] = [">", ">=", "<", "<=", "=", "!="];
+const DIRECTIONS = ["up", "down", "either"];
+
+type AlertBody = Partial<
+  Pick<
+    AlertRule,
+    | "id"
+    | "name"
+    | "tabId"
+    | "chartId"
+    | "metric"
+    | "condition"
+    | "schedule"
+    | "cooldownMinutes"
+    | "notifiers"
+    | "enabled"
+  >
+>;
+
+// Error message for a metric/condition pair that cannot be evaluated, or null
+const validateRule = (metric?: AlertMetric, condition?: AlertCondition): string | null => {
+  if (!metric) return "metric is required";
+  if (metric.type === "matrix" && !metric.column) return "metric.column is required";
+  if (metric.type === "series") {
+    if (!AGGREGATES.includes(metric.aggregate)) return "Invalid metric.aggregate";
+    if (!metric.field && metric.aggregate !== "count") return "metric.field is required";
+  }
+  if (!["matrix", "series", "row_count"].includes(metric.type)) return "Invalid metric type";
+
+  if (!condition) return "condition is required";
+  if (condition.type === "threshold") {
+    if (!OPERATORS.includes(condition.op)) return "Invalid condition operator";
+    if (!Number.isFinite(condition.value)) return "condition.value must be a number";
+  } else if (condition.type === "change") {
+    if (!DIRECTIONS.includes(condition.direction)) return "Invalid condition direction";
+    if (!Number.isFinite(condition.percent) || condition.percent <= 0) {
+      return "condition.percent must be a positive number";
+    }
+  } else if (condition.type === "anomaly") {
+    if (!DIRECTIONS.includes(condition.direction)) return "Invalid condition direction";
+  } else {
+    return "Invalid condition type";
+  }
+  return null;
+};
+
+// GET /api/alerts?tabId=...&chartId=... - rules on tabs the user can open
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "alerts", "read");
+    if (auth.error) return auth.error;
+
+    const tabId = request.nextUrl.searchParams.get("tabId") || undefined;
+    const chartId = request.nextUrl.searchParams.get("chartId") || undefined;
+    const hidden = new Set(await getHiddenTabIds(auth.user));
+    const alerts = (await listAlertRules(tabId, chartId)).filter((r) => !hidden.has(r.tabId));
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    console.error("Error fetching alerts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch alerts" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/alerts - create, or update when id is given
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "alerts", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as AlertBody;
+    const name = body.name?.trim();
+    const schedule = body.schedule?.trim() || "";
+    if (!name || !body.tabId || !body.chartId) {
+      return NextResponse.json(
+        { error: "name, tabId and chartId are required" },
+        { status: 400 },
+      );
+    }
+    if (!isValidCron(schedule)) {
+      return NextResponse.json({ error: "Invalid cron schedule" }, { status: 400 });
+    }
+    const invalidRule = validateRule(body.metric, body.condition);
+    if (invalidRule) {
+      return NextResponse.json({ error: invalidRule }, { status: 400 });
+    }
+    const cooldownMinutes = Number(body.cooldownMinutes ?? 0);
+    if (!Number.isFinite(cooldownMinutes) || cooldownMinutes < 0) {
+      return NextResponse.json(
+        { error: "cooldownMinutes must be zero or more" },
+        { status: 400 },
+      );
+    }
+
+    const notifiers: AlertNotifier[] = (body.notifiers || []).map((n) =>
+      n.type === "lark"
+        ? { type: "lark", webhookUrl: String(n.webhookUrl || "").trim() }
+        : { ...n, url: String(n.url || "").trim() },
+    );
+    for (const notifier of notifiers) {
+      const invalid = validateNotifier(notifier);
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const denied = await requireTabAccess(auth.user, body.tabId);
+    if (denied) return denied;
+
+    const existing = body.id ? await getAlertRule(body.id) : null;
+    if (body.id && !existing) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+    if (existing) {
+      const deniedExisting = await requireTabAccess(auth.user, existing.tabId);
+      if (deniedExisting) return deniedExisting;
+    }
+
+    // A new metric or chart starts without a baseline for "change" conditions
+    const sameSource =
+      existing?.chartId === body.chartId &&
+      JSON.stringify(existing?.metric) === JSON.stringify(body.metric);
+    const now = new Date().toISOString();
+    const enabled = body.enabled !== false;
+    const { lastValue, ...kept } = existing || {};
+    const rule: AlertRule = {
+      ...kept,
+      id: existing?.id || `alert_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      name,
+      tabId: body.tabId,
+      chartId: body.chartId,
+      metric: body.metric!,
+      condition: body.condition!,
+      schedule,
+      cooldownMinutes,
+      notifiers,
+      enabled,
+      nextRunAt: computeNextAlertRunAt({ enabled, schedule }),
+      ...(sameSource && lastValue !== undefined ? { lastValue } : {}),
+      createdBy: existing?.createdBy || auth.user.email,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await saveAlertRule(rule);
+
+    return NextResponse.json({ success: true, alert: rule });
+  } catch (error) {
+    console.error("Error saving alert:", error);
+    return NextResponse.json(
+      { error: "Failed to save alert" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/alerts?id=... - also removes its history
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "alerts", "write");
+    if (auth.error) return auth.error;
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const rule = await getAlertRule(id);
+    if (!rule) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+    const denied = await requireTabAccess(auth.user, rule.tabId);
+    if (denied) return denied;
+
+    await deleteAlertRule(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting alert:", error);
+    return NextResponse.json(
+      { error: "Failed to delete alert" },
+      { status: 500 },
+    );
+  }
+}
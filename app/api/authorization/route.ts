@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
 import { BackendError, handleError } from "@/lib/backend-helper";
+import { clearSessionCookie, setSessionCookie } from "@/lib/session";
+import { GetUserInfoResponse } from "@/types/lask";
 
 export async function GET(request: NextRequest) {
     try {
@@ -28,8 +30,24 @@ export async function GET(request: NextRequest) {
             }
         });
 
-        return NextResponse.json(userInfo.data, { status: userInfo.status });
+        const data = userInfo.data as GetUserInfoResponse;
+        if (!data.email) {
+            return BackendError("Lark account has no email");
+        }
+
+        const response = NextResponse.json(data, { status: userInfo.status });
+        return setSessionCookie(response, {
+            email: data.email,
+            name: data.name || data.en_name,
+            userId: data.user_id,
+            openId: data.open_id,
+        });
     } catch (error: unknown) {
         return handleError(error)
     }
+}
+
+// DELETE /api/authorization - clear the session cookie (logout)
+export async function DELETE() {
+    return clearSessionCookie(NextResponse.json({ success: true }));
 }
\ No newline at end of file
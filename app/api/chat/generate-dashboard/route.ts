@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { ChartConfig, ChartType } from "@/types/chart";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
 
 type DashboardTab = {
     id: string;
@@ -55,6 +56,9 @@ const enforceHalfWidth = (chart: ChartConfig): ChartConfig => ({
 
 export async function POST(request: NextRequest) {
     try {
+        const auth = await requireAccess(request, "charts", "write");
+        if (auth.error) return auth.error;
+
         const body = (await request.json()) as {
             currentTabId?: string;
             mode?: "append" | "new-tab";
@@ -186,6 +190,8 @@ export async function POST(request: NextRequest) {
             targetSlug = slug;
             createdTabName = requestedName;
         } else {
+            const denied = await requireTabAccess(auth.user, currentTabId);
+            if (denied) return denied;
             targetSlug = currentTabId as string;
         }
 
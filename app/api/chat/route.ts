@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { ObjectId } from "mongodb";
 import { ChartType } from "@/types/chart";
+import { getHiddenTabIds, requireAccess, requireTabAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "chat_messages";
 
@@ -34,6 +35,9 @@ export interface ChatMessage {
 // GET /api/chat - Fetch messages
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "chat", "read");
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const tabId = searchParams.get("tabId");
     const limit = parseInt(searchParams.get("limit") || "100");
@@ -45,7 +49,15 @@ export async function GET(request: NextRequest) {
     // Build query
     const query: Record<string, unknown> = {};
     if (tabId) {
+      const denied = await requireTabAccess(auth.user, tabId);
+      if (denied) return denied;
       query.tabId = tabId;
+    } else {
+      // Skip messages posted on tabs that are not shared with this user
+      const hiddenTabIds = await getHiddenTabIds(auth.user);
+      if (hiddenTabIds.length > 0) {
+        query.tabId = { $nin: hiddenTabIds };
+      }
     }
     if (lastMessageId) {
       try {
@@ -93,6 +105,9 @@ export async function GET(request: NextRequest) {
 // POST /api/chat - Send a message
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "chat", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const {
       userId,
@@ -139,6 +154,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabId);
+    if (denied) return denied;
+
     const db = await getDb();
     const collection = db.collection<ChatMessage>(COLLECTION_NAME);
 
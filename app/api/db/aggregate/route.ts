@@ -0,0 +1,188 @@
+import { NextRequest } from "next/server";
+import { FilterRule } from "@/types/chart";
+import { DbConnection } from "@/hooks/use-connections";
+import { requireAuth } from "@/lib/auth";
+import {
+  clampRowLimit,
+  getDefaultSchema,
+  isTableAllowed,
+  requireConnection,
+} from "@/lib/connection-policy";
+import { getDriver } from "@/lib/db-drivers";
+import { getSqlDialect, isSqlDbType } from "@/lib/db-types";
+import { describeQueryError, runQuery } from "@/lib/query-control";
+import { buildWhereClause } from "@/lib/sql-filters";
+import { quoteIdentifier, quoteTableName } from "@/lib/grid-query";
+import { sqlDayText, sqlPlaceholder, sqlRowLimit } from "@/lib/sql-dialect";
+import { withQueryCache } from "@/lib/query-cache";
+import {
+  CHART_AGGREGATES,
+  ChartAggregation,
+  ChartGroupAggregation,
+} from "@/lib/chart-aggregation";
+import { COHORT_PERIODS } from "@/lib/cohort-funnel";
+import { buildCohortSql, buildFunnelSql } from "@/lib/cohort-funnel-sql";
+
+type AggregateBody = {
+  connectionId: string;
+  database: string;
+  table: string;
+  aggregation: ChartAggregation;
+  filters?: FilterRule[];
+  queryId?: string; // Client-generated id, used by /api/db/cancel
+  cacheTtlSeconds?: number; // Chart cache TTL, see lib/query-cache
+  refresh?: boolean; // Bypass cached results
+};
+
+// Upper bound on groups returned for one chart
+const MAX_GROUPS = 10000;
+
+const DATE_TYPES = /^(date|datetime|timestamp|smalldatetime)/i;
+
+const isValidAggregation = (aggregation?: ChartAggregation) => {
+  if (!aggregation) return false;
+  if (aggregation.kind === "cohort") {
+    return (
+      !!aggregation.entityKey &&
+      !!aggregation.dateKey &&
+      COHORT_PERIODS.includes(aggregation.period)
+    );
+  }
+  if (aggregation.kind === "funnel") {
+    return (
+      Array.isArray(aggregation.steps) &&
+      aggregation.steps.length > 0 &&
+      aggregation.steps.every((step) => typeof step === "string" && !!step)
+    );
+  }
+  return (
+    aggregation.kind === "group" &&
+    !!aggregation.groupKey &&
+    !!aggregation.valueKey &&
+    CHART_AGGREGATES.includes(aggregation.aggregate)
+  );
+};
+
+export async function POST(req: NextRequest) {
+  let conn: DbConnection | undefined;
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as AggregateBody;
+    const {
+      connectionId,
+      database,
+      table,
+      aggregation,
+      filters,
+      queryId,
+      cacheTtlSeconds,
+      refresh,
+    } = body;
+    if (
+      !connectionId ||
+      !database ||
+      !table ||
+      !isValidAggregation(aggregation)
+    ) {
+      return new Response(JSON.stringify({ error: "Missing fields" }), {
+        status: 400,
+      });
+    }
+
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    conn = resolved.connection;
+    // MongoDB charts aggregate in their own pipeline
+    if (!isSqlDbType(conn.type)) {
+      return new Response(
+        JSON.stringify({ error: "Aggregation requires a SQL connection" }),
+        { status: 400 },
+      );
+    }
+    const { policy } = conn;
+    const dialect = getSqlDialect(conn.type);
+    const schema = getDefaultSchema(conn, database);
+
+    if (!isTableAllowed(policy, table, schema)) {
+      return new Response(
+        JSON.stringify({ error: "Table is not allowed on this connection" }),
+        { status: 403 },
+      );
+    }
+
+    const safeIdent = (name: string) => quoteIdentifier(name, dialect);
+
+    const { where, params } = buildWhereClause(filters || [], dialect);
+    const safeLimit = clampRowLimit(policy, MAX_GROUPS);
+    const limitParam = sqlPlaceholder(dialect, params.length + 1);
+
+    // Date/time group keys are bucketed by day, like ChartRenderer does
+    const buildGroupSql = (
+      { groupKey, seriesKey, valueKey, aggregate, sortBy, sortOrder }: ChartGroupAggregation,
+      isDateGroup: boolean,
+    ) => {
+      const group = safeIdent(groupKey);
+      const groupExpr = isDateGroup ? sqlDayText(group, dialect) : group;
+      const valueExpr =
+        aggregate === "count"
+          ? "COUNT(*)"
+          : `${aggregate.toUpperCase()}(${safeIdent(valueKey)})`;
+
+      const select = [`${groupExpr} AS ${safeIdent(groupKey)}`];
+      if (seriesKey) select.push(`${safeIdent(seriesKey)} AS ${safeIdent(seriesKey)}`);
+      select.push(`${valueExpr} AS ${safeIdent(valueKey)}`);
+      // Grouped by expression, since SQL Server has no GROUP BY ordinals
+      const groupBy = seriesKey ? `${groupExpr}, ${safeIdent(seriesKey)}` : groupExpr;
+      const valuePosition = seriesKey ? 3 : 2;
+      const direction = sortOrder === "desc" ? "DESC" : "ASC";
+      const orderBy =
+        sortBy === valueKey ? `${valuePosition} ${direction}` : `1 ${direction}`;
+
+      return `SELECT ${select.join(", ")} FROM ${quoteTableName(table, dialect)} ${where} GROUP BY ${groupBy} ORDER BY ${orderBy} ${sqlRowLimit(dialect, limitParam, { ordered: true })}`;
+    };
+
+    // Only group charts need the group column's type; cohort and funnel SQL
+    // casts its columns itself
+    const buildSql = async (isDateColumn: (column: string) => Promise<boolean>) =>
+      aggregation.kind === "cohort"
+        ? buildCohortSql(aggregation, table, where, dialect, limitParam)
+        : aggregation.kind === "funnel"
+        ? buildFunnelSql(aggregation, table, where, dialect, limitParam)
+        : buildGroupSql(aggregation, await isDateColumn(aggregation.groupKey));
+
+    const connection = conn;
+
+    const run = async () => {
+      const sql = await buildSql(async (column) => {
+        const columns = await getDriver(connection).describeTable(connection, database, table);
+        return DATE_TYPES.test(columns.find((c) => c.name === column)?.type || "");
+      });
+      const { rows } = await runQuery(connection, sql, {
+        database,
+        params: [...params, safeLimit],
+        queryId,
+        owner: auth.user.email,
+      });
+      return { rows };
+    };
+
+    // The statement depends on the group column type, so the cache is keyed by the spec
+    const result = await withQueryCache(
+      {
+        connection,
+        database,
+        sql: JSON.stringify(["aggregate", table, aggregation, where]),
+        params: [...params, safeLimit],
+        ttlSeconds: cacheTtlSeconds,
+        refresh,
+      },
+      run,
+    );
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (e: unknown) {
+    const { status, message } = describeQueryError(e, conn);
+    return new Response(JSON.stringify({ error: message }), { status });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { cancelQuery, isValidQueryId } from "@/lib/query-control";
+
+type CancelBody = {
+  queryId: string;
+};
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const { queryId } = (await req.json()) as CancelBody;
+    if (!isValidQueryId(queryId)) {
+      return new Response(JSON.stringify({ error: "Invalid queryId" }), {
+        status: 400,
+      });
+    }
+
+    // Only queries started by the current user can be cancelled
+    const result = await cancelQuery(auth.user.email, queryId);
+    return new Response(
+      JSON.stringify({ cancelled: result === "cancelled" }),
+      { status: result === "cancelled" ? 200 : 404 },
+    );
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from "next/server";
+import { DbConnection } from "@/hooks/use-connections";
+import { requireAuth } from "@/lib/auth";
+import { requireConnection } from "@/lib/connection-policy";
+import { RowBatchReader } from "@/lib/db-driver";
+import { getDriver } from "@/lib/db-drivers";
+import { getSqlDialect } from "@/lib/db-types";
+import { describeQueryError, trackQuery } from "@/lib/query-control";
+import { sqlRowLimit } from "@/lib/sql-dialect";
+import { ChartSourceRequest, prepareChartSource } from "@/lib/chart-source";
+import {
+  buildGridFilterSql,
+  buildGridOrderBy,
+  GridExportRequest,
+} from "@/lib/grid-query";
+
+type ExportBody = ChartSourceRequest &
+  GridExportRequest & {
+    queryId?: string; // Client-generated id, used by /api/db/cancel
+  };
+
+// Rows fetched from the database per chunk of the response
+const EXPORT_BATCH_ROWS = 1000;
+
+/**
+ * All rows of a table chart, in the grid's current sort and filter, streamed
+ * as newline-delimited JSON so the server never holds the full result
+ */
+export async function POST(req: NextRequest) {
+  let conn: DbConnection | undefined;
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as ExportBody;
+    const { connectionId, database, sortModel, filterModel, queryId } = body;
+    if (!connectionId || !database || (!body.table && !body.sql)) {
+      return new Response(JSON.stringify({ error: "Missing fields" }), {
+        status: 400,
+      });
+    }
+
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    conn = resolved.connection;
+    const { policy } = conn;
+    const dialect = getSqlDialect(conn.type);
+
+    const source = await prepareChartSource(auth.user, conn, body);
+    if (source.error) return source.error;
+
+    const grid = buildGridFilterSql(filterModel, dialect, source.params.length);
+    const where = grid.conditions.length ? `WHERE ${grid.conditions.join(" AND ")}` : "";
+    const orderBy = buildGridOrderBy(sortModel, dialect);
+    const limit =
+      policy?.maxRows && policy.maxRows > 0
+        ? sqlRowLimit(dialect, Math.trunc(policy.maxRows), { ordered: !!orderBy })
+        : "";
+    const sql = `SELECT * FROM (${source.sql}) AS grid_rows ${where} ${orderBy} ${limit}`;
+    const params = [...source.params, ...grid.params];
+    const target = { owner: auth.user.email, connection: conn, database };
+
+    // Open the cursor before responding so query errors still get a status code
+    const session = await getDriver(conn).connect(conn, database);
+    let untrack = () => {};
+    const done = () => {
+      untrack();
+      session.release().catch(() => {});
+    };
+    const discard = () => {
+      untrack();
+      session.release(true).catch(() => {});
+    };
+    let reader: RowBatchReader;
+    try {
+      untrack = await trackQuery(queryId, session, target);
+      reader = await session.openCursor(sql, params, EXPORT_BATCH_ROWS);
+    } catch (e: unknown) {
+      discard();
+      throw e;
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (closed) return;
+        try {
+          const rows = await reader.read();
+          if (closed) return;
+          if (rows.length === 0) {
+            await reader.finish();
+            closed = true;
+            done();
+            controller.close();
+            return;
+          }
+          controller.enqueue(
+            encoder.encode(rows.map((row) => `${JSON.stringify(row)}\n`).join("")),
+          );
+        } catch (e: unknown) {
+          if (closed) return;
+          closed = true;
+          discard();
+          controller.error(e);
+        }
+      },
+      // Client went away (download cancelled): drop the half-read session
+      cancel() {
+        if (closed) return;
+        closed = true;
+        discard();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { "Content-Type": "application/x-ndjson" },
+    });
+  } catch (e: unknown) {
+    const { status, message } = describeQueryError(e, conn);
+    return new Response(JSON.stringify({ error: message }), { status });
+  }
+}
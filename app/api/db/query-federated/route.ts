@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { ChartFederatedRequest, prepareFederatedChart } from "@/lib/chart-source";
+import { describeFederatedError, runFederatedQuery } from "@/lib/federated-query";
+
+// Rows for federated charts: SQL on several connections joined in DuckDB,
+// the counterpart of /api/db/query-sql
+type QueryFederatedBody = ChartFederatedRequest & {
+  limit?: number;
+  queryId?: string; // Client-generated id, used by /api/db/cancel
+  cacheTtlSeconds?: number; // Per source, see lib/query-cache
+  refresh?: boolean; // Bypass cached source results
+};
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as QueryFederatedBody;
+    const {
+      sources,
+      sql,
+      tabId,
+      inputs,
+      limit = 500000,
+      queryId,
+      cacheTtlSeconds,
+      refresh,
+    } = body;
+
+    if (!sql) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields" }),
+        { status: 400 },
+      );
+    }
+
+    const prepared = await prepareFederatedChart(auth.user, { sources, sql, tabId, inputs });
+    if (prepared.error) return prepared.error;
+
+    const safeLimit = Number.isFinite(limit)
+      ? Math.max(1, Math.min(1000000, Math.trunc(limit)))
+      : 50000;
+    const result = await runFederatedQuery(prepared.sources, prepared.sql, prepared.params, {
+      limit: safeLimit,
+      ttlSeconds: cacheTtlSeconds,
+      refresh,
+      queryId,
+      owner: auth.user.email,
+    });
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (e: unknown) {
+    const { status, message } = describeFederatedError(e);
+    return new Response(JSON.stringify({ error: message }), { status });
+  }
+}
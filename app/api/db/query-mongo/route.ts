@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import { BSON } from "mongodb";
+import { requireAuth } from "@/lib/auth";
+import { clampRowLimit, requireConnection } from "@/lib/connection-policy";
+import { ChartPipelineRequest, prepareChartPipeline } from "@/lib/chart-source";
+import { describeQueryError, runPipeline } from "@/lib/query-control";
+import { withQueryCache } from "@/lib/query-cache";
+import { DbConnection } from "@/hooks/use-connections";
+
+// Rows for MongoDB charts, the counterpart of /api/db/query-sql
+type QueryMongoBody = ChartPipelineRequest & {
+  connectionId: string;
+  database: string;
+  limit?: number;
+  queryId?: string; // Client-generated id, used by /api/db/cancel
+  cacheTtlSeconds?: number; // Chart cache TTL, see lib/query-cache
+  refresh?: boolean; // Bypass cached results
+};
+
+export async function POST(req: NextRequest) {
+  let conn: DbConnection | undefined;
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as QueryMongoBody;
+    const {
+      connectionId,
+      database,
+      collection,
+      pipeline,
+      tabId,
+      inputs,
+      filters,
+      limit = 500000,
+      queryId,
+      cacheTtlSeconds,
+      refresh,
+    } = body;
+
+    if (!connectionId || !database || !collection || !pipeline) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields" }),
+        { status: 400 },
+      );
+    }
+
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    conn = resolved.connection;
+    if (conn.type !== "mongodb") {
+      return new Response(
+        JSON.stringify({ error: "Connection is not MongoDB" }),
+        { status: 400 },
+      );
+    }
+
+    const prepared = await prepareChartPipeline(auth.user, conn, database, {
+      collection,
+      pipeline,
+      tabId,
+      inputs,
+      filters,
+    });
+    if (prepared.error) return prepared.error;
+
+    // The connection policy row cap applies even when the pipeline has its own $limit
+    const safeLimit = Number.isFinite(limit)
+      ? Math.max(1, Math.min(1000000, Math.trunc(limit)))
+      : 50000;
+    const stages = [...prepared.pipeline, { $limit: clampRowLimit(conn.policy, safeLimit) }];
+
+    const connection = conn;
+    const result = await withQueryCache(
+      {
+        connection,
+        database,
+        sql: `${collection}:${BSON.EJSON.stringify(stages)}`,
+        ttlSeconds: cacheTtlSeconds,
+        refresh,
+      },
+      () =>
+        runPipeline(connection, collection, stages, {
+          database,
+          queryId,
+          owner: auth.user.email,
+        }),
+    );
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (e: unknown) {
+    const { status, message } = describeQueryError(e, conn);
+    return new Response(JSON.stringify({ error: message }), { status });
+  }
+}
@@ -1,58 +1,67 @@
 import { NextRequest } from "next/server";
-import mysql from "mysql2/promise";
-import { Client } from "pg";
-
-type QuerySqlBody = {
-  type?: "mysql" | "postgresql";
-  host: string;
-  port?: number;
-  user: string;
-  password: string;
+import { requireAuth } from "@/lib/auth";
+import { requireConnection } from "@/lib/connection-policy";
+import { getSqlDialect } from "@/lib/db-types";
+import { limitSelect, sqlRowLimit } from "@/lib/sql-dialect";
+import { ChartSqlRequest, prepareChartSql } from "@/lib/chart-source";
+import { describeQueryError, runQuery } from "@/lib/query-control";
+import { withQueryCache } from "@/lib/query-cache";
+import { DbConnection } from "@/hooks/use-connections";
+
+// Paged table reads go through /api/db/rows
+type QuerySqlBody = ChartSqlRequest & {
+  connectionId: string;
   database: string;
-  sql: string;
   limit?: number;
-  page?: number;
-  pageSize?: number;
+  queryId?: string; // Client-generated id, used by /api/db/cancel
+  cacheTtlSeconds?: number; // Chart cache TTL, see lib/query-cache
+  refresh?: boolean; // Bypass cached results
 };
 
 export async function POST(req: NextRequest) {
+  let conn: DbConnection | undefined;
   try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
     const body = (await req.json()) as QuerySqlBody;
     const {
-      type = "mysql",
-      host,
-      port,
-      user,
-      password,
+      connectionId,
       database,
       sql,
+      tabId,
+      inputs,
       limit = 500000,
+      queryId,
+      cacheTtlSeconds,
+      refresh,
     } = body;
 
-    if (!host || !user || !database || !sql) {
+    if (!connectionId || !database || !sql) {
       return new Response(
         JSON.stringify({ error: "Missing required fields" }),
         { status: 400 },
       );
     }
 
-    // Validate SQL - only allow SELECT statements for security
-    const trimmedSql = sql.trim().toUpperCase();
-    if (
-      !trimmedSql.startsWith("SELECT") &&
-      !trimmedSql.startsWith("WITH")
-    ) {
-      return new Response(
-        JSON.stringify({
-          error: "Only SELECT and WITH statements are allowed",
-        }),
-        { status: 400 },
-      );
-    }
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    conn = resolved.connection;
+    const { policy } = conn;
+    const dialect = getSqlDialect(conn.type);
+
+    const prepared = await prepareChartSql(auth.user, conn, database, {
+      sql,
+      tabId,
+      inputs,
+    });
+    if (prepared.error) return prepared.error;
+    const safeSql = prepared.sql;
+    const params = prepared.params.length > 0 ? prepared.params : undefined;
 
     // Add LIMIT clause only if limit is provided
-    let finalSql = sql.trim();
-    const sqlUpper = sql.toUpperCase();
+    let finalSql = safeSql;
+    const sqlUpper = safeSql.toUpperCase();
 
     // Check if LIMIT already exists
     if (!sqlUpper.includes("LIMIT")) {
@@ -62,83 +71,47 @@ export async function POST(req: NextRequest) {
           ? Math.max(1, Math.min(1000000, Math.trunc(limit))) // Increase max limit to 100,000
           : 50000; // Increase default limit to 50,000
 
-        // Check if query contains UNION or UNION ALL
-        const hasUnion = sqlUpper.includes("UNION");
-
-        if (hasUnion) {
-          // For UNION queries, wrap the entire query in a subquery and apply LIMIT
-          finalSql = `SELECT * FROM (${sql.trim()}) AS union_result LIMIT ${safeLimit}`;
-        } else {
-          // For regular queries, just append LIMIT
-          finalSql = `${sql.trim()} LIMIT ${safeLimit}`;
-        }
+        // UNION queries (and dialects without LIMIT) are wrapped in a subquery
+        finalSql = limitSelect(safeSql, safeLimit, dialect, "union_result");
       }
       // If limit is not provided, don't add LIMIT clause - fetch all data
     }
 
-    if (type === "postgresql") {
-      const client = new Client({
-        host,
-        port: port || 5432,
-        user,
-        password,
-        database,
-      });
-      await client.connect();
-
-      try {
-        const result = await client.query(finalSql);
-        await client.end();
+    // Connection policy row cap applies even when the query has its own LIMIT
+    if (policy?.maxRows && policy.maxRows > 0) {
+      finalSql = `SELECT * FROM (${finalSql}) AS policy_result ${sqlRowLimit(dialect, Math.trunc(policy.maxRows))}`;
+    }
 
-        // Extract column names from result metadata (available even with 0 rows)
-        const columns = result.fields?.map((field) => field.name) || [];
+    const connection = conn;
 
-        return new Response(
-          JSON.stringify({
-            rows: result.rows,
-            columns: columns.length > 0 ? columns : undefined,
-          }),
-          { status: 200 }
-        );
-      } catch (e: unknown) {
-        await client.end().catch(() => { });
-        throw e;
-      }
-    } else {
-      // MySQL
-      const connection = await mysql.createConnection({
-        host,
-        port: port || 3306,
-        user,
-        password,
+    const result = await withQueryCache(
+      {
+        connection,
         database,
-      });
-
-      try {
-        const [rows, fields] = await connection.query(finalSql);
-        await connection.end();
-
-        // Extract column names from result metadata (available even with 0 rows)
-        const columns =
-          Array.isArray(fields) && fields.length > 0
-            ? fields.map((field: mysql.FieldPacket) => field.name)
-            : undefined;
-
-        return new Response(
-          JSON.stringify({
-            rows,
-            columns: columns,
-          }),
-          { status: 200 }
-        );
-      } catch (e: unknown) {
-        await connection.end().catch(() => { });
-        throw e;
-      }
-    }
+        sql: finalSql,
+        params,
+        ttlSeconds: cacheTtlSeconds,
+        refresh,
+      },
+      async () => {
+        const result = await runQuery(connection, finalSql, {
+          database,
+          params,
+          readOnly: true,
+          queryId,
+          owner: auth.user.email,
+        });
+        // Column names come from result metadata (available even with 0 rows)
+        return {
+          rows: result.rows,
+          columns: result.columns.length > 0 ? result.columns : undefined,
+        };
+      },
+    );
+    return new Response(JSON.stringify(result), { status: 200 });
   } catch (e: unknown) {
-    const message = e instanceof Error ? e.message : "Unknown error";
-    return new Response(JSON.stringify({ error: message }), { status: 500 });
+    const { status, message } = describeQueryError(e, conn);
+    return new Response(JSON.stringify({ error: message }), { status });
   }
 }
 
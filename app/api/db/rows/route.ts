@@ -0,0 +1,100 @@
+import { NextRequest } from "next/server";
+import { DbConnection } from "@/hooks/use-connections";
+import { requireAuth } from "@/lib/auth";
+import { requireConnection } from "@/lib/connection-policy";
+import { getSqlDialect } from "@/lib/db-types";
+import { describeQueryError, runQuery } from "@/lib/query-control";
+import { sqlRowLimit } from "@/lib/sql-dialect";
+import { ChartSourceRequest, prepareChartSource } from "@/lib/chart-source";
+import {
+  buildGridFilterSql,
+  buildGridOrderBy,
+  GridPageRequest,
+  GridPageResult,
+} from "@/lib/grid-query";
+
+type RowsBody = ChartSourceRequest &
+  GridPageRequest & {
+    queryId?: string; // Client-generated id, used by /api/db/cancel
+  };
+
+// Largest block the grid may request at once
+const MAX_BLOCK_ROWS = 1000;
+
+/**
+ * One block of a table chart for AG Grid's infinite row model. The grid's
+ * sort and filter models become ORDER BY / WHERE on the chart's rows.
+ */
+export async function POST(req: NextRequest) {
+  let conn: DbConnection | undefined;
+  try {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as RowsBody;
+    const { connectionId, database, sortModel, filterModel, queryId } = body;
+    const startRow = Math.max(0, Math.trunc(Number(body.startRow) || 0));
+    let endRow = Math.trunc(Number(body.endRow) || 0);
+    if (!connectionId || !database || (!body.table && !body.sql) || endRow <= startRow) {
+      return new Response(JSON.stringify({ error: "Missing fields" }), {
+        status: 400,
+      });
+    }
+    endRow = Math.min(endRow, startRow + MAX_BLOCK_ROWS);
+
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    conn = resolved.connection;
+    const { policy } = conn;
+    const dialect = getSqlDialect(conn.type);
+
+    // Connection policy row cap: the grid ends at maxRows
+    const maxRows = policy?.maxRows && policy.maxRows > 0 ? Math.trunc(policy.maxRows) : null;
+    if (maxRows !== null) {
+      if (startRow >= maxRows) {
+        return new Response(JSON.stringify({ rows: [], lastRow: maxRows }), {
+          status: 200,
+        });
+      }
+      endRow = Math.min(endRow, maxRows);
+    }
+
+    const source = await prepareChartSource(auth.user, conn, body);
+    if (source.error) return source.error;
+
+    const grid = buildGridFilterSql(filterModel, dialect, source.params.length);
+    const where = grid.conditions.length ? `WHERE ${grid.conditions.join(" AND ")}` : "";
+    const orderBy = buildGridOrderBy(sortModel, dialect);
+    // One extra row tells whether another block exists, without a COUNT(*)
+    const blockSize = endRow - startRow;
+    const block = sqlRowLimit(dialect, blockSize + 1, { offset: startRow, ordered: !!orderBy });
+    const sql = `SELECT * FROM (${source.sql}) AS grid_rows ${where} ${orderBy} ${block}`;
+    const params = [...source.params, ...grid.params];
+
+    const { rows } = await runQuery(conn, sql, {
+      database,
+      params,
+      readOnly: true,
+      queryId,
+      owner: auth.user.email,
+    });
+
+    const hasMore = rows.length > blockSize;
+    const lastRow = !hasMore
+      ? startRow + rows.length
+      : maxRows !== null && endRow >= maxRows
+      ? maxRows
+      : undefined;
+    // Blocks are not cached: sorting and filtering make every request different
+    const result: GridPageResult = {
+      rows: rows.slice(0, blockSize),
+      lastRow,
+      cachedAt: new Date().toISOString(),
+      cached: false,
+    };
+    return new Response(JSON.stringify(result), { status: 200 });
+  } catch (e: unknown) {
+    const { status, message } = describeQueryError(e, conn);
+    return new Response(JSON.stringify({ error: message }), { status });
+  }
+}
@@ -1,96 +1,75 @@
 import { NextRequest } from "next/server";
-import mysql from "mysql2/promise";
-import { Client } from "pg";
+import { requireAuth } from "@/lib/auth";
+import { getDriver } from "@/lib/db-drivers";
+import { getDbTypeInfo, isFileDbType } from "@/lib/db-types";
+import {
+  getDefaultSchema,
+  isSchemaAllowed,
+  isTableAllowed,
+  requireConnection,
+} from "@/lib/connection-policy";
 
-type Conn = {
-  type?: "mysql" | "postgresql";
-  host: string;
-  port?: number;
-  user: string;
-  password: string;
+type TablesBody = {
+  connectionId: string;
   database?: string;
 };
 
 export async function POST(req: NextRequest) {
   try {
-    const body = (await req.json()) as Conn;
-    const { type = "mysql", host, port, user, password, database } = body;
-    if (!host || !user) {
-      return new Response(JSON.stringify({ error: "Missing host/user" }), {
+    const auth = await requireAuth(req);
+    if (auth.error) return auth.error;
+
+    const body = (await req.json()) as TablesBody;
+    const { connectionId, database } = body;
+    if (!connectionId) {
+      return new Response(JSON.stringify({ error: "Missing connectionId" }), {
         status: 400,
       });
     }
 
-    if (type === "postgresql") {
-      const client = new Client({
-        host,
-        port: port || 5432,
-        user,
-        password,
-        database: database || "postgres",
-      });
-      await client.connect();
-
-      try {
-        if (!database) {
-          const result = await client.query(
-            "SELECT datname FROM pg_database WHERE datistemplate = false;"
-          );
-          await client.end();
-          return new Response(
-            JSON.stringify({
-              databases: result.rows.map((r) => r.datname as string),
-            }),
-            { status: 200 }
-          );
-        }
-
-        const result = await client.query(
-          "SELECT tablename FROM pg_tables WHERE schemaname = 'public';"
-        );
-        await client.end();
-        return new Response(
-          JSON.stringify({
-            tables: result.rows.map((r) => r.tablename as string),
-          }),
-          { status: 200 }
-        );
-      } catch (e: unknown) {
-        await client.end().catch(() => { });
-        throw e;
-      }
-    } else {
-      const connection = await mysql.createConnection({
-        host,
-        port: port || 3306,
-        user,
-        password,
-        database: database || undefined,
-      });
-
-      if (!database) {
-        const [rows] = await connection.query<mysql.RowDataPacket[]>(
-          "SHOW DATABASES;"
-        );
-        await connection.end();
-        return new Response(
-          JSON.stringify({
-            databases: rows.map((r) => r["Database"] as string),
-          }),
-          { status: 200 }
-        );
-      }
-
-      const [tables] = await connection.query<mysql.RowDataPacket[]>(
-        "SHOW TABLES;"
+    const resolved = await requireConnection(auth.user, connectionId);
+    if (resolved.error) return resolved.error;
+    const { connection: conn } = resolved;
+    const { type, host, user, filePath, policy } = conn;
+    const schema = getDefaultSchema(conn, database);
+    // MongoDB may run without auth, or take credentials in a URI host
+    if (isFileDbType(type) ? !filePath : !host || (!user && type !== "mongodb")) {
+      return new Response(
+        JSON.stringify({ error: isFileDbType(type) ? "Missing database file" : "Missing host/user" }),
+        { status: 400 },
       );
-      await connection.end();
-
-      const key = `Tables_in_${database}`;
-      const list = tables.map((t) => (t as Record<string, unknown>)[key] as string);
+    }
 
-      return new Response(JSON.stringify({ tables: list }), { status: 200 });
+    const driver = getDriver(conn);
+    if (!database) {
+      const databases = await driver.listDatabases(conn);
+      // Where the database is the schema, the policy's schemas are databases
+      const { defaultSchema } = getDbTypeInfo(type);
+      return new Response(
+        JSON.stringify({
+          databases: defaultSchema
+            ? databases
+            : databases.filter((d) => isSchemaAllowed(policy, d)),
+        }),
+        { status: 200 }
+      );
     }
+
+    // Every schema the policy allows; tables outside the default schema are
+    // named "schema.table", as ChartConfig.tableName stores them
+    const groups = (await driver.listTables(conn, database))
+      .map((group) => ({
+        ...group,
+        tables: group.tables.filter((t) => isTableAllowed(policy, t, schema)),
+      }))
+      .filter((group) => group.tables.length > 0);
+    return new Response(
+      JSON.stringify({
+        tables: groups.flatMap((g) => g.tables),
+        groups,
+      }),
+      { status: 200 }
+    );
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : "Unknown error";
     return new Response(
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { canUseConnection, requireConnection } from "@/lib/connection-policy";
+import { getConnectionsState } from "@/lib/connections";
+import { isValidCron } from "@/lib/cron";
+import {
+  computeNextFraudRunAt,
+  deleteFraudRule,
+  getFraudRule,
+  listFraudRules,
+  saveFraudRule,
+  validateFraudRuleSql,
+} from "@/lib/fraud";
+import { FraudRule, FraudRuleDefinition, FraudSeverity } from "@/types/fraud";
+
+const SEVERITIES: FraudSeverity[] = ["low", "medium", "high", "critical"];
+
+type FraudRuleBody = Partial<
+  Pick<
+    FraudRule,
+    | "id"
+    | "name"
+    | "description"
+    | "connectionId"
+    | "database"
+    | "table"
+    | "definition"
+    | "severity"
+    | "schedule"
+    | "enabled"
+  >
+>;
+
+const isPositive = (value: unknown) => typeof value === "number" && value > 0;
+const isZeroOrMore = (value: unknown) => typeof value === "number" && value >= 0;
+
+// Error message for a definition missing what its SQL needs, or null
+const validateDefinition = (definition?: FraudRuleDefinition, table?: string): string | null => {
+  if (!definition) return "definition is required";
+  if (definition.type === "custom_sql") {
+    if (!definition.sql?.trim()) return "sql is required";
+    if (!definition.keyColumn?.trim()) return "keyColumn is required";
+    return null;
+  }
+  if (!table?.trim()) return "table is required";
+  if (!definition.timeColumn) return "timeColumn is required";
+  if (!isPositive(definition.windowHours)) return "windowHours must be a positive number";
+  switch (definition.type) {
+    case "device_velocity":
+      if (!definition.deviceColumn) return "deviceColumn is required";
+      return isZeroOrMore(definition.threshold) ? null : "threshold must be zero or more";
+    case "non_member_branch":
+      if (!definition.branchColumn || !definition.memberColumn) {
+        return "branchColumn and memberColumn are required";
+      }
+      return isZeroOrMore(definition.threshold) ? null : "threshold must be zero or more";
+    case "velocity_spike":
+      if (!definition.keyColumn) return "keyColumn is required";
+      if (!isPositive(definition.baselineHours)) return "baselineHours must be a positive number";
+      if (!isPositive(definition.multiplier)) return "multiplier must be a positive number";
+      return isZeroOrMore(definition.minCount) ? null : "minCount must be zero or more";
+    default:
+      return "Invalid rule type";
+  }
+};
+
+// GET /api/fraud/rules - rules on connections shared with the user
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "read");
+    if (auth.error) return auth.error;
+
+    const { connections } = await getConnectionsState();
+    const usable = new Set(
+      connections.filter((c) => canUseConnection(c, auth.user)).map((c) => c.id),
+    );
+    const rules = (await listFraudRules()).filter((r) => usable.has(r.connectionId));
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error fetching fraud rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fraud rules" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/fraud/rules - create, or update when id is given
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as FraudRuleBody;
+    const name = body.name?.trim();
+    const schedule = body.schedule?.trim() || "";
+    if (!name || !body.connectionId || !body.database) {
+      return NextResponse.json(
+        { error: "name, connectionId and database are required" },
+        { status: 400 },
+      );
+    }
+    if (!isValidCron(schedule)) {
+      return NextResponse.json({ error: "Invalid cron schedule" }, { status: 400 });
+    }
+    if (!body.severity || !SEVERITIES.includes(body.severity)) {
+      return NextResponse.json({ error: "Invalid severity" }, { status: 400 });
+    }
+    const table = body.definition?.type === "custom_sql" ? undefined : body.table?.trim();
+    const invalidDefinition = validateDefinition(body.definition, table);
+    if (invalidDefinition) {
+      return NextResponse.json({ error: invalidDefinition }, { status: 400 });
+    }
+
+    const { connection, error } = await requireConnection(auth.user, body.connectionId);
+    if (error) return error;
+    const checkedSql = validateFraudRuleSql(
+      { table, definition: body.definition!, database: body.database },
+      connection,
+    );
+    if (checkedSql.error) {
+      return NextResponse.json({ error: checkedSql.error }, { status: 400 });
+    }
+
+    const existing = body.id ? await getFraudRule(body.id) : null;
+    if (body.id && !existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+    if (existing) {
+      const deniedExisting = await requireConnection(auth.user, existing.connectionId);
+      if (deniedExisting.error) return deniedExisting.error;
+    }
+
+    const now = new Date().toISOString();
+    const enabled = body.enabled !== false;
+    const rule: FraudRule = {
+      ...existing,
+      id: existing?.id || `fraud_rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      name,
+      description: body.description?.trim() || "",
+      connectionId: body.connectionId,
+      database: body.database,
+      table,
+      definition: body.definition!,
+      severity: body.severity,
+      schedule,
+      enabled,
+      nextRunAt: computeNextFraudRunAt({ enabled, schedule }),
+      createdBy: existing?.createdBy || auth.user.email,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    if (!table) delete rule.table;
+    await saveFraudRule(rule);
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error saving fraud rule:", error);
+    return NextResponse.json(
+      { error: "Failed to save fraud rule" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/fraud/rules?id=... - flagged cases are kept
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const rule = await getFraudRule(id);
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+    const { error } = await requireConnection(auth.user, rule.connectionId);
+    if (error) return error;
+
+    await deleteFraudRule(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting fraud rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete fraud rule" },
+      { status: 500 },
+    );
+  }
+}
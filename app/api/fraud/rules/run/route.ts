@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { requireConnection } from "@/lib/connection-policy";
+import { getFraudRule, runFraudRule } from "@/lib/fraud";
+
+// POST /api/fraud/rules/run - run a rule now and flag its cases
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const { ruleId } = (await request.json()) as { ruleId?: string };
+    if (!ruleId) {
+      return NextResponse.json({ error: "ruleId is required" }, { status: 400 });
+    }
+
+    const rule = await getFraudRule(ruleId);
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+    const { error } = await requireConnection(auth.user, rule.connectionId);
+    if (error) return error;
+
+    try {
+      const caseCount = await runFraudRule(rule);
+      return NextResponse.json({ success: true, caseCount });
+    } catch (runError) {
+      // The query itself failed (bad column, timeout...): show the database's message
+      return NextResponse.json(
+        { error: runError instanceof Error ? runError.message : String(runError) },
+        { status: 400 },
+      );
+    }
+  } catch (error) {
+    console.error("Error running fraud rule:", error);
+    return NextResponse.json(
+      { error: "Failed to run fraud rule" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
+import { getReportRun, openReportSnapshot } from "@/lib/reports";
+
+// GET /api/reports/download?runId=... - the snapshot file of a run
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "read");
+    if (auth.error) return auth.error;
+
+    const runId = request.nextUrl.searchParams.get("runId");
+    if (!runId) {
+      return NextResponse.json({ error: "runId is required" }, { status: 400 });
+    }
+
+    const run = await getReportRun(runId);
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+    const denied = await requireTabAccess(auth.user, run.tabId);
+    if (denied) return denied;
+
+    const snapshot = await openReportSnapshot(runId);
+    if (!snapshot) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    return new Response(Readable.toWeb(snapshot.stream) as ReadableStream<Uint8Array>, {
+      status: 200,
+      headers: {
+        "Content-Type": snapshot.contentType,
+        "Content-Length": String(snapshot.size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(snapshot.fileName)}`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading report snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to download report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHiddenTabIds, requireAccess, requireTabAccess } from "@/lib/auth";
+import { isValidCron } from "@/lib/cron";
+import { validateDelivery } from "@/lib/report-delivery";
+import {
+  computeNextRunAt,
+  deleteReport,
+  getReport,
+  listReports,
+  saveReport,
+} from "@/lib/reports";
+import { ReportDefinition, ReportDelivery, ReportFormat } from "@/types/report";
+
+const FORMATS: ReportFormat[] = ["pdf", "xlsx"];
+
+type ReportBody = Partial<
+  Pick<
+    ReportDefinition,
+    "id" | "name" | "tabId" | "chartIds" | "inputs" | "schedule" | "format" | "deliveries" | "enabled"
+  >
+>;
+
+// GET /api/reports - reports on tabs the user can open
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "read");
+    if (auth.error) return auth.error;
+
+    const hidden = new Set(await getHiddenTabIds(auth.user));
+    const reports = (await listReports()).filter((r) => !hidden.has(r.tabId));
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error("Error fetching reports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reports" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/reports - create, or update when id is given
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as ReportBody;
+    const name = body.name?.trim();
+    const schedule = body.schedule?.trim() || "";
+    if (!name || !body.tabId) {
+      return NextResponse.json(
+        { error: "name and tabId are required" },
+        { status: 400 },
+      );
+    }
+    if (!isValidCron(schedule)) {
+      return NextResponse.json({ error: "Invalid cron schedule" }, { status: 400 });
+    }
+    if (!body.format || !FORMATS.includes(body.format)) {
+      return NextResponse.json({ error: "format must be pdf or xlsx" }, { status: 400 });
+    }
+
+    const deliveries: ReportDelivery[] = (body.deliveries || []).map((d) =>
+      d.type === "smtp"
+        ? {
+            type: "smtp",
+            to: (d.to || []).map((email) => email.trim()).filter(Boolean),
+          }
+        : { ...d, webhookUrl: String(d.webhookUrl || "").trim() },
+    );
+    for (const delivery of deliveries) {
+      const invalid = validateDelivery(delivery);
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const denied = await requireTabAccess(auth.user, body.tabId);
+    if (denied) return denied;
+
+    const existing = body.id ? await getReport(body.id) : null;
+    if (body.id && !existing) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    if (existing) {
+      const deniedExisting = await requireTabAccess(auth.user, existing.tabId);
+      if (deniedExisting) return deniedExisting;
+    }
+
+    const now = new Date().toISOString();
+    const enabled = body.enabled !== false;
+    const report: ReportDefinition = {
+      ...existing,
+      id: existing?.id || `report_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      name,
+      tabId: body.tabId,
+      chartIds: Array.isArray(body.chartIds) ? body.chartIds.map(String) : [],
+      inputs: Object.fromEntries(
+        Object.entries(body.inputs || {}).map(([key, value]) => [key, String(value)]),
+      ),
+      schedule,
+      format: body.format,
+      deliveries,
+      enabled,
+      nextRunAt: computeNextRunAt({ enabled, schedule }),
+      createdBy: existing?.createdBy || auth.user.email,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await saveReport(report);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error saving report:", error);
+    return NextResponse.json(
+      { error: "Failed to save report" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/reports?id=... - also removes its runs and snapshots
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "write");
+    if (auth.error) return auth.error;
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+
+    const report = await getReport(id);
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    const denied = await requireTabAccess(auth.user, report.tabId);
+    if (denied) return denied;
+
+    await deleteReport(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting report:", error);
+    return NextResponse.json(
+      { error: "Failed to delete report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
+import { getReport, runReport } from "@/lib/reports";
+
+// POST /api/reports/run - render and deliver a report now
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "write");
+    if (auth.error) return auth.error;
+
+    const { reportId } = (await request.json()) as { reportId?: string };
+    if (!reportId) {
+      return NextResponse.json({ error: "reportId is required" }, { status: 400 });
+    }
+
+    const report = await getReport(reportId);
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+    const denied = await requireTabAccess(auth.user, report.tabId);
+    if (denied) return denied;
+
+    const run = await runReport(report, "manual", auth.user.email);
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Error running report:", error);
+    return NextResponse.json(
+      { error: "Failed to run report" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHiddenTabIds, requireAccess } from "@/lib/auth";
+import { listReportRuns } from "@/lib/reports";
+
+// GET /api/reports/runs?reportId=... - newest first, on tabs the user can open
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "reports", "read");
+    if (auth.error) return auth.error;
+
+    const reportId = request.nextUrl.searchParams.get("reportId") || undefined;
+    const hidden = new Set(await getHiddenTabIds(auth.user));
+    const runs = (await listReportRuns(reportId)).filter((run) => !hidden.has(run.tabId));
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Error fetching report runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report runs" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
+import { requireAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "active_viewers";
 
@@ -20,6 +21,9 @@ async function cleanupInactiveViewers() {
 // Track active viewer
 export async function POST(request: NextRequest) {
     try {
+        const auth = await requireAccess(request, "active-viewers", "write");
+        if (auth.error) return auth.error;
+
         const body = await request.json();
         const { tabId, userId, userName, userEmail } = body;
 
@@ -64,6 +68,9 @@ export async function POST(request: NextRequest) {
 // Get active viewers for a tab
 export async function GET(request: NextRequest) {
     try {
+        const auth = await requireAccess(request, "active-viewers", "read");
+        if (auth.error) return auth.error;
+
         const searchParams = request.nextUrl.searchParams;
         const tabId = searchParams.get("tabId");
 
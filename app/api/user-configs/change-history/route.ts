@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
+import { requireAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "change_history";
 
@@ -24,6 +25,9 @@ export interface ChangeHistory {
 // Get change history for a tab
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "change-history", "read");
+    if (auth.error) return auth.error;
+
     const searchParams = request.nextUrl.searchParams;
     const tabId = searchParams.get("tabId");
     const limit = parseInt(searchParams.get("limit") || "50");
@@ -71,6 +75,9 @@ export async function GET(request: NextRequest) {
 // Record a change
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "change-history", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const {
       tabId,
@@ -1,12 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { ChartConfig, ChartConfigsState } from "@/types/chart";
+import { requireAccess, requireTabAccess, tabIdFromPagePath } from "@/lib/auth";
+import { getConnectionsState } from "@/lib/connections";
+import { getTabInputs } from "@/lib/tab-inputs";
+import { checkChartSource } from "@/lib/chart-data";
 
 const COLLECTION_NAME = "chart_configs";
 
+// Everything that decides which data a chart reads
+const sourceKey = (chart: ChartConfig) =>
+  JSON.stringify([
+    chart.connectionId,
+    chart.database,
+    chart.tableName,
+    chart.sqlQuery,
+    chart.pipeline,
+    chart.federated,
+  ]);
+
 // GET /api/user-configs/charts?pagePath=...
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "charts", "read");
+    if (auth.error) return auth.error;
+
     const searchParams = request.nextUrl.searchParams;
     const pagePath = searchParams.get("pagePath");
 
@@ -17,6 +35,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabIdFromPagePath(pagePath));
+    if (denied) return denied;
+
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
@@ -38,6 +59,9 @@ export async function GET(request: NextRequest) {
 // POST /api/user-configs/charts
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "charts", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const { pagePath, charts } = body as {
       pagePath: string;
@@ -51,15 +75,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabIdFromPagePath(pagePath));
+    if (denied) return denied;
+
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
+    // Charts whose data source changed are checked against the connection
+    // policy as the saving user, who then owns them; the rest keep their owner
+    const stored: ChartConfig[] = (await collection.findOne({ pagePath }))?.charts || [];
+    const { connections } = await getConnectionsState();
+    const inputs = await getTabInputs(tabIdFromPagePath(pagePath));
+    const saved: ChartConfig[] = [];
+    for (const chart of charts || []) {
+      const previous = stored.find((c) => c.id === chart.id);
+      if (previous && sourceKey(previous) === sourceKey(chart)) {
+        saved.push({ ...chart, owner: previous.owner });
+        continue;
+      }
+      const connection = connections.find((c) => c.id === chart.connectionId);
+      const error = connection
+        ? await checkChartSource(connection, chart, inputs, auth.user)
+        : null;
+      if (error) {
+        return NextResponse.json(
+          { error: `${chart.title || chart.id}: ${error}` },
+          { status: 403 }
+        );
+      }
+      saved.push({ ...chart, owner: auth.user.email });
+    }
+
     await collection.updateOne(
       { pagePath },
       {
         $set: {
           pagePath,
-          charts: charts || [],
+          charts: saved,
           updatedAt: new Date(),
         },
       },
@@ -1,31 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDb } from "@/lib/mongodb";
-import { DbConnection } from "@/hooks/use-connections";
+import {
+  ConnectionsState,
+  getConnectionsState,
+  keepDatasetConnections,
+  mergeConnectionSecrets,
+  redactConnection,
+  saveConnectionsState,
+} from "@/lib/connections";
+import { requireAccess } from "@/lib/auth";
+import { canUseConnection } from "@/lib/connection-policy";
 
-const COLLECTION_NAME = "db_connections";
-
-type State = {
-  connections: DbConnection[];
-  activeId?: string;
-};
+type State = ConnectionsState;
 
 // GET /api/user-configs/connections
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const db = await getDb();
-    const collection = db.collection(COLLECTION_NAME);
+    const auth = await requireAccess(request, "connections", "read");
+    if (auth.error) return auth.error;
 
-    const doc = await collection.findOne({ id: "default" });
-    if (!doc) {
-      return NextResponse.json({
-        connections: [],
-        activeId: undefined,
-      } as State);
-    }
+    const { connections, activeId } = await getConnectionsState();
 
+    // Connections whose policy excludes the user are not offered at all
     return NextResponse.json({
-      connections: doc.connections || [],
-      activeId: doc.activeId,
+      connections: connections
+        .filter((conn) => canUseConnection(conn, auth.user))
+        .map(redactConnection),
+      activeId,
     } as State);
   } catch (error) {
     console.error("Error fetching connections:", error);
@@ -39,6 +39,9 @@ export async function GET() {
 // POST /api/user-configs/connections
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "connections", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const { connections, activeId } = body as State;
 
@@ -49,22 +52,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const db = await getDb();
-    const collection = db.collection(COLLECTION_NAME);
-
-    await collection.updateOne(
-      { id: "default" },
-      {
-        $set: {
-          id: "default",
-          connections,
-          activeId,
-          updatedAt: new Date(),
-        },
-      },
-      { upsert: true }
+    // Browser only holds redacted passwords; keep the stored ones unless replaced
+    const stored = await getConnectionsState();
+    const merged = keepDatasetConnections(
+      mergeConnectionSecrets(connections, stored.connections),
+      stored.connections,
     );
 
+    await saveConnectionsState({ connections: merged, activeId });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error saving connections:", error);
@@ -74,4 +70,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
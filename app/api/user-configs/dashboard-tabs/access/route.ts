@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/lib/mongodb";
+import { getStoredTabsState, requireAccess } from "@/lib/auth";
+import { TabAccess } from "@/types/dashboard";
+import { UserRole } from "@/types/permission";
+
+const COLLECTION_NAME = "dashboard_tabs";
+const VALID_ROLES: UserRole[] = ["viewer", "editor", "super_admin"];
+
+// POST /api/user-configs/dashboard-tabs/access
+// Set the sharing list of a single tab or group (empty list = visible to everyone)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "permissions", "write");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const { targetType, id, access } = body as {
+      targetType: "tab" | "group";
+      id: string;
+      access?: TabAccess;
+    };
+
+    if (!id || (targetType !== "tab" && targetType !== "group")) {
+      return NextResponse.json(
+        { error: "targetType (tab | group) and id are required" },
+        { status: 400 }
+      );
+    }
+
+    const users = Array.from(
+      new Set(
+        (access?.users || [])
+          .map((email) => email.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    );
+    const roles = (access?.roles || []).filter((r) => VALID_ROLES.includes(r));
+    const nextAccess: TabAccess | undefined =
+      users.length || roles.length ? { users, roles } : undefined;
+
+    const state = await getStoredTabsState();
+    const items = targetType === "tab" ? state.tabs : state.groups;
+    if (!items.some((item) => item.id === id)) {
+      return NextResponse.json(
+        { error: `${targetType} not found` },
+        { status: 404 }
+      );
+    }
+
+    const update = <T extends { id: string; access?: TabAccess }>(list: T[]) =>
+      list.map((item) => {
+        if (item.id !== id) return item;
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { access: _previous, ...rest } = item;
+        return (nextAccess ? { ...rest, access: nextAccess } : rest) as T;
+      });
+
+    const db = await getDb();
+    const collection = db.collection(COLLECTION_NAME);
+
+    await collection.updateOne(
+      { id: "default" },
+      {
+        $set: {
+          tabs: targetType === "tab" ? update(state.tabs) : state.tabs,
+          groups: targetType === "group" ? update(state.groups) : state.groups,
+          updatedAt: new Date(),
+        },
+      }
+    );
+
+    return NextResponse.json({ success: true, access: nextAccess ?? null });
+  } catch (error) {
+    console.error("Error saving tab access:", error);
+    return NextResponse.json(
+      { error: "Failed to save tab access" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { DashboardTab, DashboardTabsState, TabGroup } from "@/types/dashboard";
+import { getStoredTabsState, requireAccess } from "@/lib/auth";
+import { filterTabsState, mergeTabsState } from "@/lib/tab-access";
 
 const COLLECTION_NAME = "dashboard_tabs";
 
 // GET /api/user-configs/dashboard-tabs
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const db = await getDb();
-    const collection = db.collection(COLLECTION_NAME);
+    const auth = await requireAccess(request, "dashboard-tabs", "read");
+    if (auth.error) return auth.error;
 
-    const doc = await collection.findOne({ id: "default" });
-    if (!doc) {
-      return NextResponse.json({ tabs: [], groups: [] } as DashboardTabsState);
-    }
-
-    return NextResponse.json({ 
-      tabs: doc.tabs || [], 
-      groups: doc.groups || [] 
-    } as DashboardTabsState);
+    // Only return tabs/groups shared with the current user
+    const state = await getStoredTabsState();
+    return NextResponse.json(
+      filterTabsState(state, auth.user) as DashboardTabsState,
+    );
   } catch (error) {
     console.error("Error fetching dashboard tabs:", error);
     return NextResponse.json(
@@ -31,6 +29,9 @@ export async function GET() {
 // POST /api/user-configs/dashboard-tabs
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "dashboard-tabs", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const { tabs, groups } = body as { tabs: DashboardTab[]; groups?: TabGroup[] };
 
@@ -41,6 +42,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The browser only sees part of the tree; keep hidden tabs and sharing lists intact
+    const merged = mergeTabsState(
+      { tabs, groups: groups || [] },
+      await getStoredTabsState(),
+      auth.user,
+    );
+
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
@@ -49,8 +57,8 @@ export async function POST(request: NextRequest) {
       {
         $set: {
           id: "default",
-          tabs,
-          groups: groups || [],
+          tabs: merged.tabs,
+          groups: merged.groups,
           updatedAt: new Date(),
         },
       },
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthUser, requireAccess } from "@/lib/auth";
+import { getConnectionsState } from "@/lib/connections";
+import { canUseConnection, requireConnection } from "@/lib/connection-policy";
+import {
+  DATASET_MAX_UPLOAD_BYTES,
+  deleteDataset,
+  getDataset,
+  listDatasets,
+  readDatasetFile,
+  restoreDatasetVersion,
+  saveDatasetVersion,
+} from "@/lib/datasets";
+
+// An existing dataset, if its connection's policy lets the user in
+async function requireDataset(user: AuthUser, datasetId: string | null) {
+  const dataset = datasetId ? await getDataset(datasetId) : null;
+  if (!dataset) {
+    return { error: NextResponse.json({ error: "Dataset not found" }, { status: 404 }) };
+  }
+  const resolved = await requireConnection(user, dataset.connectionId);
+  if (resolved.error) return { error: resolved.error };
+  return { dataset };
+}
+
+// GET /api/user-configs/datasets - datasets on connections the user can use
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "datasets", "read");
+    if (auth.error) return auth.error;
+
+    const { connections } = await getConnectionsState();
+    const usable = new Set(
+      connections.filter((conn) => canUseConnection(conn, auth.user)).map((conn) => conn.id),
+    );
+    const datasets = (await listDatasets()).filter((d) => usable.has(d.connectionId));
+    return NextResponse.json({ datasets });
+  } catch (error) {
+    console.error("Error fetching datasets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch datasets" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/user-configs/datasets - multipart upload (file, name, sheet);
+// with datasetId the file becomes that dataset's next version
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "datasets", "write");
+    if (auth.error) return auth.error;
+
+    const form = await request.formData();
+    const file = form.get("file");
+    const name = String(form.get("name") || "").trim();
+    const datasetId = String(form.get("datasetId") || "") || null;
+    const sheet = String(form.get("sheet") || "").trim() || undefined;
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 });
+    }
+    if (!datasetId && !name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (file.size > DATASET_MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is larger than ${DATASET_MAX_UPLOAD_BYTES / 1024 / 1024} MB` },
+        { status: 413 },
+      );
+    }
+
+    const existing = datasetId ? await requireDataset(auth.user, datasetId) : null;
+    if (existing?.error) return existing.error;
+
+    const parsed = await readDatasetFile(
+      file.name,
+      Buffer.from(await file.arrayBuffer()),
+      sheet,
+    );
+    if (!parsed.table) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const dataset = await saveDatasetVersion(
+      auth.user,
+      { name: name || existing?.dataset?.name || "", fileName: file.name, table: parsed.table },
+      existing?.dataset,
+    );
+    return NextResponse.json({ success: true, dataset });
+  } catch (error) {
+    console.error("Error uploading dataset:", error);
+    return NextResponse.json(
+      { error: "Failed to upload dataset" },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/user-configs/datasets - { id, version }: make an earlier version current
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "datasets", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as { id?: string; version?: number };
+    const resolved = await requireDataset(auth.user, body.id ?? null);
+    if (resolved.error) return resolved.error;
+    if (!resolved.dataset.versions.some((v) => v.version === body.version)) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const dataset = await restoreDatasetVersion(resolved.dataset, Number(body.version));
+    return NextResponse.json({ success: true, dataset });
+  } catch (error) {
+    console.error("Error restoring dataset version:", error);
+    return NextResponse.json(
+      { error: "Failed to restore dataset version" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/user-configs/datasets?id=... - also removes its connection and files
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "datasets", "write");
+    if (auth.error) return auth.error;
+
+    const resolved = await requireDataset(auth.user, request.nextUrl.searchParams.get("id"));
+    if (resolved.error) return resolved.error;
+
+    await deleteDataset(resolved.dataset);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting dataset:", error);
+    return NextResponse.json(
+      { error: "Failed to delete dataset" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,10 +1,19 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
+import { getConnectionsState } from "@/lib/connections";
+import { encryptWithPassphrase } from "@/lib/secrets";
+import { requireAccess } from "@/lib/auth";
 
 // GET /api/user-configs/export
-export async function GET() {
+// Connection passwords are omitted unless an x-export-passphrase header is
+// sent, in which case they are exported encrypted with that passphrase.
+export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "export", "read");
+    if (auth.error) return auth.error;
+
     const db = await getDb();
+    const passphrase = request.headers.get("x-export-passphrase");
 
     // Get all chart configs
     const chartConfigsCollection = db.collection("chart_configs");
@@ -26,16 +35,16 @@ export async function GET() {
     } : null;
 
     // Get connections
-    const connectionsCollection = db.collection("db_connections");
-    const connectionsDoc = await connectionsCollection.findOne({
-      id: "default",
-    });
-    const connections = connectionsDoc
-      ? {
-          connections: connectionsDoc.connections || [],
-          activeId: connectionsDoc.activeId,
-        }
-      : null;
+    const connectionsState = await getConnectionsState();
+    const connections = {
+      connections: connectionsState.connections.map((conn) => ({
+        ...conn,
+        password: passphrase
+          ? encryptWithPassphrase(conn.password, passphrase)
+          : "",
+      })),
+      activeId: connectionsState.activeId,
+    };
 
     const exportData = {
       tabs,
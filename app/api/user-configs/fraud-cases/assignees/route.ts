@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { listFraudCaseAssignees } from "@/lib/fraud-cases";
+
+// GET /api/user-configs/fraud-cases/assignees - emails cases can be assigned to
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "read");
+    if (auth.error) return auth.error;
+
+    const assignees = await listFraudCaseAssignees();
+    return NextResponse.json({ assignees });
+  } catch (error) {
+    console.error("Error fetching fraud case assignees:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch assignees" },
+      { status: 500 },
+    );
+  }
+}
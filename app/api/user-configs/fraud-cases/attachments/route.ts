@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import {
+  addFraudCaseAttachment,
+  removeFraudCaseAttachment,
+  requireFraudCase,
+  resolveFraudCaseAttachment,
+} from "@/lib/fraud-cases";
+import { FraudCaseAttachmentInput } from "@/types/fraud";
+
+// POST /api/user-configs/fraud-cases/attachments - attach a chart or query to a case
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const { caseId, attachment: input } = (await request.json()) as {
+      caseId?: string;
+      attachment?: FraudCaseAttachmentInput;
+    };
+    const { fraudCase, error } = await requireFraudCase(auth.user, caseId);
+    if (error) return error;
+    const resolved = await resolveFraudCaseAttachment(auth.user, input || {});
+    if (resolved.error) return resolved.error;
+
+    await addFraudCaseAttachment(fraudCase, resolved.attachment, auth.user);
+    return NextResponse.json({ success: true, attachment: resolved.attachment });
+  } catch (error) {
+    console.error("Error attaching to fraud case:", error);
+    return NextResponse.json(
+      { error: "Failed to attach evidence" },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/user-configs/fraud-cases/attachments?caseId=...&id=...
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get("id");
+    if (!id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+    const { fraudCase, error } = await requireFraudCase(auth.user, searchParams.get("caseId"));
+    if (error) return error;
+
+    const removed = await removeFraudCaseAttachment(fraudCase, id, auth.user);
+    if (!removed) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing fraud case attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to remove attachment" },
+      { status: 500 },
+    );
+  }
+}
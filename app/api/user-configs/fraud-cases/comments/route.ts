@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { addFraudCaseComment, requireFraudCase } from "@/lib/fraud-cases";
+
+const MAX_COMMENT_LENGTH = 4000;
+
+// POST /api/user-configs/fraud-cases/comments - add a comment to a case
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const { caseId, text } = (await request.json()) as { caseId?: string; text?: string };
+    const body = text?.trim();
+    if (!body) {
+      return NextResponse.json({ error: "text is required" }, { status: 400 });
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+    const { fraudCase, error } = await requireFraudCase(auth.user, caseId);
+    if (error) return error;
+
+    const comment = await addFraudCaseComment(fraudCase, body, auth.user);
+    return NextResponse.json({ success: true, comment });
+  } catch (error) {
+    console.error("Error adding fraud case comment:", error);
+    return NextResponse.json(
+      { error: "Failed to add comment" },
+      { status: 500 },
+    );
+  }
+}
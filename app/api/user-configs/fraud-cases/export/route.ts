@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { canUseConnection } from "@/lib/connection-policy";
+import { getConnectionsState } from "@/lib/connections";
+import { listFraudCaseLabels } from "@/lib/fraud-cases";
+
+// GET /api/user-configs/fraud-cases/export?format=csv|json&ruleId=...
+// Confirmed and false-positive cases, one row per case, for tuning rules
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "read");
+    if (auth.error) return auth.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "csv";
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json({ error: "format must be csv or json" }, { status: 400 });
+    }
+
+    const { connections } = await getConnectionsState();
+    const connectionIds = connections
+      .filter((c) => canUseConnection(c, auth.user))
+      .map((c) => c.id);
+    const labels = await listFraudCaseLabels({
+      ruleId: searchParams.get("ruleId") || undefined,
+      connectionIds,
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === "json") {
+      return new NextResponse(JSON.stringify(labels, null, 2), {
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="fraud-labels_${stamp}.json"`,
+        },
+      });
+    }
+
+    const XLSX = await import("xlsx");
+    const csv = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(labels));
+    // BOM so Excel reads the Thai rule names as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="fraud-labels_${stamp}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting fraud case labels:", error);
+    return NextResponse.json(
+      { error: "Failed to export labels" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { listFraudCaseHistory, requireFraudCase } from "@/lib/fraud-cases";
+
+// GET /api/user-configs/fraud-cases/history?caseId=... - newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "read");
+    if (auth.error) return auth.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const { fraudCase, error } = await requireFraudCase(auth.user, searchParams.get("caseId"));
+    if (error) return error;
+
+    const limit = parseInt(searchParams.get("limit") || "200");
+    const history = await listFraudCaseHistory(fraudCase.id, limit);
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error("Error getting fraud case history:", error);
+    return NextResponse.json(
+      { error: "Failed to get case history" },
+      { status: 500 },
+    );
+  }
+}
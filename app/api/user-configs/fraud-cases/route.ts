@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAccess } from "@/lib/auth";
+import { canUseConnection, requireConnection } from "@/lib/connection-policy";
+import { getConnectionsState } from "@/lib/connections";
+import {
+  createFraudCase,
+  FRAUD_CASE_STATUSES,
+  FraudCaseChanges,
+  listFraudCases,
+  requireFraudCase,
+  resolveFraudCaseAttachment,
+  updateFraudCase,
+} from "@/lib/fraud-cases";
+import {
+  FraudCaseAttachment,
+  FraudCaseAttachmentInput,
+  FraudCaseStatus,
+  FraudSeverity,
+} from "@/types/fraud";
+
+const SEVERITIES: FraudSeverity[] = ["low", "medium", "high", "critical"];
+
+type CreateCaseBody = {
+  title?: string;
+  severity?: FraudSeverity;
+  keyColumn?: string;
+  key?: string;
+  assignee?: string;
+  connectionId?: string;
+  database?: string;
+  attachment?: FraudCaseAttachmentInput;
+};
+
+type UpdateCaseBody = FraudCaseChanges & { id?: string };
+
+// GET /api/user-configs/fraud-cases?id=... - one case
+// GET /api/user-configs/fraud-cases?status=&assignee=&ruleId=&chartId= - cases on
+// connections shared with the user; assignee=unassigned lists cases without one
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "read");
+    if (auth.error) return auth.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get("id");
+    if (id) {
+      const { fraudCase, error } = await requireFraudCase(auth.user, id);
+      if (error) return error;
+      return NextResponse.json({ case: fraudCase });
+    }
+
+    const status = searchParams.get("status") as FraudCaseStatus | null;
+    if (status && !FRAUD_CASE_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+    const assignee = searchParams.get("assignee");
+    const { connections } = await getConnectionsState();
+    const connectionIds = connections
+      .filter((c) => canUseConnection(c, auth.user))
+      .map((c) => c.id);
+    const cases = await listFraudCases({
+      ruleId: searchParams.get("ruleId") || undefined,
+      chartId: searchParams.get("chartId") || undefined,
+      status: status || undefined,
+      assignee: assignee === "unassigned" ? "" : assignee?.toLowerCase() || undefined,
+      connectionIds,
+    });
+    return NextResponse.json({ cases });
+  } catch (error) {
+    console.error("Error fetching fraud cases:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fraud cases" },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/user-configs/fraud-cases - open a case by hand, optionally with a
+// chart or query attached as its first evidence
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as CreateCaseBody;
+    const title = body.title?.trim();
+    if (!title) {
+      return NextResponse.json({ error: "title is required" }, { status: 400 });
+    }
+    const severity = body.severity || "medium";
+    if (!SEVERITIES.includes(severity)) {
+      return NextResponse.json({ error: "Invalid severity" }, { status: 400 });
+    }
+
+    const attachments: FraudCaseAttachment[] = [];
+    if (body.attachment) {
+      const { attachment, error } = await resolveFraudCaseAttachment(auth.user, body.attachment);
+      if (error) return error;
+      attachments.push(attachment);
+    }
+    // The case lives on the evidence's connection unless one is given
+    const connectionId = body.connectionId || attachments[0]?.connectionId;
+    const database = body.database || attachments[0]?.database;
+    if (body.connectionId) {
+      const denied = await requireConnection(auth.user, body.connectionId);
+      if (denied.error) return denied.error;
+    }
+
+    const fraudCase = await createFraudCase(
+      {
+        title,
+        severity,
+        keyColumn: body.keyColumn?.trim() || "",
+        key: body.key?.trim() || "",
+        ...(body.assignee?.trim() ? { assignee: body.assignee.trim().toLowerCase() } : {}),
+        ...(connectionId ? { connectionId } : {}),
+        ...(database ? { database } : {}),
+      },
+      attachments,
+      auth.user,
+    );
+    return NextResponse.json({ success: true, case: fraudCase });
+  } catch (error) {
+    console.error("Error creating fraud case:", error);
+    return NextResponse.json(
+      { error: "Failed to create fraud case" },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/user-configs/fraud-cases - change status, assignee, severity or title
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireAccess(request, "fraud", "write");
+    if (auth.error) return auth.error;
+
+    const body = (await request.json()) as UpdateCaseBody;
+    const { fraudCase, error } = await requireFraudCase(auth.user, body.id);
+    if (error) return error;
+
+    const changes: FraudCaseChanges = {};
+    if (body.status !== undefined) {
+      if (!FRAUD_CASE_STATUSES.includes(body.status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+      changes.status = body.status;
+    }
+    if (body.severity !== undefined) {
+      if (!SEVERITIES.includes(body.severity)) {
+        return NextResponse.json({ error: "Invalid severity" }, { status: 400 });
+      }
+      changes.severity = body.severity;
+    }
+    if (body.assignee !== undefined) {
+      changes.assignee = body.assignee?.trim().toLowerCase() || undefined;
+    }
+    if (body.title !== undefined) {
+      changes.title = body.title?.trim() || undefined;
+    }
+
+    const updated = await updateFraudCase(fraudCase, changes, auth.user);
+    return NextResponse.json({ success: true, case: updated });
+  } catch (error) {
+    console.error("Error updating fraud case:", error);
+    return NextResponse.json(
+      { error: "Failed to update fraud case" },
+      { status: 500 },
+    );
+  }
+}
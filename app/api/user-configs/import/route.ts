@@ -1,16 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import {
+  getConnectionsState,
+  keepDatasetConnections,
+  mergeConnectionSecrets,
+  saveConnectionsState,
+} from "@/lib/connections";
+import { decryptWithPassphrase, isExportedSecret } from "@/lib/secrets";
+import { requireAccess } from "@/lib/auth";
 
 // POST /api/user-configs/import
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "import", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
-    const { tabs, connections, chartConfigs } = body as {
+    const { tabs, connections, chartConfigs, passphrase } = body as {
       tabs?: { tabs: unknown[]; groups?: unknown[] };
-      connections?: { connections: unknown[]; activeId?: string };
+      connections?: { connections: DbConnection[]; activeId?: string };
       chartConfigs?: Record<string, unknown>;
+      passphrase?: string;
     };
 
+    // Decrypt passphrase-protected passwords before anything is written
+    let importedConnections: DbConnection[] | null = null;
+    if (connections) {
+      try {
+        importedConnections = (connections.connections || []).map((conn) => {
+          if (!isExportedSecret(conn.password)) return conn;
+          if (!passphrase) {
+            throw new Error("passphrase required");
+          }
+          return {
+            ...conn,
+            password: decryptWithPassphrase(conn.password, passphrase),
+          };
+        });
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid or missing passphrase for connection secrets" },
+          { status: 400 }
+        );
+      }
+    }
+
     const db = await getDb();
 
     // Import chart configs
@@ -50,21 +85,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Import connections
-    if (connections) {
-      const connectionsCollection = db.collection("db_connections");
-      await connectionsCollection.updateOne(
-        { id: "default" },
-        {
-          $set: {
-            id: "default",
-            connections: connections.connections || [],
-            activeId: connections.activeId,
-            updatedAt: new Date(),
-          },
-        },
-        { upsert: true }
-      );
+    // Import connections (secrets omitted from the export keep their stored
+    // value, and uploaded datasets keep their connections)
+    if (connections && importedConnections) {
+      const stored = await getConnectionsState();
+      await saveConnectionsState({
+        connections: keepDatasetConnections(
+          mergeConnectionSecrets(importedConnections, stored.connections),
+          stored.connections,
+        ),
+        activeId: connections.activeId,
+      });
     }
 
     return NextResponse.json({ success: true });
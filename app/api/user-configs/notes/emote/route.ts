@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { NoteEmote } from "../route";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "notes";
 
 // PATCH /api/user-configs/notes/emote
 export async function PATCH(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "notes", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const {
       noteId,
@@ -40,6 +44,9 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, note.tabId);
+    if (denied) return denied;
+
     const currentEmotes = (note.emotes || []) as NoteEmote[];
     let updatedEmotes: NoteEmote[];
 
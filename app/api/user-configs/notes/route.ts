@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "notes";
 
@@ -26,6 +27,9 @@ export interface Note {
 // GET /api/user-configs/notes?tabId=...
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "notes", "read");
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const tabId = searchParams.get("tabId");
 
@@ -36,6 +40,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabId);
+    if (denied) return denied;
+
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
@@ -72,6 +79,9 @@ export async function GET(request: NextRequest) {
 // POST /api/user-configs/notes
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "notes", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const {
       id,
@@ -105,6 +115,13 @@ export async function POST(request: NextRequest) {
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
+    // Check the target tab and, for updates, the tab the note currently lives on
+    const existing = await collection.findOne({ id });
+    for (const noteTabId of new Set([tabId, existing?.tabId as string | undefined])) {
+      const denied = await requireTabAccess(auth.user, noteTabId);
+      if (denied) return denied;
+    }
+
     const now = new Date();
     const note: Note = {
       id,
@@ -145,6 +162,9 @@ export async function POST(request: NextRequest) {
 // DELETE /api/user-configs/notes?id=...
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "notes", "write");
+    if (auth.error) return auth.error;
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get("id");
 
@@ -158,6 +178,10 @@ export async function DELETE(request: NextRequest) {
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
+    const note = await collection.findOne({ id });
+    const denied = await requireTabAccess(auth.user, note?.tabId);
+    if (denied) return denied;
+
     await collection.deleteOne({ id });
 
     return NextResponse.json({ success: true });
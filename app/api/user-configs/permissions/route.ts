@@ -1,47 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { UserPermission, UserRole } from "@/types/permission";
-import { isSuperAdminFromEnv, canUserManagePermissions } from "@/lib/permissions";
+import { isSuperAdminFromEnv } from "@/lib/permissions";
+import { requireAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "user_permissions";
 
-// Helper to get user email from request
-async function getUserEmail(request: NextRequest): Promise<string | null> {
-  try {
-    const body = await request.json().catch(() => ({}));
-    const email = body.userEmail || request.headers.get("x-user-email");
-    return email || null;
-  } catch {
-    return request.headers.get("x-user-email");
-  }
-}
-
 // GET /api/user-configs/permissions - Get all permissions (super admin only)
 export async function GET(request: NextRequest) {
   try {
-    const userEmail = request.headers.get("x-user-email");
-    
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: "User email required" },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is super admin
-    if (!isSuperAdminFromEnv(userEmail)) {
-      // Check permission from database
-      const db = await getDb();
-      const collection = db.collection(COLLECTION_NAME);
-      const userPermission = await collection.findOne({ email: userEmail });
-      
-      if (!canUserManagePermissions(userEmail, userPermission?.role)) {
-        return NextResponse.json(
-          { error: "Unauthorized: Super admin access required" },
-          { status: 403 }
-        );
-      }
-    }
+    const auth = await requireAccess(request, "permissions", "read");
+    if (auth.error) return auth.error;
 
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
@@ -60,11 +29,13 @@ export async function GET(request: NextRequest) {
 // POST /api/user-configs/permissions - Create or update permission (super admin only)
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "permissions", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
-    const { email, role, userEmail: requesterEmail } = body as {
+    const { email, role } = body as {
       email: string;
       role: UserRole;
-      userEmail?: string;
     };
 
     if (!email || !role) {
@@ -74,35 +45,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const requester = requesterEmail || request.headers.get("x-user-email");
-    
-    if (!requester) {
-      return NextResponse.json(
-        { error: "Requester email required" },
-        { status: 401 }
-      );
-    }
-
-    // Check if requester is super admin
-    if (!isSuperAdminFromEnv(requester)) {
-      // Check permission from database
-      const db = await getDb();
-      const collection = db.collection(COLLECTION_NAME);
-      const requesterPermission = await collection.findOne({ email: requester });
-      
-      if (!canUserManagePermissions(requester, requesterPermission?.role)) {
-        return NextResponse.json(
-          { error: "Unauthorized: Super admin access required" },
-          { status: 403 }
-        );
-      }
-    }
-
+    const requester = auth.user.email;
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
     // Check if permission already exists
-    const existing = await collection.findOne({ email });
+    const existing = await collection.findOne({ email: email.toLowerCase() });
     
     const permission: UserPermission = {
       email: email.toLowerCase(),
@@ -131,10 +79,12 @@ export async function POST(request: NextRequest) {
 // DELETE /api/user-configs/permissions - Delete permission (super admin only)
 export async function DELETE(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "permissions", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
-    const { email, userEmail: requesterEmail } = body as {
+    const { email } = body as {
       email: string;
-      userEmail?: string;
     };
 
     if (!email) {
@@ -144,30 +94,6 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const requester = requesterEmail || request.headers.get("x-user-email");
-    
-    if (!requester) {
-      return NextResponse.json(
-        { error: "Requester email required" },
-        { status: 401 }
-      );
-    }
-
-    // Check if requester is super admin
-    if (!isSuperAdminFromEnv(requester)) {
-      // Check permission from database
-      const db = await getDb();
-      const collection = db.collection(COLLECTION_NAME);
-      const requesterPermission = await collection.findOne({ email: requester });
-      
-      if (!canUserManagePermissions(requester, requesterPermission?.role)) {
-        return NextResponse.json(
-          { error: "Unauthorized: Super admin access required" },
-          { status: 403 }
-        );
-      }
-    }
-
     // Prevent deleting super admin from env
     if (isSuperAdminFromEnv(email)) {
       return NextResponse.json(
@@ -189,4 +115,3 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
-
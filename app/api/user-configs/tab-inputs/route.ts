@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDb } from "@/lib/mongodb";
 import { TabInput } from "@/types/tab-input";
+import { requireAccess, requireTabAccess } from "@/lib/auth";
 
 const COLLECTION_NAME = "tab_inputs";
 
 // GET /api/user-configs/tab-inputs?tabId=...
 export async function GET(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "tab-inputs", "read");
+    if (auth.error) return auth.error;
+
     const searchParams = request.nextUrl.searchParams;
     const tabId = searchParams.get("tabId");
 
@@ -17,6 +21,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabId);
+    if (denied) return denied;
+
     const db = await getDb();
     const collection = db.collection(COLLECTION_NAME);
 
@@ -41,6 +48,9 @@ export async function GET(request: NextRequest) {
 // POST /api/user-configs/tab-inputs
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAccess(request, "tab-inputs", "write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
     const { tabId, inputs } = body as { tabId?: string; inputs?: TabInput[] };
 
@@ -51,6 +61,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireTabAccess(auth.user, tabId);
+    if (denied) return denied;
+
     if (!Array.isArray(inputs)) {
       return NextResponse.json(
         { error: "inputs must be an array" },
@@ -7,6 +7,8 @@ import { ChartConfigDialog } from "@/components/chart-config-dialog";
 import { SQLQueryDialog } from "@/components/sql-query-dialog";
 import { MatrixDialog } from "@/components/matrix-dialog";
 import { AiChartDialog } from "@/components/ai-chart-dialog";
+import { AlertRulesDialog } from "@/components/alert-rules-dialog";
+import { ChartFraudCasesDialog } from "@/components/chart-fraud-cases-dialog";
 import { TabInputsPanel } from "@/components/tab-inputs-panel";
 import { Button } from "@/components/ui/button";
 import { Plus, Database, Sparkles } from "lucide-react";
@@ -18,6 +20,17 @@ import { useTabInputs } from "@/hooks/use-tab-inputs";
 import { NoteComponent } from "@/components/note-component";
 import { useHelperContext } from "@/components/providers/helper-provider";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { TAB_REFRESH_EVENT, TabRefreshEventDetail } from "@/hooks/use-auto-refresh";
+import {
+  cancelRunningQuery,
+  isAbortError,
+  RunningQueryHandle,
+  trackRunningQuery,
+  untrackRunningQuery,
+} from "@/lib/query-cancel";
+import { ChartAggregation, getChartAggregation } from "@/lib/chart-aggregation";
+import { fetchExportRows, fetchGridPage, readExportRows } from "@/lib/grid-rows";
+import type { QueryCacheMeta } from "@/lib/query-cache";
 
 type ColumnsResponse = {
   columns: { name: string; type: string; nullable: boolean }[];
@@ -35,6 +48,37 @@ const hashSQLQuery = (sql: string): string => {
   return Math.abs(hash).toString(36);
 };
 
+// Table charts page through /api/db/rows; only this many rows are kept up
+// front, for column detection
+const GRID_SAMPLE_ROWS = 100;
+
+// Server result cache controls sent with chart queries
+type ChartFetchOptions = {
+  cacheTtlSeconds?: number;
+  refresh?: boolean; // Bypass cached results ("refresh this chart")
+};
+
+const withDataMeta = (
+  prev: Record<string, QueryCacheMeta>,
+  key: string,
+  data: Partial<QueryCacheMeta>,
+) =>
+  data.cachedAt
+    ? { ...prev, [key]: { cachedAt: data.cachedAt, cached: !!data.cached } }
+    : prev;
+
+// Delay between charts when the whole tab is refreshed
+const REFRESH_STAGGER_MS = 300;
+
+// MongoDB pipeline and federated tables are read in full, not paged through the grid
+const isGridChart = (config: Omit<ChartConfig, "id">) =>
+  config.type === "table" &&
+  !config.pipeline &&
+  !config.federated?.length &&
+  !!config.connectionId &&
+  !!config.database &&
+  (!!config.sqlQuery || !!config.tableName);
+
 export default function Page() {
   const params = useParams<{ tab: string }>();
   const tabId = params.tab;
@@ -52,12 +96,9 @@ export default function Page() {
     }
   }, [permissions, router]);
 
-  // Don't render if no permission
-  if (permissions !== null && !permissions.canView) {
-    return null;
-  }
   const {
     configs,
+    isForbidden,
     addChart,
     insertChart,
     updateChart,
@@ -70,6 +111,13 @@ export default function Page() {
     userEmail: userInfo?.email || "",
   });
 
+  // Tab (or one of its folders) is shared with other users only
+  React.useEffect(() => {
+    if (isForbidden) {
+      router.push("/dashboard/no-permission");
+    }
+  }, [isForbidden, router]);
+
   const {
     notes,
     isLoaded: notesLoaded,
@@ -99,6 +147,8 @@ export default function Page() {
     return map;
   }, [tabInputs]);
 
+  // Resolves {{key}} for cache keys and table filter values (which are bound
+  // server-side). SQL templates are sent as-is and bound by /api/db/query-sql.
   const resolveTemplateString = React.useCallback(
     (template?: string | null): string | undefined => {
       if (template === undefined || template === null) {
@@ -107,7 +157,7 @@ export default function Page() {
       if (!template.includes("{{")) {
         return template;
       }
-      return template.replace(/{{\s*([\w.-]+)\s*}}/g, (_, key) => {
+      return template.replace(/{{\s*(?:raw:)?\s*([\w.-]+)\s*}}/g, (_, key) => {
         const normalizedKey = key.trim();
         if (!normalizedKey) {
           return "";
@@ -174,6 +224,21 @@ export default function Page() {
     [serializeFiltersForKey],
   );
 
+  // Aggregated charts get their own key: two charts on one table group differently
+  const getAggregateDataKey = React.useCallback(
+    (
+      connectionId: string,
+      database: string,
+      tableName: string,
+      aggregation: ChartAggregation,
+      filters?: FilterRule[],
+    ) => {
+      const base = getTableDataKey(connectionId, database, tableName, filters);
+      return `${base}.agg.${hashSQLQuery(JSON.stringify(aggregation))}`;
+    },
+    [getTableDataKey],
+  );
+
   const getSqlDataKey = React.useCallback(
     (connectionId: string, database: string, sql: string) => {
       const hash = hashSQLQuery(sql.trim());
@@ -182,10 +247,66 @@ export default function Page() {
     [],
   );
 
+  // MongoDB charts: the collection's key plus the resolved pipeline
+  const getPipelineDataKey = React.useCallback(
+    (config: Omit<ChartConfig, "id">) => {
+      const base = getTableDataKey(
+        config.connectionId!,
+        config.database!,
+        config.tableName!,
+        resolveFiltersWithInputs(config.filters),
+      );
+      const pipeline = (resolveTemplateString(config.pipeline) ?? "").trim();
+      return `${base}.pipeline.${hashSQLQuery(pipeline)}`;
+    },
+    [getTableDataKey, resolveFiltersWithInputs, resolveTemplateString],
+  );
+
+  // Federated charts: every source's resolved SQL plus the joining SQL
+  const getFederatedDataKey = React.useCallback(
+    (config: Omit<ChartConfig, "id">) => {
+      const resolved = JSON.stringify({
+        sources: (config.federated ?? []).map((source) => ({
+          ...source,
+          sql: (resolveTemplateString(source.sql) ?? "").trim(),
+        })),
+        sql: (resolveTemplateString(config.sqlQuery) ?? "").trim(),
+      });
+      return `federated.${hashSQLQuery(resolved)}`;
+    },
+    [resolveTemplateString],
+  );
+
+  // Grid samples get their own key so they never stand in for a chart's full rows
+  const getGridDataKey = React.useCallback(
+    (config: Omit<ChartConfig, "id">) => {
+      const base = config.sqlQuery
+        ? getSqlDataKey(
+            config.connectionId!,
+            config.database!,
+            (resolveTemplateString(config.sqlQuery) ?? "").trim(),
+          )
+        : getTableDataKey(
+            config.connectionId!,
+            config.database!,
+            config.tableName!,
+            resolveFiltersWithInputs(config.filters),
+          );
+      return `${base}.grid`;
+    },
+    [getSqlDataKey, getTableDataKey, resolveFiltersWithInputs, resolveTemplateString],
+  );
+
   const configUsesTabInputs = React.useCallback((config: ChartConfig) => {
     if (config.sqlQuery && config.sqlQuery.includes("{{")) {
       return true;
     }
+    if (config.federated?.some((source) => source.sql.includes("{{"))) {
+      return true;
+    }
+    if (config.pipeline && config.pipeline.includes("{{")) {
+      return true;
+    }
     if (
       config.filters &&
       config.filters.some(
@@ -215,6 +336,8 @@ export default function Page() {
   const [isMatrixDialogOpen, setIsMatrixDialogOpen] = useState(false);
   const [isAiDialogOpen, setIsAiDialogOpen] = useState(false);
   const [editingConfig, setEditingConfig] = useState<ChartConfig | undefined>();
+  const [alertsChart, setAlertsChart] = useState<ChartConfig | null>(null);
+  const [fraudCasesChart, setFraudCasesChart] = useState<ChartConfig | null>(null);
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [previewWidths, setPreviewWidths] = useState<Record<string, number>>(
     {},
@@ -252,7 +375,20 @@ export default function Page() {
   // no local fetching spinner at page level
   const [columns, setColumns] = useState<Record<string, string[]>>({});
   const [rowsByTable, setRowsByTable] = useState<Record<string, unknown[]>>({});
+  // When each data key was read from the database, and whether it came from the cache
+  const [dataMeta, setDataMeta] = useState<Record<string, QueryCacheMeta>>({});
   const [loadingTables, setLoadingTables] = useState<Set<string>>(new Set());
+  // In-flight queries by data key, so a loading chart can be cancelled
+  const runningQueriesRef = React.useRef<Map<string, RunningQueryHandle>>(
+    new Map(),
+  );
+
+  const cancelQuery = (key: string) => {
+    const handle = runningQueriesRef.current.get(key);
+    if (!handle) return;
+    runningQueriesRef.current.delete(key);
+    cancelRunningQuery(handle);
+  };
 
   // Tables are fetched inside dialog per selected database
 
@@ -263,17 +399,11 @@ export default function Page() {
   ) => {
     const key = `${connectionId}:${database}.${table}`;
     if (columns[key]) return;
-    const conn = connections.find((c) => c.id === connectionId);
-    if (!conn) return;
     const res = await fetch("/api/db/columns", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        type: conn.type,
-        host: conn.host,
-        port: conn.port,
-        user: conn.user,
-        password: conn.password,
+        connectionId,
         database,
         table,
       }),
@@ -290,23 +420,21 @@ export default function Page() {
       cols?: string[],
       filters?: FilterRule[],
       useLimit: boolean = true,
+      options?: ChartFetchOptions,
     ) => {
       const key = getTableDataKey(connectionId, database, table, filters);
-      const conn = connections.find((c) => c.id === connectionId);
-      if (!conn) return;
 
       setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
       try {
         const body: Record<string, unknown> = {
-          type: conn.type,
-          host: conn.host,
-          port: conn.port,
-          user: conn.user,
-          password: conn.password,
+          connectionId,
           database,
           table,
           columns: cols,
           filters,
+          queryId: handle.queryId,
+          ...options,
         };
 
         // Only add limit if useLimit is true
@@ -318,9 +446,12 @@ export default function Page() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(body),
+          signal: handle.controller.signal,
         });
-        const data = (await res.json()) as { rows?: unknown[] };
+        const data = (await res.json()) as { rows?: unknown[] } &
+          Partial<QueryCacheMeta>;
         const newRows = data.rows ?? [];
+        setDataMeta((prev) => withDataMeta(prev, key, data));
 
         // Merge with existing data to preserve all columns
         setRowsByTable((prev) => {
@@ -407,9 +538,10 @@ export default function Page() {
 
         return newRows as Record<string, unknown>[];
       } catch (e) {
-        console.error("Error fetching rows:", e);
+        if (!isAbortError(e)) console.error("Error fetching rows:", e);
         return [];
       } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
         setLoadingTables((prev) => {
           const next = new Set(prev);
           next.delete(key);
@@ -417,7 +549,108 @@ export default function Page() {
         });
       }
     },
-    [connections, getTableDataKey],
+    [getTableDataKey],
+  );
+
+  const fetchAggregatedRows = React.useCallback(
+    async (
+      connectionId: string,
+      database: string,
+      table: string,
+      aggregation: ChartAggregation,
+      filters?: FilterRule[],
+      options?: ChartFetchOptions,
+    ) => {
+      const key = getAggregateDataKey(
+        connectionId,
+        database,
+        table,
+        aggregation,
+        filters,
+      );
+
+      setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
+      try {
+        const res = await fetch("/api/db/aggregate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            connectionId,
+            database,
+            table,
+            aggregation,
+            filters,
+            queryId: handle.queryId,
+            ...options,
+          }),
+          signal: handle.controller.signal,
+        });
+        const data = (await res.json()) as { rows?: unknown[] } &
+          Partial<QueryCacheMeta>;
+        const newRows = data.rows ?? [];
+        setDataMeta((prev) => withDataMeta(prev, key, data));
+        setRowsByTable((prev) => ({ ...prev, [key]: newRows }));
+        return newRows as Record<string, unknown>[];
+      } catch (e) {
+        if (!isAbortError(e)) console.error("Error fetching aggregated rows:", e);
+        return [];
+      } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
+        setLoadingTables((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    },
+    [getAggregateDataKey],
+  );
+
+  // Table-based charts: bar/line/pie are grouped by the database, the rest load raw rows
+  const fetchTableChartRows = React.useCallback(
+    (
+      config: Omit<ChartConfig, "id">,
+      resolvedFilters?: FilterRule[],
+      refresh?: boolean,
+    ) => {
+      if (!config.connectionId || !config.database || !config.tableName) {
+        return Promise.resolve([] as Record<string, unknown>[]);
+      }
+      const options = { cacheTtlSeconds: config.cacheTtlSeconds, refresh };
+      const aggregation = getChartAggregation(config);
+      if (aggregation) {
+        return fetchAggregatedRows(
+          config.connectionId,
+          config.database,
+          config.tableName,
+          aggregation,
+          resolvedFilters,
+          options,
+        );
+      }
+      const neededCols = Array.from(
+        new Set(
+          [
+            ...(config.columns || []),
+            config.xAxisKey || "",
+            config.yAxisKey || "",
+            config.groupByKey || "",
+            config.seriesKey || "",
+          ].filter(Boolean) as string[],
+        ),
+      );
+      return fetchRows(
+        config.connectionId,
+        config.database,
+        config.tableName,
+        neededCols.length ? neededCols : undefined,
+        resolvedFilters,
+        true,
+        options,
+      );
+    },
+    [fetchAggregatedRows, fetchRows],
   );
 
   // if needed we can compute available fields per current dialog table
@@ -442,13 +675,13 @@ export default function Page() {
       database: string,
       sqlQuery: string,
       useLimit: boolean = true,
+      options?: ChartFetchOptions,
     ) => {
       const resolvedSql = (resolveTemplateString(sqlQuery) ?? "").trim();
       const key = getSqlDataKey(connectionId, database, resolvedSql || "");
-      const conn = connections.find((c) => c.id === connectionId);
-      if (!conn) return;
 
       setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
       try {
         if (!resolvedSql) {
           setRowsByTable((prev) => ({ ...prev, [key]: [] }));
@@ -456,13 +689,18 @@ export default function Page() {
         }
 
         const body: Record<string, unknown> = {
-          type: conn.type,
-          host: conn.host,
-          port: conn.port,
-          user: conn.user,
-          password: conn.password,
+          connectionId,
           database,
-          sql: resolvedSql,
+          sql: sqlQuery,
+          tabId,
+          inputs: tabInputs.map(({ key, type, value, defaultValue }) => ({
+            key,
+            type,
+            value,
+            defaultValue,
+          })),
+          queryId: handle.queryId,
+          ...options,
         };
 
         // Only add limit if useLimit is true
@@ -474,15 +712,118 @@ export default function Page() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(body),
+          signal: handle.controller.signal,
+        });
+        const data = (await res.json()) as { rows?: unknown[] } &
+          Partial<QueryCacheMeta>;
+        const newRows = data.rows ?? [];
+        setDataMeta((prev) => withDataMeta(prev, key, data));
+        setRowsByTable((prev) => ({ ...prev, [key]: newRows }));
+        return newRows as Record<string, unknown>[];
+      } catch (e) {
+        if (!isAbortError(e)) console.error("Error fetching SQL rows:", e);
+        return [];
+      } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
+        setLoadingTables((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    },
+    [getSqlDataKey, resolveTemplateString, tabId, tabInputs],
+  );
+
+  // MongoDB charts: tab inputs and chart filters are bound by /api/db/query-mongo
+  const fetchPipelineRows = React.useCallback(
+    async (config: Omit<ChartConfig, "id">, options?: ChartFetchOptions) => {
+      const key = getPipelineDataKey(config);
+
+      setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
+      try {
+        const res = await fetch("/api/db/query-mongo", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            connectionId: config.connectionId,
+            database: config.database,
+            collection: config.tableName,
+            pipeline: config.pipeline,
+            filters: resolveFiltersWithInputs(config.filters),
+            tabId,
+            inputs: tabInputs.map(({ key, type, value, defaultValue }) => ({
+              key,
+              type,
+              value,
+              defaultValue,
+            })),
+            limit: 1000000,
+            queryId: handle.queryId,
+            ...options,
+          }),
+          signal: handle.controller.signal,
+        });
+        const data = (await res.json()) as { rows?: unknown[] } &
+          Partial<QueryCacheMeta>;
+        const newRows = data.rows ?? [];
+        setDataMeta((prev) => withDataMeta(prev, key, data));
+        setRowsByTable((prev) => ({ ...prev, [key]: newRows }));
+        return newRows as Record<string, unknown>[];
+      } catch (e) {
+        if (!isAbortError(e)) console.error("Error fetching pipeline rows:", e);
+        return [];
+      } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
+        setLoadingTables((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    },
+    [getPipelineDataKey, resolveFiltersWithInputs, tabId, tabInputs],
+  );
+
+  // Federated charts: each source and the joining SQL are bound by /api/db/query-federated
+  const fetchFederatedRows = React.useCallback(
+    async (config: Omit<ChartConfig, "id">, options?: ChartFetchOptions) => {
+      const key = getFederatedDataKey(config);
+
+      setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
+      try {
+        const res = await fetch("/api/db/query-federated", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            sources: config.federated,
+            sql: config.sqlQuery,
+            tabId,
+            inputs: tabInputs.map(({ key, type, value, defaultValue }) => ({
+              key,
+              type,
+              value,
+              defaultValue,
+            })),
+            limit: 1000000,
+            queryId: handle.queryId,
+            ...options,
+          }),
+          signal: handle.controller.signal,
         });
-        const data = (await res.json()) as { rows?: unknown[] };
+        const data = (await res.json()) as { rows?: unknown[] } &
+          Partial<QueryCacheMeta>;
         const newRows = data.rows ?? [];
+        setDataMeta((prev) => withDataMeta(prev, key, data));
         setRowsByTable((prev) => ({ ...prev, [key]: newRows }));
         return newRows as Record<string, unknown>[];
       } catch (e) {
-        console.error("Error fetching SQL rows:", e);
+        if (!isAbortError(e)) console.error("Error fetching federated rows:", e);
         return [];
       } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
         setLoadingTables((prev) => {
           const next = new Set(prev);
           next.delete(key);
@@ -490,7 +831,107 @@ export default function Page() {
         });
       }
     },
-    [connections, getSqlDataKey, resolveTemplateString],
+    [getFederatedDataKey, tabId, tabInputs],
+  );
+
+  // Request body naming a grid chart's rows for /api/db/rows and /api/db/export
+  const getChartSourceBody = (
+    config: Omit<ChartConfig, "id">,
+    filters?: FilterRule[],
+  ): Record<string, unknown> => ({
+    connectionId: config.connectionId,
+    database: config.database,
+    filters: resolveFiltersWithInputs(filters),
+    ...(config.sqlQuery
+      ? {
+          sql: config.sqlQuery,
+          tabId,
+          inputs: tabInputs.map(({ key, type, value, defaultValue }) => ({
+            key,
+            type,
+            value,
+            defaultValue,
+          })),
+        }
+      : { table: config.tableName, columns: config.columns }),
+  });
+
+  const fetchGridSample = React.useCallback(
+    async (config: Omit<ChartConfig, "id">) => {
+      const key = getGridDataKey(config);
+
+      setLoadingTables((prev) => new Set(prev).add(key));
+      const handle = trackRunningQuery(runningQueriesRef.current, key);
+      try {
+        const page = await fetchGridPage(
+          {
+            ...getChartSourceBody(config, config.filters),
+            queryId: handle.queryId,
+          },
+          { startRow: 0, endRow: GRID_SAMPLE_ROWS },
+          handle.controller.signal,
+        );
+        setRowsByTable((prev) => ({ ...prev, [key]: page.rows }));
+        setDataMeta((prev) => withDataMeta(prev, key, page));
+        return page.rows;
+      } catch (e) {
+        if (!isAbortError(e)) console.error("Error fetching table rows:", e);
+        return [];
+      } finally {
+        untrackRunningQuery(runningQueriesRef.current, key, handle);
+        setLoadingTables((prev) => {
+          const next = new Set(prev);
+          next.delete(key);
+          return next;
+        });
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [getGridDataKey, resolveFiltersWithInputs, tabId, tabInputs],
+  );
+
+  // Initial rows for any chart: a grid sample, SQL rows, or table rows.
+  // refresh skips the server cache (grid blocks are always read live).
+  const fetchChartRows = React.useCallback(
+    (config: Omit<ChartConfig, "id">, refresh?: boolean) => {
+      if (isGridChart(config)) {
+        return fetchGridSample(config);
+      }
+      if (config.federated?.length && config.sqlQuery) {
+        return fetchFederatedRows(config, {
+          cacheTtlSeconds: config.cacheTtlSeconds,
+          refresh,
+        });
+      }
+      if (config.pipeline && config.connectionId && config.database && config.tableName) {
+        return fetchPipelineRows(config, {
+          cacheTtlSeconds: config.cacheTtlSeconds,
+          refresh,
+        });
+      }
+      if (config.sqlQuery && config.connectionId && config.database) {
+        return fetchSQLRows(
+          config.connectionId,
+          config.database,
+          config.sqlQuery,
+          true,
+          { cacheTtlSeconds: config.cacheTtlSeconds, refresh },
+        );
+      }
+      return fetchTableChartRows(
+        config,
+        resolveFiltersWithInputs(config.filters),
+        refresh,
+      );
+    },
+    [
+      fetchFederatedRows,
+      fetchGridSample,
+      fetchPipelineRows,
+      fetchSQLRows,
+      fetchTableChartRows,
+      resolveFiltersWithInputs,
+    ],
   );
 
   const handleDuplicateChart = (config: ChartConfig) => {
@@ -502,29 +943,7 @@ export default function Page() {
     };
     insertChart(duplicatedConfig, nextIndex);
     // Fetch data for the duplicated chart
-    if (config.sqlQuery && config.connectionId && config.database) {
-      fetchSQLRows(config.connectionId, config.database, config.sqlQuery);
-    } else if (config.connectionId && config.database && config.tableName) {
-      const resolvedFilters = resolveFiltersWithInputs(config.filters);
-      const neededCols = Array.from(
-        new Set(
-          [
-            ...(config.columns || []),
-            config.xAxisKey || "",
-            config.yAxisKey || "",
-            config.groupByKey || "",
-            config.seriesKey || "",
-          ].filter(Boolean) as string[],
-        ),
-      );
-      fetchRows(
-        config.connectionId,
-        config.database,
-        config.tableName,
-        neededCols.length ? neededCols : undefined,
-        resolvedFilters,
-      );
-    }
+    fetchChartRows(config);
   };
   const handleSaveChart = (config: Omit<ChartConfig, "id">) => {
     if (editingConfig) updateChart(editingConfig.id, config);
@@ -532,25 +951,8 @@ export default function Page() {
     setIsDialogOpen(false);
     setEditingConfig(undefined);
     // load rows for this chart's table if possible
-    const cfg = config as Partial<ChartConfig> & { tableName?: string };
-    if (cfg.connectionId && cfg.database && cfg.tableName) {
-      const resolvedFilters = resolveFiltersWithInputs(config.filters);
-      const neededCols = Array.from(
-        new Set(
-          [
-            ...(config.columns || []),
-            cfg.xAxisKey || "",
-            cfg.yAxisKey || "",
-          ].filter(Boolean) as string[],
-        ),
-      );
-      fetchRows(
-        cfg.connectionId,
-        cfg.database,
-        cfg.tableName,
-        neededCols.length ? neededCols : undefined,
-        resolvedFilters,
-      );
+    if (config.connectionId && config.database && config.tableName) {
+      fetchChartRows(config);
     }
   };
 
@@ -559,9 +961,9 @@ export default function Page() {
     else addChart(config);
     setIsSQLDialogOpen(false);
     setEditingConfig(undefined);
-    // load rows for SQL query
-    if (config.connectionId && config.database && config.sqlQuery) {
-      fetchSQLRows(config.connectionId, config.database, config.sqlQuery);
+    // load rows for SQL query or MongoDB pipeline
+    if (config.connectionId && config.database && (config.sqlQuery || config.pipeline)) {
+      fetchChartRows(config);
     }
   };
 
@@ -600,9 +1002,29 @@ export default function Page() {
     const pending: Array<Promise<void>> = [];
     for (const c of configs) {
       // Fetch columns for table-based charts to populate availableFields
-      if (c.connectionId && c.database && c.tableName) {
+      if (c.connectionId && c.database && c.tableName && !c.pipeline) {
         fetchColumns(c.connectionId, c.database, c.tableName);
       }
+      if (isGridChart(c)) {
+        if (!rowsByTable[getGridDataKey(c)]?.length) {
+          pending.push(fetchGridSample(c).then(() => undefined));
+        }
+        continue;
+      }
+      // Handle federated charts
+      if (c.federated?.length && c.sqlQuery) {
+        if (!rowsByTable[getFederatedDataKey(c)]?.length) {
+          pending.push(fetchFederatedRows(c).then(() => undefined));
+        }
+        continue;
+      }
+      // Handle MongoDB pipeline charts
+      if (c.connectionId && c.database && c.tableName && c.pipeline) {
+        if (!rowsByTable[getPipelineDataKey(c)]?.length) {
+          pending.push(fetchPipelineRows(c).then(() => undefined));
+        }
+        continue;
+      }
       // Handle SQL query charts (including matrix)
       if (c.connectionId && c.database && c.sqlQuery) {
         const resolvedSql = (resolveTemplateString(c.sqlQuery) ?? "").trim();
@@ -626,6 +1048,22 @@ export default function Page() {
       // Handle table-based charts
       if (c.connectionId && c.database && c.tableName) {
         const resolvedFilters = resolveFiltersWithInputs(c.filters);
+        const aggregation = getChartAggregation(c);
+        if (aggregation) {
+          const aggregateKey = getAggregateDataKey(
+            c.connectionId,
+            c.database,
+            c.tableName,
+            aggregation,
+            resolvedFilters,
+          );
+          if (!rowsByTable[aggregateKey]?.length) {
+            pending.push(
+              fetchTableChartRows(c, resolvedFilters).then(() => undefined),
+            );
+          }
+          continue;
+        }
         const key = getTableDataKey(
           c.connectionId,
           c.database,
@@ -688,38 +1126,12 @@ export default function Page() {
     const pending: Array<Promise<void>> = [];
     for (const config of configs) {
       if (!configUsesTabInputs(config)) continue;
-      if (config.sqlQuery && config.connectionId && config.database) {
-        pending.push(
-          fetchSQLRows(
-            config.connectionId,
-            config.database,
-            config.sqlQuery,
-          ).then(() => undefined),
-        );
-        continue;
-      }
-      if (config.connectionId && config.database && config.tableName) {
-        const resolvedFilters = resolveFiltersWithInputs(config.filters);
-        const neededCols = Array.from(
-          new Set(
-            [
-              ...(config.columns || []),
-              config.xAxisKey || "",
-              config.yAxisKey || "",
-              config.groupByKey || "",
-              config.seriesKey || "",
-            ].filter(Boolean) as string[],
-          ),
-        );
-        pending.push(
-          fetchRows(
-            config.connectionId,
-            config.database,
-            config.tableName,
-            neededCols.length ? neededCols : undefined,
-            resolvedFilters,
-          ).then(() => undefined),
-        );
+      if (
+        config.connectionId &&
+        config.database &&
+        (config.sqlQuery || config.tableName)
+      ) {
+        pending.push(fetchChartRows(config).then(() => undefined));
       }
     }
     if (pending.length) {
@@ -730,15 +1142,44 @@ export default function Page() {
     connections.length,
     tabInputsLoaded,
     configUsesTabInputs,
-    resolveFiltersWithInputs,
-    fetchRows,
-    fetchSQLRows,
+    fetchChartRows,
   ]);
 
   useEffect(() => {
     void refreshChartsForTabInputs();
   }, [tabInputSignature, refreshChartsForTabInputs]);
 
+  // Header refresh (manual or auto-refresh): refetch every chart, staggered
+  // so the tab's queries do not all hit the database at once
+  useEffect(() => {
+    const timers: number[] = [];
+    const handleTabRefresh = (event: CustomEvent<TabRefreshEventDetail>) => {
+      if (event.detail.tabId !== tabId) return;
+      timers.splice(0).forEach((timer) => window.clearTimeout(timer));
+      configs
+        .filter(
+          (c) => c.connectionId && c.database && (c.sqlQuery || c.tableName),
+        )
+        .forEach((config, index) => {
+          timers.push(
+            window.setTimeout(() => {
+              void fetchChartRows(config, event.detail.refresh);
+            }, index * REFRESH_STAGGER_MS),
+          );
+        });
+    };
+    window.addEventListener(TAB_REFRESH_EVENT, handleTabRefresh as EventListener);
+    return () => {
+      window.removeEventListener(TAB_REFRESH_EVENT, handleTabRefresh as EventListener);
+      timers.forEach((timer) => window.clearTimeout(timer));
+    };
+  }, [configs, tabId, fetchChartRows]);
+
+  // Don't render if no permission; only after every hook, so hook order never changes
+  if (permissions !== null && !permissions.canView) {
+    return null;
+  }
+
   return (
     <div className="p-5 space-y-4 relative" data-content-container>
       {/* Notes overlay - positioned relative to content container */}
@@ -824,19 +1265,34 @@ export default function Page() {
               : undefined;
 
             let dataKey: string | null = null;
-            if (hasSqlSource) {
+            if (isGridChart(config)) {
+              dataKey = getGridDataKey(config);
+            } else if (config.federated?.length && hasSqlSource) {
+              dataKey = getFederatedDataKey(config);
+            } else if (hasTableSource && config.pipeline) {
+              dataKey = getPipelineDataKey(config);
+            } else if (hasSqlSource) {
               dataKey = getSqlDataKey(
                 config.connectionId!,
                 config.database!,
                 resolvedSqlForConfig || "",
               );
             } else if (hasTableSource) {
-              dataKey = getTableDataKey(
-                config.connectionId!,
-                config.database!,
-                config.tableName!,
-                resolvedFiltersForConfig,
-              );
+              const aggregation = getChartAggregation(config);
+              dataKey = aggregation
+                ? getAggregateDataKey(
+                    config.connectionId!,
+                    config.database!,
+                    config.tableName!,
+                    aggregation,
+                    resolvedFiltersForConfig,
+                  )
+                : getTableDataKey(
+                    config.connectionId!,
+                    config.database!,
+                    config.tableName!,
+                    resolvedFiltersForConfig,
+                  );
             }
             const isLoading = dataKey ? loadingTables.has(dataKey) : false;
             const hasWidth =
@@ -895,36 +1351,44 @@ export default function Page() {
                       : []
                   }
                   isLoading={isLoading}
+                  cacheMeta={dataKey ? dataMeta[dataKey] : undefined}
+                  onRefresh={
+                    hasSqlSource || hasTableSource
+                      ? () => fetchChartRows(config, true)
+                      : undefined
+                  }
+                  isPreAggregated={hasTableSource && !!getChartAggregation(config)}
+                  onCancelLoading={
+                    isLoading && dataKey
+                      ? () => cancelQuery(dataKey!)
+                      : undefined
+                  }
+                  onFetchPage={
+                    isGridChart(config)
+                      ? (request, filters) =>
+                          fetchGridPage(
+                            getChartSourceBody(config, filters),
+                            request,
+                          )
+                      : undefined
+                  }
                   onFetchAllData={
-                    config.sqlQuery && config.connectionId && config.database
-                      ? async () => {
-                          return (
-                            (await fetchSQLRows(
-                              config.connectionId!,
-                              config.database!,
-                              config.sqlQuery!,
-                              false, // Don't use limit - fetch all data
-                            )) ?? []
-                          );
-                        }
-                      : config.tableName &&
-                        config.connectionId &&
-                        config.database
-                      ? async () => {
-                          const latestFilters = resolveFiltersWithInputs(
-                            config.filters,
-                          );
-                          return (
-                            (await fetchRows(
-                              config.connectionId!,
-                              config.database!,
-                              config.tableName!,
-                              config.columns,
-                              latestFilters,
-                              false, // Don't use limit - fetch all data
-                            )) ?? []
-                          );
-                        }
+                    isGridChart(config)
+                      ? (request, filters) =>
+                          fetchExportRows(
+                            getChartSourceBody(config, filters),
+                            request,
+                          )
+                      : undefined
+                  }
+                  onStreamAllData={
+                    isGridChart(config)
+                      ? (request, filters, onRows) =>
+                          readExportRows(
+                            getChartSourceBody(config, filters),
+                            request,
+                            onRows,
+                          )
                       : undefined
                   }
                   onUpdate={
@@ -951,9 +1415,9 @@ export default function Page() {
                       ? undefined
                       : (c) => {
                           setEditingConfig(c);
-                          if (c.type === "matrix") {
+                          if (c.type === "matrix" && !c.pipeline && !c.federated) {
                             setIsMatrixDialogOpen(true);
-                          } else if (c.sqlQuery) {
+                          } else if (c.sqlQuery || c.pipeline) {
                             setIsSQLDialogOpen(true);
                           } else if (c.type === "markdown") {
                             setIsDialogOpen(true);
@@ -982,6 +1446,10 @@ export default function Page() {
                   }
                   onDuplicate={isLocked || !permissions?.canEdit ? undefined : handleDuplicateChart}
                   onDelete={isLocked || !permissions?.canEdit ? undefined : removeChart}
+                  onConfigureAlerts={
+                    hasSqlSource || hasTableSource ? setAlertsChart : undefined
+                  }
+                  onOpenFraudCases={setFraudCasesChart}
                   onDragStart={isLocked ? undefined : (id) => setDraggedId(id)}
                   onDragEnd={isLocked ? undefined : () => setDraggedId(null)}
                   isDragging={draggedId === config.id}
@@ -992,8 +1460,10 @@ export default function Page() {
                   }
                   index={index}
                   availableFields={
-                    config.sqlQuery && config.connectionId && config.database
-                      ? // For SQL charts, get fields from the data itself
+                    (config.sqlQuery || config.pipeline) &&
+                    config.connectionId &&
+                    config.database
+                      ? // For SQL and pipeline charts, get fields from the data itself
                         dataKey &&
                         rowsByTable[dataKey] &&
                         rowsByTable[dataKey].length > 0
@@ -1016,37 +1486,13 @@ export default function Page() {
                     if (!isLocked) {
                       updateChart(id, { filters });
                     }
-                    const resolvedFilters = resolveFiltersWithInputs(filters);
                     // Refetch data with filters (works in both locked and unlocked mode)
-                    if (cfg.sqlQuery && cfg.connectionId && cfg.database) {
-                      fetchSQLRows(
-                        cfg.connectionId,
-                        cfg.database,
-                        cfg.sqlQuery,
-                      );
-                    } else if (
+                    if (
                       cfg.connectionId &&
                       cfg.database &&
-                      cfg.tableName
+                      (cfg.sqlQuery || cfg.tableName)
                     ) {
-                      const neededCols = Array.from(
-                        new Set(
-                          [
-                            ...(cfg.columns || []),
-                            cfg.xAxisKey || "",
-                            cfg.yAxisKey || "",
-                            cfg.groupByKey || "",
-                            cfg.seriesKey || "",
-                          ].filter(Boolean) as string[],
-                        ),
-                      );
-                      fetchRows(
-                        cfg.connectionId,
-                        cfg.database,
-                        cfg.tableName,
-                        neededCols.length ? neededCols : undefined,
-                        resolvedFilters,
-                      );
+                      fetchChartRows({ ...cfg, filters });
                     }
                   }}
                 />
@@ -1081,6 +1527,28 @@ export default function Page() {
         onSave={(c) => handleSaveMatrixChart(c)}
       />
 
+      {alertsChart && (
+        <AlertRulesDialog
+          key={alertsChart.id}
+          open={!!alertsChart}
+          onOpenChange={(open) => !open && setAlertsChart(null)}
+          tabId={tabId}
+          chart={alertsChart}
+          canEdit={!!permissions?.canEdit}
+        />
+      )}
+
+      {fraudCasesChart && (
+        <ChartFraudCasesDialog
+          key={fraudCasesChart.id}
+          open={!!fraudCasesChart}
+          onOpenChange={(open) => !open && setFraudCasesChart(null)}
+          tabId={tabId}
+          chart={fraudCasesChart}
+          canEdit={!!permissions?.canEdit}
+        />
+      )}
+
       <AiChartDialog
         open={isAiDialogOpen}
         onOpenChange={setIsAiDialogOpen}
@@ -6,6 +6,9 @@ import { Database, RefreshCw, CheckCircle2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useHelperContext } from "@/components/providers/helper-provider";
 import { useRouter } from "next/navigation";
+import { ConnectionPolicyEditor } from "@/components/connection-policy-editor";
+import { DatasetsPanel } from "@/components/datasets-panel";
+import { DB_TYPE_IDS, getDbTypeInfo, isFileDbType } from "@/lib/db-types";
 
 type TablesResponse = {
   databases?: string[];
@@ -19,6 +22,7 @@ export default function Page() {
     addConnection,
     updateConnection,
     removeConnection,
+    reload,
   } = useConnections();
   const { permissions, router } = useHelperContext()();
   const [isFetching, setIsFetching] = useState(false);
@@ -38,10 +42,17 @@ export default function Page() {
     return null;
   }
 
+  // Only super admins may change connections; everyone else gets a read-only view
+  const canManage = !!permissions?.isSuperAdmin;
+
   const testConnection = async (
     conn: ReturnType<typeof useConnections>["connections"][0],
   ) => {
-    if (!conn.host || !conn.user) {
+    if (isFileDbType(conn.type)) {
+      if (!conn.filePath) {
+        return { success: false, message: "กรุณากรอก path ของไฟล์ฐานข้อมูล" };
+      }
+    } else if (!conn.host || (!conn.user && conn.type !== "mongodb")) {
       return { success: false, message: "กรุณากรอก host และ user" };
     }
 
@@ -50,11 +61,7 @@ export default function Page() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          type: conn.type,
-          host: conn.host,
-          port: conn.port,
-          user: conn.user,
-          password: conn.password,
+          connectionId: conn.id,
           database: conn.database,
         }),
       });
@@ -105,7 +112,7 @@ export default function Page() {
         <div className="flex items-center gap-2 font-medium">
           <Database className="h-4 w-4" /> Manage Connections
         </div>
-        <div className="space-y-2">
+        <fieldset className="space-y-2" disabled={!canManage}>
           {connections.map((c) => {
             const status = connectionStatus[c.id];
             return (
@@ -121,22 +128,29 @@ export default function Page() {
                   <select
                     className="flex h-10 w-[140px] rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                     value={c.type}
-                    onChange={(e) =>
+                    onChange={(e) => {
+                      const type = e.target.value as DbType;
                       updateConnection(c.id, {
-                        type: e.target.value as DbType,
-                        port: e.target.value === "postgresql" ? 5432 : 3306,
-                      })
-                    }
+                        type,
+                        port: getDbTypeInfo(type).defaultPort ?? 0,
+                      });
+                    }}
                   >
-                    <option value="mysql">MySQL</option>
-                    <option value="postgresql">PostgreSQL</option>
+                    {DB_TYPE_IDS.map((type) => (
+                      <option key={type} value={type}>
+                        {getDbTypeInfo(type).label}
+                      </option>
+                    ))}
                   </select>
-                  <Button
-                    variant="outline"
-                    onClick={() => removeConnection(c.id)}
-                  >
-                    ลบ
-                  </Button>
+                  {/* Dataset connections are removed with their dataset */}
+                  {!c.datasetId && (
+                    <Button
+                      variant="outline"
+                      onClick={() => removeConnection(c.id)}
+                    >
+                      ลบ
+                    </Button>
+                  )}
                 </div>
                 <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
                   <label className="inline-flex items-center gap-2 font-medium text-foreground">
@@ -164,52 +178,156 @@ export default function Page() {
                   >
                     {status.success && (
                       <>
-                        <CheckCircle2 className="h-4 w-4" />
-                        <span>{status.message}</span>
+                          <CheckCircle2 className="h-4 w-4" />
+                          <span>{status.message}</span>
                       </>
                     )}
                     {!status.success && <span>{status.message}</span>}
                   </div>
                 )}
-                <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
-                  <Input
-                    placeholder="host"
-                    value={c.host}
-                    onChange={(e) =>
-                      updateConnection(c.id, { host: e.target.value })
-                    }
-                  />
+                {c.datasetId ? (
+                  <div className="text-xs text-muted-foreground">
+                    Dataset ที่อัปโหลด — จัดการไฟล์และเวอร์ชันได้ที่ส่วน Datasets ด้านล่าง
+                  </div>
+                ) : isFileDbType(c.type) ? (
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                    <Input
+                      className="md:col-span-4"
+                      placeholder="path ของไฟล์ฐานข้อมูลบน server เช่น /data/sales.db"
+                      value={c.filePath || ""}
+                      onChange={(e) =>
+                        updateConnection(c.id, { filePath: e.target.value })
+                      }
+                    />
+                    <Input
+                      placeholder="database (optional)"
+                      value={c.database}
+                      onChange={(e) =>
+                        updateConnection(c.id, { database: e.target.value })
+                      }
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                    <Input
+                      placeholder={
+                        c.type === "mongodb" ? "host หรือ mongodb+srv://..." : "host"
+                      }
+                      value={c.host}
+                      onChange={(e) =>
+                        updateConnection(c.id, { host: e.target.value })
+                      }
+                    />
+                    <Input
+                      placeholder="port"
+                      type="number"
+                      value={c.port}
+                      onChange={(e) =>
+                        updateConnection(c.id, { port: Number(e.target.value) })
+                      }
+                    />
+                    <Input
+                      placeholder={c.type === "mongodb" ? "user (optional)" : "user"}
+                      value={c.user}
+                      onChange={(e) =>
+                        updateConnection(c.id, { user: e.target.value })
+                      }
+                    />
+                    <div className="flex gap-1">
+                      <Input
+                        placeholder={c.hasPassword ? "•••••••• (saved)" : "password"}
+                        type="password"
+                        value={c.password}
+                        onChange={(e) =>
+                          updateConnection(c.id, {
+                            password: e.target.value,
+                            clearPassword: undefined,
+                          })
+                        }
+                      />
+                      {c.hasPassword && !c.password && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="ล้างรหัสผ่านที่บันทึกไว้"
+                          onClick={() =>
+                            updateConnection(c.id, {
+                              password: "",
+                              clearPassword: true,
+                              hasPassword: false,
+                            })
+                          }
+                        >
+                          ล้าง
+                        </Button>
+                      )}
+                    </div>
+                    <Input
+                      placeholder="database (optional)"
+                      value={c.database}
+                      onChange={(e) =>
+                        updateConnection(c.id, { database: e.target.value })
+                      }
+                    />
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>Query timeout:</span>
                   <Input
-                    placeholder="port"
+                    className="h-8 w-40"
+                    placeholder="วินาที (ว่าง = ค่าเริ่มต้น)"
                     type="number"
-                    value={c.port}
+                    min={1}
+                    value={c.queryTimeoutMs ? c.queryTimeoutMs / 1000 : ""}
                     onChange={(e) =>
-                      updateConnection(c.id, { port: Number(e.target.value) })
-                    }
-                  />
-                  <Input
-                    placeholder="user"
-                    value={c.user}
-                    onChange={(e) =>
-                      updateConnection(c.id, { user: e.target.value })
-                    }
-                  />
-                  <Input
-                    placeholder="password"
-                    type="password"
-                    value={c.password}
-                    onChange={(e) =>
-                      updateConnection(c.id, { password: e.target.value })
-                    }
-                  />
-                  <Input
-                    placeholder="database (optional)"
-                    value={c.database}
-                    onChange={(e) =>
-                      updateConnection(c.id, { database: e.target.value })
+                      updateConnection(c.id, {
+                        queryTimeoutMs: e.target.value
+                          ? Math.round(Number(e.target.value) * 1000)
+                          : undefined,
+                      })
                     }
                   />
+                  <span>(ไม่เกิน Timeout สูงสุดของสิทธิ์การใช้งาน)</span>
                 </div>
+                {getDbTypeInfo(c.type).defaultSchema && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>Schema:</span>
+                    <Input
+                      className="h-8 w-40"
+                      placeholder={getDbTypeInfo(c.type).defaultSchema}
+                      value={c.schema || ""}
+                      onChange={(e) =>
+                        updateConnection(c.id, {
+                          schema: e.target.value.trim() || undefined,
+                        })
+                      }
+                    />
+                    {c.type === "postgresql" && (
+                      <>
+                      <span>search_path:</span>
+                      <Input
+                        className="h-8 w-64"
+                        placeholder="เช่น sales, audit (คั่นด้วย ,)"
+                        defaultValue={c.searchPath?.join(", ") || ""}
+                        onBlur={(e) => {
+                          const searchPath = e.target.value
+                            .split(",")
+                            .map((name) => name.trim())
+                            .filter(Boolean);
+                          updateConnection(c.id, {
+                            searchPath: searchPath.length ? searchPath : undefined,
+                          });
+                        }}
+                      />
+                      </>
+                    )}
+                    <span>(ตารางใน schema อื่นอ้างอิงเป็น schema.table)</span>
+                  </div>
+                )}
+                <ConnectionPolicyEditor
+                  policy={c.policy}
+                  onChange={(policy) => updateConnection(c.id, { policy })}
+                />
               </div>
             );
           })}
@@ -229,8 +347,10 @@ export default function Page() {
           >
             เพิ่ม Connection
           </Button>
-        </div>
+        </fieldset>
       </div>
+
+      <DatasetsPanel canEdit={!!permissions?.canEdit} onChange={reload} />
     </div>
   );
 }
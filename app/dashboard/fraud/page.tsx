@@ -0,0 +1,380 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Download,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+} from "lucide-react";
+import { useHelperContext } from "@/components/providers/helper-provider";
+import { useConnections } from "@/hooks/use-connections";
+import { useFraud } from "@/hooks/use-fraud";
+import { useFraudCases } from "@/hooks/use-fraud-cases";
+import {
+  FRAUD_RULE_TYPE_LABELS,
+  FRAUD_SEVERITY_LABELS,
+  FraudRuleEditorDialog,
+} from "@/components/fraud-rule-editor-dialog";
+import {
+  FRAUD_CASE_STATUS_CLASSES,
+  FRAUD_CASE_STATUS_LABELS,
+  FraudCaseDialog,
+  fraudCaseTitle,
+  UNASSIGNED,
+} from "@/components/fraud-case-dialog";
+import { FraudCaseStatus, FraudRule, FraudSeverity } from "@/types/fraud";
+
+const formatDateTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString("th-TH") : "-";
+
+const SEVERITY_CLASSES: Record<FraudSeverity, string> = {
+  low: "bg-muted text-muted-foreground",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  critical: "bg-red-100 text-red-800",
+};
+
+const ALL = "all";
+
+// Case linked from a chart: /dashboard/fraud?case=<id>
+const caseIdFromUrl = () =>
+  typeof window === "undefined"
+    ? null
+    : new URLSearchParams(window.location.search).get("case");
+
+export default function Page() {
+  const { permissions, router } = useHelperContext()();
+  const { connections } = useConnections();
+  const { rules, isLoaded, reload, saveRule, deleteRule, runRule } = useFraud();
+  const [editing, setEditing] = useState<FraudRule | undefined>();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(caseIdFromUrl);
+  const [ruleFilter, setRuleFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [assigneeFilter, setAssigneeFilter] = useState(ALL);
+  const [severityFilter, setSeverityFilter] = useState(ALL);
+  const {
+    cases,
+    assignees,
+    isLoaded: casesLoaded,
+    reload: reloadCases,
+  } = useFraudCases({
+    ruleId: ruleFilter === ALL ? undefined : ruleFilter,
+    status: statusFilter === ALL ? undefined : (statusFilter as FraudCaseStatus),
+    assignee: assigneeFilter === ALL ? undefined : assigneeFilter,
+  });
+
+  // Check permissions and redirect if no access
+  useEffect(() => {
+    if (permissions !== null && !permissions.canView) {
+      router.push("/dashboard/no-permission");
+    }
+  }, [permissions, router]);
+
+  // Don't render if no permission
+  if (permissions !== null && !permissions.canView) {
+    return null;
+  }
+
+  const canEdit = !!permissions?.canEdit;
+  const connectionName = (id: string) => connections.find((c) => c.id === id)?.name || id;
+  const visibleCases = cases.filter(
+    (c) => severityFilter === ALL || c.severity === severityFilter,
+  );
+
+  const openEditor = (rule?: FraudRule) => {
+    setEditing(rule);
+    setIsEditorOpen(true);
+  };
+
+  const handleRun = async (rule: FraudRule) => {
+    setRunningIds((prev) => new Set(prev).add(rule.id));
+    try {
+      const count = await runRule(rule.id);
+      reloadCases();
+      alert(`พบ ${count} เคส`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "รันกฎไม่สำเร็จ");
+    } finally {
+      setRunningIds((prev) => {
+        const next = new Set(prev);
+        next.delete(rule.id);
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (rule: FraudRule) => {
+    if (!confirm(`ลบกฎ "${rule.name}"? เคสที่พบแล้วจะยังอยู่`)) return;
+    try {
+      await deleteRule(rule.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "ลบกฎไม่สำเร็จ");
+    }
+  };
+
+  return (
+    <div className="p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-2xl font-bold">Fraud Detection</div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              reload();
+              reloadCases();
+            }}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" /> รีเฟรช
+          </Button>
+          {canEdit && (
+            <Button onClick={() => openEditor()}>
+              <Plus className="mr-2 h-4 w-4" /> สร้างกฎ
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center gap-2 font-medium">
+          <ShieldAlert className="h-4 w-4" /> กฎตรวจจับ
+        </div>
+        {isLoaded && rules.length === 0 && (
+          <div className="text-sm text-muted-foreground">ยังไม่มีกฎ</div>
+        )}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="border rounded-md p-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm"
+          >
+            <div className="min-w-[200px] flex-1">
+              <div className="font-medium">
+                {rule.name}
+                <span
+                  className={`ml-2 rounded px-1.5 py-0.5 text-xs ${SEVERITY_CLASSES[rule.severity]}`}
+                >
+                  {FRAUD_SEVERITY_LABELS[rule.severity]}
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {FRAUD_RULE_TYPE_LABELS[rule.definition.type]} ·{" "}
+                {connectionName(rule.connectionId)} / {rule.database}
+                {rule.table ? `.${rule.table}` : ""} ·{" "}
+                <span className="font-mono">{rule.schedule}</span>
+                {!rule.enabled && " · ปิดอยู่"}
+              </div>
+              {rule.description && (
+                <div className="text-xs text-muted-foreground">{rule.description}</div>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              <div>ครั้งถัดไป: {formatDateTime(rule.nextRunAt)}</div>
+              <div>
+                ล่าสุด: {formatDateTime(rule.lastRunAt)}
+                {rule.lastStatus === "success" && ` (พบ ${rule.lastCaseCount ?? 0} เคส)`}
+                {rule.lastStatus === "failed" && (
+                  <span className="ml-1 text-destructive" title={rule.lastError}>
+                    (ล้มเหลว)
+                  </span>
+                )}
+              </div>
+            </div>
+            {canEdit && (
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRun(rule)}
+                  disabled={runningIds.has(rule.id)}
+                  title="รันตอนนี้"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openEditor(rule)}
+                  title="แก้ไข"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(rule)}
+                  title="ลบ"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="font-medium">เคส ({visibleCases.length})</div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={ruleFilter} onValueChange={setRuleFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>ทุกกฎ</SelectItem>
+                {rules.map((rule) => (
+                  <SelectItem key={rule.id} value={rule.id}>
+                    {rule.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>ทุกสถานะ</SelectItem>
+                {(Object.keys(FRAUD_CASE_STATUS_LABELS) as FraudCaseStatus[]).map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {FRAUD_CASE_STATUS_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>ทุกผู้รับผิดชอบ</SelectItem>
+                <SelectItem value={UNASSIGNED}>ยังไม่มอบหมาย</SelectItem>
+                {assignees.map((email) => (
+                  <SelectItem key={email} value={email}>
+                    {email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={severityFilter} onValueChange={setSeverityFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>ทุกระดับ</SelectItem>
+                {(Object.keys(FRAUD_SEVERITY_LABELS) as FraudSeverity[]).map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {FRAUD_SEVERITY_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild>
+              <a
+                href={`/api/user-configs/fraud-cases/export?format=csv${
+                  ruleFilter === ALL ? "" : `&ruleId=${encodeURIComponent(ruleFilter)}`
+                }`}
+                title="ส่งออกเคสที่ยืนยันแล้วและไม่ใช่การทุจริต สำหรับปรับจูนกฎ"
+              >
+                <Download className="mr-2 h-4 w-4" /> ส่งออกผลการตรวจ
+              </a>
+            </Button>
+          </div>
+        </div>
+        {casesLoaded && visibleCases.length === 0 && (
+          <div className="text-sm text-muted-foreground">ยังไม่มีเคส</div>
+        )}
+        {visibleCases.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b">
+                  <th className="py-2 pr-3">ความรุนแรง</th>
+                  <th className="py-2 pr-3">เคส</th>
+                  <th className="py-2 pr-3">สถานะ</th>
+                  <th className="py-2 pr-3">ผู้รับผิดชอบ</th>
+                  <th className="py-2 pr-3">พบล่าสุด</th>
+                  <th className="py-2">จำนวนครั้ง</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleCases.map((fraudCase) => (
+                  <tr
+                    key={fraudCase.id}
+                    className="border-b align-top cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedCaseId(fraudCase.id)}
+                  >
+                    <td className="py-2 pr-3">
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-xs ${SEVERITY_CLASSES[fraudCase.severity]}`}
+                      >
+                        {FRAUD_SEVERITY_LABELS[fraudCase.severity]}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div className="break-all">{fraudCaseTitle(fraudCase)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {fraudCase.ruleName || "เปิดเคสเอง"}
+                        {(fraudCase.comments?.length || 0) > 0 &&
+                          ` · ${fraudCase.comments!.length} ความเห็น`}
+                        {(fraudCase.attachments?.length || 0) > 0 &&
+                          ` · ${fraudCase.attachments!.length} หลักฐาน`}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-xs whitespace-nowrap ${FRAUD_CASE_STATUS_CLASSES[fraudCase.status]}`}
+                      >
+                        {FRAUD_CASE_STATUS_LABELS[fraudCase.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 text-xs">{fraudCase.assignee || "-"}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {formatDateTime(fraudCase.lastDetectedAt)}
+                    </td>
+                    <td className="py-2">{fraudCase.detectionCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedCaseId && (
+        <FraudCaseDialog
+          key={selectedCaseId}
+          open={!!selectedCaseId}
+          onOpenChange={(open) => !open && setSelectedCaseId(null)}
+          caseId={selectedCaseId}
+          assignees={assignees}
+          canEdit={canEdit}
+          onChanged={reloadCases}
+        />
+      )}
+
+      {isEditorOpen && (
+        <FraudRuleEditorDialog
+          key={editing?.id || "new"}
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          rule={editing}
+          connections={connections}
+          onSave={saveRule}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText, Download, Play, Pencil, Plus, Trash2, RefreshCw } from "lucide-react";
+import { useHelperContext } from "@/components/providers/helper-provider";
+import { useDashboardTabs } from "@/hooks/use-dashboard-tabs";
+import { useReports } from "@/hooks/use-reports";
+import { ReportEditorDialog } from "@/components/report-editor-dialog";
+import { ReportDefinition, ReportRun } from "@/types/report";
+
+const formatDateTime = (iso?: string) =>
+  iso ? new Date(iso).toLocaleString("th-TH") : "-";
+
+const formatSize = (bytes?: number) =>
+  bytes === undefined
+    ? "-"
+    : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const STATUS_LABELS: Record<ReportRun["status"], string> = {
+  running: "กำลังทำงาน",
+  success: "สำเร็จ",
+  failed: "ล้มเหลว",
+};
+
+const STATUS_CLASSES: Record<ReportRun["status"], string> = {
+  running: "text-muted-foreground",
+  success: "text-green-600",
+  failed: "text-destructive",
+};
+
+export default function Page() {
+  const { permissions, router } = useHelperContext()();
+  const { tabs } = useDashboardTabs();
+  const { reports, runs, isLoaded, reload, saveReport, deleteReport, runReport } =
+    useReports();
+  const [editing, setEditing] = useState<ReportDefinition | undefined>();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+
+  // Check permissions and redirect if no access
+  useEffect(() => {
+    if (permissions !== null && !permissions.canView) {
+      router.push("/dashboard/no-permission");
+    }
+  }, [permissions, router]);
+
+  // Don't render if no permission
+  if (permissions !== null && !permissions.canView) {
+    return null;
+  }
+
+  const canEdit = !!permissions?.canEdit;
+  const tabName = (tabId: string) => tabs.find((t) => t.id === tabId)?.name || tabId;
+
+  const openEditor = (report?: ReportDefinition) => {
+    setEditing(report);
+    setIsEditorOpen(true);
+  };
+
+  const handleRun = async (report: ReportDefinition) => {
+    setRunningIds((prev) => new Set(prev).add(report.id));
+    try {
+      const run = await runReport(report.id);
+      if (run.status === "failed") {
+        alert(`สร้างรายงานไม่สำเร็จ: ${run.error || ""}`);
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "สร้างรายงานไม่สำเร็จ");
+    } finally {
+      setRunningIds((prev) => {
+        const next = new Set(prev);
+        next.delete(report.id);
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (report: ReportDefinition) => {
+    if (!confirm(`ลบรายงาน "${report.name}" และไฟล์ที่สร้างไว้ทั้งหมด?`)) return;
+    try {
+      await deleteReport(report.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "ลบรายงานไม่สำเร็จ");
+    }
+  };
+
+  return (
+    <div className="p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-2xl font-bold">Reports</div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={reload}>
+            <RefreshCw className="mr-2 h-4 w-4" /> รีเฟรช
+          </Button>
+          {canEdit && (
+            <Button onClick={() => openEditor()}>
+              <Plus className="mr-2 h-4 w-4" /> สร้างรายงาน
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="flex items-center gap-2 font-medium">
+          <FileText className="h-4 w-4" /> รายงานตามรอบเวลา
+        </div>
+        {isLoaded && reports.length === 0 && (
+          <div className="text-sm text-muted-foreground">ยังไม่มีรายงาน</div>
+        )}
+        {reports.map((report) => (
+          <div
+            key={report.id}
+            className="border rounded-md p-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm"
+          >
+            <div className="min-w-[200px] flex-1">
+              <div className="font-medium">{report.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {tabName(report.tabId)} · {report.format.toUpperCase()} ·{" "}
+                <span className="font-mono">{report.schedule}</span>
+                {!report.enabled && " · ปิดอยู่"}
+              </div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              <div>ครั้งถัดไป: {formatDateTime(report.nextRunAt)}</div>
+              <div>
+                ล่าสุด: {formatDateTime(report.lastRunAt)}
+                {report.lastStatus && (
+                  <span className={`ml-1 ${STATUS_CLASSES[report.lastStatus]}`}>
+                    ({STATUS_LABELS[report.lastStatus]})
+                  </span>
+                )}
+              </div>
+            </div>
+            {canEdit && (
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRun(report)}
+                  disabled={runningIds.has(report.id)}
+                  title="สร้างรายงานตอนนี้"
+                >
+                  <Play className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openEditor(report)}
+                  title="แก้ไข"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(report)}
+                  title="ลบ"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-lg border p-4 space-y-3">
+        <div className="font-medium">ประวัติการสร้างรายงาน</div>
+        {isLoaded && runs.length === 0 && (
+          <div className="text-sm text-muted-foreground">ยังไม่มีประวัติ</div>
+        )}
+        {runs.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b">
+                  <th className="py-2 pr-3">เวลา</th>
+                  <th className="py-2 pr-3">รายงาน</th>
+                  <th className="py-2 pr-3">สถานะ</th>
+                  <th className="py-2 pr-3">การส่ง</th>
+                  <th className="py-2 pr-3">ขนาด</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {formatDateTime(run.startedAt)}
+                      <div className="text-xs text-muted-foreground">
+                        {run.trigger === "manual"
+                          ? `สั่งโดย ${run.triggeredBy || "-"}`
+                          : "ตามรอบเวลา"}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">{run.reportName}</td>
+                    <td className={`py-2 pr-3 ${STATUS_CLASSES[run.status]}`}>
+                      {STATUS_LABELS[run.status]}
+                      {run.error && (
+                        <div className="text-xs break-all">{run.error}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-xs">
+                      {(run.deliveries || []).length === 0 && "-"}
+                      {(run.deliveries || []).map((d, i) => (
+                        <div
+                          key={i}
+                          className={d.ok ? "" : "text-destructive"}
+                          title={d.error}
+                        >
+                          {d.type === "lark" ? "Lark" : "Email"}: {d.target}{" "}
+                          {d.ok ? "✓" : "✗"}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatSize(run.size)}</td>
+                    <td className="py-2 text-right">
+                      {run.status === "success" && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a
+                            href={`/api/reports/download?runId=${encodeURIComponent(run.id)}`}
+                            title={run.fileName}
+                          >
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {isEditorOpen && (
+        <ReportEditorDialog
+          key={editing?.id || "new"}
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          report={editing}
+          tabs={tabs}
+          onSave={saveReport}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import { ChartRenderer } from "@/components/chart-renderer";
 import { ChartConfig } from "@/types/chart";
+import type { ChartAnomalies } from "@/lib/anomaly";
 
 export default function PublicChartPage() {
   const params = useParams<{ chartId: string }>();
@@ -12,6 +13,7 @@ export default function PublicChartPage() {
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<Record<string, unknown>[]>([]);
   const [columns, setColumns] = useState<string[]>([]);
+  const [anomalies, setAnomalies] = useState<ChartAnomalies | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -27,6 +29,7 @@ export default function PublicChartPage() {
         setChart(result.chart);
         setData(result.data || []);
         setColumns(result.columns || []);
+        setAnomalies(result.anomalies || null);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load chart");
       } finally {
@@ -72,6 +75,7 @@ export default function PublicChartPage() {
           data={data}
           isLoading={isLoadingData}
           availableFields={columns}
+          anomalies={anomalies}
         />
       </div>
     </div>
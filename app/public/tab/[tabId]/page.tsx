@@ -1,10 +1,13 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams } from "next/navigation";
+import { RefreshCw } from "lucide-react";
 import { ChartRenderer } from "@/components/chart-renderer";
 import { ChartConfig } from "@/types/chart";
+import type { ChartAnomalies } from "@/lib/anomaly";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { formatCountdown, useAutoRefresh } from "@/hooks/use-auto-refresh";
 
 export default function PublicTabPage() {
   const params = useParams<{ tabId: string }>();
@@ -14,10 +17,15 @@ export default function PublicTabPage() {
   const [loading, setLoading] = useState(true);
   const [chartsData, setChartsData] = useState<Record<string, Record<string, unknown>[]>>({});
   const [chartsColumns, setChartsColumns] = useState<Record<string, string[]>>({});
+  const [chartsAnomalies, setChartsAnomalies] = useState<Record<string, ChartAnomalies>>({});
   const [error, setError] = useState<string | null>(null);
+  const [refreshIntervalMinutes, setRefreshIntervalMinutes] = useState<number>();
+  const [isRefreshing, setIsRefreshing] = useState(false);
 
-  useEffect(() => {
-    const fetchTab = async () => {
+  // refresh: scheduled reload, which keeps the current charts on failure
+  const fetchTab = useCallback(
+    async (refresh = false) => {
+      if (refresh) setIsRefreshing(true);
       try {
         const response = await fetch(`/api/public/tab/${tabId}`);
         if (!response.ok) {
@@ -27,17 +35,32 @@ export default function PublicTabPage() {
         setCharts(result.charts || []);
         setChartsData(result.chartsData || {});
         setChartsColumns(result.chartsColumns || {});
+        setChartsAnomalies(result.chartsAnomalies || {});
+        setRefreshIntervalMinutes(result.refreshIntervalMinutes);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load tab");
+        if (refresh) {
+          console.error("Failed to refresh tab:", err);
+        } else {
+          setError(err instanceof Error ? err.message : "Failed to load tab");
+        }
       } finally {
         setLoading(false);
+        setIsRefreshing(false);
       }
-    };
+    },
+    [tabId],
+  );
 
+  useEffect(() => {
     if (tabId) {
       fetchTab();
     }
-  }, [tabId]);
+  }, [tabId, fetchTab]);
+
+  // Kiosk screens follow the tab's auto-refresh interval
+  const { secondsLeft, isPaused } = useAutoRefresh(refreshIntervalMinutes, () => {
+    void fetchTab(true);
+  });
 
   // Calculate total width for layout
   const totalWidth = charts.reduce((sum, chart) => {
@@ -65,8 +88,17 @@ export default function PublicTabPage() {
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
-        <div className="mb-4 md:mb-6">
+        <div className="mb-4 md:mb-6 flex items-center justify-between gap-4">
           <h1 className="text-2xl md:text-3xl font-bold">Dashboard</h1>
+          {secondsLeft !== null && (
+            <div
+              className="flex items-center gap-2 text-xs text-muted-foreground tabular-nums"
+              title={`รีเฟรชอัตโนมัติทุก ${refreshIntervalMinutes} นาที`}
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              <span>{isPaused ? "หยุด" : formatCountdown(secondsLeft)}</span>
+            </div>
+          )}
         </div>
         <div
           className={`flex flex-col md:flex-row items-start ${
@@ -103,6 +135,7 @@ export default function PublicTabPage() {
                   data={chartsData[chart.id] || []}
                   isLoading={false}
                   availableFields={chartsColumns[chart.id] || []}
+                  anomalies={chartsAnomalies[chart.id]}
                 />
               </div>
             );
@@ -21,6 +21,7 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import { useConnections } from "@/hooks/use-connections";
+import { getDbTypeInfo, isFileDbType, isSqlDbType } from "@/lib/db-types";
 
 type GeminiChartSuggestion = {
   type: ChartType;
@@ -296,7 +297,11 @@ export function AiChartDialog({
   >(undefined);
 
   const aiConnections = useMemo(
-    () => connections.filter((conn) => conn.aiReadable !== false),
+    // The AI writes SQL, so MongoDB connections are left out
+    () =>
+      connections.filter(
+        (conn) => conn.aiReadable !== false && isSqlDbType(conn.type),
+      ),
     [connections],
   );
 
@@ -512,7 +517,7 @@ export function AiChartDialog({
                     {aiConnections.map((conn) => (
                       <option key={conn.id} value={conn.id}>
                         {conn.name || conn.database || conn.host} (
-                        {conn.type === "postgresql" ? "PostgreSQL" : "MySQL"})
+                        {getDbTypeInfo(conn.type).label})
                       </option>
                     ))}
                   </select>
@@ -522,7 +527,9 @@ export function AiChartDialog({
                         {selectedConnection.name || "Unnamed connection"}
                       </div>
                       <div>
-                        Host: {selectedConnection.host}:{selectedConnection.port}
+                        {isFileDbType(selectedConnection.type)
+                          ? `File: ${selectedConnection.filePath || "-"}`
+                          : `Host: ${selectedConnection.host}:${selectedConnection.port}`}
                       </div>
                       {selectedConnection.database && (
                         <div>Database: {selectedConnection.database}</div>
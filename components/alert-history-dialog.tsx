@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertEvent } from "@/types/alert";
+
+interface AlertHistoryDialogProps {
+  tabId: string;
+}
+
+/**
+ * Alerts that fired (or failed to evaluate) on a tab, newest first
+ */
+export function AlertHistoryDialog({ tabId }: AlertHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<AlertEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch(
+          `/api/alerts/history?tabId=${encodeURIComponent(tabId)}`,
+        );
+        if (response.ok && !cancelled) {
+          const data = (await response.json()) as { events?: AlertEvent[] };
+          setEvents(data.events || []);
+        }
+      } catch (error) {
+        console.error("Error fetching alert history:", error);
+      }
+    };
+    fetchEvents();
+    // Refresh every 30 seconds while the dialog is open
+    const interval = setInterval(fetchEvents, 30000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [open, tabId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="ประวัติการแจ้งเตือน">
+          <Bell className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle>ประวัติการแจ้งเตือน</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {events === null ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-sm text-muted-foreground">กำลังโหลด...</div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-sm text-muted-foreground">
+                ยังไม่มีการแจ้งเตือน
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {events.map((event) => (
+                <div key={event.id} className="p-3 border rounded-lg bg-card">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-semibold text-sm">{event.alertName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {event.chartTitle || event.chartId}
+                    </span>
+                    <span
+                      className={`text-xs ${
+                        event.status === "error" ? "text-destructive" : "text-orange-600"
+                      }`}
+                    >
+                      {event.status === "error" ? "ผิดพลาด" : "แจ้งเตือน"}
+                    </span>
+                  </div>
+                  <div className="text-xs mt-1 break-all">{event.message}</div>
+                  {event.status === "triggered" && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {!event.notified
+                        ? "ไม่ส่งซ้ำ (อยู่ในช่วงพักการแจ้งเตือน)"
+                        : (event.notifications || []).length === 0
+                        ? "ไม่มีปลายทางการแจ้งเตือน"
+                        : (event.notifications || []).map((n, i) => (
+                            <span
+                              key={i}
+                              className={`mr-2 ${n.ok ? "" : "text-destructive"}`}
+                              title={n.error}
+                            >
+                              {n.type === "lark" ? "Lark" : "Webhook"}: {n.target}{" "}
+                              {n.ok ? "✓" : "✗"}
+                            </span>
+                          ))}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {new Date(event.evaluatedAt).toLocaleString("th-TH", {
+                      year: "numeric",
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                    {event.trigger === "manual" && " · ตรวจด้วยตนเอง"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,573 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Play, Pencil, Plus, Trash2 } from "lucide-react";
+import { ChartConfig } from "@/types/chart";
+import {
+  AlertAggregate,
+  AlertCondition,
+  AlertMetric,
+  AlertNotifier,
+  AlertRule,
+  AlertState,
+  AlertThresholdOperator,
+} from "@/types/alert";
+import { AlertDraft, useAlerts } from "@/hooks/use-alerts";
+
+const SCHEDULE_PRESETS = [
+  { label: "ทุก 5 นาที", value: "*/5 * * * *" },
+  { label: "ทุก 15 นาที", value: "*/15 * * * *" },
+  { label: "ทุกชั่วโมง", value: "0 * * * *" },
+  { label: "ทุกวัน 08:00", value: "0 8 * * *" },
+];
+
+const AGGREGATE_LABELS: Record<AlertAggregate, string> = {
+  sum: "ผลรวม",
+  avg: "ค่าเฉลี่ย",
+  min: "ค่าต่ำสุด",
+  max: "ค่าสูงสุด",
+  count: "จำนวนแถว",
+  last: "ค่าล่าสุด",
+};
+
+const OPERATORS: AlertThresholdOperator[] = [">", ">=", "<", "<=", "=", "!="];
+
+const DIRECTION_LABELS: Record<"up" | "down" | "either", string> = {
+  up: "เพิ่มขึ้น",
+  down: "ลดลง",
+  either: "เปลี่ยนแปลง",
+};
+
+const STATE_LABELS: Record<AlertState, string> = {
+  ok: "ปกติ",
+  triggered: "แจ้งเตือน",
+  error: "ผิดพลาด",
+};
+
+const STATE_CLASSES: Record<AlertState, string> = {
+  ok: "text-green-600",
+  triggered: "text-orange-600",
+  error: "text-destructive",
+};
+
+const splitList = (text: string) =>
+  text
+    .split(/\s+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * One-line description of a rule, e.g. "ผลรวม amount > 100"
+ */
+export function describeAlertRule(rule: Pick<AlertRule, "metric" | "condition">): string {
+  const { metric, condition } = rule;
+  const metricText =
+    metric.type === "row_count"
+      ? "จำนวนแถว"
+      : metric.type === "matrix"
+      ? metric.column
+      : `${AGGREGATE_LABELS[metric.aggregate]} ${metric.aggregate === "count" ? "" : metric.field}${
+          metric.series ? ` (${metric.series})` : ""
+        }`.trim();
+  const conditionText =
+    condition.type === "threshold"
+      ? `${condition.op} ${condition.value}`
+      : condition.type === "change"
+      ? `${DIRECTION_LABELS[condition.direction]} ≥ ${condition.percent}% จากครั้งก่อน`
+      : `ผิดปกติ${condition.direction === "either" ? "" : ` (${DIRECTION_LABELS[condition.direction]})`}`;
+  return `${metricText} ${conditionText}`;
+}
+
+interface AlertRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tabId: string;
+  chart: ChartConfig;
+  canEdit: boolean;
+}
+
+/**
+ * Alert rules of one chart: list, check now, and create/edit
+ */
+export function AlertRulesDialog({
+  open,
+  onOpenChange,
+  tabId,
+  chart,
+  canEdit,
+}: AlertRulesDialogProps) {
+  const { alerts, isLoaded, saveAlert, deleteAlert, evaluateAlert } = useAlerts(
+    tabId,
+    chart.id,
+  );
+  // undefined = list, null = new rule, rule = editing it
+  const [editing, setEditing] = useState<AlertRule | null | undefined>();
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const handleEvaluate = async (rule: AlertRule) => {
+    setCheckingId(rule.id);
+    try {
+      const event = await evaluateAlert(rule.id);
+      alert(
+        !event
+          ? "ค่าอยู่ในเกณฑ์ปกติ"
+          : event.status === "error"
+          ? `ตรวจสอบไม่สำเร็จ: ${event.message}`
+          : `${event.message}${event.notified ? "" : " (อยู่ในช่วงพักการแจ้งเตือน)"}`,
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "ตรวจสอบไม่สำเร็จ");
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`ลบการแจ้งเตือน "${rule.name}"?`)) return;
+    try {
+      await deleteAlert(rule.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "ลบไม่สำเร็จ");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>การแจ้งเตือน: {chart.title || chart.id}</DialogTitle>
+          <DialogDescription>
+            ตรวจค่าจากกราฟตามรอบเวลา และส่งแจ้งเตือนเมื่อเข้าเงื่อนไข
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing !== undefined ? (
+          <AlertRuleEditor
+            key={editing?.id || "new"}
+            rule={editing}
+            tabId={tabId}
+            chart={chart}
+            onCancel={() => setEditing(undefined)}
+            onSave={async (draft) => {
+              await saveAlert(draft);
+              setEditing(undefined);
+            }}
+          />
+        ) : (
+          <div className="space-y-3 text-sm">
+            {isLoaded && alerts.length === 0 && (
+              <div className="text-muted-foreground">ยังไม่มีการแจ้งเตือนสำหรับกราฟนี้</div>
+            )}
+            {alerts.map((rule) => (
+              <div
+                key={rule.id}
+                className="border rounded-md p-3 flex flex-wrap items-center gap-x-4 gap-y-2"
+              >
+                <div className="min-w-[200px] flex-1">
+                  <div className="font-medium">
+                    {rule.name}
+                    {rule.state && (
+                      <span className={`ml-2 text-xs ${STATE_CLASSES[rule.state]}`}>
+                        {STATE_LABELS[rule.state]}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {describeAlertRule(rule)} ·{" "}
+                    <span className="font-mono">{rule.schedule}</span>
+                    {!rule.enabled && " · ปิดอยู่"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    ค่าล่าสุด: {rule.lastValue ?? "-"} · ตรวจล่าสุด:{" "}
+                    {rule.lastEvaluatedAt
+                      ? new Date(rule.lastEvaluatedAt).toLocaleString("th-TH")
+                      : "-"}
+                  </div>
+                  {rule.state === "error" && rule.lastError && (
+                    <div className="text-xs text-destructive break-all">{rule.lastError}</div>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEvaluate(rule)}
+                      disabled={checkingId === rule.id}
+                      title="ตรวจสอบตอนนี้"
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditing(rule)}
+                      title="แก้ไข"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      title="ลบ"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {canEdit && (
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" /> เพิ่มการแจ้งเตือน
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AlertRuleEditorProps {
+  rule: AlertRule | null;
+  tabId: string;
+  chart: ChartConfig;
+  onCancel: () => void;
+  onSave: (draft: AlertDraft) => Promise<void>;
+}
+
+// Mounted with a key per rule so the form starts from that rule's values
+function AlertRuleEditor({ rule, tabId, chart, onCancel, onSave }: AlertRuleEditorProps) {
+  const defaultMetric: AlertMetric =
+    chart.type === "matrix"
+      ? { type: "matrix", column: chart.columns[0] || "" }
+      : chart.type === "table"
+      ? { type: "row_count" }
+      : { type: "series", field: chart.yAxisKey || "", aggregate: "sum" };
+
+  const [name, setName] = useState(rule?.name || "");
+  const [metric, setMetric] = useState<AlertMetric>(rule?.metric || defaultMetric);
+  const [condition, setCondition] = useState<AlertCondition>(
+    rule?.condition || { type: "threshold", op: ">", value: 0 },
+  );
+  const [schedule, setSchedule] = useState(rule?.schedule || SCHEDULE_PRESETS[1].value);
+  const [cooldownMinutes, setCooldownMinutes] = useState(String(rule?.cooldownMinutes ?? 60));
+  const [webhooks, setWebhooks] = useState(
+    (rule?.notifiers || []).flatMap((n) => (n.type === "webhook" ? [n.url] : [])).join("\n"),
+  );
+  const [larkWebhooks, setLarkWebhooks] = useState(
+    (rule?.notifiers || []).flatMap((n) => (n.type === "lark" ? [n.webhookUrl] : [])).join("\n"),
+  );
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleMetricType = (type: AlertMetric["type"]) => {
+    setMetric(
+      type === "matrix"
+        ? { type, column: chart.columns[0] || "" }
+        : type === "series"
+        ? { type, field: chart.yAxisKey || "", aggregate: "sum" }
+        : { type },
+    );
+  };
+
+  const handleConditionType = (type: AlertCondition["type"]) => {
+    setCondition(
+      type === "threshold"
+        ? { type, op: ">", value: 0 }
+        : type === "change"
+        ? { type, direction: "either", percent: 10 }
+        : { type, direction: "either" },
+    );
+  };
+
+  const handleSave = async () => {
+    const notifiers: AlertNotifier[] = [
+      ...splitList(webhooks).map((url) => ({ type: "webhook" as const, url })),
+      ...splitList(larkWebhooks).map((webhookUrl) => ({ type: "lark" as const, webhookUrl })),
+    ];
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        id: rule?.id,
+        name,
+        tabId,
+        chartId: chart.id,
+        metric,
+        condition,
+        schedule,
+        cooldownMinutes: Number(cooldownMinutes) || 0,
+        notifiers,
+        enabled,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "บันทึกไม่สำเร็จ");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-1">
+        <label className="font-medium">ชื่อการแจ้งเตือน</label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+
+      <div className="space-y-1">
+        <label className="font-medium">ค่าที่ตรวจ</label>
+        <div className="grid gap-2 sm:grid-cols-3">
+          <Select
+            value={metric.type}
+            onValueChange={(v) => handleMetricType(v as AlertMetric["type"])}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="matrix">ค่าใน Matrix</SelectItem>
+              <SelectItem value="series">ค่ารวมของคอลัมน์</SelectItem>
+              <SelectItem value="row_count">จำนวนแถว</SelectItem>
+            </SelectContent>
+          </Select>
+          {metric.type === "matrix" && (
+            <Input
+              className="sm:col-span-2"
+              value={metric.column}
+              onChange={(e) => setMetric({ ...metric, column: e.target.value })}
+              placeholder="ชื่อคอลัมน์"
+              list={`alert-columns-${chart.id}`}
+            />
+          )}
+          {metric.type === "series" && (
+            <>
+              <Select
+                value={metric.aggregate}
+                onValueChange={(v) => setMetric({ ...metric, aggregate: v as AlertAggregate })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(AGGREGATE_LABELS) as AlertAggregate[]).map((aggregate) => (
+                    <SelectItem key={aggregate} value={aggregate}>
+                      {AGGREGATE_LABELS[aggregate]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={metric.field}
+                onChange={(e) => setMetric({ ...metric, field: e.target.value })}
+                placeholder="คอลัมน์ค่า"
+                list={`alert-columns-${chart.id}`}
+                disabled={metric.aggregate === "count"}
+              />
+              {chart.seriesKey && (
+                <Input
+                  className="sm:col-span-3"
+                  value={metric.series || ""}
+                  onChange={(e) =>
+                    setMetric({ ...metric, series: e.target.value || undefined })
+                  }
+                  placeholder={`เฉพาะซีรีส์ (${chart.seriesKey}) เว้นว่าง = ทุกแถว`}
+                />
+              )}
+            </>
+          )}
+          <datalist id={`alert-columns-${chart.id}`}>
+            {[chart.yAxisKey, ...chart.columns]
+              .filter((c, i, all): c is string => !!c && all.indexOf(c) === i)
+              .map((column) => (
+                <option key={column} value={column} />
+              ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="font-medium">เงื่อนไข</label>
+        <div className="grid gap-2 sm:grid-cols-3">
+          <Select
+            value={condition.type}
+            onValueChange={(v) => handleConditionType(v as AlertCondition["type"])}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="threshold">เทียบกับค่า</SelectItem>
+              <SelectItem value="change">% เปลี่ยนจากครั้งก่อน</SelectItem>
+              {chart.type === "line" && (
+                <SelectItem value="anomaly">หลุดช่วงปกติ (Anomaly)</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          {condition.type === "threshold" ? (
+            <>
+              <Select
+                value={condition.op}
+                onValueChange={(v) =>
+                  setCondition({ ...condition, op: v as AlertThresholdOperator })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATORS.map((op) => (
+                    <SelectItem key={op} value={op}>
+                      {op}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                value={String(condition.value)}
+                onChange={(e) => setCondition({ ...condition, value: Number(e.target.value) })}
+              />
+            </>
+          ) : (
+            <>
+              <Select
+                value={condition.direction}
+                onValueChange={(v) =>
+                  setCondition({ ...condition, direction: v as "up" | "down" | "either" })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIRECTION_LABELS) as ("up" | "down" | "either")[]).map((d) => (
+                    <SelectItem key={d} value={d}>
+                      {DIRECTION_LABELS[d]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {condition.type === "change" && (
+                <Input
+                  type="number"
+                  min={0}
+                  value={String(condition.percent)}
+                  onChange={(e) => setCondition({ ...condition, percent: Number(e.target.value) })}
+                  placeholder="%"
+                />
+              )}
+            </>
+          )}
+        </div>
+        {condition.type === "anomaly" && (
+          <p className="text-xs text-muted-foreground">
+            {chart.anomaly
+              ? "ตรวจจุดล่าสุดของกราฟด้วยช่วงปกติเดียวกับที่แสดงบนกราฟ ระบุซีรีส์เพื่อตรวจเฉพาะซีรีส์นั้น"
+              : "กราฟนี้ยังไม่ได้เปิดตรวจจับค่าผิดปกติ เปิดในหน้าตั้งค่ากราฟก่อน"}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label className="font-medium">รอบการตรวจ (cron)</label>
+          <Input
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value)}
+            placeholder="*/15 * * * *"
+            className="font-mono"
+          />
+          <div className="flex flex-wrap gap-1">
+            {SCHEDULE_PRESETS.map((preset) => (
+              <Button
+                key={preset.value}
+                type="button"
+                variant={schedule === preset.value ? "default" : "outline"}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setSchedule(preset.value)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className="font-medium">พักการแจ้งเตือน (นาที)</label>
+          <Input
+            type="number"
+            min={0}
+            value={cooldownMinutes}
+            onChange={(e) => setCooldownMinutes(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            ไม่ส่งซ้ำภายในช่วงนี้หลังแจ้งเตือนครั้งล่าสุด
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="font-medium">Webhook</label>
+        <Textarea
+          value={webhooks}
+          onChange={(e) => setWebhooks(e.target.value)}
+          placeholder="https://example.com/hooks/alerts"
+          rows={2}
+        />
+        <p className="text-xs text-muted-foreground">บรรทัดละหนึ่ง URL ส่งเป็น JSON POST</p>
+      </div>
+
+      <div className="space-y-1">
+        <label className="font-medium">Lark Webhook</label>
+        <Textarea
+          value={larkWebhooks}
+          onChange={(e) => setLarkWebhooks(e.target.value)}
+          placeholder="https://open.larksuite.com/open-apis/bot/v2/hook/..."
+          rows={2}
+        />
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        เปิดใช้งานตามรอบเวลา
+      </label>
+
+      {error && <div className="text-destructive text-xs">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          ยกเลิก
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+          {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   IconDatabase,
   IconDownload,
   IconUpload,
+  IconReport,
+  IconShieldExclamation,
 } from "@tabler/icons-react";
 
 import { NavDocuments } from "@/components/nav-documents";
@@ -99,7 +101,12 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
 
   const handleExportAll = async () => {
     try {
-      const response = await fetch("/api/user-configs/export");
+      const passphrase = prompt(
+        "ตั้งรหัสผ่านเพื่อ export password ของ connection (เว้นว่างไว้เพื่อไม่ export password)",
+      );
+      const response = await fetch("/api/user-configs/export", {
+        headers: passphrase ? { "x-export-passphrase": passphrase } : undefined,
+      });
       if (!response.ok) {
         throw new Error("Failed to export");
       }
@@ -139,6 +146,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         tabs?: unknown;
         connections?: unknown;
         chartConfigs?: Record<string, unknown>;
+        passphrase?: string;
       };
 
       if (
@@ -150,6 +158,13 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         return;
       }
 
+      if (text.includes("pbe:v1:")) {
+        const passphrase = prompt("กรอกรหัสผ่านสำหรับ password ของ connection");
+        if (passphrase) {
+          importData.passphrase = passphrase;
+        }
+      }
+
       const response = await fetch("/api/user-configs/import", {
         method: "POST",
         headers: {
@@ -236,6 +251,32 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                 </div>
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild>
+                <div
+                  className="flex items-center gap-2 w-full cursor-pointer"
+                  onClick={() => {
+                    window.location.href = "/dashboard/reports";
+                  }}
+                >
+                  <IconReport className="shrink-0" />
+                  <span className="truncate">Reports</span>
+                </div>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild>
+                <div
+                  className="flex items-center gap-2 w-full cursor-pointer"
+                  onClick={() => {
+                    window.location.href = "/dashboard/fraud";
+                  }}
+                >
+                  <IconShieldExclamation className="shrink-0" />
+                  <span className="truncate">Fraud Detection</span>
+                </div>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton asChild>
                 <PermissionsDialog />
@@ -0,0 +1,112 @@
+"use client";
+
+import { Activity } from "lucide-react";
+import { ChartAnomalyConfig } from "@/types/chart";
+import { ANOMALY_METHODS, DEFAULT_ANOMALY_CONFIG } from "@/lib/anomaly";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export const ANOMALY_METHOD_LABELS: Record<ChartAnomalyConfig["method"], string> = {
+  moving_average: "ค่าเฉลี่ยเคลื่อนที่ (Mean ± SD)",
+  median_mad: "มัธยฐาน ± MAD",
+  seasonal_weekday: "ตามวันในสัปดาห์",
+};
+
+interface ChartAnomalySettingsProps {
+  value?: ChartAnomalyConfig;
+  onChange: (value: ChartAnomalyConfig | undefined) => void;
+}
+
+/**
+ * Anomaly band settings of a line chart; unchecking removes them from the config
+ */
+export function ChartAnomalySettings({ value, onChange }: ChartAnomalySettingsProps) {
+  const config = value ?? DEFAULT_ANOMALY_CONFIG;
+
+  return (
+    <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
+      <div className="flex items-center gap-2 text-foreground">
+        <Activity className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">ตรวจจับค่าผิดปกติ</h3>
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">
+        คำนวณช่วงปกติจากข้อมูลย้อนหลังของแต่ละจุด แล้วไฮไลต์จุดที่หลุดช่วงพร้อมตารางสรุปใต้กราฟ
+      </p>
+
+      <label className="mt-4 flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? config : undefined)}
+        />
+        เปิดใช้งาน
+      </label>
+
+      {value && (
+        <div className="mt-4 grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              วิธีคำนวณ
+            </label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="w-full justify-between">
+                  {ANOMALY_METHOD_LABELS[value.method]}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-[240px] z-[500]">
+                {ANOMALY_METHODS.map((method) => (
+                  <DropdownMenuItem
+                    key={method}
+                    onSelect={() => onChange({ ...value, method })}
+                  >
+                    {ANOMALY_METHOD_LABELS[method]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              จำนวนจุดย้อนหลัง
+            </label>
+            <Input
+              type="number"
+              min={3}
+              value={value.window}
+              onChange={(e) =>
+                onChange({ ...value, window: Math.max(3, Math.trunc(Number(e.target.value)) || 3) })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              ความไว (จำนวนส่วนเบี่ยงเบน)
+            </label>
+            <Input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={value.sensitivity}
+              onChange={(e) =>
+                onChange({ ...value, sensitivity: Math.max(0.5, Number(e.target.value) || 0.5) })
+              }
+            />
+          </div>
+        </div>
+      )}
+      {value?.method === "seasonal_weekday" && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          เทียบกับวันเดียวกันของสัปดาห์ก่อน ๆ แกน X ต้องเป็นวันที่ จำนวนจุดย้อนหลังนับเป็นสัปดาห์
+        </p>
+      )}
+    </div>
+  );
+}
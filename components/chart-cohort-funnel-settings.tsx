@@ -0,0 +1,258 @@
+"use client";
+
+import { Filter, Grid3x3, Plus, Trash2 } from "lucide-react";
+import {
+  ChartCohortConfig,
+  ChartFunnelConfig,
+  CohortPeriod,
+} from "@/types/chart";
+import { COHORT_PERIODS, DEFAULT_COHORT_MAX_OFFSET } from "@/lib/cohort-funnel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const COHORT_PERIOD_OPTIONS: Record<CohortPeriod, string> = {
+  day: "รายวัน",
+  week: "รายสัปดาห์ (เริ่มวันจันทร์)",
+  month: "รายเดือน",
+};
+
+export const EMPTY_COHORT_CONFIG: ChartCohortConfig = {
+  entityKey: "",
+  dateKey: "",
+  period: "week",
+};
+
+export const EMPTY_FUNNEL_CONFIG: ChartFunnelConfig = {
+  steps: [{ column: "" }, { column: "" }],
+};
+
+/**
+ * Funnel config as saved: steps without a column dropped, blank labels and
+ * entity omitted. Null when fewer than two steps remain.
+ */
+export function normalizeFunnelConfig(funnel: ChartFunnelConfig): ChartFunnelConfig | null {
+  const steps = funnel.steps
+    .filter((step) => step.column.trim())
+    .map((step) => ({
+      column: step.column.trim(),
+      ...(step.label?.trim() ? { label: step.label.trim() } : {}),
+    }));
+  if (steps.length < 2) return null;
+  return {
+    steps,
+    ...(funnel.entityKey?.trim() ? { entityKey: funnel.entityKey.trim() } : {}),
+  };
+}
+
+// Columns saved on the chart so server-side reads (public links, reports) fetch only these
+export function cohortFunnelColumns(
+  type: "cohort" | "funnel",
+  cohort: ChartCohortConfig,
+  funnel: ChartFunnelConfig | null,
+): string[] {
+  const columns =
+    type === "cohort"
+      ? [cohort.entityKey, cohort.dateKey]
+      : [funnel?.entityKey || "", ...(funnel?.steps || []).map((step) => step.column)];
+  return columns.filter((column, i) => !!column && columns.indexOf(column) === i);
+}
+
+const ColumnInput = ({
+  value,
+  onChange,
+  placeholder,
+  listId,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  listId: string;
+}) => (
+  <Input
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    placeholder={placeholder}
+    list={listId}
+  />
+);
+
+const ColumnList = ({ id, columns }: { id: string; columns: string[] }) => (
+  <datalist id={id}>
+    {columns.map((column) => (
+      <option key={column} value={column} />
+    ))}
+  </datalist>
+);
+
+interface ChartCohortSettingsProps {
+  value: ChartCohortConfig;
+  onChange: (value: ChartCohortConfig) => void;
+  columns: string[];
+}
+
+/**
+ * Who is followed and when they were active, for the retention heatmap
+ */
+export function ChartCohortSettings({ value, onChange, columns }: ChartCohortSettingsProps) {
+  return (
+    <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
+      <div className="flex items-center gap-2 text-foreground">
+        <Grid3x3 className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">ตั้งค่า Cohort</h3>
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">
+        จัดกลุ่มผู้ใช้ตามช่วงเวลาที่ใช้งานครั้งแรก แล้วดูว่ากี่เปอร์เซ็นต์ยังกลับมาใช้งานในช่วงถัด ๆ ไป
+      </p>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            คอลัมน์ผู้ใช้ (เช่น member_id)
+          </label>
+          <ColumnInput
+            value={value.entityKey}
+            onChange={(entityKey) => onChange({ ...value, entityKey })}
+            placeholder="คอลัมน์ผู้ใช้"
+            listId="cohort-columns"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            คอลัมน์วันที่ใช้งาน (เช่น redeemed_at)
+          </label>
+          <ColumnInput
+            value={value.dateKey}
+            onChange={(dateKey) => onChange({ ...value, dateKey })}
+            placeholder="คอลัมน์วันที่"
+            listId="cohort-columns"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            ช่วงเวลา
+          </label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full justify-between">
+                {COHORT_PERIOD_OPTIONS[value.period]}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-[240px] z-[500]">
+              {COHORT_PERIODS.map((period) => (
+                <DropdownMenuItem key={period} onSelect={() => onChange({ ...value, period })}>
+                  {COHORT_PERIOD_OPTIONS[period]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            จำนวนช่วงที่แสดง
+          </label>
+          <Input
+            type="number"
+            min={1}
+            max={52}
+            value={value.maxOffset ?? DEFAULT_COHORT_MAX_OFFSET}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxOffset: Math.min(52, Math.max(1, Math.trunc(Number(e.target.value)) || 1)),
+              })
+            }
+          />
+        </div>
+      </div>
+      <ColumnList id="cohort-columns" columns={columns} />
+    </div>
+  );
+}
+
+interface ChartFunnelSettingsProps {
+  value: ChartFunnelConfig;
+  onChange: (value: ChartFunnelConfig) => void;
+  columns: string[];
+}
+
+/**
+ * Ordered funnel steps, each reached by rows with a value in its column
+ */
+export function ChartFunnelSettings({ value, onChange, columns }: ChartFunnelSettingsProps) {
+  const updateStep = (index: number, patch: Partial<ChartFunnelConfig["steps"][number]>) =>
+    onChange({
+      ...value,
+      steps: value.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    });
+
+  return (
+    <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
+      <div className="flex items-center gap-2 text-foreground">
+        <Filter className="h-4 w-4 text-primary" />
+        <h3 className="text-sm font-semibold">ขั้นตอนของ Funnel</h3>
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">
+        เรียงขั้นตอนจากบนลงล่าง (เช่น ออกคูปอง → กดรับ → ใช้คูปอง → ใช้ซ้ำ) แถวที่คอลัมน์ของขั้นตอนไม่เป็น NULL ถือว่าผ่านขั้นตอนนั้น
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {value.steps.map((step, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-6 text-right text-xs text-muted-foreground">{index + 1}.</span>
+            <ColumnInput
+              value={step.column}
+              onChange={(column) => updateStep(index, { column })}
+              placeholder="คอลัมน์"
+              listId="funnel-columns"
+            />
+            <Input
+              value={step.label || ""}
+              onChange={(e) => updateStep(index, { label: e.target.value })}
+              placeholder="ชื่อขั้นตอน (ไม่บังคับ)"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                onChange({ ...value, steps: value.steps.filter((_, i) => i !== index) })
+              }
+              disabled={value.steps.length <= 2}
+              aria-label="ลบขั้นตอน"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, steps: [...value.steps, { column: "" }] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          เพิ่มขั้นตอน
+        </Button>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          นับผู้ใช้ไม่ซ้ำตามคอลัมน์ (ไม่บังคับ)
+        </label>
+        <ColumnInput
+          value={value.entityKey || ""}
+          onChange={(entityKey) => onChange({ ...value, entityKey })}
+          placeholder="เว้นว่าง = นับจำนวนแถว"
+          listId="funnel-columns"
+        />
+      </div>
+      <ColumnList id="funnel-columns" columns={columns} />
+    </div>
+  );
+}
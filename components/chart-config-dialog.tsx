@@ -1,7 +1,13 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { ChartConfig, ChartType } from "@/types/chart";
+import {
+  ChartAnomalyConfig,
+  ChartCohortConfig,
+  ChartConfig,
+  ChartFunnelConfig,
+  ChartType,
+} from "@/types/chart";
 import {
   Dialog,
   DialogContent,
@@ -19,7 +25,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ColDef } from "ag-grid-community";
-import { useConnections } from "@/hooks/use-connections";
+import { TableGroup, useConnections } from "@/hooks/use-connections";
+import { isSqlDbType } from "@/lib/db-types";
+import { ChartAnomalySettings } from "@/components/chart-anomaly-settings";
+import {
+  ChartCohortSettings,
+  ChartFunnelSettings,
+  cohortFunnelColumns,
+  EMPTY_COHORT_CONFIG,
+  EMPTY_FUNNEL_CONFIG,
+  normalizeFunnelConfig,
+} from "@/components/chart-cohort-funnel-settings";
 import { cn } from "@/lib/utils";
 import {
   BarChart3,
@@ -30,6 +46,9 @@ import {
   Sparkles,
   SlidersHorizontal,
   Columns3,
+  Timer,
+  Grid3x3,
+  Filter,
   X as XIcon,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
@@ -77,6 +96,18 @@ const chartTypeOptions: ChartTypeOption[] = [
     description: "ดูสัดส่วนของข้อมูลแบบรวม",
     icon: PieChart,
   },
+  {
+    value: "cohort",
+    label: "Cohort Retention",
+    description: "ดูอัตรากลับมาใช้ซ้ำของผู้ใช้แต่ละรุ่น",
+    icon: Grid3x3,
+  },
+  {
+    value: "funnel",
+    label: "Funnel",
+    description: "ดูอัตราการผ่านแต่ละขั้นตอน",
+    icon: Filter,
+  },
   {
     value: "markdown",
     label: "Markdown Note",
@@ -87,6 +118,10 @@ const chartTypeOptions: ChartTypeOption[] = [
 
 const DROPDOWN_MENU_Z = "z-[500]";
 
+// PostgreSQL answers with tables grouped by schema; MySQL with a flat list
+const toTableGroups = (data: { tables?: string[]; groups?: TableGroup[] }): TableGroup[] =>
+  data.groups ?? (data.tables?.length ? [{ schema: "", tables: data.tables }] : []);
+
 export function ChartConfigDialog({
   open,
   onOpenChange,
@@ -98,6 +133,9 @@ export function ChartConfigDialog({
   const [title, setTitle] = useState(config?.title ?? "");
   const [type, setType] = useState<ChartType>(config?.type ?? "table");
   const [height, setHeight] = useState(config?.height ?? 500);
+  const [cacheTtl, setCacheTtl] = useState(
+    config?.cacheTtlSeconds?.toString() ?? "",
+  );
   const [selectedColumns, setSelectedColumns] = useState<string[]>(
     config?.columns ?? [],
   );
@@ -105,7 +143,7 @@ export function ChartConfigDialog({
   const [tableName, setTableName] = useState(config?.tableName ?? "");
   const [connectionId, setConnectionId] = useState(config?.connectionId ?? "");
   const [database, setDatabase] = useState(config?.database ?? "");
-  const [tables, setTables] = useState<string[]>([]);
+  const [tableGroups, setTableGroups] = useState<TableGroup[]>([]);
   const [databases, setDatabases] = useState<string[]>([]);
   const [xAxisKey, setXAxisKey] = useState(config?.xAxisKey ?? "");
   const [yAxisKey, setYAxisKey] = useState(config?.yAxisKey ?? "");
@@ -124,6 +162,15 @@ export function ChartConfigDialog({
   );
   const [xAxisTitle, setXAxisTitle] = useState(config?.xAxisTitle ?? "");
   const [yAxisTitle, setYAxisTitle] = useState(config?.yAxisTitle ?? "");
+  const [anomaly, setAnomaly] = useState<ChartAnomalyConfig | undefined>(
+    config?.anomaly,
+  );
+  const [cohort, setCohort] = useState<ChartCohortConfig>(
+    config?.cohort ?? EMPTY_COHORT_CONFIG,
+  );
+  const [funnel, setFunnel] = useState<ChartFunnelConfig>(
+    config?.funnel ?? EMPTY_FUNNEL_CONFIG,
+  );
   const [markdownContent, setMarkdownContent] = useState(
     config?.markdownContent ?? "",
   );
@@ -133,6 +180,8 @@ export function ChartConfigDialog({
   const availableColumns = tableColumns.length ? tableColumns : availableFields;
   const isAxisChart = type === "bar" || type === "line" || type === "pie";
   const isMatrix = type === "matrix";
+  const isCohort = type === "cohort";
+  const isFunnel = type === "funnel";
   const isMarkdown = type === "markdown";
 
   const sortCandidates = availableColumns
@@ -147,8 +196,6 @@ export function ChartConfigDialog({
     if (didPrefetchRef.current) return;
     if (!connectionId || !database || !tableName) return;
 
-    const c = connections.find((x) => x.id === connectionId);
-    if (!c) return;
     didPrefetchRef.current = true;
 
     (async () => {
@@ -157,33 +204,18 @@ export function ChartConfigDialog({
           fetch("/api/db/tables", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              host: c.host,
-              port: c.port,
-              user: c.user,
-              password: c.password,
-            }),
+            body: JSON.stringify({ connectionId }),
           }),
           fetch("/api/db/tables", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              host: c.host,
-              port: c.port,
-              user: c.user,
-              password: c.password,
-              database,
-            }),
+            body: JSON.stringify({ connectionId, database }),
           }),
           fetch("/api/db/columns", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              type: c.type,
-              host: c.host,
-              port: c.port,
-              user: c.user,
-              password: c.password,
+              connectionId,
               database,
               table: tableName,
             }),
@@ -196,7 +228,7 @@ export function ChartConfigDialog({
           colsRes.json(),
         ]);
         setDatabases(dbs.databases ?? []);
-        setTables(tbls.tables ?? []);
+        setTableGroups(toTableGroups(tbls));
         setTableColumns(
           (cols.columns ?? []).map((x: { name: string }) => x.name),
         );
@@ -204,22 +236,14 @@ export function ChartConfigDialog({
         // no-op on background failure
       }
     })();
-  }, [open, connectionId, database, tableName, connections]);
+  }, [open, connectionId, database, tableName]);
 
   const fetchDatabases = async () => {
     if (!connectionId) return;
-    const c = connections.find((x) => x.id === connectionId);
-    if (!c) return;
     const res = await fetch("/api/db/tables", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: c.type,
-        host: c.host,
-        port: c.port,
-        user: c.user,
-        password: c.password,
-      }),
+      body: JSON.stringify({ connectionId }),
     });
     const data = await res.json();
     setDatabases(data.databases ?? []);
@@ -227,22 +251,13 @@ export function ChartConfigDialog({
 
   const fetchTablesForDb = async (db: string) => {
     if (!connectionId || !db) return;
-    const c = connections.find((x) => x.id === connectionId);
-    if (!c) return;
     const res = await fetch("/api/db/tables", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: c.type,
-        host: c.host,
-        port: c.port,
-        user: c.user,
-        password: c.password,
-        database: db,
-      }),
+      body: JSON.stringify({ connectionId, database: db }),
     });
     const data = await res.json();
-    setTables(data.tables ?? []);
+    setTableGroups(toTableGroups(data));
   };
 
   const handleSelectAllColumns = () => {
@@ -293,6 +308,15 @@ export function ChartConfigDialog({
       return;
     }
 
+    const savedCohort = {
+      ...cohort,
+      entityKey: cohort.entityKey.trim(),
+      dateKey: cohort.dateKey.trim(),
+    };
+    if (isCohort && (!savedCohort.entityKey || !savedCohort.dateKey)) return;
+    const savedFunnel = isFunnel ? normalizeFunnelConfig(funnel) : null;
+    if (isFunnel && !savedFunnel) return;
+
     const columnDefs: ColDef[] = selectedColumns.map((col) => ({
       field: col,
       flex: 1,
@@ -302,10 +326,17 @@ export function ChartConfigDialog({
       title: title.trim(),
       type,
       height,
+      cacheTtlSeconds:
+        cacheTtl.trim() === ""
+          ? undefined
+          : Math.max(0, Math.trunc(Number(cacheTtl)) || 0),
       connectionId,
       database,
       tableName: tableName || undefined,
-      columns: selectedColumns,
+      columns:
+        isCohort || isFunnel
+          ? cohortFunnelColumns(isCohort ? "cohort" : "funnel", savedCohort, savedFunnel)
+          : selectedColumns,
       columnDefs,
       xAxisKey: isAxisChart ? xAxisKey : undefined,
       yAxisKey: isAxisChart ? yAxisKey : undefined,
@@ -317,6 +348,9 @@ export function ChartConfigDialog({
       color: isAxisChart ? seriesColor : undefined,
       xAxisTitle: isAxisChart ? xAxisTitle || undefined : undefined,
       yAxisTitle: isAxisChart ? yAxisTitle || undefined : undefined,
+      anomaly: type === "line" ? anomaly : undefined,
+      cohort: isCohort ? savedCohort : undefined,
+      funnel: isFunnel ? savedFunnel! : undefined,
       aiGenerated: config?.aiGenerated,
     });
 
@@ -453,14 +487,14 @@ export function ChartConfigDialog({
                       align="start"
                       className={cn("w-[240px]", DROPDOWN_MENU_Z)}
                     >
-                      {connections.map((c) => (
+                      {connections.filter((c) => isSqlDbType(c.type)).map((c) => (
                         <DropdownMenuItem
                           key={c.id}
                           onSelect={() => {
                             setConnectionId(c.id);
                             setDatabase("");
                             setTableName("");
-                            setTables([]);
+                            setTableGroups([]);
                             setDatabases([]);
                           }}
                         >
@@ -496,7 +530,7 @@ export function ChartConfigDialog({
                           onClick={() => {
                             setDatabase(db);
                             setTableName("");
-                            setTables([]);
+                            setTableGroups([]);
                           }}
                           type="button"
                         >
@@ -523,43 +557,45 @@ export function ChartConfigDialog({
                     {tableName || "โหลด/เลือก Table"}
                   </Button>
                 </div>
-                {tables.length > 0 ? (
-                  <div className="flex flex-wrap gap-2 pt-2">
-                    {tables.map((t) => (
-                      <Button
-                        key={t}
-                        variant={t === tableName ? "default" : "secondary"}
-                        size="sm"
-                        onClick={async () => {
-                          setTableName(t);
-                          const c = connections.find(
-                            (x) => x.id === connectionId,
-                          );
-                          if (!c) return;
-                          const res = await fetch("/api/db/columns", {
-                            method: "POST",
-                            headers: { "Content-Type": "application/json" },
-                            body: JSON.stringify({
-                              type: c.type,
-                              host: c.host,
-                              port: c.port,
-                              user: c.user,
-                              password: c.password,
-                              database,
-                              table: t,
-                            }),
-                          });
-                          const data = await res.json();
-                          setTableColumns(
-                            (data.columns ?? []).map(
-                              (x: { name: string }) => x.name,
-                            ),
-                          );
-                        }}
-                        type="button"
-                      >
-                        {t}
-                      </Button>
+                {tableGroups.length > 0 ? (
+                  <div className="space-y-2 pt-2">
+                    {tableGroups.map((group) => (
+                      <div key={group.schema}>
+                        {tableGroups.length > 1 && (
+                          <p className="pb-1 text-xs text-muted-foreground">{group.schema}</p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          {group.tables.map((t) => (
+                            <Button
+                              key={t}
+                              variant={t === tableName ? "default" : "secondary"}
+                              size="sm"
+                              onClick={async () => {
+                                setTableName(t);
+                                if (!connectionId) return;
+                                const res = await fetch("/api/db/columns", {
+                                  method: "POST",
+                                  headers: { "Content-Type": "application/json" },
+                                  body: JSON.stringify({
+                                    connectionId,
+                                    database,
+                                    table: t,
+                                  }),
+                                });
+                                const data = await res.json();
+                                setTableColumns(
+                                  (data.columns ?? []).map(
+                                    (x: { name: string }) => x.name,
+                                  ),
+                                );
+                              }}
+                              type="button"
+                            >
+                              {t}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
                     ))}
                   </div>
                 ) : (
@@ -574,7 +610,7 @@ export function ChartConfigDialog({
             </div>
           )}
 
-          {!isMarkdown && (
+          {!isMarkdown && !isCohort && !isFunnel && (
             <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
               <div className="flex items-center gap-2 text-foreground">
                 <Columns3 className="h-4 w-4 text-primary" />
@@ -703,6 +739,47 @@ export function ChartConfigDialog({
             </div>
           )}
 
+          {/* Table charts page through live rows; only other charts are cached */}
+          {!isMarkdown && type !== "table" && (
+            <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
+              <div className="flex items-center gap-2 text-foreground">
+                <Timer className="h-4 w-4 text-primary" />
+                <h3 className="text-sm font-semibold">แคชข้อมูล (วินาที)</h3>
+              </div>
+              <p className="mt-1 text-sm text-muted-foreground">
+                ผู้ชมทุกคนใช้ผลลัพธ์เดียวกันจนกว่าจะหมดอายุ เว้นว่างเพื่อใช้ค่าเริ่มต้นของระบบ หรือใส่ 0 เพื่อดึงข้อมูลใหม่ทุกครั้ง
+              </p>
+              <Input
+                type="number"
+                value={cacheTtl}
+                onChange={(e) => setCacheTtl(e.target.value)}
+                min={0}
+                placeholder="ค่าเริ่มต้น"
+                className="mt-4 w-40"
+              />
+            </div>
+          )}
+
+          {type === "line" && (
+            <ChartAnomalySettings value={anomaly} onChange={setAnomaly} />
+          )}
+
+          {isCohort && (
+            <ChartCohortSettings
+              value={cohort}
+              onChange={setCohort}
+              columns={availableColumns}
+            />
+          )}
+
+          {isFunnel && (
+            <ChartFunnelSettings
+              value={funnel}
+              onChange={setFunnel}
+              columns={availableColumns}
+            />
+          )}
+
           {isAxisChart && (
             <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
               <div className="flex flex-wrap items-center justify-between gap-3">
@@ -1002,7 +1079,9 @@ export function ChartConfigDialog({
                 (type === "table" && selectedColumns.length === 0) ||
                 (isMatrix && selectedColumns.length === 0) ||
                 (isMarkdown && !markdownContent.trim()) ||
-                (isAxisChart && (!xAxisKey || !yAxisKey))
+                (isAxisChart && (!xAxisKey || !yAxisKey)) ||
+                (isCohort && (!cohort.entityKey.trim() || !cohort.dateKey.trim())) ||
+                (isFunnel && !normalizeFunnelConfig(funnel))
               }
             >
               บันทึก
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChartConfig } from "@/types/chart";
+import { FraudCaseAttachmentInput, FraudSeverity } from "@/types/fraud";
+import { useFraudCases } from "@/hooks/use-fraud-cases";
+import { FRAUD_SEVERITY_LABELS } from "@/components/fraud-rule-editor-dialog";
+import {
+  FRAUD_CASE_STATUS_CLASSES,
+  FRAUD_CASE_STATUS_LABELS,
+  fraudCaseTitle,
+} from "@/components/fraud-case-dialog";
+
+interface ChartFraudCasesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tabId: string;
+  chart: ChartConfig;
+  canEdit: boolean;
+}
+
+/**
+ * Fraud cases a chart is attached to as evidence; opens a new case from the
+ * chart or attaches it to a case still being worked
+ */
+export function ChartFraudCasesDialog({
+  open,
+  onOpenChange,
+  tabId,
+  chart,
+  canEdit,
+}: ChartFraudCasesDialogProps) {
+  const { cases, isLoaded, createCase, attachToCase } = useFraudCases();
+  const [title, setTitle] = useState(chart.title || "");
+  const [severity, setSeverity] = useState<FraudSeverity>("medium");
+  const [targetId, setTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const attachment: FraudCaseAttachmentInput = {
+    type: "chart",
+    tabId,
+    chartId: chart.id,
+    title: chart.title || chart.id,
+    sql: chart.sqlQuery,
+    connectionId: chart.connectionId,
+    database: chart.database,
+  };
+  const isLinked = (attachments?: { type: string; chartId?: string }[]) =>
+    !!attachments?.some((a) => a.type === "chart" && a.chartId === chart.id);
+  const linkedCases = cases.filter((c) => isLinked(c.attachments));
+  const attachableCases = cases.filter(
+    (c) => !isLinked(c.attachments) && (c.status === "open" || c.status === "investigating"),
+  );
+
+  const save = async (action: () => Promise<unknown>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!title.trim()) return;
+    await save(() => createCase({ title, severity, attachment }), "เปิดเคสไม่สำเร็จ");
+  };
+
+  const handleAttach = async () => {
+    if (!targetId) return;
+    if (await save(() => attachToCase(targetId, attachment), "แนบกราฟไม่สำเร็จ")) {
+      setTargetId("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>เคสทุจริต: {chart.title || chart.id}</DialogTitle>
+          <DialogDescription>เคสที่ใช้กราฟนี้เป็นหลักฐาน</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2">
+            {isLoaded && linkedCases.length === 0 && (
+              <div className="text-muted-foreground">ยังไม่มีเคสที่แนบกราฟนี้</div>
+            )}
+            {linkedCases.map((fraudCase) => (
+              <div
+                key={fraudCase.id}
+                className="border rounded-md p-3 flex flex-wrap items-center gap-x-4 gap-y-1"
+              >
+                <Link
+                  href={`/dashboard/fraud?case=${encodeURIComponent(fraudCase.id)}`}
+                  className="min-w-[200px] flex-1 font-medium text-primary hover:underline"
+                >
+                  {fraudCaseTitle(fraudCase)}
+                </Link>
+                <span
+                  className={`rounded px-1.5 py-0.5 text-xs ${FRAUD_CASE_STATUS_CLASSES[fraudCase.status]}`}
+                >
+                  {FRAUD_CASE_STATUS_LABELS[fraudCase.status]}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {fraudCase.assignee || "ยังไม่มอบหมาย"}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {canEdit && (
+            <>
+              <div className="space-y-2 border-t pt-4">
+                <div className="font-medium">เปิดเคสใหม่จากกราฟนี้</div>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    className="min-w-[200px] flex-1"
+                    placeholder="ชื่อเคส"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                  />
+                  <Select
+                    value={severity}
+                    onValueChange={(v) => setSeverity(v as FraudSeverity)}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FRAUD_SEVERITY_LABELS) as FraudSeverity[]).map((s) => (
+                        <SelectItem key={s} value={s}>
+                          {FRAUD_SEVERITY_LABELS[s]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleCreate} disabled={isSaving || !title.trim()}>
+                    เปิดเคส
+                  </Button>
+                </div>
+              </div>
+
+              {attachableCases.length > 0 && (
+                <div className="space-y-2">
+                  <div className="font-medium">แนบกับเคสที่มีอยู่</div>
+                  <div className="flex flex-wrap gap-2">
+                    <Select value={targetId} onValueChange={setTargetId}>
+                      <SelectTrigger className="min-w-[200px] flex-1">
+                        <SelectValue placeholder="เลือกเคส" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {attachableCases.map((fraudCase) => (
+                          <SelectItem key={fraudCase.id} value={fraudCase.id}>
+                            {fraudCaseTitle(fraudCase)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={handleAttach}
+                      disabled={isSaving || !targetId}
+                    >
+                      แนบกราฟ
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { ChartConfig, FilterRule, FilterOperator } from "@/types/chart";
 import { AgGridReact } from "ag-grid-react";
-import { ColDef } from "ag-grid-community";
+import { ColDef, IDatasource } from "ag-grid-community";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Toast } from "@/components/ui/toast";
@@ -26,7 +26,10 @@ import {
   FileSpreadsheet,
   FileText,
   Link2,
+  RefreshCw,
   Sparkles,
+  Bell,
+  ShieldAlert,
 } from "lucide-react";
 import React from "react";
 import ReactMarkdown from "react-markdown";
@@ -47,14 +50,38 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { useIsMobile } from "@/hooks/use-mobile";
+import type { QueryCacheMeta } from "@/lib/query-cache";
+import { ChartAnomalies, detectSeriesAnomalies } from "@/lib/anomaly";
+import { createCsvWriter } from "@/lib/csv-file";
+import {
+  CohortCell,
+  computeCohortCells,
+  computeFunnelCounts,
+  DEFAULT_COHORT_MAX_OFFSET,
+  toCohortRows,
+  toFunnelStages,
+} from "@/lib/cohort-funnel";
+import type {
+  GridExportRequest,
+  GridPageRequest,
+  GridPageResult,
+  GridSortModelItem,
+} from "@/lib/grid-query";
 
 interface ChartRendererProps {
   config: ChartConfig;
   data: Record<string, unknown>[];
   isLoading?: boolean;
+  isPreAggregated?: boolean; // Rows were already grouped by the database (one row per group/series)
+  onCancelLoading?: () => void; // Cancels the running query while isLoading
+  cacheMeta?: QueryCacheMeta; // When the rows were read, shown as "data as of"
+  anomalies?: ChartAnomalies | null; // Computed by the server (public pages); otherwise detected on the drawn series
+  onRefresh?: () => void; // Re-run the chart's query, bypassing the server cache
   onEdit?: (config: ChartConfig) => void;
   onDelete?: (id: string) => void;
   onDuplicate?: (config: ChartConfig) => void;
+  onConfigureAlerts?: (config: ChartConfig) => void; // Opens the chart's alert rules
+  onOpenFraudCases?: (config: ChartConfig) => void; // Opens the fraud cases citing the chart
   onUpdate?: (
     id: string,
     updates: Partial<ChartConfig>,
@@ -69,20 +96,69 @@ interface ChartRendererProps {
   isResizing?: boolean;
   availableFields?: string[]; // All fields from table for filter dropdown
   onFilterChange?: (id: string, filters: FilterRule[]) => void; // Callback when filters change
-  onFetchAllData?: () => Promise<Record<string, unknown>[]>; // Function to fetch all data for export (no limit)
+  onFetchPage?: (
+    request: GridPageRequest,
+    filters: FilterRule[],
+  ) => Promise<GridPageResult>; // Table charts: load rows block by block, sorted/filtered by the database
+  onFetchAllData?: (
+    request: GridExportRequest,
+    filters: FilterRule[],
+  ) => Promise<Record<string, unknown>[]>; // Function to fetch all data for export (no limit)
+  onStreamAllData?: (
+    request: GridExportRequest,
+    filters: FilterRule[],
+    onRows: (rows: Record<string, unknown>[]) => Promise<void>,
+  ) => Promise<void>; // Same rows as onFetchAllData, batch by batch as they arrive (CSV export)
 }
 
 const formatNumber = (value: unknown): string => {
   return value as string;
 };
 
+const COHORT_PERIOD_LABELS = { day: "วัน", week: "สัปดาห์", month: "เดือน" };
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const formatAnomalyValue = (value: number) =>
+  value.toLocaleString("th-TH", { maximumFractionDigits: 2 });
+
+// Line dots: flagged points drawn larger in red
+const anomalyDot =
+  (series: string, color: string, flagged: Set<string>) =>
+  function AnomalyDot(props: {
+    cx?: number;
+    cy?: number;
+    index?: number;
+    payload?: { name?: unknown };
+  }) {
+    const isAnomaly = flagged.has(`${series}\u0000${String(props.payload?.name ?? "")}`);
+    return (
+      <circle
+        key={`${series}-${props.index}`}
+        cx={props.cx}
+        cy={props.cy}
+        r={isAnomaly ? 6 : 3}
+        fill={isAnomaly ? "var(--destructive)" : color}
+        stroke={isAnomaly ? "var(--background)" : color}
+        strokeWidth={isAnomaly ? 2 : 1}
+      />
+    );
+  };
+
 export function ChartRenderer({
   config,
   data,
   isLoading = false,
+  isPreAggregated = false,
+  onCancelLoading,
+  cacheMeta,
+  anomalies,
+  onRefresh,
   onEdit,
   onDelete,
   onDuplicate,
+  onConfigureAlerts,
+  onOpenFraudCases,
   onUpdate,
   onDragStart,
   onDragEnd,
@@ -91,7 +167,9 @@ export function ChartRenderer({
   isResizing: externalIsResizing,
   availableFields = [],
   onFilterChange,
+  onFetchPage,
   onFetchAllData,
+  onStreamAllData,
 }: ChartRendererProps) {
   const isMobile = useIsMobile();
   const [filters, setFilters] = React.useState<FilterRule[]>(
@@ -238,8 +316,8 @@ export function ChartRenderer({
     if (config.yAxisKey) set.add(config.yAxisKey);
     if (config.groupByKey) set.add(config.groupByKey);
     if (config.seriesKey) set.add(config.seriesKey);
-    // For SQL query charts, also include fields from data
-    if (config.sqlQuery && data && data.length > 0) {
+    // For SQL query and pipeline charts, also include fields from data
+    if ((config.sqlQuery || config.pipeline) && data && data.length > 0) {
       const firstRow = data[0] as Record<string, unknown>;
       Object.keys(firstRow).forEach((key) => set.add(key));
     }
@@ -252,6 +330,7 @@ export function ChartRenderer({
     config.groupByKey,
     config.seriesKey,
     config.sqlQuery,
+    config.pipeline,
     data,
   ]);
 
@@ -910,7 +989,8 @@ export function ChartRenderer({
     const seriesNames = Array.from(
       new Set(Array.from(acc.values()).flatMap((m) => Array.from(m.keys()))),
     );
-    const aggregate = config.aggregate || "sum";
+    // Pre-aggregated rows hold one value per group/series, so summing keeps it as is
+    const aggregate = isPreAggregated ? "sum" : config.aggregate || "sum";
     const data = Array.from(acc.entries()).map(([name, inner]) => {
       const rec: Record<string, unknown> = { name };
       for (const s of seriesNames) {
@@ -998,8 +1078,52 @@ export function ChartRenderer({
     "var(--chart-5)",
   ];
 
+  // Table charts with onFetchPage use AG Grid's infinite row model: `data` is
+  // only a sample for column detection, the grid asks the server for each block
+  const isServerGrid = config.type === "table" && !!onFetchPage;
+  const fetchPageRef = React.useRef(onFetchPage);
+  React.useEffect(() => {
+    fetchPageRef.current = onFetchPage;
+  }, [onFetchPage]);
+
+  // Filter changes swap the datasource, which reloads the grid from the first block
+  const gridDatasource = React.useMemo<IDatasource | undefined>(() => {
+    if (!isServerGrid) return undefined;
+    return {
+      getRows: (params) => {
+        const fetchPage = fetchPageRef.current;
+        if (!fetchPage) {
+          params.failCallback();
+          return;
+        }
+        fetchPage(
+          {
+            startRow: params.startRow,
+            endRow: params.endRow,
+            sortModel: params.sortModel as GridSortModelItem[],
+            filterModel: params.filterModel,
+          },
+          filters,
+        )
+          .then(({ rows, lastRow }) =>
+            params.successCallback(rows, lastRow ?? -1),
+          )
+          .catch((error) => {
+            console.error("Error fetching table rows:", error);
+            params.failCallback();
+          });
+      },
+    };
+  }, [isServerGrid, filters]);
+
+  // New sample data means the chart was refetched (tab inputs, edits): drop loaded blocks
+  React.useEffect(() => {
+    if (isServerGrid) gridRef.current?.api?.purgeInfiniteCache();
+  }, [isServerGrid, data]);
+
   const getTableFilteredRows = React.useCallback(() => {
-    if (config.type !== "table") return null;
+    // Server-side grids only hold the loaded blocks; export asks the server instead
+    if (config.type !== "table" || isServerGrid) return null;
     const api = gridRef.current?.api;
     if (!api) return null;
     const filteredRows: Record<string, unknown>[] = [];
@@ -1009,7 +1133,20 @@ export function ChartRenderer({
       }
     });
     return filteredRows;
-  }, [config.type]);
+  }, [config.type, isServerGrid]);
+
+  // The grid's current sort and filter, for exports read from the server
+  const getGridExportRequest = React.useCallback((): GridExportRequest => {
+    const api = gridRef.current?.api;
+    const sortModel = (api?.getColumnState() ?? [])
+      .filter((column) => column.sort)
+      .sort((a, b) => (a.sortIndex ?? 0) - (b.sortIndex ?? 0))
+      .map((column) => ({
+        colId: column.colId,
+        sort: column.sort as GridSortModelItem["sort"],
+      }));
+    return { sortModel, filterModel: api?.getFilterModel() };
+  }, []);
 
   const getRowsForExport = React.useCallback(async () => {
     const tableRows = getTableFilteredRows();
@@ -1017,11 +1154,37 @@ export function ChartRenderer({
       return tableRows;
     }
     if (onFetchAllData) {
-      const allRows = await onFetchAllData();
+      const allRows = await onFetchAllData(getGridExportRequest(), filters);
       return allRows ?? [];
     }
     return filteredData;
-  }, [filteredData, getTableFilteredRows, onFetchAllData]);
+  }, [filteredData, filters, getGridExportRequest, getTableFilteredRows, onFetchAllData]);
+
+  const exportFileName = (extension: string) =>
+    `${config.title || "export"}_${new Date().toISOString().split("T")[0]}.${extension}`;
+
+  // Server grids stream into the file batch by batch instead of loading every row first
+  const handleExportCSV = async () => {
+    const headers = computedColDefs
+      .map((col) => col.field as string)
+      .filter(Boolean);
+    let writer: Awaited<ReturnType<typeof createCsvWriter>> = null;
+    try {
+      writer = await createCsvWriter(exportFileName("csv"), headers);
+      if (!writer) return;
+      const csv = writer;
+      if (onStreamAllData && getTableFilteredRows() === null) {
+        await onStreamAllData(getGridExportRequest(), filters, (rows) => csv.write(rows));
+      } else {
+        await csv.write(await getRowsForExport());
+      }
+      await csv.close();
+    } catch (error) {
+      await writer?.abort().catch(() => {});
+      console.error("Error exporting to CSV:", error);
+      alert("เกิดข้อผิดพลาดในการ export CSV");
+    }
+  };
 
   // Export functions
   const handleExportExcel = async () => {
@@ -1073,9 +1236,7 @@ export function ChartRenderer({
       XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1");
 
       // Download file
-      const fileName = `${config.title || "export"}_${
-        new Date().toISOString().split("T")[0]
-      }.xlsx`;
+      const fileName = exportFileName("xlsx");
       XLSX.writeFile(workbook, fileName);
     } catch (error) {
       console.error("Error exporting to Excel:", error);
@@ -1168,9 +1329,7 @@ export function ChartRenderer({
       });
 
       // Download file
-      const fileName = `${config.title || "export"}_${
-        new Date().toISOString().split("T")[0]
-      }.pdf`;
+      const fileName = exportFileName("pdf");
       doc.save(fileName);
     } catch (error) {
       console.error("Error exporting to PDF:", error);
@@ -1194,7 +1353,13 @@ export function ChartRenderer({
           >
             <AgGridReact
               ref={gridRef}
-              rowData={filteredData}
+              {...(isServerGrid
+                ? {
+                    rowModelType: "infinite" as const,
+                    datasource: gridDatasource,
+                    cacheBlockSize: 100,
+                  }
+                : { rowData: filteredData })}
               columnDefs={computedColDefs}
               defaultColDef={defaultColDef}
               animateRows
@@ -1321,7 +1486,42 @@ export function ChartRenderer({
         }
 
         const lmulti = getGroupedSeriesData();
-        const lineData = lmulti.data.length ? lmulti.data : getChartData();
+        const baseLineData: Record<string, unknown>[] = lmulti.data.length
+          ? lmulti.data
+          : getChartData();
+
+        // Same detection as the server's, on the series as drawn here
+        const lineAnomalies = config.anomaly
+          ? anomalies ??
+            detectSeriesAnomalies(
+              Object.fromEntries(
+                lmulti.series.map((series) => [
+                  series,
+                  baseLineData.map((d) => ({
+                    x: String(d.name ?? ""),
+                    value: Number(d[series]) || 0,
+                  })),
+                ]),
+              ),
+              config.anomaly,
+            )
+          : null;
+        const flaggedPoints = new Set(
+          lineAnomalies?.anomalies.map((a) => `${a.series}\u0000${a.x}`),
+        );
+        // The band is drawn for a single series only; several would clutter the chart
+        const band =
+          lineAnomalies && lmulti.series.length === 1
+            ? new Map(
+                (lineAnomalies.bands[lmulti.series[0]] || []).map((p) => [p.x, p]),
+              )
+            : null;
+        const lineData = band
+          ? baseLineData.map((d) => {
+              const point = band.get(String(d.name ?? ""));
+              return { ...d, __lower: point?.lower, __upper: point?.upper };
+            })
+          : baseLineData;
 
         if (!lineData || lineData.length === 0) {
           return (
@@ -1368,6 +1568,34 @@ export function ChartRenderer({
                 />
                 <Tooltip formatter={(value: unknown) => formatNumber(value)} />
                 <Legend />
+                {band && (
+                  <Line
+                    name="ขอบล่าง"
+                    type="monotone"
+                    dataKey="__lower"
+                    stroke="var(--muted-foreground)"
+                    strokeDasharray="4 4"
+                    strokeWidth={1}
+                    dot={false}
+                    activeDot={false}
+                    legendType="none"
+                    connectNulls
+                  />
+                )}
+                {band && (
+                  <Line
+                    name="ขอบบน"
+                    type="monotone"
+                    dataKey="__upper"
+                    stroke="var(--muted-foreground)"
+                    strokeDasharray="4 4"
+                    strokeWidth={1}
+                    dot={false}
+                    activeDot={false}
+                    legendType="none"
+                    connectNulls
+                  />
+                )}
                 {lmulti.series.length ? (
                   lmulti.series.map((s, idx) => (
                     <Line
@@ -1378,7 +1606,11 @@ export function ChartRenderer({
                       stroke={COLORS[idx % COLORS.length]}
                       strokeWidth={3}
                       strokeLinecap="round"
-                      dot={{ r: 3 }}
+                      dot={
+                        lineAnomalies
+                          ? anomalyDot(s, COLORS[idx % COLORS.length], flaggedPoints)
+                          : { r: 3 }
+                      }
                       activeDot={{ r: 5 }}
                     />
                   ))
@@ -1395,6 +1627,54 @@ export function ChartRenderer({
                 )}
               </LineChart>
             </ResponsiveContainer>
+            {lineAnomalies && (
+              <div className="mt-3 space-y-1">
+                <div className="text-sm font-medium">
+                  จุดผิดปกติ ({lineAnomalies.anomalies.length})
+                </div>
+                {lineAnomalies.anomalies.length === 0 ? (
+                  <div className="text-xs text-muted-foreground">
+                    ไม่พบจุดที่อยู่นอกช่วงปกติ
+                  </div>
+                ) : (
+                  <div className="max-h-60 overflow-auto rounded-md border">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left bg-muted/50">
+                          {lmulti.series.length > 1 && <th className="px-2 py-1">ซีรีส์</th>}
+                          <th className="px-2 py-1">{config.xAxisTitle || config.xAxisKey}</th>
+                          <th className="px-2 py-1 text-right">ค่า</th>
+                          <th className="px-2 py-1 text-right">ค่าฐาน</th>
+                          <th className="px-2 py-1 text-right">ช่วงปกติ</th>
+                          <th className="px-2 py-1 text-right">ส่วนเบี่ยงเบน</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...lineAnomalies.anomalies].reverse().map((a) => (
+                          <tr key={`${a.series}-${a.x}`} className="border-t">
+                            {lmulti.series.length > 1 && <td className="px-2 py-1">{a.series}</td>}
+                            <td className="px-2 py-1 whitespace-nowrap">{a.x}</td>
+                            <td className="px-2 py-1 text-right text-destructive">
+                              {formatAnomalyValue(a.value)}
+                            </td>
+                            <td className="px-2 py-1 text-right">
+                              {formatAnomalyValue(a.baseline)}
+                            </td>
+                            <td className="px-2 py-1 text-right whitespace-nowrap">
+                              {formatAnomalyValue(a.lower)} – {formatAnomalyValue(a.upper)}
+                            </td>
+                            <td className="px-2 py-1 text-right">
+                              {a.score > 0 ? "+" : ""}
+                              {Math.abs(a.score) > 1000 ? "∞" : a.score.toFixed(1)}σ
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         );
 
@@ -1417,7 +1697,7 @@ export function ChartRenderer({
         // - Series By = ไม่ควรใช้ (pie chart แสดงได้แค่ 1 dimension) - ถ้ามีจะ ignore
         // - แต่ละ slice = aggregated value จาก yAxisKey
         const groupKey = config.groupByKey || config.xAxisKey;
-        const aggregate = config.aggregate || "sum";
+        const aggregate = isPreAggregated ? "sum" : config.aggregate || "sum";
 
         let pieData: { name: string; value: number }[] = [];
 
@@ -1689,6 +1969,132 @@ export function ChartRenderer({
         );
       }
 
+      case "cohort": {
+        const cohortConfig = config.cohort;
+        // Table charts get cells from the database; SQL charts bring raw activity rows
+        const cells =
+          cohortConfig && !isPreAggregated
+            ? computeCohortCells(filteredData as Record<string, unknown>[], cohortConfig)
+            : (filteredData as CohortCell[]);
+        const maxOffset = cohortConfig?.maxOffset ?? DEFAULT_COHORT_MAX_OFFSET;
+        const cohortRows = cohortConfig ? toCohortRows(cells, maxOffset) : [];
+        if (cohortRows.length === 0) {
+          return (
+            <div
+              className="w-full flex items-center justify-center border rounded-lg bg-muted/50"
+              style={{ height: localHeight }}
+            >
+              <p className="text-muted-foreground">
+                ไม่มีข้อมูลแสดง กรุณาตรวจสอบคอลัมน์ผู้ใช้และวันที่ของ Cohort
+              </p>
+            </div>
+          );
+        }
+        const periodLabel = COHORT_PERIOD_LABELS[cohortConfig!.period];
+        const offsets = Array.from({ length: maxOffset + 1 }, (_, i) => i);
+        return (
+          <div className="w-full overflow-auto" style={{ maxHeight: localHeight }}>
+            <table className="w-full text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="px-2 py-1 text-left font-medium">Cohort</th>
+                  <th className="px-2 py-1 text-right font-medium">จำนวน</th>
+                  {offsets.map((offset) => (
+                    <th key={offset} className="px-2 py-1 text-center font-medium whitespace-nowrap">
+                      {periodLabel} {offset}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cohortRows.map((row) => (
+                  <tr key={row.cohort}>
+                    <td className="px-2 py-1 whitespace-nowrap font-medium">{row.cohort}</td>
+                    <td className="px-2 py-1 text-right">{row.size.toLocaleString()}</td>
+                    {row.counts.map((count, offset) => {
+                      const ratio = count !== undefined && row.size ? count / row.size : 0;
+                      return (
+                        <td
+                          key={offset}
+                          className={`px-2 py-1 text-center rounded ${
+                            ratio > 0.5 ? "text-white" : ""
+                          }`}
+                          style={{
+                            backgroundColor:
+                              count === undefined
+                                ? undefined
+                                : `color-mix(in oklab, ${COLORS[0]} ${Math.round(
+                                    ratio * 100,
+                                  )}%, transparent)`,
+                          }}
+                          title={count === undefined ? undefined : `${count.toLocaleString()} / ${row.size.toLocaleString()}`}
+                        >
+                          {count === undefined ? "" : row.size ? formatPercent(ratio) : count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case "funnel": {
+        const funnelConfig = config.funnel;
+        // Table charts get one row of counts from the database; SQL charts bring raw rows
+        const counts =
+          funnelConfig && !isPreAggregated
+            ? computeFunnelCounts(filteredData as Record<string, unknown>[], funnelConfig)
+            : (filteredData[0] as Record<string, unknown> | undefined);
+        const stages = funnelConfig && counts ? toFunnelStages(counts, funnelConfig) : [];
+        if (stages.length === 0) {
+          return (
+            <div
+              className="w-full flex items-center justify-center border rounded-lg bg-muted/50"
+              style={{ height: localHeight }}
+            >
+              <p className="text-muted-foreground">
+                ไม่มีข้อมูลแสดง กรุณาตรวจสอบขั้นตอนของ Funnel
+              </p>
+            </div>
+          );
+        }
+        return (
+          <div className="w-full space-y-3 py-2">
+            {stages.map((stage, index) => (
+              <div key={`${stage.label}-${index}`} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-3 text-sm">
+                  <span className="font-medium">{stage.label}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    <span className="font-semibold text-foreground">
+                      {stage.count.toLocaleString()}
+                    </span>
+                    {index > 0 && (
+                      <>
+                        {" "}
+                        · {formatPercent(stage.ofPrevious)} จากขั้นก่อน ·{" "}
+                        {formatPercent(stage.ofFirst)} จากขั้นแรก
+                      </>
+                    )}
+                  </span>
+                </div>
+                <div className="h-8 w-full rounded bg-muted/50">
+                  <div
+                    className="h-8 rounded transition-all"
+                    style={{
+                      width: `${Math.max(stage.ofFirst * 100, stage.count ? 1 : 0)}%`,
+                      backgroundColor: COLORS[index % COLORS.length],
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
       case "markdown":
         if (!config.markdownContent) {
           return (
@@ -1769,11 +2175,39 @@ export function ChartRenderer({
                   </span>
                 )}
                 <CardTitle className="truncate">{config.title}</CardTitle>
+                {cacheMeta && (
+                  <span
+                    className="text-xs text-muted-foreground shrink-0"
+                    title={
+                      cacheMeta.cached
+                        ? "ข้อมูลจากแคช กดรีเฟรชเพื่อดึงข้อมูลล่าสุด"
+                        : undefined
+                    }
+                  >
+                    ข้อมูล ณ{" "}
+                    {new Date(cacheMeta.cachedAt).toLocaleTimeString("th-TH", {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                )}
               </>
             )}
           </div>
           <div className="flex gap-2 shrink-0">
-            {config.type === "table" && filteredData.length > 0 && (
+            {onRefresh && config.type !== "markdown" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onRefresh}
+                disabled={isLoading}
+                title="รีเฟรชข้อมูล"
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            )}
+            {config.type === "table" &&
+              (isServerGrid ? data.length > 0 : filteredData.length > 0) && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="icon" title="Export">
@@ -1785,6 +2219,10 @@ export function ChartRenderer({
                     <FileSpreadsheet className="h-4 w-4 mr-2" />
                     Export Excel
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleExportCSV}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleExportPDF}>
                     <FileText className="h-4 w-4 mr-2" />
                     Export PDF
@@ -1810,6 +2248,26 @@ export function ChartRenderer({
                 </svg>
               </Button>
             )}
+            {onConfigureAlerts && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onConfigureAlerts(config)}
+                title="การแจ้งเตือน"
+              >
+                <Bell className="h-4 w-4" />
+              </Button>
+            )}
+            {onOpenFraudCases && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onOpenFraudCases(config)}
+                title="เคสทุจริต"
+              >
+                <ShieldAlert className="h-4 w-4" />
+              </Button>
+            )}
             {/* Copy link button - always visible */}
             <Button
               variant="ghost"
@@ -2215,6 +2673,16 @@ export function ChartRenderer({
               <p className="text-muted-foreground text-sm">
                 กำลังโหลดข้อมูล...
               </p>
+              {onCancelLoading && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3"
+                  onClick={onCancelLoading}
+                >
+                  ยกเลิก
+                </Button>
+              )}
             </div>
           ) : (
             renderChart()
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { ConnectionPolicy } from "@/hooks/use-connections";
+import { UserRole } from "@/types/permission";
+
+const POLICY_ROLES: { value: UserRole; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "editor", label: "Editor" },
+];
+
+const toList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Comma separated list, edited as free text and committed on blur
+function ListInput({
+  values,
+  placeholder,
+  onCommit,
+}: {
+  values?: string[];
+  placeholder: string;
+  onCommit: (values: string[]) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <Input
+      placeholder={placeholder}
+      value={draft ?? (values || []).join(", ")}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) onCommit(toList(draft));
+        setDraft(null);
+      }}
+    />
+  );
+}
+
+interface ConnectionPolicyEditorProps {
+  policy?: ConnectionPolicy;
+  onChange: (policy: ConnectionPolicy) => void;
+}
+
+export function ConnectionPolicyEditor({
+  policy,
+  onChange,
+}: ConnectionPolicyEditorProps) {
+  const update = (updates: Partial<ConnectionPolicy>) => {
+    onChange({ ...policy, ...updates });
+  };
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    const roles = policy?.roles || [];
+    update({
+      roles: checked ? [...roles, role] : roles.filter((r) => r !== role),
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted/40 p-2 text-xs">
+      <div className="font-medium text-foreground">สิทธิ์การใช้งาน Connection</div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-muted-foreground">Role ที่ใช้ได้:</span>
+        {POLICY_ROLES.map((role) => (
+          <label key={role.value} className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+              checked={policy?.roles?.includes(role.value) ?? false}
+              onChange={(event) => toggleRole(role.value, event.target.checked)}
+            />
+            {role.label}
+          </label>
+        ))}
+        <span className="text-muted-foreground">
+          (ไม่เลือก role และไม่ระบุผู้ใช้ = ทุกคนที่มีสิทธิ์ดูใช้ได้)
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <ListInput
+          placeholder="ผู้ใช้ (email คั่นด้วย ,)"
+          values={policy?.users}
+          onCommit={(users) =>
+            update({ users: users.map((u) => u.toLowerCase()) })
+          }
+        />
+        <ListInput
+          placeholder="schema ที่อนุญาต (คั่นด้วย ,)"
+          values={policy?.allowedSchemas}
+          onCommit={(allowedSchemas) => update({ allowedSchemas })}
+        />
+        <ListInput
+          placeholder="table ที่อนุญาต (table หรือ schema.table)"
+          values={policy?.allowedTables}
+          onCommit={(allowedTables) => update({ allowedTables })}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <Input
+          placeholder="จำนวนแถวสูงสุด (ว่าง = ไม่จำกัด)"
+          type="number"
+          min={1}
+          value={policy?.maxRows ?? ""}
+          onChange={(e) =>
+            update({
+              maxRows: e.target.value ? Number(e.target.value) : undefined,
+            })
+          }
+        />
+        <Input
+          placeholder="Timeout สูงสุด (วินาที, ว่าง = ไม่จำกัด)"
+          type="number"
+          min={1}
+          value={
+            policy?.maxStatementTimeoutMs
+              ? policy.maxStatementTimeoutMs / 1000
+              : ""
+          }
+          onChange={(e) =>
+            update({
+              maxStatementTimeoutMs: e.target.value
+                ? Math.round(Number(e.target.value) * 1000)
+                : undefined,
+            })
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dataset } from "@/types/dataset";
+
+const COLUMN_TYPE_LABELS = {
+  number: "ตัวเลข",
+  boolean: "จริง/เท็จ",
+  date: "วันที่",
+  timestamp: "วันเวลา",
+  text: "ข้อความ",
+} as const;
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("th-TH", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface DatasetUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dataset: Dataset | null; // Upload a new version of this dataset; null creates one
+  onUploaded: () => void;
+}
+
+function DatasetUploadDialog({
+  open,
+  onOpenChange,
+  dataset,
+  onUploaded,
+}: DatasetUploadDialogProps) {
+  const [name, setName] = useState(dataset?.name ?? "");
+  const [file, setFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheet, setSheet] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Excel files may hold several sheets; only their names are read here
+  const selectFile = async (selected: File | null) => {
+    setFile(selected);
+    setSheets([]);
+    setSheet("");
+    if (!selected || !/\.xlsx?$/i.test(selected.name)) return;
+    try {
+      const XLSX = await import("xlsx");
+      const workbook = XLSX.read(await selected.arrayBuffer(), { bookSheets: true });
+      setSheets(workbook.SheetNames);
+      setSheet(workbook.SheetNames[0] ?? "");
+    } catch (e) {
+      console.error("Error reading sheet names:", e);
+    }
+  };
+
+  const upload = async () => {
+    if (!file || (!dataset && !name.trim())) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("name", name.trim());
+      if (dataset) form.append("datasetId", dataset.id);
+      if (sheet) form.append("sheet", sheet);
+      const res = await fetch("/api/user-configs/datasets", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "อัปโหลดไม่สำเร็จ");
+      onUploaded();
+      onOpenChange(false);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "อัปโหลดไม่สำเร็จ");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{dataset ? "อัปโหลดเวอร์ชันใหม่" : "อัปโหลด Dataset"}</DialogTitle>
+          <DialogDescription>
+            ไฟล์ CSV (UTF-8) หรือ Excel แถวแรกเป็นชื่อคอลัมน์ ระบบจะตรวจชนิดข้อมูลให้อัตโนมัติ
+            {dataset && " และเวอร์ชันเดิมยังเรียกคืนได้"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input
+            placeholder="ชื่อ Dataset เช่น Coupon reconciliation สาขา 12"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+          />
+          {sheets.length > 1 && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>Sheet:</span>
+              <select
+                className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                value={sheet}
+                onChange={(e) => setSheet(e.target.value)}
+              >
+                {sheets.map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ยกเลิก
+          </Button>
+          <Button
+            onClick={upload}
+            disabled={!file || (!dataset && !name.trim()) || isUploading}
+          >
+            {isUploading ? "กำลังอัปโหลด..." : "อัปโหลด"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DatasetsPanelProps {
+  canEdit: boolean;
+  onChange: () => void; // Dataset connections were added, repointed or removed
+}
+
+/**
+ * Uploaded CSV/Excel datasets, each usable in charts through its own connection
+ */
+export function DatasetsPanel({ canEdit, onChange }: DatasetsPanelProps) {
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [uploadTarget, setUploadTarget] = useState<Dataset | null>(null);
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadDatasets = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user-configs/datasets");
+      if (res.ok) {
+        const data = (await res.json()) as { datasets?: Dataset[] };
+        setDatasets(data.datasets || []);
+      }
+    } catch (error) {
+      console.error("Error fetching datasets:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDatasets();
+  }, [loadDatasets]);
+
+  const changed = () => {
+    loadDatasets();
+    onChange();
+  };
+
+  const restore = async (dataset: Dataset, version: number) => {
+    const res = await fetch("/api/user-configs/datasets", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: dataset.id, version }),
+    });
+    if (res.ok) changed();
+  };
+
+  const remove = async (dataset: Dataset) => {
+    if (!confirm(`ลบ Dataset "${dataset.name}" และ connection ของมัน? กราฟที่ใช้อยู่จะแสดงผลไม่ได้`)) {
+      return;
+    }
+    const res = await fetch(
+      `/api/user-configs/datasets?id=${encodeURIComponent(dataset.id)}`,
+      { method: "DELETE" },
+    );
+    if (res.ok) changed();
+  };
+
+  const openUpload = (dataset: Dataset | null) => {
+    setUploadTarget(dataset);
+    setUploadOpen(true);
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-medium">
+          <FileSpreadsheet className="h-4 w-4" /> Datasets (CSV / Excel)
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openUpload(null)}>
+            <Upload className="mr-2 h-4 w-4" /> อัปโหลดไฟล์
+          </Button>
+        )}
+      </div>
+      {!isLoaded ? (
+        <div className="text-sm text-muted-foreground">กำลังโหลด...</div>
+      ) : datasets.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          ยังไม่มี Dataset — อัปโหลดไฟล์เพื่อสร้างกราฟได้โดยไม่ต้องนำเข้าฐานข้อมูล
+        </div>
+      ) : (
+        datasets.map((dataset) => {
+          const current = dataset.versions.find((v) => v.version === dataset.currentVersion);
+          return (
+            <div key={dataset.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{dataset.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  ตาราง {dataset.tableName} · v{dataset.currentVersion}
+                  {current && ` · ${current.rowCount.toLocaleString()} แถว · ${current.fileName}`}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === dataset.id ? null : dataset.id)}
+                  >
+                    เวอร์ชัน ({dataset.versions.length})
+                  </Button>
+                  {canEdit && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => openUpload(dataset)}>
+                        อัปโหลดเวอร์ชันใหม่
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => remove(dataset)}>
+                        ลบ
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {current && (
+                <div className="flex flex-wrap gap-1 text-xs">
+                  {current.columns.map((column) => (
+                    <span key={column.name} className="rounded bg-muted px-2 py-0.5">
+                      {column.name}{" "}
+                      <span className="text-muted-foreground">
+                        {COLUMN_TYPE_LABELS[column.type]}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {expandedId === dataset.id && (
+                <div className="space-y-1 text-xs">
+                  {[...dataset.versions].reverse().map((version) => (
+                    <div key={version.version} className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      <span className="text-muted-foreground">
+                        {version.fileName}
+                        {version.sheet && ` (${version.sheet})`} ·{" "}
+                        {version.rowCount.toLocaleString()} แถว · {version.uploadedBy} ·{" "}
+                        {formatDateTime(version.uploadedAt)}
+                      </span>
+                      {version.version === dataset.currentVersion ? (
+                        <span className="text-green-600">ใช้งานอยู่</span>
+                      ) : (
+                        canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => restore(dataset, version.version)}
+                          >
+                            เรียกคืน
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+      {/* Mounted per upload so every upload starts from an empty form */}
+      {uploadOpen && (
+        <DatasetUploadDialog
+          open={uploadOpen}
+          onOpenChange={setUploadOpen}
+          dataset={uploadTarget}
+          onUploaded={changed}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { FederatedSource } from "@/types/chart";
+import { DbConnection } from "@/hooks/use-connections";
+import { isSqlDbType } from "@/lib/db-types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// Keep in sync with MAX_FEDERATED_SOURCES in lib/federated-query
+const MAX_SOURCES = 8;
+
+export const EMPTY_FEDERATED_SOURCE: FederatedSource = {
+  alias: "",
+  connectionId: "",
+  database: "",
+  sql: "",
+};
+
+interface FederatedSourcesEditorProps {
+  sources: FederatedSource[];
+  connections: DbConnection[];
+  onChange: (sources: FederatedSource[]) => void;
+}
+
+/**
+ * Sources of a federated chart: SQL per connection, each loaded as a table
+ * named by its alias for the chart's DuckDB SQL
+ */
+export function FederatedSourcesEditor({
+  sources,
+  connections,
+  onChange,
+}: FederatedSourcesEditorProps) {
+  const sqlConnections = connections.filter((c) => isSqlDbType(c.type));
+
+  const update = (index: number, patch: Partial<FederatedSource>) =>
+    onChange(sources.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  return (
+    <div className="space-y-3">
+      {sources.map((source, index) => (
+        <div key={index} className="rounded-xl border bg-background/60 p-3 space-y-2">
+          <div className="grid gap-2 md:grid-cols-[1fr_1.5fr_1fr_auto]">
+            <Input
+              placeholder="ชื่อตาราง เช่น coupons"
+              value={source.alias}
+              onChange={(e) => update(index, { alias: e.target.value.trim() })}
+            />
+            <select
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              value={source.connectionId}
+              onChange={(e) => update(index, { connectionId: e.target.value })}
+            >
+              <option value="">เลือก Connection</option>
+              {sqlConnections.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="database"
+              value={source.database}
+              onChange={(e) => update(index, { database: e.target.value.trim() })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              type="button"
+              title="ลบแหล่งข้อมูล"
+              disabled={sources.length === 1}
+              onClick={() => onChange(sources.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <textarea
+            className="min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs"
+            placeholder="SELECT id, code FROM coupons WHERE issued_at >= {{start_date}}"
+            value={source.sql}
+            onChange={(e) => update(index, { sql: e.target.value })}
+          />
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        type="button"
+        disabled={sources.length >= MAX_SOURCES}
+        onClick={() => onChange([...sources, EMPTY_FEDERATED_SOURCE])}
+      >
+        <Plus className="mr-2 h-4 w-4" /> เพิ่มแหล่งข้อมูล
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BarChart3, Database, Trash2 } from "lucide-react";
+import { FRAUD_SEVERITY_LABELS } from "@/components/fraud-rule-editor-dialog";
+import { useFraudCase } from "@/hooks/use-fraud-cases";
+import {
+  FraudCase,
+  FraudCaseHistory,
+  FraudCaseStatus,
+  FraudSeverity,
+} from "@/types/fraud";
+
+export const FRAUD_CASE_STATUS_LABELS: Record<FraudCaseStatus, string> = {
+  open: "เปิด",
+  investigating: "กำลังตรวจสอบ",
+  confirmed: "ยืนยันว่าทุจริต",
+  false_positive: "ไม่ใช่การทุจริต",
+};
+
+export const FRAUD_CASE_STATUS_CLASSES: Record<FraudCaseStatus, string> = {
+  open: "bg-blue-100 text-blue-800",
+  investigating: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-red-100 text-red-800",
+  false_positive: "bg-muted text-muted-foreground",
+};
+
+// Select items cannot have an empty value
+export const UNASSIGNED = "unassigned";
+
+const HISTORY_ACTION_LABELS: Record<FraudCaseHistory["action"], string> = {
+  create: "เปิดเคส",
+  update: "แก้ไข",
+  comment: "แสดงความเห็น",
+  attach: "แนบหลักฐาน",
+  detach: "นำหลักฐานออก",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "สถานะ",
+  assignee: "ผู้รับผิดชอบ",
+  severity: "ความรุนแรง",
+  title: "ชื่อเคส",
+  chart: "กราฟ",
+  query: "คิวรี",
+};
+
+export const fraudCaseTitle = (fraudCase: Pick<FraudCase, "title" | "keyColumn" | "key">) =>
+  fraudCase.title || `${fraudCase.keyColumn}: ${fraudCase.key}`;
+
+const formatDateTime = (iso?: string | Date) =>
+  iso ? new Date(iso).toLocaleString("th-TH") : "-";
+
+const formatCell = (value: unknown) =>
+  value === null || value === undefined
+    ? "-"
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+const formatChangeValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (field === "status") return FRAUD_CASE_STATUS_LABELS[value as FraudCaseStatus] || String(value);
+  if (field === "severity") return FRAUD_SEVERITY_LABELS[value as FraudSeverity] || String(value);
+  return String(value);
+};
+
+interface FraudCaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  caseId: string;
+  assignees: string[];
+  canEdit: boolean;
+  onChanged?: () => void; // The case was updated; refresh lists showing it
+}
+
+/**
+ * Detail of one case: triage (status, assignee, severity), the rule's
+ * findings, attached charts and queries, comments and history
+ */
+export function FraudCaseDialog({
+  open,
+  onOpenChange,
+  caseId,
+  assignees,
+  canEdit,
+  onChanged,
+}: FraudCaseDialogProps) {
+  const {
+    fraudCase,
+    history,
+    loadError,
+    isLoaded,
+    updateCase,
+    addComment,
+    addAttachment,
+    removeAttachment,
+  } = useFraudCase(caseId);
+  const [comment, setComment] = useState("");
+  const [queryTitle, setQueryTitle] = useState("");
+  const [querySql, setQuerySql] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Runs a mutation, surfacing the server's message and refreshing the list
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onChanged?.();
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : fallback);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleComment = async () => {
+    const text = comment.trim();
+    if (!text) return;
+    if (await run(() => addComment(text), "บันทึกความเห็นไม่สำเร็จ")) setComment("");
+  };
+
+  const handleAttachQuery = async () => {
+    if (!fraudCase || !queryTitle.trim() || !querySql.trim()) return;
+    const attached = await run(
+      () =>
+        addAttachment({
+          type: "query",
+          title: queryTitle,
+          sql: querySql,
+          connectionId: fraudCase.connectionId,
+          database: fraudCase.database,
+        }),
+      "แนบคิวรีไม่สำเร็จ",
+    );
+    if (attached) {
+      setQueryTitle("");
+      setQuerySql("");
+    }
+  };
+
+  const assigneeOptions =
+    fraudCase?.assignee && !assignees.includes(fraudCase.assignee)
+      ? [...assignees, fraudCase.assignee]
+      : assignees;
+  const evidenceColumns = Array.from(
+    new Set((fraudCase?.evidence || []).flatMap((row) => Object.keys(row))),
+  );
+  const metrics = Object.entries(fraudCase?.metrics || {}).filter(
+    ([key]) => key.toLowerCase() !== fraudCase?.keyColumn.toLowerCase(),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{fraudCase ? fraudCaseTitle(fraudCase) : "เคส"}</DialogTitle>
+          <DialogDescription>
+            {fraudCase
+              ? `${fraudCase.ruleName ? `กฎ ${fraudCase.ruleName}` : "เปิดเคสเอง"} · พบครั้งแรก ${formatDateTime(
+                  fraudCase.firstDetectedAt,
+                )} · พบล่าสุด ${formatDateTime(fraudCase.lastDetectedAt)} (${
+                  fraudCase.detectionCount
+                } ครั้ง)`
+              : loadError || (isLoaded ? "โหลดเคสไม่สำเร็จ" : "กำลังโหลด...")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {fraudCase && (
+          <div className="space-y-5 text-sm">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">สถานะ</div>
+                <Select
+                  value={fraudCase.status}
+                  onValueChange={(status) =>
+                    run(
+                      () => updateCase({ status: status as FraudCaseStatus }),
+                      "บันทึกไม่สำเร็จ",
+                    )
+                  }
+                  disabled={!canEdit || isSaving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FRAUD_CASE_STATUS_LABELS) as FraudCaseStatus[]).map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {FRAUD_CASE_STATUS_LABELS[s]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">ผู้รับผิดชอบ</div>
+                <Select
+                  value={fraudCase.assignee || UNASSIGNED}
+                  onValueChange={(value) =>
+                    run(
+                      () => updateCase({ assignee: value === UNASSIGNED ? null : value }),
+                      "บันทึกไม่สำเร็จ",
+                    )
+                  }
+                  disabled={!canEdit || isSaving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>ยังไม่มอบหมาย</SelectItem>
+                    {assigneeOptions.map((email) => (
+                      <SelectItem key={email} value={email}>
+                        {email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">ความรุนแรง</div>
+                <Select
+                  value={fraudCase.severity}
+                  onValueChange={(severity) =>
+                    run(
+                      () => updateCase({ severity: severity as FraudSeverity }),
+                      "บันทึกไม่สำเร็จ",
+                    )
+                  }
+                  disabled={!canEdit || isSaving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FRAUD_SEVERITY_LABELS) as FraudSeverity[]).map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {FRAUD_SEVERITY_LABELS[s]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {fraudCase.resolvedAt && (
+              <div className="text-xs text-muted-foreground">
+                ปิดเคสโดย {fraudCase.resolvedBy} เมื่อ {formatDateTime(fraudCase.resolvedAt)}
+              </div>
+            )}
+
+            {(fraudCase.key || metrics.length > 0) && (
+              <div className="space-y-1">
+                <div className="font-medium">ผลการตรวจ</div>
+                {fraudCase.key && (
+                  <div>
+                    <span className="text-muted-foreground">{fraudCase.keyColumn}: </span>
+                    <span className="font-mono break-all">{fraudCase.key}</span>
+                  </div>
+                )}
+                {metrics.map(([key, value]) => (
+                  <div key={key} className="text-xs">
+                    {key}: {formatCell(value)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {fraudCase.evidence.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-medium">
+                  ข้อมูลที่ตรวจพบ ({fraudCase.evidence.length} แถวล่าสุด)
+                </div>
+                <div className="overflow-x-auto max-h-64 rounded-md border">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left bg-muted/50">
+                        {evidenceColumns.map((column) => (
+                          <th key={column} className="px-2 py-1 whitespace-nowrap">
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fraudCase.evidence.map((row, i) => (
+                        <tr key={i} className="border-t">
+                          {evidenceColumns.map((column) => (
+                            <td key={column} className="px-2 py-1 whitespace-nowrap">
+                              {formatCell(row[column])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="font-medium">หลักฐานที่แนบ</div>
+              {(fraudCase.attachments || []).length === 0 && (
+                <div className="text-xs text-muted-foreground">
+                  ยังไม่มีหลักฐาน แนบกราฟได้จากปุ่มเคสบนกราฟ
+                </div>
+              )}
+              {(fraudCase.attachments || []).map((attachment) => (
+                <div key={attachment.id} className="border rounded-md p-2 flex gap-2">
+                  {attachment.type === "chart" ? (
+                    <BarChart3 className="h-4 w-4 mt-0.5 shrink-0" />
+                  ) : (
+                    <Database className="h-4 w-4 mt-0.5 shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    {attachment.type === "chart" ? (
+                      <Link
+                        href={`/dashboard/${attachment.tabId}#chart-${attachment.chartId}`}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        {attachment.title}
+                      </Link>
+                    ) : (
+                      <div className="font-medium">{attachment.title}</div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {attachment.addedBy} · {formatDateTime(attachment.addedAt)}
+                      {attachment.database && ` · ${attachment.database}`}
+                    </div>
+                    {attachment.sql && (
+                      <pre className="mt-1 max-h-32 overflow-auto rounded bg-muted/50 p-2 text-xs whitespace-pre-wrap break-all">
+                        {attachment.sql}
+                      </pre>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (!confirm(`นำ "${attachment.title}" ออกจากเคส?`)) return;
+                        run(() => removeAttachment(attachment.id), "นำออกไม่สำเร็จ");
+                      }}
+                      disabled={isSaving}
+                      title="นำออก"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {canEdit && (
+                <div className="space-y-2 rounded-md border border-dashed p-2">
+                  <Input
+                    placeholder="ชื่อคิวรี"
+                    value={queryTitle}
+                    onChange={(e) => setQueryTitle(e.target.value)}
+                  />
+                  <Textarea
+                    placeholder="SELECT ... ที่ใช้ยืนยันเคสนี้"
+                    className="font-mono text-xs"
+                    rows={3}
+                    value={querySql}
+                    onChange={(e) => setQuerySql(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleAttachQuery}
+                    disabled={isSaving || !queryTitle.trim() || !querySql.trim()}
+                  >
+                    แนบคิวรี
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="font-medium">ความเห็น</div>
+              {(fraudCase.comments || []).map((c) => (
+                <div key={c.id} className="rounded-md bg-muted/50 p-2">
+                  <div className="text-xs text-muted-foreground">
+                    {c.userName} · {formatDateTime(c.createdAt)}
+                  </div>
+                  <div className="whitespace-pre-wrap break-words">{c.text}</div>
+                </div>
+              ))}
+              {canEdit && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="เพิ่มความเห็น"
+                    rows={2}
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={handleComment}
+                    disabled={isSaving || !comment.trim()}
+                  >
+                    บันทึกความเห็น
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <div className="font-medium">ประวัติ</div>
+              {history.length === 0 && (
+                <div className="text-xs text-muted-foreground">ยังไม่มีประวัติ</div>
+              )}
+              {history.map((entry) => (
+                <div key={entry.id} className="text-xs">
+                  <span className="text-muted-foreground">
+                    {formatDateTime(entry.timestamp)} · {entry.userName}
+                  </span>{" "}
+                  {HISTORY_ACTION_LABELS[entry.action]}
+                  {entry.action === "update" &&
+                    entry.changes?.map((change) => (
+                      <span key={change.field}>
+                        {" "}
+                        {FIELD_LABELS[change.field] || change.field}:{" "}
+                        {formatChangeValue(change.field, change.oldValue)} →{" "}
+                        {formatChangeValue(change.field, change.newValue)}
+                      </span>
+                    ))}
+                  {(entry.action === "attach" || entry.action === "detach") &&
+                    entry.changes?.map((change) => (
+                      <span key={change.field}>
+                        {" "}
+                        {FIELD_LABELS[change.field] || change.field} &quot;
+                        {String(change.newValue ?? change.oldValue)}&quot;
+                      </span>
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
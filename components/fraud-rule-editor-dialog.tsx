@@ -0,0 +1,482 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DbConnection } from "@/hooks/use-connections";
+import { FraudRuleDraft } from "@/hooks/use-fraud";
+import { compileFraudRule } from "@/lib/fraud-sql";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+import { getSqlDialect, isSqlDbType } from "@/lib/db-types";
+import {
+  FraudRule,
+  FraudRuleDefinition,
+  FraudRuleType,
+  FraudSeverity,
+} from "@/types/fraud";
+
+export const FRAUD_RULE_TYPE_LABELS: Record<FraudRuleType, string> = {
+  device_velocity: "อุปกรณ์เดียวใช้คูปองเกินกำหนด",
+  non_member_branch: "ผู้ไม่ใช่สมาชิกใช้คูปองต่อสาขา",
+  velocity_spike: "อัตราการใช้คูปองพุ่งสูงผิดปกติ",
+  custom_sql: "SQL กำหนดเอง",
+};
+
+export const FRAUD_SEVERITY_LABELS: Record<FraudSeverity, string> = {
+  low: "ต่ำ",
+  medium: "ปานกลาง",
+  high: "สูง",
+  critical: "วิกฤต",
+};
+
+const SCHEDULE_PRESETS = [
+  { label: "ทุก 15 นาที", value: "*/15 * * * *" },
+  { label: "ทุกชั่วโมง", value: "0 * * * *" },
+  { label: "ทุกวัน 06:00", value: "0 6 * * *" },
+];
+
+const DEFAULT_DEFINITIONS: Record<FraudRuleType, FraudRuleDefinition> = {
+  device_velocity: {
+    type: "device_velocity",
+    deviceColumn: "",
+    couponColumn: "",
+    timeColumn: "",
+    windowHours: 24,
+    threshold: 5,
+  },
+  non_member_branch: {
+    type: "non_member_branch",
+    branchColumn: "",
+    memberColumn: "",
+    timeColumn: "",
+    windowHours: 24,
+    threshold: 50,
+  },
+  velocity_spike: {
+    type: "velocity_spike",
+    keyColumn: "",
+    timeColumn: "",
+    windowHours: 1,
+    baselineHours: 168,
+    multiplier: 3,
+    minCount: 10,
+  },
+  custom_sql: { type: "custom_sql", sql: "", keyColumn: "" },
+};
+
+// Field labels per definition key, in form order
+const COLUMN_FIELDS: Partial<Record<string, string>> = {
+  deviceColumn: "คอลัมน์อุปกรณ์",
+  couponColumn: "คอลัมน์คูปอง (นับไม่ซ้ำ, ไม่บังคับ)",
+  branchColumn: "คอลัมน์สาขา",
+  memberColumn: "คอลัมน์รหัสสมาชิก (ว่าง = ไม่ใช่สมาชิก)",
+  keyColumn: "คอลัมน์ที่ตรวจ (เช่น อุปกรณ์ สมาชิก สาขา)",
+  timeColumn: "คอลัมน์เวลาที่ใช้คูปอง",
+};
+
+const NUMBER_FIELDS: Partial<Record<string, string>> = {
+  windowHours: "ช่วงเวลาที่ตรวจ (ชั่วโมง)",
+  threshold: "แจ้งเมื่อเกิน (ครั้ง)",
+  baselineHours: "ช่วงเวลาเทียบ (ชั่วโมงก่อนหน้า)",
+  multiplier: "แจ้งเมื่อสูงกว่าปกติ (เท่า)",
+  minCount: "จำนวนครั้งขั้นต่ำในช่วงที่ตรวจ",
+};
+
+type SchemaResponse = {
+  databases?: string[];
+  tables?: string[];
+  columns?: { name: string }[];
+};
+
+const postJson = async (url: string, body: unknown): Promise<SchemaResponse> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return response.ok ? response.json() : {};
+};
+
+const EMPTY_SCHEMA: SchemaResponse = {};
+
+interface FraudRuleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: FraudRule; // Undefined = new rule
+  connections: DbConnection[];
+  onSave: (draft: FraudRuleDraft) => Promise<void>;
+}
+
+/**
+ * Create or edit a fraud rule. Mount with a key per rule so the form starts
+ * from that rule's values.
+ */
+export function FraudRuleEditorDialog({
+  open,
+  onOpenChange,
+  rule,
+  connections,
+  onSave,
+}: FraudRuleEditorDialogProps) {
+  const [name, setName] = useState(rule?.name || "");
+  const [description, setDescription] = useState(rule?.description || "");
+  const [connectionId, setConnectionId] = useState(rule?.connectionId || "");
+  const [database, setDatabase] = useState(rule?.database || "");
+  const [table, setTable] = useState(rule?.table || "");
+  const [definition, setDefinition] = useState<FraudRuleDefinition>(
+    rule?.definition || DEFAULT_DEFINITIONS.device_velocity,
+  );
+  const [severity, setSeverity] = useState<FraudSeverity>(rule?.severity || "medium");
+  const [schedule, setSchedule] = useState(rule?.schedule || SCHEDULE_PRESETS[1].value);
+  const [enabled, setEnabled] = useState(rule?.enabled ?? true);
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [tables, setTables] = useState<string[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const connection = connections.find((c) => c.id === connectionId);
+
+  // Databases, tables and columns of the current selection, for the pickers
+  useEffect(() => {
+    if (!connectionId) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [dbs, tbls, cols] = await Promise.all([
+          postJson("/api/db/tables", { connectionId }),
+          database ? postJson("/api/db/tables", { connectionId, database }) : EMPTY_SCHEMA,
+          database && table
+            ? postJson("/api/db/columns", { connectionId, database, table })
+            : EMPTY_SCHEMA,
+        ]);
+        if (cancelled) return;
+        setDatabases(dbs.databases ?? []);
+        setTables(tbls.tables ?? []);
+        setColumns((cols.columns ?? []).map((c) => c.name));
+      } catch (err) {
+        console.error("Error loading schema:", err);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId, database, table]);
+
+  const handleConnectionChange = (next: string) => {
+    setConnectionId(next);
+    setDatabase("");
+    setTable("");
+  };
+
+  const handleTypeChange = (type: FraudRuleType) => {
+    setDefinition(DEFAULT_DEFINITIONS[type]);
+  };
+
+  const updateDefinition = (key: string, value: string | number) => {
+    setDefinition((prev) => ({ ...prev, [key]: value }) as FraudRuleDefinition);
+  };
+
+  const isCustomSql = definition.type === "custom_sql";
+
+  // Compiled SQL, so analysts can see exactly what will run
+  let preview = "";
+  try {
+    const dialect = getSqlDialect(connection?.type);
+    // Custom SQL runs as validated: trailing semicolons and comments removed
+    const validation =
+      definition.type === "custom_sql" ? validateReadOnlySql(definition.sql, dialect) : null;
+    if (validation?.valid === false) {
+      preview = validation.error;
+    } else if (isCustomSql || table) {
+      const compiled = compileFraudRule(
+        {
+          table,
+          definition:
+            definition.type === "custom_sql" && validation?.valid
+              ? { ...definition, sql: validation.sql }
+              : definition,
+        },
+        dialect,
+      );
+      preview = compiled.sql;
+    }
+  } catch {
+    preview = "";
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        id: rule?.id,
+        name,
+        description,
+        connectionId,
+        database,
+        table: isCustomSql ? undefined : table,
+        definition:
+          definition.type === "device_velocity" && !definition.couponColumn
+            ? { ...definition, couponColumn: undefined }
+            : definition,
+        severity,
+        schedule,
+        enabled,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "บันทึกไม่สำเร็จ");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const definitionValues = definition as unknown as Record<string, string | number | undefined>;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "แก้ไขกฎตรวจจับ" : "สร้างกฎตรวจจับ"}</DialogTitle>
+          <DialogDescription>
+            กฎจะถูกแปลงเป็น SQL และรันตามรอบเวลา ผลลัพธ์แต่ละแถวจะถูกบันทึกเป็นเคสที่ต้องตรวจสอบ
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="font-medium">ชื่อกฎ</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <label className="font-medium">ความรุนแรง</label>
+              <Select value={severity} onValueChange={(v) => setSeverity(v as FraudSeverity)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FRAUD_SEVERITY_LABELS) as FraudSeverity[]).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {FRAUD_SEVERITY_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">คำอธิบาย</label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <label className="font-medium">Connection</label>
+              <Select value={connectionId} onValueChange={handleConnectionChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="เลือก connection" />
+                </SelectTrigger>
+                <SelectContent>
+                  {connections.filter((c) => isSqlDbType(c.type)).map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label className="font-medium">Database</label>
+              <Select
+                value={database}
+                onValueChange={(v) => {
+                  setDatabase(v);
+                  setTable("");
+                }}
+                disabled={!connectionId}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="เลือก database" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(databases.includes(database) || !database
+                    ? databases
+                    : [database, ...databases]
+                  ).map((db) => (
+                    <SelectItem key={db} value={db}>
+                      {db}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!isCustomSql && (
+              <div className="space-y-1">
+                <label className="font-medium">ตารางการใช้คูปอง</label>
+                <Select value={table} onValueChange={setTable} disabled={!database}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="เลือกตาราง" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(tables.includes(table) || !table ? tables : [table, ...tables]).map(
+                      (t) => (
+                        <SelectItem key={t} value={t}>
+                          {t}
+                        </SelectItem>
+                      ),
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">รูปแบบการตรวจจับ</label>
+            <Select
+              value={definition.type}
+              onValueChange={(v) => handleTypeChange(v as FraudRuleType)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FRAUD_RULE_TYPE_LABELS) as FraudRuleType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {FRAUD_RULE_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isCustomSql && (
+            <div className="space-y-1">
+              <label className="font-medium">SQL</label>
+              <Textarea
+                value={definition.sql}
+                onChange={(e) => updateDefinition("sql", e.target.value)}
+                rows={6}
+                className="font-mono text-xs"
+                placeholder="SELECT device_id, COUNT(*) AS redemptions FROM redemptions GROUP BY device_id HAVING COUNT(*) > 10"
+              />
+              <p className="text-xs text-muted-foreground">
+                SELECT เท่านั้น ทุกแถวของผลลัพธ์คือหนึ่งเคส
+              </p>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {Object.keys(DEFAULT_DEFINITIONS[definition.type])
+              .filter((key) => key in COLUMN_FIELDS)
+              .map((key) => (
+                <div key={key} className="space-y-1">
+                  <label className="font-medium">{COLUMN_FIELDS[key]}</label>
+                  <Input
+                    value={String(definitionValues[key] ?? "")}
+                    onChange={(e) => updateDefinition(key, e.target.value)}
+                    list="fraud-rule-columns"
+                  />
+                </div>
+              ))}
+            {Object.keys(DEFAULT_DEFINITIONS[definition.type])
+              .filter((key) => key in NUMBER_FIELDS)
+              .map((key) => (
+                <div key={key} className="space-y-1">
+                  <label className="font-medium">{NUMBER_FIELDS[key]}</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={String(definitionValues[key] ?? "")}
+                    onChange={(e) => updateDefinition(key, Number(e.target.value))}
+                  />
+                </div>
+              ))}
+            <datalist id="fraud-rule-columns">
+              {columns.map((column) => (
+                <option key={column} value={column} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">รอบเวลา (cron)</label>
+            <Input
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              placeholder="0 * * * *"
+              className="font-mono"
+            />
+            <div className="flex flex-wrap gap-1">
+              {SCHEDULE_PRESETS.map((preset) => (
+                <Button
+                  key={preset.value}
+                  type="button"
+                  variant={schedule === preset.value ? "default" : "outline"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setSchedule(preset.value)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-1">
+              <label className="font-medium">SQL ที่จะรัน</label>
+              <pre className="rounded-md border bg-muted/50 p-2 text-xs whitespace-pre-wrap break-all">
+                {preview}
+              </pre>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            เปิดใช้งานตามรอบเวลา
+          </label>
+
+          {error && <div className="text-destructive text-xs">{error}</div>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ยกเลิก
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || !connectionId || !database}
+          >
+            {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
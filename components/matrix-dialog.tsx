@@ -20,6 +20,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useConnections } from "@/hooks/use-connections";
+import { isSqlDbType } from "@/lib/db-types";
 import { cn } from "@/lib/utils";
 import {
   Sparkles,
@@ -70,18 +71,10 @@ export function MatrixDialog({
   // Load databases for selected connection
   const fetchDatabases = async () => {
     if (!connectionId) return;
-    const c = connections.find((x) => x.id === connectionId);
-    if (!c) return;
     const res = await fetch("/api/db/tables", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: c.type,
-        host: c.host,
-        port: c.port,
-        user: c.user,
-        password: c.password,
-      }),
+      body: JSON.stringify({ connectionId }),
     });
     const data = await res.json();
     setDatabases(data.databases ?? []);
@@ -132,11 +125,7 @@ export function MatrixDialog({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          type: c.type,
-          host: c.host,
-          port: c.port,
-          user: c.user,
-          password: c.password,
+          connectionId,
           database,
           sql: sqlQuery.trim(),
           limit: 1, // Matrix requires only 1 row
@@ -286,7 +275,7 @@ export function MatrixDialog({
                     align="start"
                     className={cn("w-[240px]", DROPDOWN_MENU_Z)}
                   >
-                    {connections.map((c) => (
+                    {connections.filter((c) => isSqlDbType(c.type)).map((c) => (
                       <DropdownMenuItem
                         key={c.id}
                         onSelect={() => {
@@ -9,6 +9,7 @@ import {
   IconChevronDown,
   IconChevronRight,
   IconLink,
+  IconLock,
 } from "@tabler/icons-react";
 import { useState } from "react";
 import {
@@ -23,6 +24,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DashboardTab, TabGroup } from "@/types/dashboard";
 import { resolveIcon } from "@/lib/icon-resolver";
+import { isRestricted, isTabRestricted } from "@/lib/tab-access";
 import { TabEditDialog } from "@/components/tab-edit-dialog";
 import { IconSettings } from "@tabler/icons-react";
 
@@ -269,6 +271,9 @@ export function NavDocumentsWithGroups({
               ) : (
                 <>
                   <span className="truncate">{tab.name}</span>
+                  {isTabRestricted(tab, groups) && (
+                    <IconLock className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  )}
                   {isLink && (
                     <IconLink className="h-3 w-3 shrink-0 text-muted-foreground" />
                   )}
@@ -498,6 +503,9 @@ export function NavDocumentsWithGroups({
                 >
                   <IconFolder className="h-4 w-4" />
                   {group.name}
+                  {isRestricted(group.access) && (
+                    <IconLock className="h-3 w-3 shrink-0 text-muted-foreground" />
+                  )}
                 </SidebarGroupLabel>
               </div>
               {!isLocked && (onRenameGroup || onRemoveGroup || onAddGroup) && (
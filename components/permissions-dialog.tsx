@@ -21,6 +21,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { UserRole, UserPermission } from "@/types/permission";
 import { useHelperContext } from "./providers/helper-provider";
+import { TabSharingEditor } from "./tab-sharing-editor";
 import { IconSettings, IconTrash, IconPlus } from "@tabler/icons-react";
 
 export function PermissionsDialog() {
@@ -36,11 +37,7 @@ export function PermissionsDialog() {
 
     setIsLoading(true);
     try {
-      const response = await fetch("/api/user-configs/permissions", {
-        headers: {
-          "x-user-email": userInfo.email,
-        },
-      });
+      const response = await fetch("/api/user-configs/permissions");
       if (response.ok) {
         const data = await response.json();
         setPermissionsList(data.permissions || []);
@@ -67,12 +64,10 @@ export function PermissionsDialog() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "x-user-email": userInfo.email,
         },
         body: JSON.stringify({
           email: newUserEmail.trim(),
           role: newUserRole,
-          userEmail: userInfo.email,
         }),
       });
 
@@ -104,11 +99,9 @@ export function PermissionsDialog() {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
-          "x-user-email": userInfo.email,
         },
         body: JSON.stringify({
           email,
-          userEmail: userInfo.email,
         }),
       });
 
@@ -133,12 +126,10 @@ export function PermissionsDialog() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "x-user-email": userInfo.email,
         },
         body: JSON.stringify({
           email,
           role: newRole,
-          userEmail: userInfo.email,
         }),
       });
 
@@ -273,6 +264,11 @@ export function PermissionsDialog() {
                   </div>
                 )}
               </div>
+
+              {/* Per-tab sharing */}
+              <TabSharingEditor
+                userEmails={permissionsList.map((p) => p.email)}
+              />
             </div>
           )}
         </ScrollArea>
@@ -14,7 +14,7 @@ import {
 } from "react";
 import { useAlertContext } from "./alert-provider";
 import { useFullLoadingContext } from "./full-loading-provider";
-import { getItem } from "@/lib/storage";
+import { getItem, removeItem } from "@/lib/storage";
 import { GetUserInfoResponse } from "@/types/lask";
 import { UserRole, PermissionCheckResult } from "@/types/permission";
 
@@ -125,9 +125,13 @@ export function HelperProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const response = await fetch(
-        `/api/user-configs/user-permission?email=${encodeURIComponent(userInfo.email)}`
-      );
+      const response = await fetch("/api/user-configs/user-permission");
+      if (response.status === 401) {
+        // Session cookie missing or expired - sign in again
+        removeItem("user_info");
+        setUserInfo(undefined);
+        return;
+      }
       if (response.ok) {
         const data = await response.json();
         setUserRole(data.role);
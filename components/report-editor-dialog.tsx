@@ -0,0 +1,329 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChartConfig } from "@/types/chart";
+import { DashboardTab } from "@/types/dashboard";
+import { ReportDefinition, ReportDelivery, ReportFormat } from "@/types/report";
+import { TabInput } from "@/types/tab-input";
+import { ReportDraft } from "@/hooks/use-reports";
+
+const SCHEDULE_PRESETS = [
+  { label: "ทุกวัน 08:00", value: "0 8 * * *" },
+  { label: "จันทร์-ศุกร์ 09:00", value: "0 9 * * 1-5" },
+  { label: "ทุกวันจันทร์ 09:00", value: "0 9 * * 1" },
+  { label: "วันที่ 1 ของเดือน 08:00", value: "0 8 1 * *" },
+  { label: "ทุกชั่วโมง", value: "0 * * * *" },
+];
+
+const splitList = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+interface ReportEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report?: ReportDefinition; // Undefined = new report
+  tabs: DashboardTab[];
+  onSave: (draft: ReportDraft) => Promise<void>;
+}
+
+/**
+ * Create or edit a scheduled report. Mount with a key per report so the
+ * form starts from that report's values.
+ */
+export function ReportEditorDialog({
+  open,
+  onOpenChange,
+  report,
+  tabs,
+  onSave,
+}: ReportEditorDialogProps) {
+  const [name, setName] = useState(report?.name || "");
+  const [tabId, setTabId] = useState(report?.tabId || "");
+  const [chartIds, setChartIds] = useState<string[]>(report?.chartIds || []);
+  const [inputs, setInputs] = useState<Record<string, string>>(report?.inputs || {});
+  const [schedule, setSchedule] = useState(report?.schedule || SCHEDULE_PRESETS[0].value);
+  const [format, setFormat] = useState<ReportFormat>(report?.format || "pdf");
+  const [larkWebhooks, setLarkWebhooks] = useState(
+    (report?.deliveries || [])
+      .flatMap((d) => (d.type === "lark" ? [d.webhookUrl] : []))
+      .join("\n"),
+  );
+  const [emails, setEmails] = useState(
+    (report?.deliveries || [])
+      .flatMap((d) => (d.type === "smtp" ? d.to : []))
+      .join(", "),
+  );
+  const [enabled, setEnabled] = useState(report?.enabled ?? true);
+  const [tabCharts, setTabCharts] = useState<ChartConfig[]>([]);
+  const [tabInputs, setTabInputs] = useState<TabInput[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Charts and inputs of the selected tab
+  useEffect(() => {
+    if (!tabId) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const [chartsResponse, inputsResponse] = await Promise.all([
+          fetch(`/api/user-configs/charts?pagePath=${encodeURIComponent(`/dashboard/${tabId}`)}`),
+          fetch(`/api/user-configs/tab-inputs?tabId=${encodeURIComponent(tabId)}`),
+        ]);
+        const chartsData = chartsResponse.ok
+          ? ((await chartsResponse.json()) as { charts?: ChartConfig[] })
+          : {};
+        const inputsData = inputsResponse.ok
+          ? ((await inputsResponse.json()) as { inputs?: TabInput[] })
+          : {};
+        if (cancelled) return;
+        setTabCharts(
+          (chartsData.charts || []).filter(
+            (c) => c.connectionId && c.database && (c.sqlQuery || c.tableName),
+          ),
+        );
+        setTabInputs(inputsData.inputs || []);
+      } catch (err) {
+        console.error("Error loading tab charts:", err);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [tabId]);
+
+  const handleTabChange = (nextTabId: string) => {
+    setTabId(nextTabId);
+    setChartIds([]);
+    setInputs({});
+  };
+
+  const toggleChart = (chartId: string, checked: boolean) => {
+    setChartIds((prev) =>
+      checked ? [...prev, chartId] : prev.filter((id) => id !== chartId),
+    );
+  };
+
+  const handleSave = async () => {
+    const deliveries: ReportDelivery[] = [
+      ...splitList(larkWebhooks).map((webhookUrl) => ({
+        type: "lark" as const,
+        webhookUrl,
+      })),
+      ...(splitList(emails).length > 0
+        ? [{ type: "smtp" as const, to: splitList(emails) }]
+        : []),
+    ];
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        id: report?.id,
+        name,
+        tabId,
+        // Only charts still on the tab; none selected = all charts
+        chartIds: chartIds.filter((id) => tabCharts.some((c) => c.id === id)),
+        // Empty fields fall back to the values saved on the tab
+        inputs: Object.fromEntries(
+          Object.entries(inputs).filter(([, value]) => value !== ""),
+        ),
+        schedule,
+        format,
+        deliveries,
+        enabled,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "บันทึกไม่สำเร็จ");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{report ? "แก้ไขรายงาน" : "สร้างรายงาน"}</DialogTitle>
+          <DialogDescription>
+            สร้างไฟล์รายงานจากกราฟในแท็บตามรอบเวลา แล้วส่งไปยัง Lark หรืออีเมล
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <label className="font-medium">ชื่อรายงาน</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">แท็บ</label>
+            <Select value={tabId} onValueChange={handleTabChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="เลือกแท็บ" />
+              </SelectTrigger>
+              <SelectContent>
+                {tabs
+                  .filter((t) => !t.link)
+                  .map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tabId && (
+            <div className="space-y-1">
+              <label className="font-medium">กราฟ</label>
+              <p className="text-xs text-muted-foreground">
+                ไม่เลือก = ทุกกราฟในแท็บ
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1 rounded-md border p-2">
+                {tabCharts.length === 0 && (
+                  <div className="text-xs text-muted-foreground">ไม่มีกราฟที่ดึงข้อมูลได้</div>
+                )}
+                {tabCharts.map((chart) => (
+                  <label key={chart.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+                      checked={chartIds.includes(chart.id)}
+                      onChange={(e) => toggleChart(chart.id, e.target.checked)}
+                    />
+                    {chart.title || chart.id}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tabInputs.length > 0 && (
+            <div className="space-y-1">
+              <label className="font-medium">ค่าตัวแปรของแท็บ</label>
+              <p className="text-xs text-muted-foreground">
+                เว้นว่าง = ใช้ค่าที่บันทึกไว้ในแท็บ
+              </p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {tabInputs.map((input) => (
+                  <div key={input.id} className="space-y-1">
+                    <div className="text-xs">{input.label || input.key}</div>
+                    <Input
+                      type={input.type === "number" ? "number" : input.type === "date" ? "date" : "text"}
+                      value={inputs[input.key] ?? ""}
+                      placeholder={input.value ?? input.defaultValue ?? ""}
+                      onChange={(e) =>
+                        setInputs((prev) => ({ ...prev, [input.key]: e.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <label className="font-medium">รอบเวลา (cron)</label>
+              <Input
+                value={schedule}
+                onChange={(e) => setSchedule(e.target.value)}
+                placeholder="0 8 * * *"
+                className="font-mono"
+              />
+              <div className="flex flex-wrap gap-1">
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.value}
+                    type="button"
+                    variant={schedule === preset.value ? "default" : "outline"}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setSchedule(preset.value)}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="font-medium">รูปแบบไฟล์</label>
+              <Select value={format} onValueChange={(v) => setFormat(v as ReportFormat)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="xlsx">Excel</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">Lark Webhook</label>
+            <Textarea
+              value={larkWebhooks}
+              onChange={(e) => setLarkWebhooks(e.target.value)}
+              placeholder="https://open.larksuite.com/open-apis/bot/v2/hook/..."
+              rows={2}
+            />
+            <p className="text-xs text-muted-foreground">บรรทัดละหนึ่ง URL</p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="font-medium">อีเมล</label>
+            <Input
+              value={emails}
+              onChange={(e) => setEmails(e.target.value)}
+              placeholder="a@example.com, b@example.com"
+            />
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            เปิดใช้งานตามรอบเวลา
+          </label>
+
+          {error && <div className="text-destructive text-xs">{error}</div>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ยกเลิก
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !tabId}>
+            {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
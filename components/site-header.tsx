@@ -26,9 +26,16 @@ import { useHelperContext } from "./providers/helper-provider";
 import { useParams, useRouter } from "next/navigation";
 import { ActiveViewers } from "@/components/active-viewers";
 import { ChangeHistoryDialog } from "@/components/change-history-dialog";
+import { AlertHistoryDialog } from "@/components/alert-history-dialog";
 import { useDashboardTabs } from "@/hooks/use-dashboard-tabs";
 import { useNotes } from "@/hooks/use-notes";
 import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  formatCountdown,
+  TAB_REFRESH_EVENT,
+  TabRefreshEventDetail,
+  useAutoRefresh,
+} from "@/hooks/use-auto-refresh";
 import { useState, useMemo, useEffect } from "react";
 import { ChatPanel } from "@/components/chat-panel";
 
@@ -126,17 +133,23 @@ export function SiteHeader() {
     }
   };
 
-  const handleRefresh = async () => {
+  // auto: scheduled refresh, which may be served from the query cache
+  const handleRefresh = async (auto = false) => {
     setIsRefreshing(true);
     
     // Reload tabs
     await reloadTabs();
     
-    // Dispatch reloadNotes event for notes
+    // Dispatch reloadNotes event for notes, and refetch the tab's charts
     if (tabId && typeof window !== "undefined") {
       window.dispatchEvent(
         new CustomEvent("reloadNotes", { detail: { tabId } })
       );
+      window.dispatchEvent(
+        new CustomEvent<TabRefreshEventDetail>(TAB_REFRESH_EVENT, {
+          detail: { tabId, refresh: !auto },
+        })
+      );
     }
     
     // Reload the page to refresh all data
@@ -148,6 +161,14 @@ export function SiteHeader() {
     }, 1000);
   };
 
+  const {
+    secondsLeft,
+    isPaused: isAutoRefreshPaused,
+    reset: resetAutoRefresh,
+  } = useAutoRefresh(tabId ? currentTab?.refreshIntervalMinutes : undefined, () => {
+    void handleRefresh(true);
+  });
+
   const handleAddNote = async () => {
     if (!tabId || !userInfo) {
       console.error("Cannot add note: missing tabId or userInfo", {
@@ -244,6 +265,7 @@ export function SiteHeader() {
                 currentUserEmail={userInfo.email || ""}
               />
               <ChangeHistoryDialog tabId={tabId} />
+              <AlertHistoryDialog tabId={tabId} />
             </>
           )}
           <div className="ml-auto flex items-center gap-1 sm:gap-2 shrink-0">
@@ -309,12 +331,27 @@ export function SiteHeader() {
             {tabId && (
               <Button
                 variant="ghost"
-                size="icon"
-                onClick={handleRefresh}
-                title="รีเฟรช Dashboard"
+                size={secondsLeft !== null && !isMobile ? "sm" : "icon"}
+                className={secondsLeft !== null && !isMobile ? "gap-2" : ""}
+                onClick={() => {
+                  resetAutoRefresh();
+                  void handleRefresh();
+                }}
+                title={
+                  secondsLeft === null
+                    ? "รีเฟรช Dashboard"
+                    : isAutoRefreshPaused
+                    ? "รีเฟรชอัตโนมัติหยุดชั่วคราว (ไม่ได้เปิดหน้านี้อยู่)"
+                    : `รีเฟรชอัตโนมัติทุก ${currentTab?.refreshIntervalMinutes} นาที`
+                }
                 disabled={isRefreshing}
               >
                 <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+                {secondsLeft !== null && !isMobile && (
+                  <span className="tabular-nums text-xs text-muted-foreground">
+                    {isAutoRefreshPaused ? "หยุด" : formatCountdown(secondsLeft)}
+                  </span>
+                )}
               </Button>
             )}
             {tabId && (
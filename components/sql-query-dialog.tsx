@@ -1,7 +1,14 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { ChartConfig, ChartType } from "@/types/chart";
+import { useState, useEffect, useRef } from "react";
+import {
+  ChartAnomalyConfig,
+  ChartCohortConfig,
+  ChartConfig,
+  ChartFunnelConfig,
+  ChartType,
+  FederatedSource,
+} from "@/types/chart";
 import Editor from "@monaco-editor/react";
 import {
   Dialog,
@@ -21,7 +28,26 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ColDef } from "ag-grid-community";
 import { useConnections } from "@/hooks/use-connections";
+import { ChartAnomalySettings } from "@/components/chart-anomaly-settings";
+import {
+  EMPTY_FEDERATED_SOURCE,
+  FederatedSourcesEditor,
+} from "@/components/federated-sources-editor";
+import {
+  ChartCohortSettings,
+  ChartFunnelSettings,
+  cohortFunnelColumns,
+  EMPTY_COHORT_CONFIG,
+  EMPTY_FUNNEL_CONFIG,
+  normalizeFunnelConfig,
+} from "@/components/chart-cohort-funnel-settings";
 import { cn } from "@/lib/utils";
+import {
+  cancelRunningQuery,
+  isAbortError,
+  RunningQueryHandle,
+  startQuery,
+} from "@/lib/query-cancel";
 import {
   BarChart3,
   LineChart,
@@ -33,6 +59,9 @@ import {
   Play,
   SlidersHorizontal,
   Columns3,
+  Timer,
+  Grid3x3,
+  Filter,
   X as XIcon,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
@@ -82,6 +111,18 @@ const chartTypeOptions: ChartTypeOption[] = [
     description: "สรุปตัวเลขสำคัญหลายค่า",
     icon: LayoutGrid,
   },
+  {
+    value: "cohort",
+    label: "Cohort Retention",
+    description: "อัตรากลับมาใช้ซ้ำตามรุ่นผู้ใช้",
+    icon: Grid3x3,
+  },
+  {
+    value: "funnel",
+    label: "Funnel",
+    description: "อัตราผ่านแต่ละขั้นตอน",
+    icon: Filter,
+  },
 ];
 
 const DROPDOWN_MENU_Z = "z-[500]";
@@ -96,10 +137,22 @@ export function SQLQueryDialog({
   const [title, setTitle] = useState(config?.title ?? "");
   const [type, setType] = useState<ChartType>(config?.type ?? "table");
   const [height, setHeight] = useState(config?.height ?? 500);
+  const [cacheTtl, setCacheTtl] = useState(
+    config?.cacheTtlSeconds?.toString() ?? "",
+  );
   const [connectionId, setConnectionId] = useState(config?.connectionId ?? "");
   const [database, setDatabase] = useState(config?.database ?? "");
-  const [sqlQuery, setSqlQuery] = useState(config?.sqlQuery ?? "");
+  // Editor text: SQL, or the aggregation pipeline JSON on MongoDB connections
+  const [sqlQuery, setSqlQuery] = useState(config?.sqlQuery ?? config?.pipeline ?? "");
+  const [collection, setCollection] = useState(
+    config?.pipeline ? config.tableName ?? "" : "",
+  );
+  // Federated charts: sqlQuery is DuckDB SQL over these sources' aliases
+  const [federated, setFederated] = useState<FederatedSource[] | null>(
+    config?.federated ?? null,
+  );
   const [databases, setDatabases] = useState<string[]>([]);
+  const [collections, setCollections] = useState<string[]>([]);
   const [selectedColumns, setSelectedColumns] = useState<string[]>(
     config?.columns ?? [],
   );
@@ -109,6 +162,7 @@ export function SQLQueryDialog({
   >([]);
   const [queryResultTotal, setQueryResultTotal] = useState<number | null>(null);
   const [isRunningQuery, setIsRunningQuery] = useState(false);
+  const runningQueryRef = useRef<RunningQueryHandle | null>(null);
   const [queryError, setQueryError] = useState<string | null>(null);
   const [xAxisKey, setXAxisKey] = useState(config?.xAxisKey ?? "");
   const [yAxisKey, setYAxisKey] = useState(config?.yAxisKey ?? "");
@@ -127,6 +181,15 @@ export function SQLQueryDialog({
   );
   const [xAxisTitle, setXAxisTitle] = useState(config?.xAxisTitle ?? "");
   const [yAxisTitle, setYAxisTitle] = useState(config?.yAxisTitle ?? "");
+  const [anomaly, setAnomaly] = useState<ChartAnomalyConfig | undefined>(
+    config?.anomaly,
+  );
+  const [cohort, setCohort] = useState<ChartCohortConfig>(
+    config?.cohort ?? EMPTY_COHORT_CONFIG,
+  );
+  const [funnel, setFunnel] = useState<ChartFunnelConfig>(
+    config?.funnel ?? EMPTY_FUNNEL_CONFIG,
+  );
 
   const sortCandidates = queryResultColumns
     .concat([xAxisKey, yAxisKey].filter(Boolean) as string[])
@@ -134,7 +197,20 @@ export function SQLQueryDialog({
 
   const isAxisChart = type === "bar" || type === "line" || type === "pie";
   const isMatrix = type === "matrix";
+  const isCohort = type === "cohort";
+  const isFunnel = type === "funnel";
   const canPickColumns = type === "table" || isMatrix;
+  const isMongo =
+    !federated &&
+    connections.find((c) => c.id === connectionId)?.type === "mongodb";
+  const isSourceSelected = federated
+    ? federated.every((s) => s.alias && s.connectionId && s.database && s.sql.trim())
+    : !!connectionId && !!database && (!isMongo || !!collection);
+  const missingSourceError = federated
+    ? "กรุณากรอกชื่อตาราง Connection, Database และ SQL ของทุกแหล่งข้อมูล และ SQL ที่รวมข้อมูล"
+    : isMongo
+    ? "กรุณาเลือก Connection, Database, Collection และกรอก Pipeline"
+    : "กรุณาเลือก Connection, Database และกรอก SQL Query";
 
   useEffect(() => {
     if (connectionId && open) {
@@ -143,14 +219,25 @@ export function SQLQueryDialog({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [connectionId, open]);
 
+  // MongoDB pipelines run on a collection of the selected database
+  useEffect(() => {
+    if (isMongo && database && open) {
+      void fetchCollections();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isMongo, connectionId, database, open]);
+
   useEffect(() => {
     if (open && config) {
       setTitle(config.title ?? "");
       setType(config.type ?? "table");
       setHeight(config.height ?? 500);
+      setCacheTtl(config.cacheTtlSeconds?.toString() ?? "");
       setConnectionId(config.connectionId ?? "");
       setDatabase(config.database ?? "");
-      setSqlQuery(config.sqlQuery ?? "");
+      setSqlQuery(config.sqlQuery ?? config.pipeline ?? "");
+      setCollection(config.pipeline ? config.tableName ?? "" : "");
+      setFederated(config.federated ?? null);
       setSelectedColumns(config.columns ?? []);
       setXAxisKey(config.xAxisKey ?? "");
       setYAxisKey(config.yAxisKey ?? "");
@@ -162,6 +249,9 @@ export function SQLQueryDialog({
       setAggregate(config.aggregate ?? "sum");
       setXAxisTitle(config.xAxisTitle ?? "");
       setYAxisTitle(config.yAxisTitle ?? "");
+      setAnomaly(config.anomaly);
+      setCohort(config.cohort ?? EMPTY_COHORT_CONFIG);
+      setFunnel(config.funnel ?? EMPTY_FUNNEL_CONFIG);
     } else if (!open) {
       setQueryResultColumns([]);
       setQueryResultData([]);
@@ -175,31 +265,33 @@ export function SQLQueryDialog({
 
   const fetchDatabases = async () => {
     if (!connectionId) return;
-    const c = connections.find((x) => x.id === connectionId);
-    if (!c) return;
     const res = await fetch("/api/db/tables", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        type: c.type,
-        host: c.host,
-        port: c.port,
-        user: c.user,
-        password: c.password,
-      }),
+      body: JSON.stringify({ connectionId }),
     });
     const data = await res.json();
     setDatabases(data.databases ?? []);
   };
 
+  const fetchCollections = async () => {
+    const res = await fetch("/api/db/tables", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ connectionId, database }),
+    });
+    const data = await res.json();
+    setCollections(data.tables ?? []);
+  };
+
   const handleRunQuery = async () => {
-    if (!connectionId || !database || !sqlQuery.trim()) {
-      setQueryError("กรุณาเลือก Connection, Database และกรอก SQL Query");
+    if (!isSourceSelected || !sqlQuery.trim()) {
+      setQueryError(missingSourceError);
       return;
     }
 
     const c = connections.find((x) => x.id === connectionId);
-    if (!c) {
+    if (!federated && !c) {
       setQueryError("ไม่พบ Connection ที่เลือก");
       return;
     }
@@ -207,20 +299,27 @@ export function SQLQueryDialog({
     setIsRunningQuery(true);
     setQueryError(null);
 
+    const handle = startQuery();
+    runningQueryRef.current = handle;
     try {
-      const res = await fetch("/api/db/query-sql", {
+      const endpoint = federated
+        ? "/api/db/query-federated"
+        : isMongo
+        ? "/api/db/query-mongo"
+        : "/api/db/query-sql";
+      const res = await fetch(endpoint, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          type: c.type,
-          host: c.host,
-          port: c.port,
-          user: c.user,
-          password: c.password,
-          database,
-          sql: sqlQuery.trim(),
+          ...(federated
+            ? { sources: federated, sql: sqlQuery.trim() }
+            : isMongo
+            ? { connectionId, database, collection, pipeline: sqlQuery.trim() }
+            : { connectionId, database, sql: sqlQuery.trim() }),
           limit: 50000,
+          queryId: handle.queryId,
         }),
+        signal: handle.controller.signal,
       });
 
       const data = await res.json();
@@ -259,15 +358,24 @@ export function SQLQueryDialog({
         }
       }
     } catch (e: unknown) {
-      const message = e instanceof Error ? e.message : "Unknown error";
+      const message = isAbortError(e)
+        ? "ยกเลิก Query แล้ว"
+        : e instanceof Error
+        ? e.message
+        : "Unknown error";
       setQueryError(message);
       setQueryResultColumns([]);
       setQueryResultData([]);
     } finally {
+      if (runningQueryRef.current === handle) runningQueryRef.current = null;
       setIsRunningQuery(false);
     }
   };
 
+  const handleCancelQuery = () => {
+    if (runningQueryRef.current) cancelRunningQuery(runningQueryRef.current);
+  };
+
   const handleSelectAllColumns = () => {
     if (!queryResultColumns.length) return;
     setSelectedColumns([...queryResultColumns]);
@@ -294,8 +402,8 @@ export function SQLQueryDialog({
       return;
     }
 
-    if (!connectionId || !database || !sqlQuery.trim()) {
-      setQueryError("กรุณาเลือก Connection, Database และกรอก SQL Query");
+    if (!isSourceSelected || !sqlQuery.trim()) {
+      setQueryError(missingSourceError);
       return;
     }
 
@@ -314,6 +422,21 @@ export function SQLQueryDialog({
       return;
     }
 
+    const savedCohort = {
+      ...cohort,
+      entityKey: cohort.entityKey.trim(),
+      dateKey: cohort.dateKey.trim(),
+    };
+    if (isCohort && (!savedCohort.entityKey || !savedCohort.dateKey)) {
+      setQueryError("กรุณาระบุคอลัมน์ผู้ใช้และคอลัมน์วันที่สำหรับ Cohort");
+      return;
+    }
+    const savedFunnel = isFunnel ? normalizeFunnelConfig(funnel) : null;
+    if (isFunnel && !savedFunnel) {
+      setQueryError("Funnel ต้องมีอย่างน้อย 2 ขั้นตอนที่ระบุคอลัมน์");
+      return;
+    }
+
     if (
       queryResultData.length === 0 &&
       type === "table" &&
@@ -334,10 +457,21 @@ export function SQLQueryDialog({
       title: title.trim(),
       type,
       height,
-      connectionId,
-      database,
-      sqlQuery: sqlQuery.trim(),
-      columns: selectedColumns,
+      cacheTtlSeconds:
+        cacheTtl.trim() === ""
+          ? undefined
+          : Math.max(0, Math.trunc(Number(cacheTtl)) || 0),
+      // Federated charts keep their first source as the chart's connection
+      connectionId: federated ? federated[0].connectionId : connectionId,
+      database: federated ? federated[0].database : database,
+      sqlQuery: isMongo ? undefined : sqlQuery.trim(),
+      pipeline: isMongo ? sqlQuery.trim() : undefined,
+      tableName: isMongo ? collection : undefined,
+      federated: federated ?? undefined,
+      columns:
+        isCohort || isFunnel
+          ? cohortFunnelColumns(isCohort ? "cohort" : "funnel", savedCohort, savedFunnel)
+          : selectedColumns,
       columnDefs,
       xAxisKey: isAxisChart ? xAxisKey : undefined,
       yAxisKey: isAxisChart ? yAxisKey : undefined,
@@ -349,6 +483,9 @@ export function SQLQueryDialog({
       color: isAxisChart ? seriesColor : undefined,
       xAxisTitle: isAxisChart ? xAxisTitle || undefined : undefined,
       yAxisTitle: isAxisChart ? yAxisTitle || undefined : undefined,
+      anomaly: type === "line" ? anomaly : undefined,
+      cohort: isCohort ? savedCohort : undefined,
+      funnel: isFunnel ? savedFunnel! : undefined,
     });
 
     onOpenChange(false);
@@ -363,7 +500,7 @@ export function SQLQueryDialog({
               {config ? "แก้ไขการตั้งค่ากราฟ SQL" : "เพิ่มกราฟ Dynamic SQL"}
             </DialogTitle>
             <DialogDescription className="mt-1 text-sm text-muted-foreground">
-              เขียน SQL เพื่อสร้างกราฟแบบกำหนดเอง รองรับคอลัมน์ที่ปรับแต่งได้
+              เขียน SQL (หรือ Aggregation Pipeline สำหรับ MongoDB) เพื่อสร้างกราฟแบบกำหนดเอง รองรับคอลัมน์ที่ปรับแต่งได้
             </DialogDescription>
           </DialogHeader>
 
@@ -425,85 +562,159 @@ export function SQLQueryDialog({
                   เชื่อมต่อฐานข้อมูล
                 </h3>
                 <p className="mt-1 text-sm text-muted-foreground">
-                  เลือก Connection และ Database ที่ต้องการใช้สำหรับรัน Query
+                  {federated
+                    ? "ดึงข้อมูลจากหลาย Connection แล้วรวมกันด้วย SQL เดียว"
+                    : "เลือก Connection และ Database ที่ต้องการใช้สำหรับรัน Query"}
                 </p>
               </div>
+              <Button
+                variant={federated ? "default" : "outline"}
+                size="sm"
+                type="button"
+                onClick={() =>
+                  setFederated(
+                    federated
+                      ? null
+                      : [
+                          {
+                            ...EMPTY_FEDERATED_SOURCE,
+                            connectionId: isMongo ? "" : connectionId,
+                            database: isMongo ? "" : database,
+                          },
+                        ],
+                  )
+                }
+              >
+                รวมหลายฐานข้อมูล
+              </Button>
             </div>
 
-            <div className="mt-4 grid gap-4 md:grid-cols-2">
-              <div className="space-y-2">
-                <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                  Connection
-                </label>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className="w-full justify-between"
-                      type="button"
+            {federated ? (
+              <div className="mt-4">
+                <FederatedSourcesEditor
+                  sources={federated}
+                  connections={connections}
+                  onChange={setFederated}
+                />
+              </div>
+            ) : (
+              <div className="mt-4 grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Connection
+                  </label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-between"
+                        type="button"
+                      >
+                        {connectionId
+                          ? connections.find((c) => c.id === connectionId)
+                              ?.name ?? connectionId
+                          : "เลือก Connection"}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      align="start"
+                      className={cn("w-[240px]", DROPDOWN_MENU_Z)}
                     >
-                      {connectionId
-                        ? connections.find((c) => c.id === connectionId)
-                            ?.name ?? connectionId
-                        : "เลือก Connection"}
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent
-                    align="start"
-                    className={cn("w-[240px]", DROPDOWN_MENU_Z)}
-                  >
-                    {connections.map((c) => (
-                      <DropdownMenuItem
-                        key={c.id}
-                        onSelect={() => {
-                          setConnectionId(c.id);
-                          setDatabase("");
-                        }}
+                      {connections.map((c) => (
+                        <DropdownMenuItem
+                          key={c.id}
+                          onSelect={() => {
+                            setConnectionId(c.id);
+                            setDatabase("");
+                            setCollection("");
+                          }}
+                        >
+                          {c.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Database
+                  </label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-between"
+                        type="button"
                       >
-                        {c.name}
-                      </DropdownMenuItem>
-                    ))}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-              <div className="space-y-2">
-                <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                  Database
-                </label>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className="w-full justify-between"
-                      type="button"
+                        {database || "เลือก Database"}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent
+                      align="start"
+                      className={cn("w-[240px]", DROPDOWN_MENU_Z)}
                     >
-                      {database || "เลือก Database"}
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent
-                    align="start"
-                    className={cn("w-[240px]", DROPDOWN_MENU_Z)}
-                  >
-                    {databases.map((db) => (
-                      <DropdownMenuItem
-                        key={db}
-                        onSelect={() => setDatabase(db)}
+                      {databases.map((db) => (
+                        <DropdownMenuItem
+                          key={db}
+                          onSelect={() => {
+                            setDatabase(db);
+                            setCollection("");
+                          }}
+                        >
+                          {db}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {isMongo && (
+                  <div className="space-y-2">
+                    <label className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      Collection
+                    </label>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="w-full justify-between"
+                          type="button"
+                          disabled={!database}
+                        >
+                          {collection || "เลือก Collection"}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent
+                        align="start"
+                        className={cn("max-h-72 w-[240px] overflow-y-auto", DROPDOWN_MENU_Z)}
                       >
-                        {db}
-                      </DropdownMenuItem>
-                    ))}
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                        {collections.map((name) => (
+                          <DropdownMenuItem
+                            key={name}
+                            onSelect={() => setCollection(name)}
+                          >
+                            {name}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                )}
               </div>
-            </div>
+            )}
 
             <div className="mt-4 rounded-xl border border-dashed border-muted-foreground/30 bg-background/60 p-4 text-xs text-muted-foreground">
               <div className="flex items-center gap-2 font-medium text-foreground">
                 <Database className="h-4 w-4 text-primary" />
-                เลือกฐานข้อมูลแล้วกรอก SQL Query ด้านล่าง
+                {federated
+                  ? "แต่ละแหล่งข้อมูลจะเป็นตารางตามชื่อที่ตั้ง แล้วเขียน SQL รวมข้อมูลด้านล่าง"
+                  : isMongo
+                  ? "เลือกฐานข้อมูลและ Collection แล้วกรอก Pipeline ด้านล่าง"
+                  : "เลือกฐานข้อมูลแล้วกรอก SQL Query ด้านล่าง"}
               </div>
               <p className="mt-1">
-                ระบบจะดึงข้อมูลสูงสุด 50,000 แถวเพื่อใช้พรีวิวและออกแบบกราฟ
+                {federated
+                  ? "แต่ละแหล่งข้อมูลใช้ขีดจำกัดแถวและเวลาของ Connection นั้น ผลลัพธ์พรีวิวสูงสุด 50,000 แถว"
+                  : "ระบบจะดึงข้อมูลสูงสุด 50,000 แถวเพื่อใช้พรีวิวและออกแบบกราฟ"}
               </p>
             </div>
           </div>
@@ -512,11 +723,14 @@ export function SQLQueryDialog({
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div>
                 <h3 className="text-sm font-semibold text-foreground">
-                  SQL Query
+                  {isMongo ? "Aggregation Pipeline" : federated ? "SQL รวมข้อมูล" : "SQL Query"}
                 </h3>
                 <p className="mt-1 text-sm text-muted-foreground">
-                  เขียนคำสั่ง SQL (รองรับ SELECT / WITH)
-                  เพื่อดึงข้อมูลที่ต้องการ
+                  {isMongo
+                    ? "เขียน Pipeline เป็น JSON array ของ stage (ใช้ {{key}} แทนค่าจาก Tab Input ได้) ตัวกรองของกราฟจะถูกต่อท้ายเป็น $match"
+                    : federated
+                    ? "เขียน SQL แบบ DuckDB โดยใช้ชื่อแหล่งข้อมูลเป็นชื่อตาราง เช่น JOIN ระหว่าง coupons และ redemptions"
+                    : "เขียนคำสั่ง SQL (รองรับ SELECT / WITH) เพื่อดึงข้อมูลที่ต้องการ"}
                 </p>
               </div>
             </div>
@@ -524,7 +738,7 @@ export function SQLQueryDialog({
             <div className="mt-4 relative border rounded-xl overflow-hidden bg-background">
               <Editor
                 height="300px"
-                defaultLanguage="sql"
+                language={isMongo ? "json" : "sql"}
                 value={sqlQuery}
                 onChange={(value) => setSqlQuery(value || "")}
                 theme="light"
@@ -541,7 +755,11 @@ export function SQLQueryDialog({
                   formatOnType: true,
                   suggestOnTriggerCharacters: true,
                   quickSuggestions: true,
-                  placeholder: "SELECT date, SUM(total_amount) AS total_sales FROM orders GROUP BY date ORDER BY date DESC",
+                  placeholder: isMongo
+                    ? '[{ "$match": { "status": "redeemed" } }, { "$group": { "_id": "$branch", "points": { "$sum": "$points" } } }]'
+                    : federated
+                    ? "SELECT c.code, COUNT(r.id) AS redemptions FROM coupons c LEFT JOIN redemptions r ON r.coupon_id = c.id GROUP BY c.code"
+                    : "SELECT date, SUM(total_amount) AS total_sales FROM orders GROUP BY date ORDER BY date DESC",
                 }}
                 loading={
                   <div className="flex items-center justify-center h-[300px] text-muted-foreground">
@@ -551,14 +769,26 @@ export function SQLQueryDialog({
               />
             </div>
             <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
-              <Button
-                onClick={handleRunQuery}
-                disabled={isRunningQuery || !connectionId || !database}
-                className="inline-flex items-center gap-2"
-              >
-                <Play className="h-4 w-4" />
-                {isRunningQuery ? "กำลังรัน Query..." : "รัน Query"}
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={handleRunQuery}
+                  disabled={isRunningQuery || !isSourceSelected}
+                  className="inline-flex items-center gap-2"
+                >
+                  <Play className="h-4 w-4" />
+                  {isRunningQuery ? "กำลังรัน Query..." : "รัน Query"}
+                </Button>
+                {isRunningQuery && (
+                  <Button
+                    variant="outline"
+                    onClick={handleCancelQuery}
+                    className="inline-flex items-center gap-2"
+                  >
+                    <XIcon className="h-4 w-4" />
+                    ยกเลิก
+                  </Button>
+                )}
+              </div>
               {queryResultColumns.length > 0 && (
                 <span className="text-xs text-muted-foreground">
                   คอลัมน์ที่พบ: {queryResultColumns.length.toLocaleString()}
@@ -716,6 +946,47 @@ export function SQLQueryDialog({
             </div>
           )}
 
+          {/* Table charts page through live rows; only other charts are cached */}
+          {!isMatrix && type !== "table" && (
+            <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
+              <div className="flex items-center gap-2 text-foreground">
+                <Timer className="h-4 w-4 text-primary" />
+                <h3 className="text-sm font-semibold">แคชข้อมูล (วินาที)</h3>
+              </div>
+              <p className="mt-1 text-sm text-muted-foreground">
+                ผู้ชมทุกคนใช้ผลลัพธ์เดียวกันจนกว่าจะหมดอายุ เว้นว่างเพื่อใช้ค่าเริ่มต้นของระบบ หรือใส่ 0 เพื่อดึงข้อมูลใหม่ทุกครั้ง
+              </p>
+              <Input
+                type="number"
+                value={cacheTtl}
+                onChange={(e) => setCacheTtl(e.target.value)}
+                min={0}
+                placeholder="ค่าเริ่มต้น"
+                className="mt-4 w-40"
+              />
+            </div>
+          )}
+
+          {type === "line" && (
+            <ChartAnomalySettings value={anomaly} onChange={setAnomaly} />
+          )}
+
+          {isCohort && (
+            <ChartCohortSettings
+              value={cohort}
+              onChange={setCohort}
+              columns={queryResultColumns}
+            />
+          )}
+
+          {isFunnel && (
+            <ChartFunnelSettings
+              value={funnel}
+              onChange={setFunnel}
+              columns={queryResultColumns}
+            />
+          )}
+
           {isAxisChart && (
             <div className="rounded-2xl border bg-card/70 p-5 shadow-sm">
               <div className="flex flex-wrap items-center justify-between gap-3">
@@ -11,6 +11,13 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { DashboardTab } from "@/types/dashboard";
 import { type Icon } from "@tabler/icons-react";
 import {
@@ -36,8 +43,10 @@ import {
   IconBookmark,
   IconTag,
   IconFlag,
+  IconRefresh,
 } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
+import { REFRESH_INTERVAL_OPTIONS } from "@/hooks/use-auto-refresh";
 
 // Common icons to show in the picker - organized by category
 const COMMON_ICONS: Array<{ name: string; component: Icon }> = [
@@ -84,18 +93,24 @@ export function TabEditDialog({
   // Initialize state from tab props - use key to reset when tab changes
   const [link, setLink] = useState("");
   const [selectedIcon, setSelectedIcon] = useState<string>("");
+  // "off" or minutes as a string, for the Select
+  const [refreshInterval, setRefreshInterval] = useState("off");
 
   // Update state when dialog opens or tab changes
   useEffect(() => {
     if (open && tab) {
       setLink(tab.link || "");
       setSelectedIcon(tab.icon || "");
+      setRefreshInterval(
+        tab.refreshIntervalMinutes ? String(tab.refreshIntervalMinutes) : "off",
+      );
     } else {
       setLink("");
       setSelectedIcon("");
+      setRefreshInterval("off");
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, tab?.id, tab?.link, tab?.icon]);
+  }, [open, tab?.id, tab?.link, tab?.icon, tab?.refreshIntervalMinutes]);
 
   const handleSave = () => {
     if (!tab) return;
@@ -106,6 +121,8 @@ export function TabEditDialog({
     onSave({
       link: link.trim() || undefined,
       icon: selectedIcon || undefined,
+      refreshIntervalMinutes:
+        refreshInterval === "off" ? undefined : Number(refreshInterval),
     });
     onOpenChange(false);
   };
@@ -129,7 +146,7 @@ export function TabEditDialog({
                 แก้ไขแท็บ
               </DialogTitle>
               <DialogDescription className="mt-1 text-sm">
-                ตั้งค่า Link และ Icon สำหรับแท็บ{" "}
+                ตั้งค่า Link, รีเฟรชอัตโนมัติ และ Icon สำหรับแท็บ{" "}
                 <span className="font-medium text-foreground">
                   &quot;{tab?.name}&quot;
                 </span>
@@ -161,6 +178,32 @@ export function TabEditDialog({
             </p>
           </div>
 
+          {/* Auto-refresh Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <IconRefresh className="h-4 w-4 text-muted-foreground" />
+              <label className="text-sm font-semibold">รีเฟรชอัตโนมัติ</label>
+              <span className="text-xs text-muted-foreground">(ไม่บังคับ)</span>
+            </div>
+            <Select value={refreshInterval} onValueChange={setRefreshInterval}>
+              <SelectTrigger className="w-full h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">ปิด</SelectItem>
+                {REFRESH_INTERVAL_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    ทุก {minutes} นาที
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              ดึงข้อมูลกราฟทั้งหมดในแท็บใหม่ตามรอบเวลา (รวมถึงลิงก์สาธารณะ)
+              หยุดชั่วคราวเมื่อไม่ได้เปิดหน้านี้อยู่ กราฟที่ตั้งแคชไว้อาจแสดงข้อมูลจากแคช
+            </p>
+          </div>
+
           {/* Icon Section */}
           <div className="space-y-3">
             <div className="flex items-center gap-2">
@@ -258,7 +258,10 @@ export function TabInputsPanel({
                       )}
                     </DropdownMenuContent>
                   </DropdownMenu>
-                  <code className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground">
+                  <code
+                    className="rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground"
+                    title={`ค่าจะถูกส่งเป็น parameter ของ SQL; ใช้ {{raw:${input.key}}} สำหรับชื่อคอลัมน์/ตาราง`}
+                  >
                     {`{{${input.key}}}`}
                   </code>
                   {input.description ? (
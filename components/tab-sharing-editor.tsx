@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { IconLock } from "@tabler/icons-react";
+import { DashboardTabsState, TabAccess } from "@/types/dashboard";
+import { UserRole } from "@/types/permission";
+import { getGroupChain, isRestricted } from "@/lib/tab-access";
+
+const SHAREABLE_ROLES: { value: UserRole; label: string }[] = [
+  { value: "viewer", label: "Viewer" },
+  { value: "editor", label: "Editor" },
+];
+
+interface TabSharingEditorProps {
+  userEmails: string[]; // Emails from the permissions list, offered as quick picks
+}
+
+export function TabSharingEditor({ userEmails }: TabSharingEditorProps) {
+  const [state, setState] = useState<DashboardTabsState>({ tabs: [], groups: [] });
+  const [target, setTarget] = useState<string>(""); // "tab:<id>" | "group:<id>"
+  const [users, setUsers] = useState<string[]>([]);
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [extraEmail, setExtraEmail] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTabs = async () => {
+    try {
+      const response = await fetch("/api/user-configs/dashboard-tabs");
+      if (response.ok) {
+        setState((await response.json()) as DashboardTabsState);
+      }
+    } catch (error) {
+      console.error("Error loading dashboard tabs:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadTabs();
+  }, []);
+
+  const groups = useMemo(() => state.groups || [], [state.groups]);
+  const [targetType, targetId] = target.split(":") as ["tab" | "group", string];
+
+  const selected = useMemo(() => {
+    if (!targetId) return undefined;
+    return targetType === "tab"
+      ? state.tabs.find((t) => t.id === targetId)
+      : groups.find((g) => g.id === targetId);
+  }, [targetType, targetId, state.tabs, groups]);
+
+  // Parent folders that already restrict the selected item
+  const inheritedFrom = useMemo(() => {
+    if (!selected) return [];
+    const startGroupId =
+      targetType === "tab"
+        ? state.tabs.find((t) => t.id === targetId)?.groupId
+        : groups.find((g) => g.id === targetId)?.parentId;
+    return getGroupChain(startGroupId, groups).filter((g) =>
+      isRestricted(g.access),
+    );
+  }, [selected, targetType, targetId, state.tabs, groups]);
+
+  useEffect(() => {
+    const access: TabAccess | undefined = selected?.access;
+    setUsers(access?.users || []);
+    setRoles(access?.roles || []);
+  }, [selected]);
+
+  const emailOptions = useMemo(
+    () => Array.from(new Set([...userEmails.map((e) => e.toLowerCase()), ...users])),
+    [userEmails, users],
+  );
+
+  const toggleUser = (email: string, checked: boolean) => {
+    setUsers((prev) =>
+      checked ? [...prev, email] : prev.filter((u) => u !== email),
+    );
+  };
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    setRoles((prev) =>
+      checked ? [...prev, role] : prev.filter((r) => r !== role),
+    );
+  };
+
+  const handleAddEmail = () => {
+    const email = extraEmail.trim().toLowerCase();
+    if (!email) return;
+    if (!users.includes(email)) setUsers([...users, email]);
+    setExtraEmail("");
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user-configs/dashboard-tabs/access", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          targetType,
+          id: targetId,
+          access: { users, roles },
+        }),
+      });
+
+      if (response.ok) {
+        await loadTabs();
+        window.dispatchEvent(new CustomEvent("tabs:refresh"));
+      } else {
+        const error = await response.json();
+        alert(error.error || "Failed to save sharing");
+      }
+    } catch (error) {
+      console.error("Error saving tab sharing:", error);
+      alert("Failed to save sharing");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg bg-card space-y-3">
+      <div className="flex items-center gap-2">
+        <IconLock className="h-4 w-4" />
+        <span className="font-semibold text-sm">การแชร์แท็บ / โฟลเดอร์</span>
+      </div>
+
+      <Select value={target} onValueChange={setTarget}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="เลือกแท็บหรือโฟลเดอร์" />
+        </SelectTrigger>
+        <SelectContent>
+          {groups.map((g) => (
+            <SelectItem key={`group:${g.id}`} value={`group:${g.id}`}>
+              📁 {g.name}
+              {isRestricted(g.access) ? " 🔒" : ""}
+            </SelectItem>
+          ))}
+          {state.tabs.map((t) => (
+            <SelectItem key={`tab:${t.id}`} value={`tab:${t.id}`}>
+              {t.name}
+              {isRestricted(t.access) ? " 🔒" : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {selected && (
+        <div className="space-y-3 text-sm">
+          {inheritedFrom.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              ถูกจำกัดโดยโฟลเดอร์:{" "}
+              {inheritedFrom.map((g) => g.name).join(", ")} (ต้องผ่านทุกชั้น)
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium">Role ที่เห็นได้</div>
+            <div className="flex flex-wrap gap-3">
+              {SHAREABLE_ROLES.map((role) => (
+                <label
+                  key={role.value}
+                  className="inline-flex items-center gap-2"
+                >
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+                    checked={roles.includes(role.value)}
+                    onChange={(event) =>
+                      toggleRole(role.value, event.target.checked)
+                    }
+                  />
+                  {role.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium">ผู้ใช้ที่เห็นได้</div>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {emailOptions.map((email) => (
+                <label key={email} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border border-input text-primary focus:ring-2 focus:ring-primary/50"
+                    checked={users.includes(email)}
+                    onChange={(event) =>
+                      toggleUser(email, event.target.checked)
+                    }
+                  />
+                  <span className="truncate">{email}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="เพิ่ม Email"
+                value={extraEmail}
+                onChange={(e) => setExtraEmail(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAddEmail();
+                }}
+                className="flex-1"
+              />
+              <Button variant="outline" size="sm" onClick={handleAddEmail}>
+                เพิ่ม
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">
+              ไม่เลือกใครเลย = ทุกคนที่มีสิทธิ์ดูเห็นได้ (Super Admin เห็นทุกแท็บ)
+            </span>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "กำลังบันทึก..." : "บันทึก"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
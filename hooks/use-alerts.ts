@@ -0,0 +1,93 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertEvent, AlertRule } from "@/types/alert";
+
+export type AlertDraft = Pick<
+  AlertRule,
+  | "name"
+  | "tabId"
+  | "chartId"
+  | "metric"
+  | "condition"
+  | "schedule"
+  | "cooldownMinutes"
+  | "notifiers"
+  | "enabled"
+> & { id?: string };
+
+const readError = async (response: Response, fallback: string) => {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null;
+  return new Error(data?.error || fallback);
+};
+
+/**
+ * Alert rules of one chart on a tab
+ */
+export function useAlerts(tabId: string, chartId: string) {
+  const [alerts, setAlerts] = useState<AlertRule[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/alerts?tabId=${encodeURIComponent(tabId)}&chartId=${encodeURIComponent(chartId)}`,
+      );
+      if (response.ok) {
+        const data = (await response.json()) as { alerts?: AlertRule[] };
+        setAlerts(data.alerts || []);
+      }
+    } catch (error) {
+      console.error("Error loading alerts:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [tabId, chartId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Throws with the server's message so the editor can show it
+  const saveAlert = useCallback(
+    async (draft: AlertDraft) => {
+      const response = await fetch("/api/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      if (!response.ok) throw await readError(response, "Failed to save alert");
+      await reload();
+    },
+    [reload],
+  );
+
+  const deleteAlert = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/alerts?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw await readError(response, "Failed to delete alert");
+      await reload();
+    },
+    [reload],
+  );
+
+  // The event when the rule fired or failed, null when the value is fine
+  const evaluateAlert = useCallback(
+    async (id: string) => {
+      const response = await fetch("/api/alerts/evaluate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      });
+      if (!response.ok) throw await readError(response, "Failed to evaluate alert");
+      const { event } = (await response.json()) as { event: AlertEvent | null };
+      await reload();
+      return event;
+    },
+    [reload],
+  );
+
+  return { alerts, isLoaded, reload, saveAlert, deleteAlert, evaluateAlert };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Intervals offered in the tab settings, in minutes
+export const REFRESH_INTERVAL_OPTIONS = [1, 5, 15, 30, 60];
+
+// Window event asking a dashboard tab to refetch its charts
+export const TAB_REFRESH_EVENT = "refreshTabCharts";
+
+export type TabRefreshEventDetail = {
+  tabId: string;
+  refresh?: boolean; // Skip the server query cache
+};
+
+/**
+ * Call onRefresh every intervalMinutes while the page is visible. A refresh
+ * that falls due while the browser tab is hidden waits until it is shown again.
+ */
+export function useAutoRefresh(
+  intervalMinutes: number | undefined,
+  onRefresh: () => void,
+) {
+  const intervalMs =
+    intervalMinutes && intervalMinutes > 0 ? intervalMinutes * 60 * 1000 : 0;
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const dueAtRef = useRef(0);
+  const onRefreshRef = useRef(onRefresh);
+
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  useEffect(() => {
+    if (!intervalMs) return;
+    dueAtRef.current = Date.now() + intervalMs;
+
+    const tick = () => {
+      const hidden = document.visibilityState === "hidden";
+      setIsPaused(hidden);
+      if (hidden) return;
+      const now = Date.now();
+      if (dueAtRef.current <= now) {
+        dueAtRef.current = now + intervalMs;
+        onRefreshRef.current();
+      }
+      setSecondsLeft(Math.ceil((dueAtRef.current - now) / 1000));
+    };
+
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    document.addEventListener("visibilitychange", tick);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", tick);
+    };
+  }, [intervalMs]);
+
+  // Restart the countdown after a manual refresh
+  const reset = useCallback(() => {
+    if (!intervalMs) return;
+    dueAtRef.current = Date.now() + intervalMs;
+    setSecondsLeft(Math.ceil(intervalMs / 1000));
+  }, [intervalMs]);
+
+  return {
+    secondsLeft: intervalMs ? secondsLeft : null, // null = auto-refresh off
+    isPaused: intervalMs ? isPaused : false,
+    reset,
+  };
+}
+
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
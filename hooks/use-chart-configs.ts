@@ -14,6 +14,8 @@ interface UseChartConfigsOptions {
 export function useChartConfigs(pagePath: string, options?: UseChartConfigsOptions) {
   const [configs, setConfigs] = useState<ChartConfig[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  // true when the tab is not shared with the current user
+  const [isForbidden, setIsForbidden] = useState(false);
 
   const loadConfigs = useCallback(async () => {
     if (typeof window === "undefined") {
@@ -25,6 +27,7 @@ export function useChartConfigs(pagePath: string, options?: UseChartConfigsOptio
       const response = await fetch(
         `/api/user-configs/charts?pagePath=${encodeURIComponent(pagePath)}`
       );
+      setIsForbidden(response.status === 403);
       if (response.ok) {
         const data = (await response.json()) as ChartConfigsState;
         if (data && typeof data === "object" && Array.isArray(data.charts)) {
@@ -84,10 +87,13 @@ export function useChartConfigs(pagePath: string, options?: UseChartConfigsOptio
         }),
       });
       if (!response.ok) {
-        throw new Error("Failed to save chart configs");
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save chart configs");
       }
     } catch (error) {
       console.error("Error saving chart configs:", error);
+      // Show what the server kept, e.g. after a chart was rejected by the connection policy
+      loadConfigs();
     }
   };
 
@@ -224,6 +230,7 @@ export function useChartConfigs(pagePath: string, options?: UseChartConfigsOptio
   return {
     configs,
     isLoaded,
+    isForbidden,
     addChart,
     insertChart,
     updateChart,
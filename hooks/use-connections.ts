@@ -1,8 +1,21 @@
 "use client";
 
-import { useMemo, useState, useEffect } from "react";
+import { useCallback, useMemo, useState, useEffect } from "react";
+import { UserRole } from "@/types/permission";
+import type { DbType } from "@/lib/db-types";
 
-export type DbType = "mysql" | "postgresql";
+export type { DbType } from "@/lib/db-types";
+
+// Per-connection access policy, enforced server-side by the query routes.
+// Empty users/roles = every user with view access; empty lists = no restriction.
+export type ConnectionPolicy = {
+  users?: string[]; // Emails (lowercase)
+  roles?: UserRole[];
+  allowedSchemas?: string[]; // MySQL/SQLite databases, schemas on the other engines
+  allowedTables?: string[]; // "table" or "schema.table"
+  maxRows?: number;
+  maxStatementTimeoutMs?: number;
+};
 
 export type DbConnection = {
   id: string;
@@ -12,11 +25,28 @@ export type DbConnection = {
   port: number;
   user: string;
   password: string;
+  hasPassword?: boolean; // Set by the server; passwords are never sent to the browser
+  clearPassword?: boolean; // Sent by the browser to drop the saved password
   database: string;
-  schema?: string;
+  filePath?: string; // SQLite/DuckDB database file on the server, instead of host/port/user
+  datasetId?: string; // Set on connections created for an uploaded dataset (see lib/datasets.ts)
+  schema?: string; // Default schema; unset = first searchPath entry (PostgreSQL), else the engine's default
+  searchPath?: string[]; // PostgreSQL schemas searched for unqualified names, after schema
   aiReadable?: boolean;
+  queryTimeoutMs?: number; // Overrides QUERY_TIMEOUT_MS for this connection
+  policy?: ConnectionPolicy;
+};
+
+// Tables per schema from /api/db/tables, the default schema first. Tables
+// outside the default schema are named "schema.table".
+export type TableGroup = {
+  schema: string;
+  tables: string[];
 };
 
+// Fields that decide which server a saved password is sent to
+const ENDPOINT_FIELDS = ["type", "host", "port", "user", "filePath"] as const;
+
 type State = {
   connections: DbConnection[];
   activeId?: string;
@@ -27,28 +57,29 @@ export function useConnections() {
   const [activeId, setActiveId] = useState<string | undefined>(undefined);
   const [isLoaded, setIsLoaded] = useState(false);
 
-  useEffect(() => {
-    const loadConnections = async () => {
-      try {
-        const response = await fetch("/api/user-configs/connections");
-        if (response.ok) {
-          const data = (await response.json()) as State;
-          const normalized = (data.connections ?? []).map((conn) => ({
-            aiReadable: conn.aiReadable ?? true,
-            ...conn,
-          }));
-          setConnections(normalized);
-          setActiveId(data.activeId);
-      }
-      } catch (error) {
-        console.error("Error loading connections:", error);
-      } finally {
-        setIsLoaded(true);
+  const loadConnections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user-configs/connections");
+      if (response.ok) {
+        const data = (await response.json()) as State;
+        const normalized = (data.connections ?? []).map((conn) => ({
+          aiReadable: conn.aiReadable ?? true,
+          ...conn,
+        }));
+        setConnections(normalized);
+        setActiveId(data.activeId);
       }
-    };
-    loadConnections();
+    } catch (error) {
+      console.error("Error loading connections:", error);
+    } finally {
+      setIsLoaded(true);
+    }
   }, []);
 
+  useEffect(() => {
+    loadConnections();
+  }, [loadConnections]);
+
   const persist = async (next: Partial<State>) => {
     const state: State = {
       connections,
@@ -86,7 +117,13 @@ export function useConnections() {
   };
 
   const updateConnection = (id: string, patch: Partial<DbConnection>) => {
-    const next = connections.map((c) => (c.id === id ? { ...c, ...patch } : c));
+    const next = connections.map((c) => {
+      if (c.id !== id) return c;
+      const updated = { ...c, ...patch };
+      // The server drops the saved password once the endpoint changes (see lib/connections)
+      const moved = ENDPOINT_FIELDS.some((field) => field in patch && patch[field] !== c[field]);
+      return moved && !updated.password ? { ...updated, hasPassword: false } : updated;
+    });
     setConnections(next);
     persist({ connections: next });
   };
@@ -115,5 +152,7 @@ export function useConnections() {
     updateConnection,
     removeConnection,
     setActive,
+    // Re-read after the server changed connections, e.g. a dataset upload
+    reload: loadConnections,
   };
 }
@@ -42,6 +42,15 @@ export function useDashboardTabs(options?: UseDashboardTabsOptions) {
 
   useEffect(() => {
     loadTabs();
+
+    // ฟัง event ภายนอกเพื่อ refresh tabs (เช่น หลังแก้การแชร์แท็บ)
+    const handler = () => {
+      loadTabs();
+    };
+    window.addEventListener("tabs:refresh", handler);
+    return () => {
+      window.removeEventListener("tabs:refresh", handler);
+    };
   }, []);
 
   const save = async (nextTabs: DashboardTab[], nextGroups?: TabGroup[]) => {
@@ -169,7 +178,17 @@ export function useDashboardTabs(options?: UseDashboardTabsOptions) {
           newValue: updates.icon,
         });
       }
-      
+      if (
+        "refreshIntervalMinutes" in updates &&
+        updates.refreshIntervalMinutes !== oldTab.refreshIntervalMinutes
+      ) {
+        changes.push({
+          field: "refreshIntervalMinutes",
+          oldValue: oldTab.refreshIntervalMinutes,
+          newValue: updates.refreshIntervalMinutes,
+        });
+      }
+
       if (changes.length > 0) {
         recordChange({
           tabId: id,
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  FraudCase,
+  FraudCaseAttachmentInput,
+  FraudCaseHistory,
+  FraudCaseStatus,
+  FraudSeverity,
+} from "@/types/fraud";
+
+const API = "/api/user-configs/fraud-cases";
+
+export type FraudCaseListFilter = {
+  status?: FraudCaseStatus;
+  assignee?: string; // Email, or "unassigned"
+  ruleId?: string;
+};
+
+export type FraudCaseDraft = {
+  title: string;
+  severity: FraudSeverity;
+  keyColumn?: string;
+  key?: string;
+  assignee?: string;
+  attachment?: FraudCaseAttachmentInput;
+};
+
+export type FraudCaseUpdate = {
+  status?: FraudCaseStatus;
+  assignee?: string | null; // null unassigns
+  severity?: FraudSeverity;
+  title?: string;
+};
+
+const readError = async (response: Response, fallback: string) => {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null;
+  return new Error(data?.error || fallback);
+};
+
+const postJson = (url: string, method: string, body: unknown) =>
+  fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+/**
+ * Fraud cases matching the filter, plus who they can be assigned to
+ */
+export function useFraudCases({ status, assignee, ruleId }: FraudCaseListFilter = {}) {
+  const [cases, setCases] = useState<FraudCase[]>([]);
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (status) params.set("status", status);
+    if (assignee) params.set("assignee", assignee);
+    if (ruleId) params.set("ruleId", ruleId);
+    try {
+      const [casesResponse, assigneesResponse] = await Promise.all([
+        fetch(`${API}?${params}`),
+        fetch(`${API}/assignees`),
+      ]);
+      if (casesResponse.ok) {
+        const data = (await casesResponse.json()) as { cases?: FraudCase[] };
+        setCases(data.cases || []);
+      }
+      if (assigneesResponse.ok) {
+        const data = (await assigneesResponse.json()) as { assignees?: string[] };
+        setAssignees(data.assignees || []);
+      }
+    } catch (error) {
+      console.error("Error loading fraud cases:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [status, assignee, ruleId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Throws with the server's message so the dialog can show it
+  const createCase = useCallback(
+    async (draft: FraudCaseDraft) => {
+      const response = await postJson(API, "POST", draft);
+      if (!response.ok) throw await readError(response, "Failed to create fraud case");
+      const data = (await response.json()) as { case: FraudCase };
+      await reload();
+      return data.case;
+    },
+    [reload],
+  );
+
+  const attachToCase = useCallback(
+    async (caseId: string, attachment: FraudCaseAttachmentInput) => {
+      const response = await postJson(`${API}/attachments`, "POST", { caseId, attachment });
+      if (!response.ok) throw await readError(response, "Failed to attach evidence");
+      await reload();
+    },
+    [reload],
+  );
+
+  return { cases, assignees, isLoaded, reload, createCase, attachToCase };
+}
+
+/**
+ * One case with its history, and the actions analysts take on it
+ */
+export function useFraudCase(caseId: string) {
+  const [fraudCase, setFraudCase] = useState<FraudCase | null>(null);
+  const [history, setHistory] = useState<FraudCaseHistory[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const [caseResponse, historyResponse] = await Promise.all([
+        fetch(`${API}?id=${encodeURIComponent(caseId)}`),
+        fetch(`${API}/history?caseId=${encodeURIComponent(caseId)}`),
+      ]);
+      if (!caseResponse.ok) {
+        const failed = await readError(caseResponse, "Failed to load case");
+        setLoadError(failed.message);
+        return;
+      }
+      const data = (await caseResponse.json()) as { case: FraudCase };
+      setFraudCase(data.case);
+      setLoadError(null);
+      if (historyResponse.ok) {
+        const historyData = (await historyResponse.json()) as { history?: FraudCaseHistory[] };
+        setHistory(historyData.history || []);
+      }
+    } catch (error) {
+      console.error("Error loading fraud case:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const updateCase = useCallback(
+    async (update: FraudCaseUpdate) => {
+      const response = await postJson(API, "PATCH", { id: caseId, ...update });
+      if (!response.ok) throw await readError(response, "Failed to update fraud case");
+      await reload();
+    },
+    [caseId, reload],
+  );
+
+  const addComment = useCallback(
+    async (text: string) => {
+      const response = await postJson(`${API}/comments`, "POST", { caseId, text });
+      if (!response.ok) throw await readError(response, "Failed to add comment");
+      await reload();
+    },
+    [caseId, reload],
+  );
+
+  const addAttachment = useCallback(
+    async (attachment: FraudCaseAttachmentInput) => {
+      const response = await postJson(`${API}/attachments`, "POST", { caseId, attachment });
+      if (!response.ok) throw await readError(response, "Failed to attach evidence");
+      await reload();
+    },
+    [caseId, reload],
+  );
+
+  const removeAttachment = useCallback(
+    async (attachmentId: string) => {
+      const response = await fetch(
+        `${API}/attachments?caseId=${encodeURIComponent(caseId)}&id=${encodeURIComponent(attachmentId)}`,
+        { method: "DELETE" },
+      );
+      if (!response.ok) throw await readError(response, "Failed to remove attachment");
+      await reload();
+    },
+    [caseId, reload],
+  );
+
+  return {
+    fraudCase,
+    history,
+    loadError,
+    isLoaded,
+    reload,
+    updateCase,
+    addComment,
+    addAttachment,
+    removeAttachment,
+  };
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FraudRule } from "@/types/fraud";
+
+export type FraudRuleDraft = Pick<
+  FraudRule,
+  | "name"
+  | "description"
+  | "connectionId"
+  | "database"
+  | "table"
+  | "definition"
+  | "severity"
+  | "schedule"
+  | "enabled"
+> & { id?: string };
+
+const readError = async (response: Response, fallback: string) => {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null;
+  return new Error(data?.error || fallback);
+};
+
+export function useFraud() {
+  const [rules, setRules] = useState<FraudRule[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch("/api/fraud/rules");
+      if (response.ok) {
+        const data = (await response.json()) as { rules?: FraudRule[] };
+        setRules(data.rules || []);
+      }
+    } catch (error) {
+      console.error("Error loading fraud rules:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Throws with the server's message so the editor can show it
+  const saveRule = useCallback(
+    async (draft: FraudRuleDraft) => {
+      const response = await fetch("/api/fraud/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      if (!response.ok) throw await readError(response, "Failed to save fraud rule");
+      await reload();
+    },
+    [reload],
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/fraud/rules?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw await readError(response, "Failed to delete fraud rule");
+      await reload();
+    },
+    [reload],
+  );
+
+  // Number of keys the run flagged
+  const runRule = useCallback(
+    async (ruleId: string) => {
+      const response = await fetch("/api/fraud/rules/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ruleId }),
+      });
+      const failed = !response.ok ? await readError(response, "Failed to run fraud rule") : null;
+      await reload();
+      if (failed) throw failed;
+      const { caseCount } = (await response.json()) as { caseCount: number };
+      return caseCount;
+    },
+    [reload],
+  );
+
+  return { rules, isLoaded, reload, saveRule, deleteRule, runRule };
+}
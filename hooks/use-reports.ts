@@ -0,0 +1,87 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ReportDefinition, ReportRun } from "@/types/report";
+
+export type ReportDraft = Pick<
+  ReportDefinition,
+  "name" | "tabId" | "chartIds" | "inputs" | "schedule" | "format" | "deliveries" | "enabled"
+> & { id?: string };
+
+const readError = async (response: Response, fallback: string) => {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null;
+  return new Error(data?.error || fallback);
+};
+
+export function useReports() {
+  const [reports, setReports] = useState<ReportDefinition[]>([]);
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const [reportsResponse, runsResponse] = await Promise.all([
+        fetch("/api/reports"),
+        fetch("/api/reports/runs"),
+      ]);
+      if (reportsResponse.ok) {
+        const data = (await reportsResponse.json()) as { reports?: ReportDefinition[] };
+        setReports(data.reports || []);
+      }
+      if (runsResponse.ok) {
+        const data = (await runsResponse.json()) as { runs?: ReportRun[] };
+        setRuns(data.runs || []);
+      }
+    } catch (error) {
+      console.error("Error loading reports:", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Throws with the server's message so the editor can show it
+  const saveReport = useCallback(
+    async (draft: ReportDraft) => {
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      if (!response.ok) throw await readError(response, "Failed to save report");
+      await reload();
+    },
+    [reload],
+  );
+
+  const deleteReport = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/reports?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw await readError(response, "Failed to delete report");
+      await reload();
+    },
+    [reload],
+  );
+
+  const runReport = useCallback(
+    async (reportId: string) => {
+      const response = await fetch("/api/reports/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId }),
+      });
+      if (!response.ok) throw await readError(response, "Failed to run report");
+      const { run } = (await response.json()) as { run: ReportRun };
+      await reload();
+      return run;
+    },
+    [reload],
+  );
+
+  return { reports, runs, isLoaded, reload, saveReport, deleteReport, runReport };
+}
@@ -0,0 +1,8 @@
+// Runs once when a server instance starts
+export async function register() {
+  // Scheduled reports, alerts and fraud rules; REPORT_SCHEDULER=false turns the scheduler off on this instance
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.REPORT_SCHEDULER !== "false") {
+    const { startScheduler } = await import("@/lib/scheduler");
+    startScheduler();
+  }
+}
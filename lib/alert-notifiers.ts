@@ -0,0 +1,119 @@
+import { createHmac } from "crypto";
+import {
+  AlertNotifier,
+  AlertNotifierType,
+  AlertNotifyResult,
+  AlertRule,
+} from "@/types/alert";
+import {
+  describeWebhookUrl,
+  postJsonWebhook,
+  postLarkText,
+  validateWebhookUrl,
+} from "@/lib/webhook";
+
+export type AlertNotification = {
+  rule: AlertRule;
+  chartTitle: string;
+  value: number;
+  previousValue?: number;
+  message: string; // Human readable reason, e.g. "ยอดขาย = 120 (> 100)"
+  evaluatedAt: string;
+  dashboardUrl?: string; // Set when REPORT_BASE_URL is configured
+};
+
+/**
+ * Sends a triggered alert somewhere. Add a notifier type by extending
+ * AlertNotifier and registering a sender below.
+ */
+export interface AlertNotifierSender<T extends AlertNotifier> {
+  describe(target: T): string; // Short label for the alert history
+  validate(target: T): string | null; // Error message, or null when usable
+  send(target: T, notification: AlertNotification): Promise<void>;
+}
+
+const notificationText = (n: AlertNotification) =>
+  [
+    `🔔 ${n.rule.name}`,
+    `กราฟ: ${n.chartTitle}`,
+    n.message,
+    ...(n.dashboardUrl ? [`แดชบอร์ด: ${n.dashboardUrl}`] : []),
+  ].join("\n");
+
+// Generic JSON webhook; with ALERT_WEBHOOK_SECRET set, the body is signed as
+// X-BearVault-Signature: sha256=<hex HMAC of the raw body>
+const webhookSender: AlertNotifierSender<Extract<AlertNotifier, { type: "webhook" }>> = {
+  describe: (target) => describeWebhookUrl(target.url),
+  validate: (target) => validateWebhookUrl(target.url),
+  send: async (target, n) => {
+    const body = JSON.stringify({
+      event: "alert.triggered",
+      alert: { id: n.rule.id, name: n.rule.name, condition: n.rule.condition, metric: n.rule.metric },
+      tabId: n.rule.tabId,
+      chart: { id: n.rule.chartId, title: n.chartTitle },
+      value: n.value,
+      previousValue: n.previousValue,
+      message: n.message,
+      evaluatedAt: n.evaluatedAt,
+      dashboardUrl: n.dashboardUrl,
+    });
+    const secret = process.env.ALERT_WEBHOOK_SECRET;
+    const headers: Record<string, string> = secret
+      ? {
+          "X-BearVault-Signature": `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`,
+        }
+      : {};
+    await postJsonWebhook(target.url, body, headers);
+  },
+};
+
+const larkSender: AlertNotifierSender<Extract<AlertNotifier, { type: "lark" }>> = {
+  describe: (target) => describeWebhookUrl(target.webhookUrl),
+  validate: (target) => validateWebhookUrl(target.webhookUrl),
+  send: (target, n) => postLarkText(target.webhookUrl, notificationText(n)),
+};
+
+const SENDERS: {
+  [K in AlertNotifierType]: AlertNotifierSender<Extract<AlertNotifier, { type: K }>>;
+} = {
+  webhook: webhookSender,
+  lark: larkSender,
+};
+
+const senderFor = (notifier: AlertNotifier) =>
+  SENDERS[notifier.type] as AlertNotifierSender<AlertNotifier> | undefined;
+
+/**
+ * Error message for a notifier that cannot be used, or null
+ */
+export function validateNotifier(notifier: AlertNotifier): string | null {
+  const sender = senderFor(notifier);
+  return sender ? sender.validate(notifier) : `Unknown notifier type "${notifier.type}"`;
+}
+
+/**
+ * Send an alert to one notifier. Failures are reported, not thrown, so one
+ * broken webhook does not stop the others.
+ */
+export async function sendAlertNotification(
+  notifier: AlertNotifier,
+  notification: AlertNotification,
+): Promise<AlertNotifyResult> {
+  const sender = senderFor(notifier);
+  if (!sender) {
+    return { type: notifier.type, target: "", ok: false, error: "Unknown notifier type" };
+  }
+  const target = sender.describe(notifier);
+  try {
+    await sender.send(notifier, notification);
+    return { type: notifier.type, target, ok: true };
+  } catch (error) {
+    console.error(`Error sending alert via ${notifier.type}:`, error);
+    return {
+      type: notifier.type,
+      target,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,402 @@
+import { getDb } from "@/lib/mongodb";
+import { ChartConfig } from "@/types/chart";
+import {
+  AlertCondition,
+  AlertEvent,
+  AlertMetric,
+  AlertRule,
+} from "@/types/alert";
+import { getConnectionsState } from "@/lib/connections";
+import { getTabInputs } from "@/lib/tab-inputs";
+import { ChartData, fetchChartData } from "@/lib/chart-data";
+import { getAccessSubject } from "@/lib/auth";
+import { detectChartAnomalies } from "@/lib/anomaly";
+import { nextCronRun } from "@/lib/cron";
+import { sendAlertNotification } from "@/lib/alert-notifiers";
+
+export const ALERT_RULES_COLLECTION = "alert_rules";
+export const ALERT_EVENTS_COLLECTION = "alert_events";
+
+const CHARTS_COLLECTION = "chart_configs";
+// History entries kept per rule; older ones are deleted
+const MAX_EVENTS_PER_RULE = Number(process.env.ALERT_MAX_EVENTS) || 200;
+
+const createEventId = () =>
+  `alert_event_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Next scheduled check for a rule, or undefined while it is disabled
+ */
+export function computeNextAlertRunAt(
+  rule: Pick<AlertRule, "enabled" | "schedule">,
+  after: Date = new Date(),
+): string | undefined {
+  return rule.enabled ? nextCronRun(rule.schedule, after).toISOString() : undefined;
+}
+
+/**
+ * Rules of one tab (optionally one chart), all rules when tabId is not given
+ */
+export async function listAlertRules(tabId?: string, chartId?: string): Promise<AlertRule[]> {
+  const db = await getDb();
+  return db
+    .collection<AlertRule>(ALERT_RULES_COLLECTION)
+    .find(
+      { ...(tabId ? { tabId } : {}), ...(chartId ? { chartId } : {}) },
+      { projection: { _id: 0 } },
+    )
+    .sort({ name: 1 })
+    .toArray();
+}
+
+export async function getAlertRule(ruleId: string): Promise<AlertRule | null> {
+  const db = await getDb();
+  return db
+    .collection<AlertRule>(ALERT_RULES_COLLECTION)
+    .findOne({ id: ruleId }, { projection: { _id: 0 } });
+}
+
+export async function saveAlertRule(rule: AlertRule): Promise<void> {
+  const db = await getDb();
+  await db
+    .collection<AlertRule>(ALERT_RULES_COLLECTION)
+    .replaceOne({ id: rule.id }, rule, { upsert: true });
+}
+
+/**
+ * Delete a rule with its history
+ */
+export async function deleteAlertRule(ruleId: string): Promise<void> {
+  const db = await getDb();
+  await db.collection(ALERT_RULES_COLLECTION).deleteOne({ id: ruleId });
+  await db.collection(ALERT_EVENTS_COLLECTION).deleteMany({ alertId: ruleId });
+}
+
+/**
+ * Recent events of a tab, newest first
+ */
+export async function listAlertEvents(tabId: string, limit = 100): Promise<AlertEvent[]> {
+  const db = await getDb();
+  return db
+    .collection<AlertEvent>(ALERT_EVENTS_COLLECTION)
+    .find({ tabId }, { projection: { _id: 0 } })
+    .sort({ evaluatedAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.replace(/,/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Column lookup as in ChartRenderer's matrix: exact name, then case-insensitive
+const findKey = (row: Record<string, unknown>, column: string) =>
+  Object.keys(row).find((key) => key === column) ??
+  Object.keys(row).find((key) => key.toLowerCase() === column.toLowerCase());
+
+/**
+ * The number a metric reads from a chart's rows. Throws when the rows do not
+ * hold a usable value, so a misconfigured rule shows up as an error.
+ */
+export function readAlertMetric(
+  metric: AlertMetric,
+  chart: Pick<ChartConfig, "seriesKey">,
+  data: ChartData,
+): number {
+  if (metric.type === "row_count") return data.rows.length;
+
+  if (metric.type === "matrix") {
+    const row = data.rows[0];
+    const key = row ? findKey(row, metric.column) : undefined;
+    const value = key !== undefined ? toNumber(row[key]) : null;
+    if (value === null) throw new Error(`No numeric value in column "${metric.column}"`);
+    return value;
+  }
+
+  let rows = data.rows;
+  if (metric.series && chart.seriesKey) {
+    rows = rows.filter((row) => {
+      const key = findKey(row, chart.seriesKey!);
+      return key !== undefined && String(row[key]) === metric.series;
+    });
+  }
+  if (metric.aggregate === "count") return rows.length;
+
+  const values = rows.flatMap((row) => {
+    const key = findKey(row, metric.field);
+    const value = key !== undefined ? toNumber(row[key]) : null;
+    return value === null ? [] : [value];
+  });
+  if (values.length === 0) throw new Error(`No numeric values in column "${metric.field}"`);
+  switch (metric.aggregate) {
+    case "sum":
+      return values.reduce((a, b) => a + b, 0);
+    case "avg":
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+    case "last":
+      return values[values.length - 1];
+  }
+}
+
+const formatValue = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+/**
+ * Whether a value meets the condition, with the reason to show. "change"
+ * conditions never fire without a previous value to compare with.
+ */
+export function checkAlertCondition(
+  condition: Exclude<AlertCondition, { type: "anomaly" }>,
+  value: number,
+  previousValue?: number,
+): { triggered: boolean; message: string } {
+  if (condition.type === "threshold") {
+    const { op, value: limit } = condition;
+    const triggered =
+      op === ">"
+        ? value > limit
+        : op === ">="
+        ? value >= limit
+        : op === "<"
+        ? value < limit
+        : op === "<="
+        ? value <= limit
+        : op === "="
+        ? value === limit
+        : value !== limit;
+    return {
+      triggered,
+      message: `ค่า ${formatValue(value)} (เงื่อนไข ${op} ${formatValue(limit)})`,
+    };
+  }
+
+  if (previousValue === undefined) {
+    return { triggered: false, message: `ค่า ${formatValue(value)} (ยังไม่มีค่าก่อนหน้า)` };
+  }
+  const change =
+    previousValue === 0
+      ? value === 0
+        ? 0
+        : Infinity * Math.sign(value)
+      : ((value - previousValue) / Math.abs(previousValue)) * 100;
+  const triggered =
+    condition.direction === "up"
+      ? change >= condition.percent
+      : condition.direction === "down"
+      ? -change >= condition.percent
+      : Math.abs(change) >= condition.percent;
+  const changeText = Number.isFinite(change)
+    ? `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`
+    : "";
+  return {
+    triggered,
+    message: `ค่า ${formatValue(value)} เปลี่ยน${changeText ? ` ${changeText}` : ""} จาก ${formatValue(previousValue)} (เงื่อนไข ${condition.percent}%)`,
+  };
+}
+
+/**
+ * Whether the latest point of the chart's line is outside its anomaly band,
+ * detected the same way the chart flags it. A series metric naming a series
+ * only checks that series. Throws when the chart has no anomaly band.
+ */
+export function checkAnomalyCondition(
+  condition: Extract<AlertCondition, { type: "anomaly" }>,
+  metric: AlertMetric,
+  chart: ChartConfig,
+  data: ChartData,
+): { triggered: boolean; message: string; value: number } {
+  const anomalies = detectChartAnomalies(chart, data.rows);
+  if (!anomalies) throw new Error("Anomaly detection is not enabled on this chart");
+
+  const names =
+    metric.type === "series" && metric.series ? [metric.series] : Object.keys(anomalies.bands);
+  let latestValue: number | undefined;
+  for (const name of names) {
+    const latest = anomalies.bands[name]?.at(-1);
+    if (!latest) continue;
+    latestValue ??= latest.value;
+    const score = latest.score ?? 0;
+    const matches =
+      condition.direction === "up" ? score > 0 : condition.direction === "down" ? score < 0 : true;
+    if (!latest.anomaly || !matches) continue;
+    // Charts without seriesKey draw a single series named "value"
+    const seriesText = chart.seriesKey ? ` (${name})` : "";
+    return {
+      triggered: true,
+      value: latest.value,
+      message: `ค่า ${formatValue(latest.value)}${seriesText} ที่ ${latest.x} อยู่นอกช่วงปกติ ${formatValue(latest.lower!)} – ${formatValue(latest.upper!)}`,
+    };
+  }
+  if (latestValue === undefined) throw new Error("No data points to check");
+  return { triggered: false, value: latestValue, message: "ค่าล่าสุดอยู่ในช่วงปกติ" };
+}
+
+const pruneEvents = async (alertId: string) => {
+  const db = await getDb();
+  const events = db.collection<AlertEvent>(ALERT_EVENTS_COLLECTION);
+  const old = await events
+    .find({ alertId }, { projection: { id: 1 } })
+    .sort({ evaluatedAt: -1 })
+    .skip(MAX_EVENTS_PER_RULE)
+    .toArray();
+  if (old.length === 0) return;
+  await events.deleteMany({ id: { $in: old.map((event) => event.id) } });
+};
+
+/**
+ * Check a rule now with the chart's own query and the tab's saved inputs.
+ * Fired and failed checks are recorded and returned; quiet checks only update
+ * the rule and return null.
+ */
+export async function evaluateAlertRule(
+  rule: AlertRule,
+  trigger: AlertEvent["trigger"],
+): Promise<AlertEvent | null> {
+  const db = await getDb();
+  const evaluatedAt = new Date().toISOString();
+  let chartTitle: string | undefined;
+  let event: AlertEvent | null = null;
+  let value: number | undefined;
+
+  const baseEvent = () => ({
+    id: createEventId(),
+    alertId: rule.id,
+    alertName: rule.name,
+    tabId: rule.tabId,
+    chartId: rule.chartId,
+    ...(chartTitle ? { chartTitle } : {}),
+    trigger,
+    evaluatedAt,
+  });
+
+  try {
+    const doc = await db
+      .collection(CHARTS_COLLECTION)
+      .findOne<{ charts?: ChartConfig[] }>({ pagePath: `/dashboard/${rule.tabId}` });
+    const chart = doc?.charts?.find((c) => c.id === rule.chartId);
+    if (!chart) throw new Error("Chart not found");
+    chartTitle = chart.title || chart.id;
+    const { connections } = await getConnectionsState();
+    const connection = connections.find((c) => c.id === chart.connectionId);
+    if (!connection) throw new Error("Connection not found");
+
+    // The chart is read with the alert creator's access
+    const data = await fetchChartData(
+      connection,
+      chart,
+      await getTabInputs(rule.tabId),
+      await getAccessSubject(rule.createdBy),
+    );
+    let result: { triggered: boolean; message: string };
+    if (rule.condition.type === "anomaly") {
+      const checked = checkAnomalyCondition(rule.condition, rule.metric, chart, data);
+      value = checked.value;
+      result = checked;
+    } else {
+      value = readAlertMetric(rule.metric, chart, data);
+      result = checkAlertCondition(rule.condition, value, rule.lastValue);
+    }
+
+    if (result.triggered) {
+      const inCooldown =
+        !!rule.lastTriggeredAt &&
+        Date.parse(rule.lastTriggeredAt) + rule.cooldownMinutes * 60 * 1000 >
+          Date.parse(evaluatedAt);
+      const baseUrl = process.env.REPORT_BASE_URL?.replace(/\/+$/, "");
+      const notifications = [];
+      if (!inCooldown) {
+        for (const notifier of rule.notifiers) {
+          notifications.push(
+            await sendAlertNotification(notifier, {
+              rule,
+              chartTitle,
+              value,
+              previousValue: rule.lastValue,
+              message: result.message,
+              evaluatedAt,
+              dashboardUrl: baseUrl ? `${baseUrl}/dashboard/${rule.tabId}` : undefined,
+            }),
+          );
+        }
+      }
+      event = {
+        ...baseEvent(),
+        status: "triggered",
+        value,
+        ...(rule.lastValue !== undefined ? { previousValue: rule.lastValue } : {}),
+        message: result.message,
+        notified: !inCooldown,
+        notifications,
+      };
+    }
+  } catch (error) {
+    console.error(`Error evaluating alert ${rule.id}:`, error);
+    event = {
+      ...baseEvent(),
+      status: "error",
+      message: error instanceof Error ? error.message : String(error),
+      notified: false,
+    };
+  }
+
+  await db.collection<AlertRule>(ALERT_RULES_COLLECTION).updateOne(
+    { id: rule.id },
+    {
+      $set: {
+        lastEvaluatedAt: evaluatedAt,
+        state: event ? event.status : "ok",
+        ...(value !== undefined ? { lastValue: value } : {}),
+        ...(event?.notified ? { lastTriggeredAt: evaluatedAt } : {}),
+        ...(event?.status === "error" ? { lastError: event.message } : {}),
+      },
+      ...(event?.status === "error" ? {} : { $unset: { lastError: "" } }),
+    },
+  );
+  if (event) {
+    await db.collection<AlertEvent>(ALERT_EVENTS_COLLECTION).insertOne({ ...event });
+    await pruneEvents(rule.id).catch((error) =>
+      console.error("Error pruning alert events:", error),
+    );
+  }
+  return event;
+}
+
+/**
+ * Check every enabled rule whose time has come, claimed the same way as
+ * scheduled reports so several server instances never check a rule twice.
+ */
+export async function runDueAlerts(now: Date = new Date()): Promise<number> {
+  const db = await getDb();
+  const rules = db.collection<AlertRule>(ALERT_RULES_COLLECTION);
+  const due = await rules
+    .find({ enabled: true, nextRunAt: { $lte: now.toISOString() } }, { projection: { _id: 0 } })
+    .toArray();
+
+  let count = 0;
+  for (const rule of due) {
+    let nextRunAt: string | undefined;
+    try {
+      nextRunAt = computeNextAlertRunAt(rule, now);
+    } catch (error) {
+      console.error(`Invalid schedule for alert ${rule.id}:`, error);
+    }
+    const claimed = await rules.updateOne(
+      { id: rule.id, nextRunAt: rule.nextRunAt },
+      nextRunAt ? { $set: { nextRunAt } } : { $unset: { nextRunAt: "" } },
+    );
+    if (claimed.modifiedCount === 0) continue;
+    await evaluateAlertRule(rule, "schedule");
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,217 @@
+import { ChartAnomalyConfig, ChartConfig } from "@/types/chart";
+
+// Pure functions, no server imports: ChartRenderer runs the same detection on
+// the series it draws, the public chart endpoint and alerts run it on the
+// chart's saved query
+
+export const ANOMALY_METHODS: ChartAnomalyConfig["method"][] = [
+  "moving_average",
+  "median_mad",
+  "seasonal_weekday",
+];
+
+export const DEFAULT_ANOMALY_CONFIG: ChartAnomalyConfig = {
+  method: "median_mad",
+  window: 14,
+  sensitivity: 3,
+};
+
+// Points with fewer earlier points than this get no band and are never flagged
+const MIN_HISTORY = 3;
+// MAD x this estimates the standard deviation of normally distributed values
+const MAD_SCALE = 1.4826;
+
+export type SeriesPoint = { x: string; value: number };
+
+export type AnomalyBandPoint = SeriesPoint & {
+  baseline?: number;
+  lower?: number;
+  upper?: number;
+  score?: number; // (value - baseline) / spread; |score| > sensitivity is an anomaly
+  anomaly: boolean;
+};
+
+export type AnomalyPoint = SeriesPoint & {
+  series: string;
+  baseline: number;
+  lower: number;
+  upper: number;
+  score: number;
+};
+
+export type ChartAnomalies = {
+  bands: Record<string, AnomalyBandPoint[]>; // Per series, oldest first
+  anomalies: AnomalyPoint[]; // Flagged points of every series, oldest first
+};
+
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+const toTime = (x: string) => (DATE_PREFIX.test(x) ? Date.parse(x) : NaN);
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Baseline and spread of a point's history
+const summarize = (
+  history: number[],
+  method: ChartAnomalyConfig["method"],
+): { baseline: number; spread: number } => {
+  if (method === "moving_average") {
+    const baseline = mean(history);
+    const variance = mean(history.map((v) => (v - baseline) ** 2));
+    return { baseline, spread: Math.sqrt(variance) };
+  }
+  const baseline = median(history);
+  return { baseline, spread: median(history.map((v) => Math.abs(v - baseline))) * MAD_SCALE };
+};
+
+/**
+ * Order points by date when every x is a date; otherwise keep the given order
+ */
+export function sortChronologically<T extends SeriesPoint>(points: T[]): T[] {
+  const times = points.map((p) => toTime(p.x));
+  if (times.some((t) => Number.isNaN(t))) return points;
+  return points
+    .map((point, i) => ({ point, time: times[i] }))
+    .sort((a, b) => a.time - b.time)
+    .map(({ point }) => point);
+}
+
+/**
+ * Band around each point from the points before it (never after, so the
+ * latest point can be judged as soon as it arrives). seasonal_weekday only
+ * compares a day with earlier days of the same weekday, and falls back to
+ * median_mad when x values are not dates.
+ */
+export function detectAnomalies(
+  points: SeriesPoint[],
+  config: ChartAnomalyConfig,
+): AnomalyBandPoint[] {
+  const ordered = sortChronologically(points);
+  const window = Math.max(MIN_HISTORY, Math.trunc(config.window) || 0);
+  const weekdays = ordered.map((p) => {
+    const time = toTime(p.x);
+    return Number.isNaN(time) ? null : new Date(time).getUTCDay();
+  });
+  const seasonal =
+    config.method === "seasonal_weekday" && weekdays.every((day) => day !== null);
+
+  return ordered.map((point, i) => {
+    const earlier = seasonal
+      ? ordered.slice(0, i).filter((_, j) => weekdays[j] === weekdays[i])
+      : ordered.slice(0, i);
+    const history = earlier.slice(-window).map((p) => p.value);
+    if (history.length < MIN_HISTORY) return { ...point, anomaly: false };
+
+    const { baseline, spread } = summarize(history, config.method);
+    // A flat history has no spread; keep the band a hair wide so any move scores high
+    const scale = Math.max(spread, Math.abs(baseline) * 1e-6, 1e-9);
+    const score = (point.value - baseline) / scale;
+    return {
+      ...point,
+      baseline,
+      lower: baseline - config.sensitivity * spread,
+      upper: baseline + config.sensitivity * spread,
+      score,
+      anomaly: Math.abs(score) > config.sensitivity,
+    };
+  });
+}
+
+/**
+ * Detect anomalies in several series at once, collecting the flagged points
+ */
+export function detectSeriesAnomalies(
+  series: Record<string, SeriesPoint[]>,
+  config: ChartAnomalyConfig,
+): ChartAnomalies {
+  const bands: ChartAnomalies["bands"] = {};
+  const anomalies: AnomalyPoint[] = [];
+  for (const [name, points] of Object.entries(series)) {
+    bands[name] = detectAnomalies(points, config);
+    for (const point of bands[name]) {
+      if (!point.anomaly) continue;
+      anomalies.push({
+        series: name,
+        x: point.x,
+        value: point.value,
+        baseline: point.baseline!,
+        lower: point.lower!,
+        upper: point.upper!,
+        score: point.score!,
+      });
+    }
+  }
+  const times = anomalies.map((a) => toTime(a.x));
+  if (!times.some((t) => Number.isNaN(t))) {
+    anomalies.sort((a, b) => toTime(a.x) - toTime(b.x));
+  }
+  return { bands, anomalies };
+}
+
+// Day bucket for date-like x values, as ChartRenderer groups date axes
+const xLabel = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const text = String(value ?? "");
+  if (DATE_PREFIX.test(text)) {
+    const time = Date.parse(text);
+    if (!Number.isNaN(time)) return new Date(time).toISOString().slice(0, 10);
+  }
+  return text;
+};
+
+/**
+ * A line chart's series from raw query rows, grouped the way ChartRenderer
+ * draws them: summed per x without seriesKey, otherwise per group and series
+ * with the chart's aggregate
+ */
+export function buildChartSeries(
+  chart: Pick<ChartConfig, "xAxisKey" | "yAxisKey" | "groupByKey" | "seriesKey" | "aggregate">,
+  rows: Record<string, unknown>[],
+): Record<string, SeriesPoint[]> {
+  if (!chart.xAxisKey || !chart.yAxisKey) return {};
+  const groupKey = chart.seriesKey ? chart.groupByKey || chart.xAxisKey : chart.xAxisKey;
+  const aggregate = chart.seriesKey ? chart.aggregate || "sum" : "sum";
+
+  const acc = new Map<string, Map<string, { sum: number; count: number }>>();
+  for (const row of rows) {
+    const name = chart.seriesKey ? String(row[chart.seriesKey] ?? "") : "value";
+    const x = xLabel(row[groupKey]);
+    if (!acc.has(name)) acc.set(name, new Map());
+    const groups = acc.get(name)!;
+    const current = groups.get(x) || { sum: 0, count: 0 };
+    current.sum += Number(row[chart.yAxisKey]) || 0;
+    current.count += 1;
+    groups.set(x, current);
+  }
+
+  return Object.fromEntries(
+    Array.from(acc.entries()).map(([name, groups]) => [
+      name,
+      Array.from(groups.entries()).map(([x, { sum, count }]) => ({
+        x,
+        value: aggregate === "count" ? count : aggregate === "avg" ? sum / count : sum,
+      })),
+    ]),
+  );
+}
+
+/**
+ * Anomalies of a saved chart from its query rows, or null when the chart is
+ * not a line chart with anomaly detection turned on
+ */
+export function detectChartAnomalies(
+  chart: Pick<
+    ChartConfig,
+    "type" | "anomaly" | "xAxisKey" | "yAxisKey" | "groupByKey" | "seriesKey" | "aggregate"
+  >,
+  rows: Record<string, unknown>[],
+): ChartAnomalies | null {
+  if (chart.type !== "line" || !chart.anomaly) return null;
+  return detectSeriesAnomalies(buildChartSeries(chart, rows), chart.anomaly);
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/lib/mongodb";
+import { checkPermissions, isSuperAdminFromEnv } from "@/lib/permissions";
+import {
+  SESSION_COOKIE_NAME,
+  SessionUser,
+  verifySessionToken,
+} from "@/lib/session";
+import {
+  PermissionCheckResult,
+  UserPermission,
+  UserRole,
+} from "@/types/permission";
+import { DashboardTabsState } from "@/types/dashboard";
+import { canAccessTab, filterTabsState, TabAccessSubject } from "@/lib/tab-access";
+
+const PERMISSIONS_COLLECTION = "user_permissions";
+const TABS_COLLECTION = "dashboard_tabs";
+
+export type AuthUser = SessionUser & {
+  role: UserRole | null;
+  permissions: PermissionCheckResult;
+};
+
+// view = any user with a permission record, edit = editor, manage = super admin
+export type AuthLevel = "view" | "edit" | "manage";
+
+type AuthResult =
+  | { user: AuthUser; error?: undefined }
+  | { user?: undefined; error: NextResponse };
+
+/**
+ * Resolve the verified user and role from the session cookie
+ */
+export async function getAuthUser(request: NextRequest): Promise<AuthUser | null> {
+  const session = verifySessionToken(
+    request.cookies.get(SESSION_COOKIE_NAME)?.value,
+  );
+  if (!session) return null;
+
+  if (isSuperAdminFromEnv(session.email)) {
+    return {
+      ...session,
+      role: "super_admin",
+      permissions: checkPermissions(session.email, "super_admin", true),
+    };
+  }
+
+  const db = await getDb();
+  const permission = (await db
+    .collection(PERMISSIONS_COLLECTION)
+    .findOne({ email: session.email.toLowerCase() })) as UserPermission | null;
+
+  return {
+    ...session,
+    role: permission?.role ?? null,
+    permissions: checkPermissions(session.email, permission?.role, !!permission),
+  };
+}
+
+/**
+ * Access subject for work done on behalf of a user without a session
+ * (public links, scheduled reports, alerts): their current stored role
+ */
+export async function getAccessSubject(email?: string): Promise<TabAccessSubject> {
+  if (!email) return { email: "", role: null };
+  if (isSuperAdminFromEnv(email)) return { email, role: "super_admin" };
+
+  const db = await getDb();
+  const permission = (await db
+    .collection(PERMISSIONS_COLLECTION)
+    .findOne({ email: email.toLowerCase() })) as UserPermission | null;
+  return { email, role: permission?.role ?? null };
+}
+
+const hasLevel = (permissions: PermissionCheckResult, level: AuthLevel) => {
+  switch (level) {
+    case "manage":
+      return permissions.canManagePermissions;
+    case "edit":
+      return permissions.canEdit;
+    default:
+      return permissions.canView;
+  }
+};
+
+/**
+ * Guard for API routes: 401 without a valid session, 403 when the role is too low
+ */
+export async function requireAuth(
+  request: NextRequest,
+  level: AuthLevel = "view",
+): Promise<AuthResult> {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return {
+      error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  if (!hasLevel(user.permissions, level)) {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: insufficient permission" },
+        { status: 403 },
+      ),
+    };
+  }
+  return { user };
+}
+
+// Minimum role per API resource: viewers read, editors write
+// charts/tabs/notes/reports/datasets, super admins own connections, import/export and permissions
+export const ACCESS_POLICY = {
+  charts: { read: "view", write: "edit" },
+  "dashboard-tabs": { read: "view", write: "edit" },
+  notes: { read: "view", write: "edit" },
+  "tab-inputs": { read: "view", write: "edit" },
+  "change-history": { read: "view", write: "edit" },
+  "active-viewers": { read: "view", write: "view" },
+  chat: { read: "view", write: "view" },
+  reports: { read: "view", write: "edit" },
+  alerts: { read: "view", write: "edit" },
+  fraud: { read: "view", write: "edit" },
+  datasets: { read: "view", write: "edit" },
+  connections: { read: "view", write: "manage" },
+  import: { read: "manage", write: "manage" },
+  export: { read: "manage", write: "manage" },
+  permissions: { read: "manage", write: "manage" },
+} as const satisfies Record<string, { read: AuthLevel; write: AuthLevel }>;
+
+export type AccessResource = keyof typeof ACCESS_POLICY;
+
+/**
+ * Route-level guard driven by ACCESS_POLICY
+ */
+export function requireAccess(
+  request: NextRequest,
+  resource: AccessResource,
+  operation: "read" | "write",
+): Promise<AuthResult> {
+  return requireAuth(request, ACCESS_POLICY[resource][operation]);
+}
+
+/**
+ * Stored tabs and groups, including the ones hidden from the current user
+ */
+export async function getStoredTabsState(): Promise<Required<DashboardTabsState>> {
+  const db = await getDb();
+  const doc = await db.collection(TABS_COLLECTION).findOne({ id: "default" });
+  return {
+    tabs: doc?.tabs || [],
+    groups: doc?.groups || [],
+  };
+}
+
+/**
+ * Tab-level guard on top of requireAccess: 403 when the tab (or one of its
+ * parent groups) is shared with other users only. Unknown tabs are allowed.
+ */
+export async function requireTabAccess(
+  user: AuthUser,
+  tabId?: string | null,
+): Promise<NextResponse | null> {
+  if (!tabId) return null;
+  const { tabs, groups } = await getStoredTabsState();
+  const tab = tabs.find((t) => t.id === tabId);
+  if (!tab || canAccessTab(tab, groups, user)) return null;
+  return NextResponse.json(
+    { error: "Forbidden: this tab is not shared with you" },
+    { status: 403 },
+  );
+}
+
+/**
+ * Ids of existing tabs the user may not open
+ */
+export async function getHiddenTabIds(user: AuthUser): Promise<string[]> {
+  const state = await getStoredTabsState();
+  const visible = new Set(filterTabsState(state, user).tabs.map((t) => t.id));
+  return state.tabs.filter((t) => !visible.has(t.id)).map((t) => t.id);
+}
+
+export const tabIdFromPagePath = (pagePath: string) =>
+  pagePath.replace(/^\/dashboard\//, "");
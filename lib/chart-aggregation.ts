@@ -0,0 +1,83 @@
+import { ChartConfig, CohortPeriod } from "@/types/chart";
+
+export type ChartAggregate = "sum" | "count" | "avg";
+
+// GROUP BY spec for table-based bar/line/pie charts. Rows come back keyed by
+// the original field names, one row per group (and series).
+export type ChartGroupAggregation = {
+  kind: "group";
+  groupKey: string;
+  seriesKey?: string;
+  valueKey: string;
+  aggregate: ChartAggregate;
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+};
+
+// Cohort charts: rows come back as lib/cohort-funnel's CohortCell
+export type ChartCohortAggregation = {
+  kind: "cohort";
+  entityKey: string;
+  dateKey: string;
+  period: CohortPeriod;
+};
+
+// Funnel charts: a single row of reached counts keyed by step column
+export type ChartFunnelAggregation = {
+  kind: "funnel";
+  steps: string[]; // Step columns, in order
+  entityKey?: string;
+};
+
+export type ChartAggregation =
+  | ChartGroupAggregation
+  | ChartCohortAggregation
+  | ChartFunnelAggregation;
+
+export const CHART_AGGREGATES: ChartAggregate[] = ["sum", "count", "avg"];
+
+const AGGREGATED_CHART_TYPES: ChartConfig["type"][] = ["bar", "line", "pie"];
+
+/**
+ * Aggregation the database should run for a chart, or null when the chart
+ * needs raw rows (SQL and pipeline charts, tables, matrix, missing axes or steps)
+ */
+export function getChartAggregation(
+  config: Omit<ChartConfig, "id">,
+): ChartAggregation | null {
+  if (config.sqlQuery || config.pipeline || !config.tableName) return null;
+
+  if (config.type === "cohort") {
+    const { entityKey, dateKey, period } = config.cohort || {};
+    if (!entityKey || !dateKey || !period) return null;
+    return { kind: "cohort", entityKey, dateKey, period };
+  }
+  if (config.type === "funnel") {
+    const steps = (config.funnel?.steps || []).map((step) => step.column).filter(Boolean);
+    if (steps.length === 0) return null;
+    return {
+      kind: "funnel",
+      steps,
+      ...(config.funnel?.entityKey ? { entityKey: config.funnel.entityKey } : {}),
+    };
+  }
+
+  if (!AGGREGATED_CHART_TYPES.includes(config.type)) return null;
+  if (!config.xAxisKey || !config.yAxisKey) return null;
+
+  // Mirrors ChartRenderer: pie ignores series; bar/line only use groupByKey
+  // and the configured aggregate when split into series
+  const isPie = config.type === "pie";
+  const seriesKey = isPie ? undefined : config.seriesKey || undefined;
+  const grouped = isPie || !!seriesKey;
+
+  return {
+    kind: "group",
+    groupKey: grouped ? config.groupByKey || config.xAxisKey : config.xAxisKey,
+    seriesKey,
+    valueKey: config.yAxisKey,
+    aggregate: grouped ? config.aggregate || "sum" : "sum",
+    sortBy: config.sortBy || undefined,
+    sortOrder: config.sortOrder,
+  };
+}
@@ -0,0 +1,322 @@
+import { BSON } from "mongodb";
+import { ChartConfig, FederatedSource, FilterRule } from "@/types/chart";
+import { TabInput } from "@/types/tab-input";
+import { DbConnection } from "@/hooks/use-connections";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+import { getConnectionById } from "@/lib/connections";
+import {
+  canUseConnection,
+  checkQueryPolicy,
+  clampRowLimit,
+  getDefaultSchema,
+  isTableAllowed,
+} from "@/lib/connection-policy";
+import { TabAccessSubject } from "@/lib/tab-access";
+import { getSqlDialect } from "@/lib/db-types";
+import { runPipeline, runQuery } from "@/lib/query-control";
+import { sqlRowLimit } from "@/lib/sql-dialect";
+import { withQueryCache } from "@/lib/query-cache";
+import { bindTemplateSql } from "@/lib/sql-binder";
+import { buildWhereClause } from "@/lib/sql-filters";
+import { quoteIdentifier, quoteTableName } from "@/lib/grid-query";
+import {
+  bindPipelineInputs,
+  buildMatchStage,
+  parsePipeline,
+  pipelineCollections,
+  validatePipeline,
+} from "@/lib/mongo-pipeline";
+import {
+  FederatedSourceQuery,
+  runFederatedQuery,
+  validateFederatedSources,
+} from "@/lib/federated-query";
+
+export type ChartData = {
+  rows: Record<string, unknown>[];
+  columns: string[];
+};
+
+type ChartSource = Pick<
+  ChartConfig,
+  | "database"
+  | "sqlQuery"
+  | "pipeline"
+  | "federated"
+  | "tableName"
+  | "columns"
+  | "filters"
+  | "cacheTtlSeconds"
+>;
+
+// Bound and checked, ready to run
+type ChartQuery = () => Promise<ChartData>;
+
+// Table, pipeline and federated charts are read in full; cap them like the
+// dashboard does, or lower when the connection policy says so
+const MAX_TABLE_ROWS = 50000;
+
+/**
+ * Rows for a saved chart, read on the server (public links, scheduled
+ * reports, alerts) on behalf of `subject`: the chart owner or the creator of
+ * the report or alert. The connection must be shared with them and the
+ * connection policy applies, as for the same chart on the dashboard. Tab
+ * inputs are bound exactly as in the editor.
+ */
+export async function fetchChartData(
+  connection: DbConnection,
+  chart: ChartSource,
+  inputs: TabInput[],
+  subject: TabAccessSubject,
+): Promise<ChartData> {
+  const query = await prepareChartQuery(connection, chart, inputs, subject);
+  return query();
+}
+
+/**
+ * Run every check fetchChartData does without querying the database.
+ * Returns an error message, or null when `subject` may read the chart.
+ */
+export async function checkChartSource(
+  connection: DbConnection,
+  chart: ChartSource,
+  inputs: TabInput[],
+  subject: TabAccessSubject,
+): Promise<string | null> {
+  try {
+    await prepareChartQuery(connection, chart, inputs, subject);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const assertConnectionShared = (connection: DbConnection, subject: TabAccessSubject) => {
+  if (!canUseConnection(connection, subject)) {
+    throw new Error(`Connection ${connection.name} is not shared with ${subject.email || "the chart owner"}`);
+  }
+};
+
+async function prepareChartQuery(
+  connection: DbConnection,
+  chart: ChartSource,
+  inputs: TabInput[],
+  subject: TabAccessSubject,
+): Promise<ChartQuery> {
+  const empty: ChartQuery = async () => ({ rows: [], columns: [] });
+  if (!chart.database) return empty;
+  assertConnectionShared(connection, subject);
+  if (chart.pipeline && chart.tableName) {
+    return preparePipelineQuery(
+      connection,
+      chart.database,
+      chart.tableName,
+      chart.pipeline,
+      resolveFilterInputs(chart.filters || [], inputs),
+      inputs,
+      chart.cacheTtlSeconds,
+    );
+  }
+  if (chart.federated?.length && chart.sqlQuery) {
+    return prepareFederatedQuery(
+      chart.federated,
+      chart.sqlQuery,
+      inputs,
+      subject,
+      chart.cacheTtlSeconds,
+    );
+  }
+  if (chart.sqlQuery) {
+    return prepareSQLQuery(
+      connection,
+      chart.database,
+      chart.sqlQuery,
+      inputs,
+      chart.cacheTtlSeconds,
+    );
+  }
+  if (chart.tableName) {
+    return prepareTableQuery(
+      connection,
+      chart.database,
+      chart.tableName,
+      chart.columns,
+      resolveFilterInputs(chart.filters || [], inputs),
+      chart.cacheTtlSeconds,
+    );
+  }
+  return empty;
+}
+
+// {{key}} in filter values takes the tab input's value, as on the dashboard
+function resolveFilterInputs(filters: FilterRule[], inputs: TabInput[]): FilterRule[] {
+  const values = new Map<string, string>();
+  for (const input of inputs) {
+    const value = input.value ?? input.defaultValue ?? "";
+    values.set(input.key, value);
+    values.set(input.key.toLowerCase(), value);
+  }
+  const resolve = (template?: string) =>
+    template?.replace(/{{\s*(?:raw:)?\s*([\w.-]+)\s*}}/g, (_, key: string) =>
+      values.get(key.trim()) ?? values.get(key.trim().toLowerCase()) ?? "",
+    );
+  return filters.map((filter) => ({
+    ...filter,
+    value: resolve(filter.value),
+    value2: resolve(filter.value2),
+  }));
+}
+
+// Bind and validate as the editor does, then apply the connection policy as
+// prepareChartSql (lib/chart-source) does
+function bindChartSql(
+  connection: DbConnection,
+  database: string,
+  sqlQuery: string,
+  inputs: TabInput[],
+) {
+  const type = getSqlDialect(connection.type);
+  const bound = bindTemplateSql(sqlQuery, type, inputs, inputs);
+  const validation = validateReadOnlySql(bound.sql, type);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+  const policyError = checkQueryPolicy(connection, validation.sql, database);
+  if (policyError) {
+    throw new Error(policyError);
+  }
+  return { sql: validation.sql, params: bound.params };
+}
+
+function prepareSQLQuery(
+  connection: DbConnection,
+  database: string,
+  sqlQuery: string,
+  inputs: TabInput[],
+  ttlSeconds?: number,
+): ChartQuery {
+  const type = getSqlDialect(connection.type);
+  const bound = bindChartSql(connection, database, sqlQuery, inputs);
+  const params = bound.params.length > 0 ? bound.params : undefined;
+
+  // Connection policy row cap, as in /api/db/query-sql
+  const maxRows = connection.policy?.maxRows;
+  const sql =
+    maxRows && maxRows > 0
+      ? `SELECT * FROM (${bound.sql}) AS policy_result ${sqlRowLimit(type, Math.trunc(maxRows))}`
+      : bound.sql;
+
+  return () =>
+    withQueryCache(
+      { connection, database, sql, params, ttlSeconds },
+      () => runQuery(connection, sql, { database, params, readOnly: true }),
+    );
+}
+
+async function prepareFederatedQuery(
+  sources: FederatedSource[],
+  sqlQuery: string,
+  inputs: TabInput[],
+  subject: TabAccessSubject,
+  ttlSeconds?: number,
+): Promise<ChartQuery> {
+  const invalid = validateFederatedSources(sources);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  // Same checks as prepareFederatedChart (lib/chart-source), using the saved tab inputs
+  const prepared: FederatedSourceQuery[] = [];
+  for (const source of sources) {
+    const connection = await getConnectionById(source.connectionId);
+    if (!connection) {
+      throw new Error(`${source.alias}: connection not found`);
+    }
+    try {
+      assertConnectionShared(connection, subject);
+      const bound = bindChartSql(connection, source.database, source.sql, inputs);
+      prepared.push({
+        alias: source.alias,
+        connection,
+        database: source.database,
+        sql: bound.sql,
+        params: bound.params,
+      });
+    } catch (error) {
+      throw new Error(`${source.alias}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const bound = bindTemplateSql(sqlQuery, "duckdb", inputs, inputs);
+  const validation = validateReadOnlySql(bound.sql, "duckdb");
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+  return () =>
+    runFederatedQuery(prepared, validation.sql, bound.params, {
+      limit: MAX_TABLE_ROWS,
+      ttlSeconds,
+    });
+}
+
+function preparePipelineQuery(
+  connection: DbConnection,
+  database: string,
+  collection: string,
+  pipeline: string,
+  filters: FilterRule[],
+  inputs: TabInput[],
+  ttlSeconds?: number,
+): ChartQuery {
+  // Same binding, validation and policy as prepareChartPipeline (lib/chart-source),
+  // using the saved tab inputs
+  const stages = bindPipelineInputs(parsePipeline(pipeline), inputs, inputs);
+  const invalid = validatePipeline(stages);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  const forbidden = [collection, ...pipelineCollections(stages)].find(
+    (name) => !isTableAllowed(connection.policy, name, database),
+  );
+  if (forbidden) {
+    throw new Error(`Collection ${forbidden} is not allowed on this connection`);
+  }
+  const match = buildMatchStage(filters);
+  const limit = clampRowLimit(connection.policy, MAX_TABLE_ROWS);
+  const final = [...stages, ...(match ? [match] : []), { $limit: limit }];
+
+  return () =>
+    withQueryCache(
+      { connection, database, sql: `${collection}:${BSON.EJSON.stringify(final)}`, ttlSeconds },
+      () => runPipeline(connection, collection, final, { database }),
+    );
+}
+
+function prepareTableQuery(
+  connection: DbConnection,
+  database: string,
+  table: string,
+  columns: string[] | undefined,
+  filters: FilterRule[],
+  ttlSeconds?: number,
+): ChartQuery {
+  const type = getSqlDialect(connection.type);
+
+  if (!isTableAllowed(connection.policy, table, getDefaultSchema(connection, database))) {
+    throw new Error("Table is not allowed on this connection");
+  }
+
+  const { where, params } = buildWhereClause(filters, type);
+  const selectCols =
+    columns && columns.length > 0
+      ? columns.map((c) => quoteIdentifier(c, type)).join(", ")
+      : "*";
+  const limit = clampRowLimit(connection.policy, MAX_TABLE_ROWS);
+  const sql = `SELECT ${selectCols} FROM ${quoteTableName(table, type)} ${where} ${sqlRowLimit(type, limit)}`;
+
+  return () =>
+    withQueryCache(
+      { connection, database, sql, params, ttlSeconds },
+      () => runQuery(connection, sql, { database, params }),
+    );
+}
@@ -0,0 +1,256 @@
+import { NextResponse } from "next/server";
+import { Document } from "mongodb";
+import { FederatedSource, FilterRule } from "@/types/chart";
+import { DbConnection } from "@/hooks/use-connections";
+import { AuthUser, requireTabAccess } from "@/lib/auth";
+import {
+  checkQueryPolicy,
+  getDefaultSchema,
+  isTableAllowed,
+  requireConnection,
+} from "@/lib/connection-policy";
+import { bindTemplateSql, TabInputBinding } from "@/lib/sql-binder";
+import { buildWhereClause } from "@/lib/sql-filters";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+import { getSqlDialect, isSqlDbType } from "@/lib/db-types";
+import { getTabInputs } from "@/lib/tab-inputs";
+import { quoteIdentifier, quoteTableName } from "@/lib/grid-query";
+import {
+  bindPipelineInputs,
+  buildMatchStage,
+  parsePipeline,
+  pipelineCollections,
+  validatePipeline,
+} from "@/lib/mongo-pipeline";
+import { FederatedSourceQuery, validateFederatedSources } from "@/lib/federated-query";
+
+export type ChartSqlRequest = {
+  sql: string; // May contain {{key}} / {{raw:key}} tab input placeholders
+  tabId?: string;
+  inputs?: TabInputBinding[];
+};
+
+// Where a chart's rows come from: a table (with chart filters) or custom SQL
+export type ChartSourceRequest = Partial<ChartSqlRequest> & {
+  connectionId: string;
+  database: string;
+  table?: string;
+  columns?: string[];
+  filters?: FilterRule[];
+};
+
+// MongoDB chart: a collection plus a JSON aggregation pipeline
+export type ChartPipelineRequest = {
+  collection: string;
+  pipeline: string; // May contain {{key}} / {{raw:key}} tab input placeholders
+  tabId?: string;
+  inputs?: TabInputBinding[];
+  filters?: FilterRule[]; // Applied to the pipeline's output as a final $match
+};
+
+// Federated chart: SQL per source connection, joined by DuckDB SQL over the aliases
+export type ChartFederatedRequest = {
+  sources: FederatedSource[];
+  sql: string; // DuckDB SQL; may contain {{key}} / {{raw:key}} tab input placeholders
+  tabId?: string;
+  inputs?: TabInputBinding[];
+};
+
+type PreparedSql =
+  | { sql: string; params: unknown[]; error?: undefined }
+  | { sql?: undefined; params?: undefined; error: NextResponse };
+
+const failure = (error: string, status: number): { error: NextResponse } => ({
+  error: NextResponse.json({ error }, { status }),
+});
+
+// {{raw:key}} values are taken from the request only for editors; everyone
+// else gets the values saved on the tab
+const tabInputBindings = async (
+  user: AuthUser,
+  tabId: string | undefined,
+  inputs: TabInputBinding[] | undefined,
+) => {
+  const storedInputs = await getTabInputs(tabId);
+  return {
+    inputs: inputs ?? storedInputs,
+    rawInputs: inputs && user.permissions.canEdit ? inputs : storedInputs,
+  };
+};
+
+/**
+ * Bind tab inputs into a chart's SQL, then check it is a single read-only
+ * statement that only touches tables allowed by the connection policy
+ */
+export async function prepareChartSql(
+  user: AuthUser,
+  connection: DbConnection,
+  database: string,
+  { sql, tabId, inputs }: ChartSqlRequest,
+): Promise<PreparedSql> {
+  const type = getSqlDialect(connection.type);
+
+  const denied = await requireTabAccess(user, tabId);
+  if (denied) return { error: denied };
+
+  // Bind tab inputs as driver parameters
+  const bindings = await tabInputBindings(user, tabId, inputs);
+  let bound;
+  try {
+    bound = bindTemplateSql(sql, type, bindings.inputs, bindings.rawInputs);
+  } catch (e: unknown) {
+    return failure(e instanceof Error ? e.message : "Invalid tab input", 400);
+  }
+
+  // Validate SQL - a single read-only SELECT/WITH statement
+  const validation = validateReadOnlySql(bound.sql, type);
+  if (!validation.valid) return failure(validation.error, 400);
+
+  // Connection policy: allowed schemas/tables
+  const policyError = checkQueryPolicy(connection, validation.sql, database);
+  if (policyError) return failure(policyError, 403);
+
+  return { sql: validation.sql, params: bound.params };
+}
+
+/**
+ * SELECT for all of a chart's rows, with chart filters applied. Custom SQL is
+ * wrapped so filters work on its output columns.
+ */
+export async function prepareChartSource(
+  user: AuthUser,
+  connection: DbConnection,
+  request: ChartSourceRequest,
+): Promise<PreparedSql> {
+  const type = getSqlDialect(connection.type);
+  const { database, table, columns, filters, sql } = request;
+
+  if (sql) {
+    const prepared = await prepareChartSql(user, connection, database, {
+      sql,
+      tabId: request.tabId,
+      inputs: request.inputs,
+    });
+    if (prepared.error) return prepared;
+    const { where, params } = buildWhereClause(
+      filters || [],
+      type,
+      prepared.params.length,
+    );
+    if (!where) return prepared;
+    return {
+      sql: `SELECT * FROM (${prepared.sql}) AS chart_source ${where}`,
+      params: [...prepared.params, ...params],
+    };
+  }
+
+  if (!table) return failure("Missing fields", 400);
+  if (!isTableAllowed(connection.policy, table, getDefaultSchema(connection, database))) {
+    return failure("Table is not allowed on this connection", 403);
+  }
+  const cols =
+    Array.isArray(columns) && columns.length > 0
+      ? columns.map((c) => quoteIdentifier(c, type)).join(", ")
+      : "*";
+  const { where, params } = buildWhereClause(filters || [], type);
+  return {
+    sql: `SELECT ${cols} FROM ${quoteTableName(table, type)} ${where}`.trim(),
+    params,
+  };
+}
+
+type PreparedPipeline =
+  | { pipeline: Document[]; error?: undefined }
+  | { pipeline?: undefined; error: NextResponse };
+
+/**
+ * Parse a MongoDB chart pipeline, bind tab inputs and chart filters, then
+ * check it only reads collections allowed by the connection policy
+ */
+export async function prepareChartPipeline(
+  user: AuthUser,
+  connection: DbConnection,
+  database: string,
+  { collection, pipeline, tabId, inputs, filters }: ChartPipelineRequest,
+): Promise<PreparedPipeline> {
+  const denied = await requireTabAccess(user, tabId);
+  if (denied) return { error: denied };
+
+  // Same trust rules for {{raw:key}} as prepareChartSql
+  const bindings = await tabInputBindings(user, tabId, inputs);
+  let stages: Document[];
+  let collections: string[];
+  try {
+    stages = bindPipelineInputs(parsePipeline(pipeline), bindings.inputs, bindings.rawInputs);
+    collections = [collection, ...pipelineCollections(stages)];
+  } catch (e: unknown) {
+    return failure(e instanceof Error ? e.message : "Invalid pipeline", 400);
+  }
+
+  const invalid = validatePipeline(stages);
+  if (invalid) return failure(invalid, 400);
+
+  // The database is the schema, as on MySQL
+  const forbidden = collections.find(
+    (name) => !isTableAllowed(connection.policy, name, database),
+  );
+  if (forbidden) {
+    return failure(`Collection ${forbidden} is not allowed on this connection`, 403);
+  }
+
+  const match = buildMatchStage(filters || []);
+  return { pipeline: match ? [...stages, match] : stages };
+}
+
+type PreparedFederated =
+  | { sources: FederatedSourceQuery[]; sql: string; params: unknown[]; error?: undefined }
+  | { sources?: undefined; sql?: undefined; params?: undefined; error: NextResponse };
+
+/**
+ * Prepare every source of a federated chart as prepareChartSql does on its
+ * own connection (access, policy, read-only check), then bind and check the
+ * DuckDB SQL that joins them
+ */
+export async function prepareFederatedChart(
+  user: AuthUser,
+  { sources, sql, tabId, inputs }: ChartFederatedRequest,
+): Promise<PreparedFederated> {
+  const invalid = validateFederatedSources(sources);
+  if (invalid) return failure(invalid, 400);
+
+  const prepared: FederatedSourceQuery[] = [];
+  for (const source of sources) {
+    const resolved = await requireConnection(user, source.connectionId);
+    if (resolved.error) return { error: resolved.error };
+    const { connection } = resolved;
+    if (!isSqlDbType(connection.type)) {
+      return failure(`${source.alias}: federated sources must be SQL connections`, 400);
+    }
+    const result = await prepareChartSql(user, connection, source.database, {
+      sql: source.sql,
+      tabId,
+      inputs,
+    });
+    if (result.error) return result;
+    prepared.push({
+      alias: source.alias,
+      connection,
+      database: source.database,
+      sql: result.sql,
+      params: result.params,
+    });
+  }
+
+  // The join only sees the loaded sources, so there is no policy to check
+  const bindings = await tabInputBindings(user, tabId, inputs);
+  let bound;
+  try {
+    bound = bindTemplateSql(sql, "duckdb", bindings.inputs, bindings.rawInputs);
+  } catch (e: unknown) {
+    return failure(e instanceof Error ? e.message : "Invalid tab input", 400);
+  }
+  const validation = validateReadOnlySql(bound.sql, "duckdb");
+  if (!validation.valid) return failure(validation.error, 400);
+
+  return { sources: prepared, sql: validation.sql, params: bound.params };
+}
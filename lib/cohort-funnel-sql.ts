@@ -0,0 +1,133 @@
+import { ChartCohortAggregation, ChartFunnelAggregation } from "@/lib/chart-aggregation";
+import { quoteIdentifier, quoteTableName } from "@/lib/grid-query";
+import {
+  castAsText,
+  limitSelect,
+  SqlDialect,
+  sqlDayText,
+  sqlRowLimit,
+} from "@/lib/sql-dialect";
+import { CohortPeriod } from "@/types/chart";
+
+// SQL for table-based cohort and funnel charts, returning the same shapes that
+// lib/cohort-funnel computes from raw rows. `where` and `limitParam` come from
+// /api/db/aggregate.
+
+// First day of the period (weeks start on Monday) as a DATE
+const periodExpr = (column: string, period: CohortPeriod, dialect: SqlDialect) => {
+  switch (dialect) {
+    case "postgresql":
+    case "duckdb":
+      return period === "day"
+        ? `CAST(${column} AS DATE)`
+        : `CAST(date_trunc('${period}', CAST(${column} AS TIMESTAMP)) AS DATE)`;
+    case "sqlite":
+      return period === "day"
+        ? `date(${column})`
+        : period === "week"
+        ? `date(${column}, '-' || ((CAST(strftime('%w', ${column}) AS INTEGER) + 6) % 7) || ' days')`
+        : `date(${column}, 'start of month')`;
+    case "mssql":
+      return period === "day"
+        ? `CAST(${column} AS DATE)`
+        : period === "week"
+        ? `DATEADD(DAY, -((DATEPART(WEEKDAY, ${column}) + @@DATEFIRST + 5) % 7), CAST(${column} AS DATE))`
+        : `DATEFROMPARTS(YEAR(${column}), MONTH(${column}), 1)`;
+  }
+  return period === "day"
+    ? `DATE(${column})`
+    : period === "week"
+    ? `DATE_SUB(DATE(${column}), INTERVAL WEEKDAY(${column}) DAY)`
+    : `CAST(DATE_FORMAT(${column}, '%Y-%m-01') AS DATE)`;
+};
+
+// Whole periods from the cohort's first period to an active one
+const offsetExpr = (period: CohortPeriod, dialect: SqlDialect) => {
+  switch (dialect) {
+    case "postgresql":
+      return period === "day"
+        ? "(a.period - c.cohort)"
+        : period === "week"
+        ? "((a.period - c.cohort) / 7)"
+        : "CAST((EXTRACT(YEAR FROM a.period) - EXTRACT(YEAR FROM c.cohort)) * 12 + EXTRACT(MONTH FROM a.period) - EXTRACT(MONTH FROM c.cohort) AS INTEGER)";
+    case "duckdb":
+      return `date_diff('${period}', c.cohort, a.period)`;
+    case "sqlite": {
+      const days = "CAST(julianday(a.period) - julianday(c.cohort) AS INTEGER)";
+      return period === "day"
+        ? days
+        : period === "week"
+        ? `(${days} / 7)`
+        : "((CAST(strftime('%Y', a.period) AS INTEGER) - CAST(strftime('%Y', c.cohort) AS INTEGER)) * 12 + CAST(strftime('%m', a.period) AS INTEGER) - CAST(strftime('%m', c.cohort) AS INTEGER))";
+    }
+    case "mssql":
+      return period === "day"
+        ? "DATEDIFF(DAY, c.cohort, a.period)"
+        : period === "week"
+        ? "(DATEDIFF(DAY, c.cohort, a.period) / 7)"
+        : "DATEDIFF(MONTH, c.cohort, a.period)";
+  }
+  return period === "day"
+    ? "DATEDIFF(a.period, c.cohort)"
+    : period === "week"
+    ? "FLOOR(DATEDIFF(a.period, c.cohort) / 7)"
+    : "TIMESTAMPDIFF(MONTH, c.cohort, a.period)";
+};
+
+/**
+ * One row per cohort and period offset: cohort (YYYY-MM-DD), period_offset,
+ * entities. Each entity's cohort is the period of its first activity.
+ */
+export function buildCohortSql(
+  spec: ChartCohortAggregation,
+  table: string,
+  where: string,
+  dialect: SqlDialect,
+  limitParam: string,
+): string {
+  const entity = quoteIdentifier(spec.entityKey, dialect);
+  const date = quoteIdentifier(spec.dateKey, dialect);
+  const offset = offsetExpr(spec.period, dialect);
+
+  return [
+    "WITH activity AS (",
+    `  SELECT DISTINCT ${castAsText(entity, dialect)} AS entity_id, ${periodExpr(date, spec.period, dialect)} AS period`,
+    `  FROM ${quoteTableName(table, dialect)} ${where}`,
+    "), cohorts AS (",
+    "  SELECT entity_id, MIN(period) AS cohort FROM activity",
+    "  WHERE entity_id IS NOT NULL AND period IS NOT NULL GROUP BY entity_id",
+    ")",
+    `SELECT ${sqlDayText("c.cohort", dialect)} AS cohort, ${offset} AS period_offset, COUNT(*) AS entities`,
+    "FROM activity a JOIN cohorts c ON c.entity_id = a.entity_id",
+    "WHERE a.period IS NOT NULL",
+    // Grouped by expression, since SQL Server has no GROUP BY ordinals
+    `GROUP BY c.cohort, ${offset} ORDER BY 1, 2 ${sqlRowLimit(dialect, limitParam, { ordered: true })}`,
+  ].join("\n");
+}
+
+/**
+ * A single row with each step column's reached count: non-NULL values, or the
+ * distinct entities having one
+ */
+export function buildFunnelSql(
+  spec: ChartFunnelAggregation,
+  table: string,
+  where: string,
+  dialect: SqlDialect,
+  limitParam: string,
+): string {
+  const entity = spec.entityKey ? quoteIdentifier(spec.entityKey, dialect) : null;
+  const counts = spec.steps.map((step) => {
+    const column = quoteIdentifier(step, dialect);
+    const count = entity
+      ? `COUNT(DISTINCT CASE WHEN ${column} IS NOT NULL THEN ${entity} END)`
+      : `COUNT(${column})`;
+    return `${count} AS ${column}`;
+  });
+  return limitSelect(
+    `SELECT ${counts.join(", ")} FROM ${quoteTableName(table, dialect)} ${where}`,
+    limitParam,
+    dialect,
+    "funnel",
+  );
+}
@@ -0,0 +1,153 @@
+import { ChartCohortConfig, ChartFunnelConfig, CohortPeriod } from "@/types/chart";
+
+// Pure functions, no server imports. Table charts get these shapes from the
+// database (/api/db/aggregate); SQL charts get raw rows, which ChartRenderer
+// reduces here to the same shapes before drawing.
+
+export const COHORT_PERIODS: CohortPeriod[] = ["day", "week", "month"];
+
+export const DEFAULT_COHORT_MAX_OFFSET = 12;
+
+// Entities of one cohort that were active period_offset periods after joining.
+// Numbers may arrive as strings (PostgreSQL COUNT is a bigint).
+export type CohortCell = {
+  cohort: string; // First day of the cohort's period, YYYY-MM-DD
+  period_offset: number | string;
+  entities: number | string;
+};
+
+export type CohortRow = {
+  cohort: string;
+  size: number; // Entities active in their first period
+  counts: (number | undefined)[]; // Index = period offset
+};
+
+// Reached counts in one row, keyed by each step's column
+export type FunnelCounts = Record<string, unknown>;
+
+export type FunnelStage = {
+  label: string;
+  count: number;
+  ofFirst: number; // Share of the first step, 0..1
+  ofPrevious: number; // Conversion from the step before, 0..1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+
+const toTime = (value: unknown): number | null => {
+  if (isBlank(value)) return null;
+  const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Number.isNaN(time) ? null : time;
+};
+
+// Start of the period holding a time, in UTC; weeks start on Monday like MySQL WEEKDAY()
+const periodStart = (time: number, period: CohortPeriod) => {
+  const date = new Date(time);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (period === "day") return day;
+  if (period === "week") return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+};
+
+const periodOffset = (from: number, to: number, period: CohortPeriod) => {
+  if (period === "month") {
+    const a = new Date(from);
+    const b = new Date(to);
+    return (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+  }
+  return Math.round((to - from) / DAY_MS / (period === "week" ? 7 : 1));
+};
+
+/**
+ * Cohort cells from raw activity rows, as the database computes them for
+ * table charts. Rows without an entity or a valid date are skipped.
+ */
+export function computeCohortCells(
+  rows: Record<string, unknown>[],
+  config: Pick<ChartCohortConfig, "entityKey" | "dateKey" | "period">,
+): CohortCell[] {
+  const periods = new Map<string, Set<number>>();
+  for (const row of rows) {
+    const entity = row[config.entityKey];
+    const time = toTime(row[config.dateKey]);
+    if (isBlank(entity) || time === null) continue;
+    const key = String(entity);
+    if (!periods.has(key)) periods.set(key, new Set());
+    periods.get(key)!.add(periodStart(time, config.period));
+  }
+
+  const counts = new Map<string, CohortCell & { entities: number }>();
+  for (const active of periods.values()) {
+    const first = Math.min(...active);
+    const cohort = new Date(first).toISOString().slice(0, 10);
+    for (const start of active) {
+      const offset = periodOffset(first, start, config.period);
+      const key = `${cohort}:${offset}`;
+      const cell = counts.get(key) || { cohort, period_offset: offset, entities: 0 };
+      cell.entities += 1;
+      counts.set(key, cell);
+    }
+  }
+  return Array.from(counts.values()).sort(
+    (a, b) =>
+      a.cohort.localeCompare(b.cohort) || Number(a.period_offset) - Number(b.period_offset),
+  );
+}
+
+/**
+ * Heatmap rows, oldest cohort first, with offsets 0..maxOffset
+ */
+export function toCohortRows(cells: CohortCell[], maxOffset = DEFAULT_COHORT_MAX_OFFSET): CohortRow[] {
+  const rows = new Map<string, CohortRow>();
+  for (const cell of cells) {
+    const offset = Number(cell.period_offset);
+    if (!Number.isInteger(offset) || offset < 0 || offset > maxOffset) continue;
+    const cohort = String(cell.cohort).slice(0, 10);
+    if (!rows.has(cohort)) {
+      rows.set(cohort, { cohort, size: 0, counts: new Array(maxOffset + 1).fill(undefined) });
+    }
+    const row = rows.get(cohort)!;
+    row.counts[offset] = Number(cell.entities) || 0;
+    if (offset === 0) row.size = row.counts[0]!;
+  }
+  return Array.from(rows.values()).sort((a, b) => a.cohort.localeCompare(b.cohort));
+}
+
+/**
+ * Step counts from raw rows: rows (or distinct entities) with a value in each
+ * step's column, as the database counts them for table charts
+ */
+export function computeFunnelCounts(
+  rows: Record<string, unknown>[],
+  config: ChartFunnelConfig,
+): FunnelCounts {
+  const counts: FunnelCounts = {};
+  for (const { column } of config.steps) {
+    // NULL means not reached, matching COUNT(column) on the database
+    const reached = rows.filter((row) => row[column] !== null && row[column] !== undefined);
+    counts[column] = config.entityKey
+      ? new Set(
+          reached
+            .map((row) => row[config.entityKey!])
+            .filter((entity) => entity !== null && entity !== undefined)
+            .map(String),
+        ).size
+      : reached.length;
+  }
+  return counts;
+}
+
+/**
+ * Funnel stages in step order with conversion rates
+ */
+export function toFunnelStages(counts: FunnelCounts, config: ChartFunnelConfig): FunnelStage[] {
+  const values = config.steps.map(({ column }) => Number(counts[column]) || 0);
+  return config.steps.map((step, i) => ({
+    label: step.label || step.column,
+    count: values[i],
+    ofFirst: values[0] ? values[i] / values[0] : 0,
+    ofPrevious: i === 0 ? 1 : values[i - 1] ? values[i] / values[i - 1] : 0,
+  }));
+}
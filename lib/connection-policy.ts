@@ -0,0 +1,311 @@
+import { NextResponse } from "next/server";
+import { ConnectionPolicy, DbConnection } from "@/hooks/use-connections";
+import { getConnectionById } from "@/lib/connections";
+import { AuthUser } from "@/lib/auth";
+import { matchesAccess, TabAccessSubject } from "@/lib/tab-access";
+import { splitTableName } from "@/lib/grid-query";
+import { getDbTypeInfo, getSqlDialect } from "@/lib/db-types";
+import { readCteList, SqlToken, tokenizeSql, unquoteIdentifier } from "@/lib/sql-guard";
+import { SqlDialect } from "@/lib/sql-dialect";
+
+const normalize = (name: string) => name.replace(/[`"[\]]/g, "").trim().toLowerCase();
+
+export function canUseConnection(
+  connection: DbConnection,
+  subject: TabAccessSubject,
+): boolean {
+  return matchesAccess(connection.policy, subject);
+}
+
+/**
+ * Schema used for unqualified table names: the selected database where the
+ * database is the schema (MySQL, SQLite), else the connection schema (or the
+ * first search_path entry, or the engine default such as public / dbo)
+ */
+export function getDefaultSchema(
+  connection: DbConnection,
+  database?: string,
+): string | undefined {
+  const { defaultSchema } = getDbTypeInfo(connection.type);
+  return defaultSchema
+    ? connection.schema || connection.searchPath?.find(Boolean) || defaultSchema
+    : database || connection.database || undefined;
+}
+
+export function isSchemaAllowed(
+  policy: ConnectionPolicy | undefined,
+  schema?: string,
+): boolean {
+  if (!policy?.allowedSchemas?.length) return true;
+  if (!schema) return false;
+  return policy.allowedSchemas.some((s) => normalize(s) === normalize(schema));
+}
+
+// `table` may be "schema.table"; its own schema then replaces the default one
+export function isTableAllowed(
+  policy: ConnectionPolicy | undefined,
+  table: string,
+  defaultSchema?: string,
+): boolean {
+  const split = splitTableName(table);
+  return isSplitTableAllowed(policy, split.schema ?? defaultSchema, split.table);
+}
+
+function isSplitTableAllowed(
+  policy: ConnectionPolicy | undefined,
+  schema: string | undefined,
+  table: string,
+): boolean {
+  if (!isSchemaAllowed(policy, schema)) return false;
+  if (!policy?.allowedTables?.length) return true;
+
+  const name = normalize(table);
+  const qualified = schema ? `${normalize(schema)}.${name}` : name;
+  return policy.allowedTables.some((entry) => {
+    const allowed = normalize(entry);
+    return allowed === qualified || (!allowed.includes(".") && allowed === name);
+  });
+}
+
+/**
+ * Cap a requested row limit at the policy maximum
+ */
+export function clampRowLimit(
+  policy: ConnectionPolicy | undefined,
+  limit: number,
+): number {
+  const maxRows = policy?.maxRows;
+  return maxRows && maxRows > 0 ? Math.min(limit, Math.trunc(maxRows)) : limit;
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 120000;
+
+/**
+ * Statement timeout for a connection: its own override, else QUERY_TIMEOUT_MS
+ * (0 disables the default), capped by the policy maximum
+ */
+export function getQueryTimeoutMs(connection: DbConnection): number | null {
+  const envTimeout = Number(process.env.QUERY_TIMEOUT_MS);
+  const serverDefault =
+    process.env.QUERY_TIMEOUT_MS && Number.isFinite(envTimeout)
+      ? envTimeout
+      : DEFAULT_QUERY_TIMEOUT_MS;
+  const requested =
+    connection.queryTimeoutMs && connection.queryTimeoutMs > 0
+      ? connection.queryTimeoutMs
+      : serverDefault;
+
+  const maxMs = connection.policy?.maxStatementTimeoutMs;
+  const timeoutMs =
+    maxMs && maxMs > 0 ? (requested > 0 ? Math.min(requested, maxMs) : maxMs) : requested;
+  return timeoutMs > 0 ? Math.trunc(timeoutMs) : null;
+}
+
+// Keywords that end a FROM clause at its own nesting level
+const FROM_CLAUSE_END = new Set([
+  "WHERE", "GROUP", "HAVING", "ORDER", "LIMIT", "OFFSET", "FETCH", "UNION",
+  "INTERSECT", "EXCEPT", "WINDOW", "QUALIFY", "FOR",
+]);
+const JOIN_KEYWORDS = new Set(["JOIN", "STRAIGHT_JOIN"]);
+// Words between FROM/JOIN and the table name
+const TABLE_PREFIXES = new Set(["LATERAL", "ONLY"]);
+// Parenthesised blocks that hold a query, as opposed to function arguments
+// such as EXTRACT(YEAR FROM d) or SUBSTRING(s FROM 2)
+const QUERY_STARTS = new Set(["SELECT", "WITH", "VALUES", "TABLE"]);
+
+const isName = (token?: SqlToken) =>
+  !!token && (token.type === "word" || token.type === "identifier");
+
+const keywordOf = (token?: SqlToken) =>
+  token?.type === "word" ? token.value.toUpperCase() : token?.value ?? "";
+
+type CteScope = { name: string; from: number; to: number };
+
+// CTE names with the token range they are visible in, up to the end of the
+// block the WITH sits in. A plain CTE is only visible after its own body, so
+// its name cannot hide a real table inside that body or in earlier CTEs;
+// WITH RECURSIVE makes the whole list visible from the WITH on.
+const collectCteScopes = (tokens: SqlToken[]): CteScope[] => {
+  const scopes: CteScope[] = [];
+  for (let idx = 0; idx < tokens.length; idx++) {
+    if (keywordOf(tokens[idx]) !== "WITH") continue;
+    let depth = 0;
+    let to = tokens.length - 1;
+    for (let j = idx + 1; j < tokens.length; j++) {
+      if (tokens[j].value === "(") depth++;
+      if (tokens[j].value === ")" && --depth < 0) {
+        to = j;
+        break;
+      }
+    }
+    const { ctes, recursive } = readCteList(tokens, idx);
+    for (const { name, bodyEnd } of ctes) {
+      scopes.push({
+        name: unquoteIdentifier(name).toLowerCase(),
+        from: recursive ? idx : bodyEnd,
+        to,
+      });
+    }
+  }
+  return scopes;
+};
+
+/**
+ * Tables a SELECT reads: FROM lists, JOINs and TABLE statements, at any
+ * depth, minus references to CTEs in scope. Each reference is its name parts,
+ * unquoted: [table], [schema, table] or [database, schema, table].
+ * Throws on SQL the dialect's tokenizer cannot read.
+ */
+export function extractTableReferences(sql: string, dialect: SqlDialect): string[][] {
+  const tokens = tokenizeSql(sql, dialect);
+  const ctes = collectCteScopes(tokens);
+  const references: string[][] = [];
+
+  // Per nesting level: whether the block holds a query, and whether a FROM
+  // clause is open at that level
+  const isQueryBlock: boolean[] = [true];
+  const inFrom: boolean[] = [false];
+  let expectTable = false;
+
+  for (let idx = 0; idx < tokens.length; idx++) {
+    const token = tokens[idx];
+    const keyword = keywordOf(token);
+    const depth = isQueryBlock.length - 1;
+
+    if (token.value === "(") {
+      const opensQuery = QUERY_STARTS.has(keywordOf(tokens[idx + 1]));
+      // FROM (a JOIN b ...) / FROM (a, b): a parenthesised table list
+      const opensTables: boolean = expectTable && !opensQuery;
+      isQueryBlock.push(opensQuery || tokens[idx + 1]?.value === "(" || opensTables);
+      inFrom.push(opensTables);
+      expectTable = opensTables;
+      continue;
+    }
+    if (token.value === ")") {
+      if (depth > 0) {
+        isQueryBlock.pop();
+        inFrom.pop();
+      }
+      expectTable = false;
+      continue;
+    }
+
+    if (expectTable && isName(token)) {
+      if (token.type === "word" && TABLE_PREFIXES.has(keyword)) continue;
+      const parts = [unquoteIdentifier(token)];
+      while (tokens[idx + 1]?.value === "." && isName(tokens[idx + 2])) {
+        parts.push(unquoteIdentifier(tokens[idx + 2]));
+        idx += 2;
+      }
+      expectTable = false;
+      // fn(...) is a table function, not a table
+      if (tokens[idx + 1]?.value === "(") continue;
+      const name = parts.length === 1 ? parts[0].toLowerCase() : null;
+      if (!name || !ctes.some((c) => c.name === name && c.from <= idx && idx <= c.to)) {
+        references.push(parts);
+      }
+      continue;
+    }
+    expectTable = false;
+
+    if (token.type !== "word" && token.value !== ",") continue;
+    if (keyword === "FROM") {
+      // IS [NOT] DISTINCT FROM compares values
+      if (isQueryBlock[depth] && keywordOf(tokens[idx - 1]) !== "DISTINCT") {
+        inFrom[depth] = true;
+        expectTable = true;
+      }
+    } else if (keyword === "TABLE") {
+      expectTable = true; // TABLE name, PostgreSQL / MySQL shorthand for SELECT * FROM name
+    } else if (JOIN_KEYWORDS.has(keyword)) {
+      inFrom[depth] = true;
+      expectTable = true;
+    } else if (keyword === "," && inFrom[depth]) {
+      expectTable = true;
+    } else if (FROM_CLAUSE_END.has(keyword)) {
+      inFrom[depth] = false;
+    }
+  }
+  return references;
+}
+
+/**
+ * Check every table a raw SQL statement touches against the policy.
+ * Returns an error message, or null when the statement is allowed.
+ */
+export function checkSqlAgainstPolicy(
+  connection: DbConnection,
+  sql: string,
+  database?: string,
+): string | null {
+  const policy = connection.policy;
+  if (!policy?.allowedSchemas?.length && !policy?.allowedTables?.length) {
+    return null;
+  }
+
+  let references: string[][];
+  try {
+    references = extractTableReferences(sql, getSqlDialect(connection.type));
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid SQL";
+  }
+
+  const defaultSchema = getDefaultSchema(connection, database);
+  for (const parts of references) {
+    const label = parts.join(".");
+    // database.schema.table may only name the selected database
+    const otherDatabase =
+      parts.length > 2 &&
+      (parts.length > 3 || !database || normalize(parts[0]) !== normalize(database));
+    const table = parts[parts.length - 1];
+    const schema = parts.length > 1 ? parts[parts.length - 2] : defaultSchema;
+    if (otherDatabase || !isSplitTableAllowed(policy, schema, table)) {
+      return `Table ${label.toLowerCase()} is not allowed on this connection`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Policy check for a validated statement: the schema it runs in by default
+ * and every table it reads. Returns an error message, or null when allowed.
+ */
+export function checkQueryPolicy(
+  connection: DbConnection,
+  sql: string,
+  database?: string,
+): string | null {
+  if (!isSchemaAllowed(connection.policy, getDefaultSchema(connection, database))) {
+    return "Schema is not allowed on this connection";
+  }
+  return checkSqlAgainstPolicy(connection, sql, database);
+}
+
+type ConnectionResult =
+  | { connection: DbConnection; error?: undefined }
+  | { connection?: undefined; error: NextResponse };
+
+/**
+ * Resolve a connection for the current user: 404 when missing,
+ * 403 when the connection policy does not include the user
+ */
+export async function requireConnection(
+  user: AuthUser,
+  connectionId?: string,
+): Promise<ConnectionResult> {
+  const connection = await getConnectionById(connectionId);
+  if (!connection) {
+    return {
+      error: NextResponse.json({ error: "Connection not found" }, { status: 404 }),
+    };
+  }
+  if (!canUseConnection(connection, user)) {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: this connection is not shared with you" },
+        { status: 403 },
+      ),
+    };
+  }
+  return { connection };
+}
@@ -0,0 +1,154 @@
+import { getDb } from "@/lib/mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import { decryptSecret, encryptSecret } from "@/lib/secrets";
+import { invalidateConnectionPools } from "@/lib/db-pools";
+import { invalidateQueryCache } from "@/lib/query-cache";
+
+export const CONNECTIONS_COLLECTION = "db_connections";
+
+export type ConnectionsState = {
+  connections: DbConnection[];
+  activeId?: string;
+};
+
+async function readStoredState(): Promise<ConnectionsState> {
+  const db = await getDb();
+  const collection = db.collection(CONNECTIONS_COLLECTION);
+  const doc = await collection.findOne({ id: "default" });
+  if (!doc) {
+    return { connections: [], activeId: undefined };
+  }
+  return {
+    connections: (doc.connections || []) as DbConnection[],
+    activeId: doc.activeId,
+  };
+}
+
+async function writeStoredState(state: ConnectionsState): Promise<void> {
+  const db = await getDb();
+  const collection = db.collection(CONNECTIONS_COLLECTION);
+  await collection.updateOne(
+    { id: "default" },
+    {
+      $set: {
+        id: "default",
+        connections: state.connections,
+        activeId: state.activeId,
+        updatedAt: new Date(),
+      },
+    },
+    { upsert: true },
+  );
+}
+
+/**
+ * Load the stored connections document with passwords decrypted (server-side only)
+ */
+export async function getConnectionsState(): Promise<ConnectionsState> {
+  const state = await readStoredState();
+  return {
+    ...state,
+    connections: state.connections.map((conn) => ({
+      ...conn,
+      password: conn.password ? decryptSecret(conn.password) : "",
+    })),
+  };
+}
+
+/**
+ * Encrypt passwords and persist the connections document, closing pools
+ * and dropping cached results for connections that were removed or edited
+ */
+export async function saveConnectionsState(state: ConnectionsState): Promise<void> {
+  await writeStoredState({
+    ...state,
+    connections: state.connections.map((conn) => ({
+      ...conn,
+      password: encryptSecret(conn.password || ""),
+    })),
+  });
+  await invalidateConnectionPools(state.connections);
+  await invalidateQueryCache(state.connections);
+}
+
+/**
+ * Re-encrypt every stored password with the current master key.
+ * Secrets written under a key listed in CONNECTION_SECRET_KEY_PREVIOUS
+ * stay readable until this has run.
+ */
+export async function rotateConnectionSecrets(): Promise<number> {
+  const state = await getConnectionsState();
+  await saveConnectionsState(state);
+  return state.connections.filter((c) => c.password).length;
+}
+
+/**
+ * Resolve a single connection (including its password) by id
+ */
+export async function getConnectionById(
+  connectionId?: string,
+): Promise<DbConnection | null> {
+  if (!connectionId) return null;
+  const { connections } = await getConnectionsState();
+  return connections.find((c) => c.id === connectionId) ?? null;
+}
+
+/**
+ * Strip the password before a connection is sent to the browser
+ */
+export function redactConnection(conn: DbConnection): DbConnection {
+  return {
+    ...conn,
+    password: "",
+    hasPassword: Boolean(conn.password),
+  };
+}
+
+// Where a password is sent: a saved one is only kept while these stay the same
+const sameEndpoint = (a: DbConnection, b: DbConnection) =>
+  (a.type || "mysql") === (b.type || "mysql") &&
+  (a.host || "") === (b.host || "") &&
+  Number(a.port || 0) === Number(b.port || 0) &&
+  (a.user || "") === (b.user || "") &&
+  (a.filePath || "") === (b.filePath || "");
+
+/**
+ * Merge connections posted by the browser with the stored ones.
+ * The browser only ever sees redacted passwords, so an empty password
+ * means "keep the stored one", unless clearPassword is set or the
+ * connection now points at another server or user.
+ */
+export function mergeConnectionSecrets(
+  incoming: DbConnection[],
+  stored: DbConnection[],
+): DbConnection[] {
+  return incoming.map((conn) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { hasPassword, clearPassword, ...rest } = conn;
+    if (rest.password) return rest;
+    const existing = stored.find((c) => c.id === conn.id);
+    if (clearPassword || !existing || !sameEndpoint(existing, rest)) {
+      return { ...rest, password: "" };
+    }
+    return { ...rest, password: existing.password };
+  });
+}
+
+/**
+ * Dataset connections are created, repointed and removed by lib/datasets.ts.
+ * Keep the stored ones the browser dropped, and their file, so a page
+ * loaded before an upload cannot undo it.
+ */
+export function keepDatasetConnections(
+  incoming: DbConnection[],
+  stored: DbConnection[],
+): DbConnection[] {
+  const datasets = stored.filter((c) => c.datasetId);
+  const merged = incoming.map((conn) => {
+    const existing = datasets.find((c) => c.id === conn.id);
+    return existing
+      ? { ...conn, type: existing.type, filePath: existing.filePath, datasetId: existing.datasetId }
+      : conn;
+  });
+  return [...merged, ...datasets.filter((c) => !incoming.some((conn) => conn.id === c.id))];
+}
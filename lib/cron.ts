@@ -0,0 +1,165 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+// for scheduled reports. Supports *, lists, ranges, steps and month/day names.
+
+type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>; // 0 = Sunday
+  anyDay: boolean; // Day-of-month is *
+  anyWeekday: boolean; // Day-of-week is *
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Schedules are read in this zone; Thailand has no daylight saving time
+export const REPORT_TIMEZONE = process.env.REPORT_TIMEZONE || "Asia/Bangkok";
+
+// Enough to find a run of "0 0 29 2 *" (next leap day) from any date
+const MAX_SEARCH_STEPS = 100000;
+
+const parseValue = (token: string, index: number) => {
+  const lower = token.toLowerCase();
+  if (index === 3 && MONTH_NAMES.includes(lower)) return MONTH_NAMES.indexOf(lower) + 1;
+  if (index === 4 && DAY_NAMES.includes(lower)) return DAY_NAMES.indexOf(lower);
+  if (!/^\d+$/.test(token)) throw new Error(`Invalid cron value "${token}"`);
+  return Number(token);
+};
+
+const parseField = (field: string, index: number): Set<number> => {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, index);
+      end = parseValue(to, index);
+    } else {
+      start = parseValue(range, index);
+      // "5/15" means from 5 to the end of the range
+      end = stepText === undefined ? start : max;
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      // Day-of-week 7 is Sunday too
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parse a cron expression; throws with a readable message when invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day month weekday");
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map(parseField);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes to add to UTC to get wall-clock time in timeZone at date
+const zoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+  );
+  return Math.round((wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+// Standard cron: when both day fields are restricted, either may match
+const dayMatches = (schedule: CronSchedule, local: Date) => {
+  const day = schedule.days.has(local.getUTCDate());
+  const weekday = schedule.weekdays.has(local.getUTCDay());
+  if (schedule.anyDay && schedule.anyWeekday) return true;
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+};
+
+/**
+ * First time strictly after `after` that matches the expression, reading the
+ * fields as wall-clock time in timeZone. The zone's offset at `after` is used
+ * for the whole search, so a DST change in between may shift a run by an hour.
+ */
+export function nextCronRun(
+  expression: string,
+  after: Date = new Date(),
+  timeZone: string = REPORT_TIMEZONE,
+): Date {
+  const schedule = parseCron(expression);
+  const offsetMs = zoneOffsetMinutes(after, timeZone) * 60000;
+  // Walk wall-clock time using the UTC getters of a shifted date
+  const local = new Date(Math.floor((after.getTime() + offsetMs) / 60000) * 60000 + 60000);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(local.getUTCMonth() + 1)) {
+      local.setUTCMonth(local.getUTCMonth() + 1, 1);
+      local.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, local)) {
+      local.setUTCDate(local.getUTCDate() + 1);
+      local.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(local.getUTCHours())) {
+      local.setUTCHours(local.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(local.getUTCMinutes())) {
+      local.setUTCMinutes(local.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return new Date(local.getTime() - offsetMs);
+    }
+  }
+  throw new Error("Cron expression never matches");
+}
@@ -0,0 +1,80 @@
+// Browser-only: CSV files written chunk by chunk, so large exports never
+// have to exist as one string
+
+type CsvWriter = {
+  write(rows: Record<string, unknown>[]): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+};
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const csvCell = (value: unknown) => {
+  if (value == null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = (rows: unknown[][]) =>
+  rows.map((cells) => `${cells.map(csvCell).join(",")}\r\n`).join("");
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Start a CSV file with a header row. Where the browser supports it the user
+ * picks the file and rows go straight to disk; otherwise each chunk becomes
+ * its own Blob part and the file is downloaded on close(). Returns null when
+ * the user cancels the file picker.
+ */
+export async function createCsvWriter(
+  fileName: string,
+  headers: string[],
+): Promise<CsvWriter | null> {
+  const toText = (rows: Record<string, unknown>[]) =>
+    csvLines(rows.map((row) => headers.map((header) => row[header])));
+  // BOM so Excel reads Thai text as UTF-8
+  const head = `\uFEFF${csvLines([headers])}`;
+
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker })
+    .showSaveFilePicker;
+  if (picker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await picker({
+        suggestedName: fileName,
+        types: [{ description: "CSV", accept: { "text/csv": [".csv"] } }],
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return null;
+      throw error;
+    }
+    const file = await handle.createWritable();
+    await file.write(head);
+    return {
+      write: (rows) => file.write(toText(rows)),
+      close: () => file.close(),
+      abort: () => file.abort(),
+    };
+  }
+
+  const parts: Blob[] = [new Blob([head])];
+  return {
+    write: async (rows) => {
+      parts.push(new Blob([toText(rows)]));
+    },
+    close: async () => downloadBlob(new Blob(parts, { type: "text/csv;charset=utf-8" }), fileName),
+    abort: async () => {
+      parts.length = 0;
+    },
+  };
+}
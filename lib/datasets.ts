@@ -0,0 +1,307 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { getDb } from "@/lib/mongodb";
+import { AuthUser } from "@/lib/auth";
+import { getConnectionsState, saveConnectionsState } from "@/lib/connections";
+import { getDatasetDir } from "@/lib/db-driver";
+import { createTableFromText } from "@/lib/duckdb-load";
+import { DbConnection } from "@/hooks/use-connections";
+import { Dataset, DatasetColumn, DatasetColumnType, DatasetVersion } from "@/types/dataset";
+
+// CSV/Excel uploads for ad-hoc charts. Each upload is loaded into its own
+// DuckDB file (DATASET_DIR/<dataset id>/v<version>.duckdb) and the dataset
+// gets a DuckDB connection pointing at the current version, so chart
+// dialogs, filters and custom SQL work on it like on any other database.
+
+export const DATASETS_COLLECTION = "datasets";
+
+export const DATASET_MAX_UPLOAD_BYTES =
+  (Number(process.env.DATASET_MAX_UPLOAD_MB) || 20) * 1024 * 1024;
+const MAX_ROWS = Number(process.env.DATASET_MAX_ROWS) || 500000;
+
+export const DATASET_FILE_TYPES = [".csv", ".xlsx", ".xls"];
+
+const CAST_TYPES: Record<DatasetColumnType, string> = {
+  number: "DOUBLE",
+  boolean: "BOOLEAN",
+  date: "DATE",
+  timestamp: "TIMESTAMP",
+  text: "VARCHAR",
+};
+
+const BOOLEAN = /^(true|false)$/i;
+const NUMBER = /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?([eE][-+]?\d+)?$/;
+// Codes such as phone numbers and zero-padded ids stay text
+const LEADING_ZERO = /^[-+]?0\d/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+export type DatasetTable = {
+  sheet?: string;
+  columns: DatasetColumn[];
+  rows: (string | null)[][]; // Text as DuckDB casts it to the column type
+};
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Excel dates arrive as local-time Dates; midnight means a plain date
+const formatDate = (date: Date) => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (!date.getHours() && !date.getMinutes() && !date.getSeconds()) return day;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const toText = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : formatDate(value);
+  const text = String(value).trim();
+  return text === "" ? null : text;
+};
+
+const inferType = (values: string[]): DatasetColumnType => {
+  if (values.length === 0) return "text";
+  if (values.every((v) => BOOLEAN.test(v))) return "boolean";
+  if (values.every((v) => NUMBER.test(v) && !LEADING_ZERO.test(v))) return "number";
+  if (values.every((v) => DATE.test(v))) return "date";
+  if (values.every((v) => DATE.test(v) || TIMESTAMP.test(v))) return "timestamp";
+  return "text";
+};
+
+// Trimmed, never empty and unique ignoring case, as DuckDB compares names
+const cleanHeaders = (header: unknown[], width: number) => {
+  const seen = new Set<string>();
+  return Array.from({ length: width }, (_, i) => {
+    const base = toText(header[i])?.replace(/\s+/g, " ") || `column_${i + 1}`;
+    let name = base;
+    for (let n = 2; seen.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+    seen.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// Table name from the dataset name; Thai or symbol-only names fall back to "data"
+const toTableName = (name: string) => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+  if (!slug) return "data";
+  return /^\d/.test(slug) ? `t_${slug}` : slug;
+};
+
+/**
+ * Read the first row as headers and the rest as data from a CSV (UTF-8) or
+ * an Excel sheet (the first one unless named), inferring column types
+ */
+export async function readDatasetFile(
+  fileName: string,
+  data: Buffer,
+  sheetName?: string,
+): Promise<{ table: DatasetTable; error?: undefined } | { table?: undefined; error: string }> {
+  const extension = path.extname(fileName).toLowerCase();
+  if (!DATASET_FILE_TYPES.includes(extension)) {
+    return { error: `Unsupported file type, expected ${DATASET_FILE_TYPES.join(", ")}` };
+  }
+
+  const XLSX = await import("xlsx");
+  // CSV cells are read as text so types are inferred the same way for both formats
+  const workbook =
+    extension === ".csv"
+      ? XLSX.read(data.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true })
+      : XLSX.read(data, { type: "buffer", cellDates: true });
+  const sheet = extension === ".csv" ? undefined : sheetName || workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[sheet ?? workbook.SheetNames[0]];
+  if (!worksheet) return { error: `Sheet "${sheet}" not found` };
+
+  const [header = [], ...records] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: true,
+    defval: null,
+    blankrows: false,
+  });
+  if (records.length === 0) return { error: "The file has no data rows" };
+  if (records.length > MAX_ROWS) {
+    return { error: `The file has more than ${MAX_ROWS} rows` };
+  }
+
+  const width = records.reduce((max, record) => Math.max(max, record.length), header.length);
+  const names = cleanHeaders(header, width);
+  const rows = records.map((record) => names.map((_, i) => toText(record[i])));
+  const columns = names.map((name, i) => ({
+    name,
+    type: inferType(rows.map((row) => row[i]).filter((v): v is string => v !== null)),
+  }));
+  // Thousands separators would fail the cast
+  columns.forEach((column, i) => {
+    if (column.type !== "number") return;
+    for (const row of rows) row[i] = row[i]?.replace(/,/g, "") ?? null;
+  });
+
+  return { table: { sheet, columns, rows } };
+}
+
+/**
+ * Write the rows into a new DuckDB file with one typed table. The file is
+ * built under a temporary name and renamed, so a connection never sees it
+ * half written.
+ */
+async function writeDatasetFile(file: string, tableName: string, table: DatasetTable) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${randomUUID()}.tmp`;
+  const instance = await DuckDBInstance.create(temp);
+  const conn = await instance.connect();
+  try {
+    await createTableFromText(
+      conn,
+      tableName,
+      table.columns.map((c) => ({ name: c.name, sqlType: CAST_TYPES[c.type] })),
+      table.rows,
+    );
+    await conn.run("CHECKPOINT");
+  } catch (error) {
+    conn.closeSync();
+    instance.closeSync();
+    await fs.rm(temp, { force: true });
+    await fs.rm(`${temp}.wal`, { force: true });
+    throw error;
+  }
+  conn.closeSync();
+  instance.closeSync();
+  await fs.rename(temp, file);
+}
+
+const versionFile = (datasetId: string, version: number) =>
+  path.join(getDatasetDir(), datasetId, `v${version}.duckdb`);
+
+// Point the dataset's connection at a version file, creating it on first upload.
+// Saving drops pooled handles and cached results of the previous version.
+async function saveDatasetConnection(dataset: Dataset) {
+  const state = await getConnectionsState();
+  const filePath = versionFile(dataset.id, dataset.currentVersion);
+  const existing = state.connections.find((c) => c.id === dataset.connectionId);
+  const connection: DbConnection = existing
+    ? { ...existing, filePath }
+    : {
+        id: dataset.connectionId,
+        name: dataset.name,
+        type: "duckdb",
+        host: "",
+        port: 0,
+        user: "",
+        password: "",
+        database: "",
+        filePath,
+        datasetId: dataset.id,
+        aiReadable: true,
+      };
+  await saveConnectionsState({
+    connections: existing
+      ? state.connections.map((c) => (c.id === connection.id ? connection : c))
+      : [...state.connections, connection],
+    activeId: state.activeId ?? connection.id,
+  });
+}
+
+export async function listDatasets(): Promise<Dataset[]> {
+  const db = await getDb();
+  return db
+    .collection<Dataset>(DATASETS_COLLECTION)
+    .find({}, { projection: { _id: 0 } })
+    .sort({ name: 1 })
+    .toArray();
+}
+
+export async function getDataset(datasetId: string): Promise<Dataset | null> {
+  const db = await getDb();
+  return db
+    .collection<Dataset>(DATASETS_COLLECTION)
+    .findOne({ id: datasetId }, { projection: { _id: 0 } });
+}
+
+/**
+ * Store an upload as a new dataset, or as the next version of an existing
+ * one. The new version becomes current; earlier files are kept for restore.
+ */
+export async function saveDatasetVersion(
+  user: AuthUser,
+  upload: { name: string; fileName: string; table: DatasetTable },
+  existing?: Dataset,
+): Promise<Dataset> {
+  const now = new Date().toISOString();
+  const dataset: Dataset = existing ?? {
+    id: createId("dataset"),
+    name: upload.name,
+    tableName: toTableName(upload.name),
+    connectionId: createId("conn"),
+    currentVersion: 0,
+    versions: [],
+    createdBy: user.email,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const version: DatasetVersion = {
+    version: Math.max(0, ...dataset.versions.map((v) => v.version)) + 1,
+    fileName: upload.fileName,
+    ...(upload.table.sheet ? { sheet: upload.table.sheet } : {}),
+    rowCount: upload.table.rows.length,
+    columns: upload.table.columns,
+    uploadedBy: user.email,
+    uploadedAt: now,
+  };
+
+  await writeDatasetFile(versionFile(dataset.id, version.version), dataset.tableName, upload.table);
+  const saved: Dataset = {
+    ...dataset,
+    name: upload.name || dataset.name,
+    currentVersion: version.version,
+    versions: [...dataset.versions, version],
+    updatedAt: now,
+  };
+  const db = await getDb();
+  await db
+    .collection<Dataset>(DATASETS_COLLECTION)
+    .replaceOne({ id: saved.id }, saved, { upsert: true });
+  await saveDatasetConnection(saved);
+  return saved;
+}
+
+/**
+ * Make an earlier version current again
+ */
+export async function restoreDatasetVersion(dataset: Dataset, version: number): Promise<Dataset> {
+  const restored: Dataset = {
+    ...dataset,
+    currentVersion: version,
+    updatedAt: new Date().toISOString(),
+  };
+  const db = await getDb();
+  await db
+    .collection<Dataset>(DATASETS_COLLECTION)
+    .updateOne(
+      { id: dataset.id },
+      { $set: { currentVersion: version, updatedAt: restored.updatedAt } },
+    );
+  await saveDatasetConnection(restored);
+  return restored;
+}
+
+/**
+ * Delete a dataset with its connection and every version file
+ */
+export async function deleteDataset(dataset: Dataset): Promise<void> {
+  const state = await getConnectionsState();
+  const connections = state.connections.filter((c) => c.id !== dataset.connectionId);
+  await saveConnectionsState({
+    connections,
+    activeId: state.activeId === dataset.connectionId ? connections[0]?.id : state.activeId,
+  });
+  const db = await getDb();
+  await db.collection(DATASETS_COLLECTION).deleteOne({ id: dataset.id });
+  await fs.rm(path.join(getDatasetDir(), dataset.id), { recursive: true, force: true });
+}
@@ -0,0 +1,138 @@
+import { DuckDBConnection, DuckDBInstance, DuckDBValue } from "@duckdb/node-api";
+import { DbConnection } from "@/hooks/use-connections";
+import {
+  DbDriver,
+  DriverSession,
+  groupTables,
+  resolveDbFile,
+  STATEMENT_TIMEOUT_CODE,
+  toBindable,
+  withStatementTimeout,
+} from "@/lib/db-driver";
+import { getDefaultSchema, getQueryTimeoutMs } from "@/lib/connection-policy";
+import { splitTableName } from "@/lib/grid-query";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+// The file is opened read-only, so every statement is read-only, and without
+// external access, so SQL cannot read other files on the server. The instance
+// is cached per file and shared; each session gets its own connection.
+const openConnection = async (connection: DbConnection) => {
+  const instance = await DuckDBInstance.fromCache(resolveDbFile(connection), {
+    access_mode: "READ_ONLY",
+    enable_external_access: "false",
+  });
+  return instance.connect();
+};
+
+// Metadata queries outside a session: no statement timeout
+const withConnection = async <T>(
+  connection: DbConnection,
+  run: (conn: DuckDBConnection) => Promise<T>,
+): Promise<T> => {
+  const conn = await openConnection(connection);
+  try {
+    return await run(conn);
+  } finally {
+    conn.closeSync();
+  }
+};
+
+const readRows = async (conn: DuckDBConnection, sql: string, params?: unknown[]) => {
+  const reader = await conn.runAndReadAll(sql, toBindable(params) as DuckDBValue[]);
+  return { rows: reader.getRowObjectsJson(), columns: reader.columnNames() };
+};
+
+const connect = async (connection: DbConnection, database?: string): Promise<DriverSession> => {
+  const conn = await openConnection(connection);
+  const timeoutMs = getQueryTimeoutMs(connection);
+  try {
+    // An attached database other than the file's own
+    if (database) await conn.run(`USE ${quoteSqlIdentifier(database, "duckdb")}`);
+  } catch (error) {
+    conn.closeSync();
+    throw error;
+  }
+
+  return {
+    query: (sql, { params } = {}) =>
+      withStatementTimeout(readRows(conn, sql, params), timeoutMs, () => conn.interrupt()),
+    openCursor: async (sql, params, batchSize) => {
+      const result = await conn.stream(sql, toBindable(params) as DuckDBValue[]);
+      // Chunks arrive at DuckDB's vector size; they are re-cut to batchSize
+      const chunks = result.yieldRowObjectJson();
+      let pending: Record<string, unknown>[] = [];
+      return {
+        read: async () => {
+          while (pending.length < batchSize) {
+            const next = await chunks.next();
+            if (next.done) break;
+            pending = pending.concat(next.value);
+          }
+          const batch = pending.slice(0, batchSize);
+          pending = pending.slice(batchSize);
+          return batch;
+        },
+        finish: async () => {},
+      };
+    },
+    canceller: async () => async () => conn.interrupt(),
+    release: async () => conn.closeSync(),
+  };
+};
+
+export const duckdbDriver: DbDriver = {
+  type: "duckdb",
+  dialect: "duckdb",
+  connect,
+
+  listDatabases: (connection) =>
+    withConnection(connection, async (conn) => {
+      const reader = await conn.runAndReadAll(
+        "SELECT database_name FROM duckdb_databases() WHERE NOT internal ORDER BY database_name",
+      );
+      return reader.getRowObjectsJson().map((r) => r.database_name as string);
+    }),
+
+  listTables: (connection, database) =>
+    withConnection(connection, async (conn) => {
+      const schema = getDefaultSchema(connection, database);
+      const reader = await conn.runAndReadAll(
+        `SELECT table_schema, table_name FROM information_schema.tables
+         WHERE table_catalog = COALESCE($1, current_database())
+           AND table_schema NOT IN ('information_schema', 'pg_catalog')
+         ORDER BY table_schema <> $2, table_schema, table_name`,
+        [database || null, schema ?? null],
+      );
+      return groupTables(
+        reader
+          .getRowObjectsJson()
+          .map((r) => ({ schema: r.table_schema as string, table: r.table_name as string })),
+        schema,
+      );
+    }),
+
+  describeTable: (connection, database, table) =>
+    withConnection(connection, async (conn) => {
+      const { schema = getDefaultSchema(connection, database), table: tableName } =
+        splitTableName(table);
+      const reader = await conn.runAndReadAll(
+        `SELECT column_name, data_type, is_nullable FROM information_schema.columns
+         WHERE table_catalog = COALESCE($1, current_database()) AND table_schema = $2 AND table_name = $3
+         ORDER BY ordinal_position`,
+        [database || null, schema ?? null, tableName],
+      );
+      return reader.getRowObjectsJson().map((r) => ({
+        name: r.column_name as string,
+        type: r.data_type as string,
+        nullable: r.is_nullable === "YES",
+      }));
+    }),
+
+  quoteIdent: (name) => quoteSqlIdentifier(name, "duckdb"),
+
+  classifyError: (error) => {
+    const { code, message = "" } = (error ?? {}) as { code?: string; message?: string };
+    if (code === STATEMENT_TIMEOUT_CODE) return "timeout";
+    return /INTERRUPT/i.test(message) ? "cancelled" : null;
+  },
+};
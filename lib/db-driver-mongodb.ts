@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+import { Document, MongoClient } from "mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import { DbDriver, QueryResultSet } from "@/lib/db-driver";
+import { getMongoClient, leaseMongoClient } from "@/lib/db-pools";
+import { getQueryTimeoutMs } from "@/lib/connection-policy";
+import { toPlainRow } from "@/lib/mongo-pipeline";
+
+// Databases MongoDB keeps for itself
+const SYSTEM_DATABASES = new Set(["admin", "config", "local"]);
+// Documents sampled to list a collection's fields
+const DESCRIBE_SAMPLE_SIZE = 100;
+
+/**
+ * Aggregation pipelines on one database, the MongoDB counterpart of a
+ * DriverSession. Pipelines are tagged with a comment so they can be found
+ * and killed from outside (see lib/query-control runPipeline).
+ */
+export type PipelineSession = {
+  aggregate(collection: string, pipeline: Document[]): Promise<QueryResultSet>;
+  canceller(): Promise<(() => Promise<void>) | null>;
+  release(): Promise<void>;
+};
+
+// killOp for our own operation, found by its comment
+const killTagged = async (client: MongoClient, tag: string) => {
+  const admin = client.db("admin");
+  const ops = await admin
+    .aggregate([{ $currentOp: { allUsers: false } }, { $match: { "command.comment": tag } }])
+    .toArray();
+  await Promise.all(ops.map((op) => admin.command({ killOp: 1, op: op.opid })));
+};
+
+export async function openPipelineSession(
+  connection: DbConnection,
+  database: string,
+): Promise<PipelineSession> {
+  const { client, release } = await leaseMongoClient(connection);
+  const timeoutMs = getQueryTimeoutMs(connection);
+  const tag = `bearvault:${randomUUID()}`;
+
+  return {
+    aggregate: async (collection, pipeline) => {
+      const documents = await client
+        .db(database)
+        .collection(collection)
+        .aggregate(pipeline, { comment: tag, ...(timeoutMs ? { maxTimeMS: timeoutMs } : {}) })
+        .toArray();
+      const rows = documents.map(toPlainRow);
+      // No result metadata: columns are the fields in order of first appearance
+      const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      return { rows, columns };
+    },
+    canceller: async () => () => killTagged(client, tag),
+    // The client pools its own sockets; this only ends the lease
+    release: async () => release(),
+  };
+}
+
+const bsonTypeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (value instanceof Date) return "date";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "object") {
+    return (value as { _bsontype?: string })._bsontype?.toLowerCase() ?? "object";
+  }
+  return typeof value;
+};
+
+export const mongodbDriver: DbDriver = {
+  type: "mongodb",
+  connect: async () => {
+    throw new Error("MongoDB connections run aggregation pipelines, not SQL");
+  },
+
+  listDatabases: async (connection) => {
+    const client = await getMongoClient(connection);
+    const { databases } = await client.db("admin").admin().listDatabases({ nameOnly: true });
+    return databases.map((d) => d.name).filter((name) => !SYSTEM_DATABASES.has(name));
+  },
+
+  // Collections and views; the database is the schema, so there is a single group
+  listTables: async (connection, database) => {
+    const client = await getMongoClient(connection);
+    const collections = await client
+      .db(database)
+      .listCollections({}, { nameOnly: true, authorizedCollections: true })
+      .toArray();
+    const tables = collections
+      .map((c) => c.name)
+      .filter((name) => !name.startsWith("system."))
+      .sort((a, b) => a.localeCompare(b));
+    return tables.length ? [{ schema: database, tables }] : [];
+  },
+
+  // Collections have no schema: fields come from a sample of documents
+  describeTable: async (connection, database, table) => {
+    const client = await getMongoClient(connection);
+    const sample = await client
+      .db(database)
+      .collection(table)
+      .aggregate([{ $sample: { size: DESCRIBE_SAMPLE_SIZE } }])
+      .toArray();
+    const fields = new Map<string, { type: string; seen: number; nullable: boolean }>();
+    for (const document of sample) {
+      for (const [name, value] of Object.entries(document)) {
+        const field = fields.get(name) ?? { type: "null", seen: 0, nullable: false };
+        if (field.type === "null") field.type = bsonTypeOf(value);
+        field.seen += 1;
+        if (value === null) field.nullable = true;
+        fields.set(name, field);
+      }
+    }
+    return Array.from(fields, ([name, field]) => ({
+      name,
+      type: field.type,
+      nullable: field.nullable || field.seen < sample.length,
+    }));
+  },
+
+  quoteIdent: (name) => name,
+
+  // 50 MaxTimeMSExpired, 11601 Interrupted (killOp)
+  classifyError: (error) => {
+    const { code } = (error ?? {}) as { code?: number };
+    return code === 50 ? "timeout" : code === 11601 ? "cancelled" : null;
+  },
+};
@@ -0,0 +1,153 @@
+import mssql from "mssql";
+import { DbConnection } from "@/hooks/use-connections";
+import {
+  DbDriver,
+  DriverSession,
+  groupTables,
+  STATEMENT_TIMEOUT_CODE,
+  withStatementTimeout,
+} from "@/lib/db-driver";
+import { getMssqlPool } from "@/lib/db-pools";
+import { getDefaultSchema, getQueryTimeoutMs } from "@/lib/connection-policy";
+import { splitTableName } from "@/lib/grid-query";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+// Statements use @p1, @p2, ... (lib/sql-dialect), bound here by position
+const bindParams = (request: mssql.Request, params: unknown[] | undefined) => {
+  (params || []).forEach((value, i) => request.input(`p${i + 1}`, value));
+  return request;
+};
+
+// Result columns in select order, known even without rows
+const columnNames = (recordset: mssql.IRecordSet<unknown> | undefined) =>
+  Object.values(recordset?.columns ?? {})
+    .sort((a, b) => a.index - b.index)
+    .map((column) => column.name);
+
+const connect = async (connection: DbConnection, database?: string): Promise<DriverSession> => {
+  const pool = await getMssqlPool(connection, database);
+  const timeoutMs = getQueryTimeoutMs(connection);
+  // SQL Server has no session statement timeout; the running request is
+  // cancelled from a timer instead (and by /api/db/cancel)
+  let current: mssql.Request | null = null;
+  let transaction: mssql.Transaction | null = null;
+
+  const run = async (parent: mssql.ConnectionPool | mssql.Transaction, sql: string, params?: unknown[]) => {
+    const request = bindParams(parent.request(), params);
+    current = request;
+    const result = await withStatementTimeout(request.query(sql), timeoutMs, () => request.cancel());
+    return {
+      rows: (result.recordset ?? []) as Record<string, unknown>[],
+      columns: columnNames(result.recordset),
+    };
+  };
+
+  // There is no read-only transaction: reads run in one that is always rolled back
+  const begin = async () => {
+    transaction = new mssql.Transaction(pool);
+    await transaction.begin();
+    return transaction;
+  };
+  const rollback = async () => {
+    const open = transaction;
+    transaction = null;
+    await open?.rollback();
+  };
+
+  return {
+    query: async (sql, { params, readOnly } = {}) => {
+      if (!readOnly) return run(pool, sql, params);
+      const tx = await begin();
+      try {
+        return await run(tx, sql, params);
+      } finally {
+        await rollback().catch(() => {});
+      }
+    },
+    openCursor: async (sql, params, batchSize) => {
+      const tx = await begin();
+      const request = bindParams(tx.request(), params);
+      current = request;
+      const rows = request.toReadableStream({ highWaterMark: batchSize });
+      request.query(sql, () => {});
+      const iterator = rows[Symbol.asyncIterator]();
+      return {
+        read: async () => {
+          const batch: Record<string, unknown>[] = [];
+          while (batch.length < batchSize) {
+            const next = await iterator.next();
+            if (next.done) break;
+            batch.push(next.value as Record<string, unknown>);
+          }
+          return batch;
+        },
+        finish: rollback,
+      };
+    },
+    canceller: async () => async () => {
+      current?.cancel();
+    },
+    // A discarded session may still be streaming; stop it so the rollback can run
+    release: async (discard) => {
+      if (discard) current?.cancel();
+      await rollback().catch(() => {});
+    },
+  };
+};
+
+export const mssqlDriver: DbDriver = {
+  type: "mssql",
+  dialect: "mssql",
+  connect,
+
+  listDatabases: async (connection) => {
+    const pool = await getMssqlPool(connection);
+    const result = await pool
+      .request()
+      .query("SELECT name FROM sys.databases WHERE database_id > 4 OR name = DB_NAME() ORDER BY name");
+    return result.recordset.map((r) => r.name as string);
+  },
+
+  listTables: async (connection, database) => {
+    const schema = getDefaultSchema(connection, database);
+    const pool = await getMssqlPool(connection, database);
+    const result = await pool
+      .request()
+      .input("schema", schema)
+      .query(
+        `SELECT TABLE_SCHEMA, TABLE_NAME FROM INFORMATION_SCHEMA.TABLES
+         WHERE TABLE_SCHEMA NOT IN ('sys', 'INFORMATION_SCHEMA')
+         ORDER BY CASE WHEN TABLE_SCHEMA = @schema THEN 0 ELSE 1 END, TABLE_SCHEMA, TABLE_NAME`,
+      );
+    return groupTables(
+      result.recordset.map((r) => ({ schema: r.TABLE_SCHEMA as string, table: r.TABLE_NAME as string })),
+      schema,
+    );
+  },
+
+  describeTable: async (connection, database, table) => {
+    const { schema = getDefaultSchema(connection, database), table: tableName } =
+      splitTableName(table);
+    const pool = await getMssqlPool(connection, database);
+    const result = await pool
+      .request()
+      .input("schema", schema)
+      .input("table", tableName)
+      .query(
+        `SELECT COLUMN_NAME, DATA_TYPE, IS_NULLABLE FROM INFORMATION_SCHEMA.COLUMNS
+         WHERE TABLE_SCHEMA = @schema AND TABLE_NAME = @table ORDER BY ORDINAL_POSITION`,
+      );
+    return result.recordset.map((r) => ({
+      name: r.COLUMN_NAME as string,
+      type: r.DATA_TYPE as string,
+      nullable: r.IS_NULLABLE === "YES",
+    }));
+  },
+
+  quoteIdent: (name) => quoteSqlIdentifier(name, "mssql"),
+
+  classifyError: (error) => {
+    const { code } = (error ?? {}) as { code?: string };
+    return code === STATEMENT_TIMEOUT_CODE ? "timeout" : code === "ECANCEL" ? "cancelled" : null;
+  },
+};
@@ -0,0 +1,161 @@
+import mysql from "mysql2/promise";
+import type { Connection as CoreConnection } from "mysql2";
+import { DbConnection } from "@/hooks/use-connections";
+import { DbDriver, DriverSession, RowBatchReader } from "@/lib/db-driver";
+import { getMysqlPoolConnection } from "@/lib/db-pools";
+import { getQueryTimeoutMs } from "@/lib/connection-policy";
+import { quoteTableName } from "@/lib/grid-query";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+/**
+ * Run a query on MySQL inside a READ ONLY transaction
+ */
+async function queryReadOnly(
+  connection: mysql.Connection,
+  sql: string,
+  params?: unknown[],
+): Promise<[mysql.QueryResult, mysql.FieldPacket[]]> {
+  await connection.query("START TRANSACTION READ ONLY");
+  try {
+    const result = await connection.query(sql, params);
+    await connection.query("ROLLBACK");
+    return result;
+  } catch (error) {
+    await connection.query("ROLLBACK").catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Stream a query inside a READ ONLY transaction, reading rows in batches as
+ * the driver receives them
+ */
+async function openReadOnlyCursor(
+  connection: mysql.PoolConnection,
+  sql: string,
+  params: unknown[] | undefined,
+  batchSize: number,
+): Promise<RowBatchReader> {
+  await connection.query("START TRANSACTION READ ONLY");
+  // The promise wrapper has no streaming API; the underlying connection does
+  const core = connection.connection as unknown as CoreConnection;
+  const rows = core.query(sql, params).stream({ highWaterMark: batchSize });
+  const iterator = rows[Symbol.asyncIterator]();
+  return {
+    read: async () => {
+      const batch: Record<string, unknown>[] = [];
+      while (batch.length < batchSize) {
+        const next = await iterator.next();
+        if (next.done) break;
+        batch.push(next.value as Record<string, unknown>);
+      }
+      return batch;
+    },
+    finish: async () => {
+      await connection.query("ROLLBACK");
+    },
+  };
+}
+
+// KILL QUERY from a direct connection, since the pool may be saturated
+const killQuery = async (connection: DbConnection, threadId: number) => {
+  const { host, port, user, password } = connection;
+  const conn = await mysql.createConnection({
+    host,
+    port: port || 3306,
+    user,
+    password,
+  });
+  try {
+    await conn.query("KILL QUERY ?", [threadId]);
+  } finally {
+    await conn.end().catch(() => {});
+  }
+};
+
+const connect = async (connection: DbConnection, database?: string): Promise<DriverSession> => {
+  const conn = await getMysqlPoolConnection(connection, database);
+  try {
+    // Always set (0 = no limit) so pooled sessions never keep a stale value
+    await conn.query(`SET SESSION MAX_EXECUTION_TIME = ${getQueryTimeoutMs(connection) ?? 0}`);
+  } catch (error) {
+    conn.destroy();
+    throw error;
+  }
+
+  return {
+    query: async (sql, { params, readOnly } = {}) => {
+      const [rows, fields] = readOnly
+        ? await queryReadOnly(conn, sql, params)
+        : await conn.query(sql, params);
+      return {
+        rows: rows as Record<string, unknown>[],
+        columns: Array.isArray(fields) ? fields.map((field) => field.name) : [],
+      };
+    },
+    openCursor: (sql, params, batchSize) => openReadOnlyCursor(conn, sql, params, batchSize),
+    canceller: async () => {
+      const threadId = conn.threadId;
+      return threadId ? () => killQuery(connection, threadId) : null;
+    },
+    release: async (discard) => (discard ? conn.destroy() : conn.release()),
+  };
+};
+
+// Metadata queries outside a session: no statement timeout, errors discard the connection
+const withConnection = async <T>(
+  connection: DbConnection,
+  database: string | undefined,
+  run: (conn: mysql.PoolConnection) => Promise<T>,
+): Promise<T> => {
+  const conn = await getMysqlPoolConnection(connection, database);
+  try {
+    const result = await run(conn);
+    conn.release();
+    return result;
+  } catch (error) {
+    conn.destroy();
+    throw error;
+  }
+};
+
+export const mysqlDriver: DbDriver = {
+  type: "mysql",
+  dialect: "mysql",
+  connect,
+
+  listDatabases: (connection) =>
+    withConnection(connection, undefined, async (conn) => {
+      const [rows] = await conn.query<mysql.RowDataPacket[]>("SHOW DATABASES;");
+      return rows.map((r) => r["Database"] as string);
+    }),
+
+  // The database is the schema, so there is a single group
+  listTables: (connection, database) =>
+    withConnection(connection, database, async (conn) => {
+      const [rows] = await conn.query<mysql.RowDataPacket[]>("SHOW TABLES;");
+      const key = `Tables_in_${database}`;
+      const tables = rows.map((r) => (r as Record<string, unknown>)[key] as string);
+      return tables.length ? [{ schema: database, tables }] : [];
+    }),
+
+  describeTable: (connection, database, table) =>
+    withConnection(connection, database, async (conn) => {
+      const [rows] = await conn.query<mysql.RowDataPacket[]>(
+        `SHOW COLUMNS FROM ${quoteTableName(table, "mysql")}`,
+      );
+      return rows.map((r) => ({
+        name: r.Field as string,
+        type: r.Type as string,
+        nullable: (r.Null as string) === "YES",
+      }));
+    }),
+
+  quoteIdent: (name) => quoteSqlIdentifier(name, "mysql"),
+
+  // 3024 ER_QUERY_TIMEOUT, 1317 ER_QUERY_INTERRUPTED
+  classifyError: (error) => {
+    const { errno } = (error ?? {}) as { errno?: number };
+    return errno === 3024 ? "timeout" : errno === 1317 ? "cancelled" : null;
+  },
+};
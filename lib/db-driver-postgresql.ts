@@ -0,0 +1,174 @@
+import { Client, ClientBase, QueryResult, QueryResultRow } from "pg";
+import { DbConnection } from "@/hooks/use-connections";
+import { DbDriver, DriverSession, groupTables, RowBatchReader } from "@/lib/db-driver";
+import { getPgPoolClient } from "@/lib/db-pools";
+import { getDefaultSchema, getQueryTimeoutMs } from "@/lib/connection-policy";
+import { splitTableName } from "@/lib/grid-query";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+/**
+ * Run a query on PostgreSQL inside a READ ONLY transaction
+ */
+async function queryReadOnly<R extends QueryResultRow = QueryResultRow>(
+  client: ClientBase,
+  sql: string,
+  params?: unknown[],
+): Promise<QueryResult<R>> {
+  await client.query("BEGIN TRANSACTION READ ONLY");
+  try {
+    const result = await client.query<R>(sql, params);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Open a server-side cursor inside a READ ONLY transaction, so large results
+ * are fetched in batches instead of buffered
+ */
+async function openReadOnlyCursor(
+  client: ClientBase,
+  sql: string,
+  params: unknown[] | undefined,
+  batchSize: number,
+): Promise<RowBatchReader> {
+  await client.query("BEGIN TRANSACTION READ ONLY");
+  try {
+    await client.query(`DECLARE bearvault_cursor NO SCROLL CURSOR FOR ${sql}`, params);
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  }
+  return {
+    read: async () =>
+      (await client.query(`FETCH ${Math.trunc(batchSize)} FROM bearvault_cursor`)).rows,
+    finish: async () => {
+      await client.query("ROLLBACK");
+    },
+  };
+}
+
+// pg_cancel_backend from a direct connection, since the pool may be saturated
+const cancelBackend = async (connection: DbConnection, database: string | undefined, pid: number) => {
+  const { host, port, user, password } = connection;
+  const client = new Client({
+    host,
+    port: port || 5432,
+    user,
+    password,
+    database: database || connection.database || undefined,
+  });
+  await client.connect();
+  try {
+    await client.query("SELECT pg_cancel_backend($1)", [pid]);
+  } finally {
+    await client.end().catch(() => {});
+  }
+};
+
+const connect = async (connection: DbConnection, database?: string): Promise<DriverSession> => {
+  const client = await getPgPoolClient(connection, database);
+  try {
+    // Always set (0 = no limit) so pooled sessions never keep a stale value
+    await client.query(`SET statement_timeout = ${getQueryTimeoutMs(connection) ?? 0}`);
+  } catch (error) {
+    client.release(true);
+    throw error;
+  }
+
+  return {
+    query: async (sql, { params, readOnly } = {}) => {
+      const result = readOnly
+        ? await queryReadOnly(client, sql, params)
+        : await client.query(sql, params);
+      return {
+        rows: result.rows,
+        columns: result.fields?.map((field) => field.name) || [],
+      };
+    },
+    openCursor: (sql, params, batchSize) => openReadOnlyCursor(client, sql, params, batchSize),
+    canceller: async () => {
+      const result = await client.query<{ pid: number }>("SELECT pg_backend_pid() AS pid");
+      const pid = result.rows[0]?.pid;
+      return pid ? () => cancelBackend(connection, database, pid) : null;
+    },
+    release: async (discard) => client.release(discard),
+  };
+};
+
+export const postgresqlDriver: DbDriver = {
+  type: "postgresql",
+  dialect: "postgresql",
+  connect,
+
+  listDatabases: async (connection) => {
+    const client = await getPgPoolClient(connection, "postgres");
+    try {
+      const result = await client.query(
+        "SELECT datname FROM pg_database WHERE datistemplate = false;",
+      );
+      client.release();
+      return result.rows.map((r) => r.datname as string);
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+  },
+
+  listTables: async (connection, database) => {
+    const schema = getDefaultSchema(connection, database);
+    const client = await getPgPoolClient(connection, database);
+    try {
+      const result = await client.query(
+        `SELECT table_schema, table_name FROM information_schema.tables
+         WHERE table_type IN ('BASE TABLE', 'VIEW')
+           AND table_schema NOT IN ('pg_catalog', 'information_schema')
+           AND table_schema NOT LIKE 'pg\\_%'
+         ORDER BY table_schema <> $1, table_schema, table_name;`,
+        [schema],
+      );
+      client.release();
+      return groupTables(
+        result.rows.map((r) => ({ schema: r.table_schema as string, table: r.table_name as string })),
+        schema,
+      );
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+  },
+
+  describeTable: async (connection, database, table) => {
+    const { schema = getDefaultSchema(connection, database), table: tableName } =
+      splitTableName(table);
+    const client = await getPgPoolClient(connection, database);
+    try {
+      const result = await client.query(
+        `SELECT column_name, data_type, is_nullable FROM information_schema.columns WHERE table_name = $1 AND table_schema = $2 ORDER BY ordinal_position;`,
+        [tableName, schema],
+      );
+      client.release();
+      return result.rows.map((r) => ({
+        name: r.column_name as string,
+        type: r.data_type as string,
+        nullable: r.is_nullable === "YES",
+      }));
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+  },
+
+  quoteIdent: (name) => quoteSqlIdentifier(name, "postgresql"),
+
+  // 57014 query_canceled, for both statement_timeout and pg_cancel_backend
+  classifyError: (error) => {
+    const { code, message = "" } = (error ?? {}) as { code?: string; message?: string };
+    if (code !== "57014") return null;
+    if (/statement timeout/i.test(message)) return "timeout";
+    return /user request/i.test(message) ? "cancelled" : null;
+  },
+};
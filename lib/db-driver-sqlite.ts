@@ -0,0 +1,217 @@
+import { Worker } from "worker_threads";
+import Database from "better-sqlite3";
+import { DbConnection } from "@/hooks/use-connections";
+import {
+  DbDriver,
+  DriverSession,
+  QueryResultSet,
+  resolveDbFile,
+  STATEMENT_TIMEOUT_CODE,
+  toBindable,
+  withStatementTimeout,
+} from "@/lib/db-driver";
+import { getQueryTimeoutMs } from "@/lib/connection-policy";
+import { splitTableName } from "@/lib/grid-query";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+// Each session opens the file read-only, so every statement is read-only.
+// better-sqlite3 is synchronous, so a session runs its statements in its own
+// worker thread: the event loop stays free, and a statement that hits the
+// timeout or is cancelled is stopped by terminating the worker.
+const openDatabase = (connection: DbConnection) =>
+  new Database(resolveDbFile(connection), { readonly: true, fileMustExist: true });
+
+// Metadata queries outside a session: short, so they run in place
+const withDatabase = <T>(connection: DbConnection, run: (db: Database.Database) => T): Promise<T> => {
+  const db = openDatabase(connection);
+  try {
+    return Promise.resolve(run(db));
+  } finally {
+    db.close();
+  }
+};
+
+// Plain JS evaluated by the worker, so it needs no bundling; better-sqlite3
+// is resolved from the app directory like any server external package
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const Database = require("better-sqlite3");
+const db = new Database(workerData.file, { readonly: true, fileMustExist: true });
+let cursor = null;
+const handlers = {
+  open: () => null,
+  query: ({ sql, params }) => {
+    const statement = db.prepare(sql);
+    if (!statement.reader) {
+      statement.run(...params);
+      return { rows: [], columns: [] };
+    }
+    return {
+      rows: statement.all(...params),
+      columns: statement.columns().map((column) => column.name),
+    };
+  },
+  openCursor: ({ sql, params }) => {
+    cursor = db.prepare(sql).iterate(...params);
+    return null;
+  },
+  read: ({ batchSize }) => {
+    const batch = [];
+    while (cursor && batch.length < batchSize) {
+      const next = cursor.next();
+      if (next.done) break;
+      batch.push(next.value);
+    }
+    return batch;
+  },
+  finish: () => {
+    if (cursor && cursor.return) cursor.return();
+    cursor = null;
+    return null;
+  },
+};
+parentPort.on("message", ({ id, op, ...args }) => {
+  try {
+    parentPort.postMessage({ id, result: handlers[op](args) });
+  } catch (error) {
+    parentPort.postMessage({ id, error: { message: error.message, code: error.code } });
+  }
+});
+`;
+
+// Error for a statement stopped through DriverSession.canceller
+const CANCELLED_CODE = "ECANCELLED";
+
+type WorkerReply = {
+  id: number;
+  result?: unknown;
+  error?: { message: string; code?: string };
+};
+
+type SqliteWorker = {
+  call<T>(op: string, args?: Record<string, unknown>): Promise<T>;
+  // Terminate the worker; calls still waiting reject with `reason`
+  stop(reason: Error): void;
+};
+
+const startWorker = async (file: string): Promise<SqliteWorker> => {
+  const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { file } });
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  let stopped: Error | null = null;
+  let nextId = 1;
+
+  const failAll = (error: Error) => {
+    stopped ??= error;
+    pending.forEach(({ reject }) => reject(stopped!));
+    pending.clear();
+  };
+  worker.on("message", ({ id, result, error }: WorkerReply) => {
+    const call = pending.get(id);
+    if (!call) return;
+    pending.delete(id);
+    if (error) call.reject(Object.assign(new Error(error.message), { code: error.code }));
+    else call.resolve(result);
+  });
+  worker.on("error", failAll);
+  worker.on("exit", () => failAll(new Error("SQLite worker stopped")));
+
+  const sqliteWorker: SqliteWorker = {
+    call: <T>(op: string, args: Record<string, unknown> = {}) =>
+      stopped
+        ? Promise.reject(stopped)
+        : new Promise<T>((resolve, reject) => {
+            const id = nextId++;
+            pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+            worker.postMessage({ id, op, ...args });
+          }),
+    stop: (reason) => {
+      failAll(reason);
+      void worker.terminate();
+    },
+  };
+  // Rejects when the file cannot be opened
+  await sqliteWorker.call("open");
+  return sqliteWorker;
+};
+
+// "main" is the file itself; other names are databases it ATTACHes
+const schemaPrefix = (database: string | undefined) =>
+  database && database !== "main" ? `${quoteSqlIdentifier(database, "sqlite")}.` : "";
+
+const connect = async (connection: DbConnection): Promise<DriverSession> => {
+  const worker = await startWorker(resolveDbFile(connection));
+  const timeoutMs = getQueryTimeoutMs(connection);
+  const cancel = () =>
+    worker.stop(Object.assign(new Error("Query was cancelled"), { code: CANCELLED_CODE }));
+
+  return {
+    query: (sql, { params } = {}) =>
+      withStatementTimeout(
+        worker.call<QueryResultSet>("query", { sql, params: toBindable(params) }),
+        timeoutMs,
+        cancel,
+      ),
+    openCursor: async (sql, params, batchSize) => {
+      await worker.call("openCursor", { sql, params: toBindable(params) });
+      return {
+        // The timeout applies to each batch, as the statement runs while it is read
+        read: () =>
+          withStatementTimeout(
+            worker.call<Record<string, unknown>[]>("read", { batchSize }),
+            timeoutMs,
+            cancel,
+          ),
+        finish: async () => {
+          await worker.call("finish");
+        },
+      };
+    },
+    canceller: async () => async () => cancel(),
+    release: async () => worker.stop(new Error("Session was released")),
+  };
+};
+
+export const sqliteDriver: DbDriver = {
+  type: "sqlite",
+  dialect: "sqlite",
+  connect,
+
+  listDatabases: (connection) =>
+    withDatabase(connection, (db) =>
+      (db.prepare("SELECT name FROM pragma_database_list WHERE name <> 'temp'").all() as {
+        name: string;
+      }[]).map((r) => r.name),
+    ),
+
+  // The database is the schema, so there is a single group
+  listTables: (connection, database) =>
+    withDatabase(connection, (db) => {
+      const tables = (
+        db
+          .prepare(
+            `SELECT name FROM ${schemaPrefix(database)}sqlite_master
+             WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+             ORDER BY name`,
+          )
+          .all() as { name: string }[]
+      ).map((r) => r.name);
+      return tables.length ? [{ schema: database || "main", tables }] : [];
+    }),
+
+  describeTable: (connection, database, table) =>
+    withDatabase(connection, (db) => {
+      const { schema = database, table: tableName } = splitTableName(table);
+      const columns = db
+        .prepare("SELECT name, type, \"notnull\" FROM pragma_table_info(?, ?) ORDER BY cid")
+        .all(tableName, schema || "main") as { name: string; type: string; notnull: number }[];
+      return columns.map((c) => ({ name: c.name, type: c.type, nullable: !c.notnull }));
+    }),
+
+  quoteIdent: (name) => quoteSqlIdentifier(name, "sqlite"),
+
+  classifyError: (error) => {
+    const { code } = (error ?? {}) as { code?: string };
+    if (code === STATEMENT_TIMEOUT_CODE) return "timeout";
+    return code === CANCELLED_CODE ? "cancelled" : null;
+  },
+};
@@ -0,0 +1,141 @@
+import path from "path";
+import type { DbConnection, TableGroup } from "@/hooks/use-connections";
+import type { DbType } from "@/lib/db-types";
+import type { SqlDialect } from "@/lib/sql-dialect";
+
+// The contract every database engine implements. Routes talk to engines only
+// through this (see lib/db-drivers.ts for the registry and lib/query-control.ts
+// for running a statement end to end).
+
+export type QueryResultSet = {
+  rows: Record<string, unknown>[];
+  columns: string[]; // From result metadata, so known even without rows
+};
+
+export type TableColumn = {
+  name: string;
+  type: string;
+  nullable: boolean;
+};
+
+export type QueryOptions = {
+  params?: unknown[];
+  // Run inside a read-only transaction (or one that is rolled back), for SQL
+  // that did not come from one of our own builders
+  readOnly?: boolean;
+};
+
+export type RowBatchReader = {
+  // Next batch of rows; empty once the result is exhausted
+  read(): Promise<Record<string, unknown>[]>;
+  // End the transaction after the last batch. Readers abandoned midway
+  // should discard their session instead.
+  finish(): Promise<void>;
+};
+
+/**
+ * One checked-out session, with the connection's statement timeout applied.
+ * Call release() when done, or release(true) after an error so it is discarded.
+ */
+export interface DriverSession {
+  query(sql: string, options?: QueryOptions): Promise<QueryResultSet>;
+  // Read-only cursor over a large result, fetched in batches instead of buffered
+  openCursor(sql: string, params: unknown[] | undefined, batchSize: number): Promise<RowBatchReader>;
+  // Stops the statement running on this session from outside it, or null
+  // when the engine cannot be interrupted
+  canceller(): Promise<(() => Promise<void>) | null>;
+  release(discard?: boolean): Promise<void>;
+}
+
+export interface DbDriver {
+  type: DbType;
+  dialect?: SqlDialect; // Unset for engines that do not run SQL
+  // Rejects for engines that do not run SQL (MongoDB runs pipelines instead)
+  connect(connection: DbConnection, database?: string): Promise<DriverSession>;
+  listDatabases(connection: DbConnection): Promise<string[]>;
+  // Tables and views of every user schema, the default schema first. Names
+  // outside it are "schema.table". Not filtered by the connection policy.
+  listTables(connection: DbConnection, database: string): Promise<TableGroup[]>;
+  describeTable(connection: DbConnection, database: string, table: string): Promise<TableColumn[]>;
+  quoteIdent(name: string): string;
+  // Whether an error means the statement hit the timeout or was cancelled
+  classifyError(error: unknown): "timeout" | "cancelled" | null;
+}
+
+/**
+ * Group (schema, table) rows by schema, naming tables outside the default
+ * schema "schema.table" as ChartConfig.tableName stores them
+ */
+export function groupTables(
+  rows: { schema: string; table: string }[],
+  defaultSchema: string | undefined,
+): TableGroup[] {
+  const groups: TableGroup[] = [];
+  for (const { schema, table } of rows) {
+    const name = schema === defaultSchema ? table : `${schema}.${table}`;
+    const group = groups.find((g) => g.schema === schema);
+    if (group) group.tables.push(name);
+    else groups.push({ schema, tables: [name] });
+  }
+  return groups;
+}
+
+// Error thrown when a statement is cancelled by withStatementTimeout
+export const STATEMENT_TIMEOUT_CODE = "ETIMEOUT";
+
+/**
+ * Cancel a statement from a timer, for engines without a server-side
+ * statement timeout. Its rejection then becomes a timeout error.
+ */
+export async function withStatementTimeout<T>(
+  run: Promise<T>,
+  timeoutMs: number | null,
+  cancel: () => void,
+): Promise<T> {
+  if (!timeoutMs) return run;
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    cancel();
+  }, timeoutMs);
+  try {
+    return await run;
+  } catch (error) {
+    if (!timedOut) throw error;
+    throw Object.assign(new Error("Statement timeout"), { code: STATEMENT_TIMEOUT_CODE });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Directory of uploaded dataset files (see lib/datasets.ts)
+ */
+export const getDatasetDir = () => path.resolve(process.env.DATASET_DIR || ".data/datasets");
+
+const isInside = (root: string, file: string) => {
+  const relative = path.relative(path.resolve(root), file);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+};
+
+/**
+ * Database file of a SQLite/DuckDB connection. With DB_FILE_ROOT set, files
+ * outside that directory are refused, except uploaded datasets in DATASET_DIR.
+ */
+export function resolveDbFile(connection: DbConnection): string {
+  if (!connection.filePath?.trim()) throw new Error("Database file is not set");
+  const file = path.resolve(connection.filePath.trim());
+  const root = process.env.DB_FILE_ROOT;
+  const allowed =
+    !root || isInside(root, file) || (!!connection.datasetId && isInside(getDatasetDir(), file));
+  if (!allowed) {
+    throw new Error("Database file is outside DB_FILE_ROOT");
+  }
+  return file;
+}
+
+// Values SQLite and DuckDB cannot bind as-is: dates become ISO text, booleans 1/0
+export const toBindable = (params: unknown[] | undefined) =>
+  (params || []).map((value) =>
+    value instanceof Date ? value.toISOString() : typeof value === "boolean" ? Number(value) : value,
+  );
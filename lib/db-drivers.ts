@@ -0,0 +1,26 @@
+import type { DbConnection } from "@/hooks/use-connections";
+import type { DbDriver } from "@/lib/db-driver";
+import type { DbType } from "@/lib/db-types";
+import { mysqlDriver } from "@/lib/db-driver-mysql";
+import { postgresqlDriver } from "@/lib/db-driver-postgresql";
+import { mssqlDriver } from "@/lib/db-driver-mssql";
+import { sqliteDriver } from "@/lib/db-driver-sqlite";
+import { duckdbDriver } from "@/lib/db-driver-duckdb";
+import { mongodbDriver } from "@/lib/db-driver-mongodb";
+
+// One driver per engine in lib/db-types.ts; adding an engine means adding
+// it there and registering its driver here
+export const DB_DRIVERS: Record<DbType, DbDriver> = {
+  mysql: mysqlDriver,
+  postgresql: postgresqlDriver,
+  mssql: mssqlDriver,
+  sqlite: sqliteDriver,
+  duckdb: duckdbDriver,
+  mongodb: mongodbDriver,
+};
+
+// Connections saved before `type` existed are MySQL
+export function getDriver(connection: Pick<DbConnection, "type"> | DbType | undefined): DbDriver {
+  const type = typeof connection === "string" ? connection : connection?.type;
+  return DB_DRIVERS[type || "mysql"];
+}
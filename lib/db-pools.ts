@@ -0,0 +1,381 @@
+import { createHash } from "crypto";
+import { MongoClient } from "mongodb";
+import mssql from "mssql";
+import mysql from "mysql2/promise";
+import { Pool, PoolClient } from "pg";
+import { DbConnection } from "@/hooks/use-connections";
+
+type PoolEntryBase = {
+  connectionId: string;
+  database?: string;
+  fingerprint: string;
+  lastUsed: number;
+  inFlight: number; // Checkouts not yet released (see leaseOf)
+};
+
+type PoolEntry =
+  | (PoolEntryBase & { type: "postgresql"; pool: Pool })
+  | (PoolEntryBase & { type: "mysql"; pool: mysql.Pool })
+  | (PoolEntryBase & { type: "mssql"; pool: mssql.ConnectionPool })
+  | (PoolEntryBase & { type: "mongodb"; pool: MongoClient });
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Connections per pool, pools kept in total, and how long an unused pool lives
+const MAX_POOL_SIZE = envNumber("DB_POOL_MAX_CONNECTIONS", 10);
+const MAX_POOLS = envNumber("DB_POOL_MAX_POOLS", 50);
+const POOL_IDLE_MS = envNumber("DB_POOL_IDLE_MS", 5 * 60 * 1000);
+// Pooled connections unused for longer than this are pinged before reuse
+const HEALTH_CHECK_AFTER_MS = 30 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Kept on global so HMR in development does not leak pools
+const globalWithPools = global as typeof globalThis & {
+  _dbPools?: Map<string, PoolEntry>;
+  _dbPoolSweeper?: NodeJS.Timeout;
+};
+const pools = (globalWithPools._dbPools ??= new Map());
+
+/**
+ * PostgreSQL search_path for the connection's sessions: the default schema,
+ * then the configured search path. Empty when neither is set, leaving the
+ * server's default.
+ */
+export function getSearchPath(connection: DbConnection): string[] {
+  if (connection.type !== "postgresql") return [];
+  const schemas = [connection.schema, ...(connection.searchPath || [])]
+    .map((schema) => schema?.trim())
+    .filter((schema): schema is string => !!schema);
+  return schemas.filter((schema, i) => schemas.indexOf(schema) === i);
+}
+
+const poolKey = (connectionId: string, database?: string) =>
+  `${connectionId}:${database ?? ""}`;
+
+/**
+ * Everything that requires a new physical connection when it changes
+ */
+const fingerprintOf = (conn: DbConnection, database?: string) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        conn.type || "mysql",
+        conn.host,
+        conn.port,
+        conn.user,
+        conn.password,
+        database ?? "",
+        getSearchPath(conn),
+      ]),
+    )
+    .digest("hex");
+
+const closeEntry = async (key: string, entry: PoolEntry) => {
+  if (pools.get(key) === entry) pools.delete(key);
+  try {
+    await (entry.type === "mssql" || entry.type === "mongodb"
+      ? entry.pool.close()
+      : entry.pool.end());
+  } catch (error) {
+    console.error("Error closing database pool:", error);
+  }
+};
+
+/**
+ * Count a checkout as in flight until the returned function is called
+ * (once; later calls do nothing), which also marks the pool as used
+ */
+const leaseOf = (entry: PoolEntry) => {
+  entry.inFlight++;
+  let open = true;
+  return () => {
+    if (!open) return;
+    open = false;
+    entry.inFlight--;
+    entry.lastUsed = Date.now();
+  };
+};
+
+// SQL Server requests check connections out of the pool themselves, so the
+// pool's own counters tell whether it is in use
+const isBusy = (entry: PoolEntry) =>
+  entry.type === "mssql"
+    ? entry.pool.borrowed > 0 || entry.pool.pending > 0
+    : entry.inFlight > 0;
+
+// Pools with queries still running count as used, so a long statement is
+// never cut off by the sweeper
+const sweepPools = () => {
+  const now = Date.now();
+  for (const [key, entry] of pools) {
+    if (isBusy(entry)) entry.lastUsed = now;
+    else if (now - entry.lastUsed > POOL_IDLE_MS) closeEntry(key, entry);
+  }
+};
+
+const ensureSweeper = () => {
+  if (globalWithPools._dbPoolSweeper) return;
+  globalWithPools._dbPoolSweeper = setInterval(sweepPools, SWEEP_INTERVAL_MS);
+  globalWithPools._dbPoolSweeper.unref?.();
+};
+
+// Drop the least recently used idle pools once the registry is full
+const enforcePoolLimit = () => {
+  if (pools.size < MAX_POOLS) return;
+  const oldest = Array.from(pools.entries())
+    .filter(([, entry]) => !isBusy(entry))
+    .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  for (const [key, entry] of oldest.slice(0, pools.size - MAX_POOLS + 1)) {
+    closeEntry(key, entry);
+  }
+};
+
+const createEntry = (
+  conn: DbConnection,
+  database: string | undefined,
+  fingerprint: string,
+): PoolEntry => {
+  const { host, port, user, password } = conn;
+  const base: PoolEntryBase = {
+    connectionId: conn.id,
+    database,
+    fingerprint,
+    lastUsed: Date.now(),
+    inFlight: 0,
+  };
+
+  if (conn.type === "postgresql") {
+    // Startup option, so every pooled session resolves unqualified names the same way
+    const searchPath = getSearchPath(conn)
+      .map((schema) => `"${schema.replace(/"/g, '""')}"`.replace(/[\\ ]/g, "\\$&"))
+      .join(",");
+    const pool = new Pool({
+      host,
+      port: port || 5432,
+      user,
+      password,
+      database,
+      ...(searchPath ? { options: `-c search_path=${searchPath}` } : {}),
+      max: MAX_POOL_SIZE,
+      idleTimeoutMillis: POOL_IDLE_MS,
+    });
+    // Idle clients that lose their server connection emit here; pg would otherwise crash the process
+    pool.on("error", (error) => {
+      console.error(`Idle PostgreSQL client error (${conn.name}):`, error.message);
+    });
+    return { ...base, type: "postgresql", pool };
+  }
+
+  if (conn.type === "mssql") {
+    const pool = new mssql.ConnectionPool({
+      server: host,
+      port: port || 1433,
+      user,
+      password,
+      database,
+      pool: { max: MAX_POOL_SIZE, idleTimeoutMillis: POOL_IDLE_MS },
+      // Statements are timed out per connection by the driver, not by the pool
+      requestTimeout: 0,
+      options: {
+        encrypt: true,
+        trustServerCertificate: process.env.MSSQL_TRUST_SERVER_CERTIFICATE === "true",
+      },
+    });
+    pool.on("error", (error: Error) => {
+      console.error(`SQL Server pool error (${conn.name}):`, error.message);
+    });
+    return { ...base, type: "mssql", pool };
+  }
+
+  if (conn.type === "mongodb") {
+    // Host may also be a full mongodb:// or mongodb+srv:// URI (e.g. Atlas)
+    const uri = /^mongodb(\+srv)?:\/\//.test(host) ? host : `mongodb://${host}:${port || 27017}`;
+    const pool = new MongoClient(uri, {
+      ...(user ? { auth: { username: user, password } } : {}),
+      maxPoolSize: MAX_POOL_SIZE,
+      maxIdleTimeMS: POOL_IDLE_MS,
+    });
+    return { ...base, type: "mongodb", pool };
+  }
+
+  const pool = mysql.createPool({
+    host,
+    port: port || 3306,
+    user,
+    password,
+    database,
+    connectionLimit: MAX_POOL_SIZE,
+    maxIdle: MAX_POOL_SIZE,
+    idleTimeout: POOL_IDLE_MS,
+    waitForConnections: true,
+    queueLimit: 0,
+    enableKeepAlive: true,
+  });
+  return { ...base, type: "mysql", pool };
+};
+
+/**
+ * Pool for a connection + database. A pool whose settings no longer match
+ * the stored connection (host, user, password, ...) is replaced.
+ */
+const getEntry = (conn: DbConnection, database?: string): PoolEntry => {
+  ensureSweeper();
+  const key = poolKey(conn.id, database);
+  const fingerprint = fingerprintOf(conn, database);
+  const existing = pools.get(key);
+  if (existing && existing.fingerprint === fingerprint) return existing;
+  if (existing) closeEntry(key, existing);
+
+  enforcePoolLimit();
+  const entry = createEntry(conn, database, fingerprint);
+  pools.set(key, entry);
+  return entry;
+};
+
+/**
+ * Check out a pooled PostgreSQL client. Call release() when done, or
+ * release(true) after an error so the client is discarded.
+ */
+export async function getPgPoolClient(
+  conn: DbConnection,
+  database?: string,
+): Promise<PoolClient> {
+  const entry = getEntry(conn, database);
+  if (entry.type !== "postgresql") throw new Error("Connection is not PostgreSQL");
+
+  const stale = Date.now() - entry.lastUsed > HEALTH_CHECK_AFTER_MS;
+  entry.lastUsed = Date.now();
+  const end = leaseOf(entry);
+  let client: PoolClient;
+  try {
+    client = await entry.pool.connect();
+    if (stale) {
+      try {
+        await client.query("SELECT 1");
+      } catch {
+        client.release(true);
+        client = await entry.pool.connect();
+      }
+    }
+  } catch (error) {
+    end();
+    throw error;
+  }
+
+  // pg sets release() on every checkout, so this only wraps the current one
+  const release = client.release.bind(client);
+  client.release = (destroy) => {
+    end();
+    release(destroy);
+  };
+  return client;
+}
+
+/**
+ * Check out a pooled MySQL connection. Call release() when done, or
+ * destroy() after an error so the connection is discarded.
+ */
+export async function getMysqlPoolConnection(
+  conn: DbConnection,
+  database?: string,
+): Promise<mysql.PoolConnection> {
+  const entry = getEntry(conn, database);
+  if (entry.type !== "mysql") throw new Error("Connection is not MySQL");
+
+  const stale = Date.now() - entry.lastUsed > HEALTH_CHECK_AFTER_MS;
+  entry.lastUsed = Date.now();
+  const end = leaseOf(entry);
+  let connection: mysql.PoolConnection;
+  try {
+    connection = await entry.pool.getConnection();
+    if (stale) {
+      try {
+        await connection.ping();
+      } catch {
+        connection.destroy();
+        connection = await entry.pool.getConnection();
+      }
+    }
+  } catch (error) {
+    end();
+    throw error;
+  }
+
+  // Each checkout gets its own wrapper object, so these only wrap this one
+  const release = connection.release.bind(connection);
+  const destroy = connection.destroy.bind(connection);
+  connection.release = () => {
+    end();
+    release();
+  };
+  connection.destroy = () => {
+    end();
+    destroy();
+  };
+  return connection;
+}
+
+/**
+ * Connected SQL Server pool. Requests check out a connection themselves;
+ * the pool reconnects broken ones.
+ */
+export async function getMssqlPool(
+  conn: DbConnection,
+  database?: string,
+): Promise<mssql.ConnectionPool> {
+  const entry = getEntry(conn, database);
+  if (entry.type !== "mssql") throw new Error("Connection is not SQL Server");
+  entry.lastUsed = Date.now();
+  if (!entry.pool.connected) await entry.pool.connect();
+  return entry.pool;
+}
+
+/**
+ * Connected MongoDB client. One client serves every database of the
+ * connection, and pools its own sockets.
+ */
+export async function getMongoClient(conn: DbConnection): Promise<MongoClient> {
+  const entry = getEntry(conn);
+  if (entry.type !== "mongodb") throw new Error("Connection is not MongoDB");
+  entry.lastUsed = Date.now();
+  return entry.pool.connect();
+}
+
+/**
+ * getMongoClient for work that may run long (pipelines): the client is not
+ * closed as idle until release() is called
+ */
+export async function leaseMongoClient(
+  conn: DbConnection,
+): Promise<{ client: MongoClient; release: () => void }> {
+  const entry = getEntry(conn);
+  if (entry.type !== "mongodb") throw new Error("Connection is not MongoDB");
+  entry.lastUsed = Date.now();
+  const release = leaseOf(entry);
+  try {
+    return { client: await entry.pool.connect(), release };
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
+
+/**
+ * Close pools for connections that were removed or whose settings changed
+ */
+export async function invalidateConnectionPools(
+  connections: DbConnection[],
+): Promise<void> {
+  const byId = new Map(connections.map((c) => [c.id, c]));
+  await Promise.all(
+    Array.from(pools.entries())
+      .filter(([, entry]) => {
+        const conn = byId.get(entry.connectionId);
+        return !conn || fingerprintOf(conn, entry.database) !== entry.fingerprint;
+      })
+      .map(([key, entry]) => closeEntry(key, entry)),
+  );
+}
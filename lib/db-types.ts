@@ -0,0 +1,41 @@
+import type { SqlDialect } from "@/lib/sql-dialect";
+
+// Engines a connection can use. The server drivers behind them are registered
+// in lib/db-drivers.ts; this is the part the connection form and the SQL
+// builders need, so it stays free of server imports.
+export type DbTypeInfo = {
+  label: string;
+  dialect?: SqlDialect; // Unset for engines that do not run SQL (MongoDB)
+  defaultPort?: number; // Unset for engines that open a local file
+  // Schema used for unqualified names when a database holds several schemas.
+  // Unset where the database itself is the schema (MySQL, SQLite).
+  defaultSchema?: string;
+};
+
+export const DB_TYPES = {
+  mysql: { label: "MySQL", dialect: "mysql", defaultPort: 3306 },
+  postgresql: { label: "PostgreSQL", dialect: "postgresql", defaultPort: 5432, defaultSchema: "public" },
+  mssql: { label: "SQL Server", dialect: "mssql", defaultPort: 1433, defaultSchema: "dbo" },
+  sqlite: { label: "SQLite", dialect: "sqlite" },
+  duckdb: { label: "DuckDB", dialect: "duckdb", defaultSchema: "main" },
+  // Charts read a collection through an aggregation pipeline (lib/mongo-pipeline.ts)
+  mongodb: { label: "MongoDB", defaultPort: 27017 },
+} as const satisfies Record<string, DbTypeInfo>;
+
+export type DbType = keyof typeof DB_TYPES;
+
+export const DB_TYPE_IDS = Object.keys(DB_TYPES) as DbType[];
+
+// Connections saved before `type` existed are MySQL
+export const getDbTypeInfo = (type?: DbType): DbTypeInfo => DB_TYPES[type || "mysql"];
+
+export const isSqlDbType = (type?: DbType) => getDbTypeInfo(type).dialect !== undefined;
+
+export function getSqlDialect(type?: DbType): SqlDialect {
+  const { label, dialect } = getDbTypeInfo(type);
+  if (!dialect) throw new Error(`${label} connections do not run SQL`);
+  return dialect;
+}
+
+// SQLite and DuckDB read a database file on the server instead of a host
+export const isFileDbType = (type?: DbType) => getDbTypeInfo(type).defaultPort === undefined;
@@ -0,0 +1,41 @@
+import { DuckDBConnection } from "@duckdb/node-api";
+import { quoteSqlIdentifier } from "@/lib/sql-dialect";
+
+// Holds the rows as text before the typed table is created
+const STAGING_TABLE = "bearvault_load_staging";
+
+export type TextTableColumn = {
+  name: string;
+  sqlType: string; // DuckDB type the text is cast to, e.g. DOUBLE
+};
+
+/**
+ * Create a typed DuckDB table from rows given as text. The rows go through
+ * the appender into a VARCHAR staging table and are cast in one statement,
+ * so a value that does not fit its type fails the whole load.
+ */
+export async function createTableFromText(
+  conn: DuckDBConnection,
+  table: string,
+  columns: TextTableColumn[],
+  rows: (string | null)[][],
+): Promise<void> {
+  const quote = (name: string) => quoteSqlIdentifier(name, "duckdb");
+  await conn.run(
+    `CREATE TABLE ${STAGING_TABLE} (${columns.map((c) => `${quote(c.name)} VARCHAR`).join(", ")})`,
+  );
+  const appender = await conn.createAppender(STAGING_TABLE);
+  for (const row of rows) {
+    for (const value of row) {
+      if (value === null) appender.appendNull();
+      else appender.appendVarchar(value);
+    }
+    appender.endRow();
+  }
+  appender.closeSync();
+  const casts = columns
+    .map((c) => `CAST(${quote(c.name)} AS ${c.sqlType}) AS ${quote(c.name)}`)
+    .join(", ");
+  await conn.run(`CREATE TABLE ${quote(table)} AS SELECT ${casts} FROM ${STAGING_TABLE}`);
+  await conn.run(`DROP TABLE ${STAGING_TABLE}`);
+}
@@ -0,0 +1,237 @@
+import { DuckDBInstance, DuckDBValue } from "@duckdb/node-api";
+import { DbConnection } from "@/hooks/use-connections";
+import { FederatedSource } from "@/types/chart";
+import { clampRowLimit, getQueryTimeoutMs } from "@/lib/connection-policy";
+import { QueryResultSet, toBindable, withStatementTimeout } from "@/lib/db-driver";
+import { getSqlDialect } from "@/lib/db-types";
+import { createTableFromText } from "@/lib/duckdb-load";
+import { describeQueryError, runQuery, trackQuery } from "@/lib/query-control";
+import { QueryCacheMeta, withQueryCache } from "@/lib/query-cache";
+import { limitSelect, SQL_DIALECTS, sqlRowLimit } from "@/lib/sql-dialect";
+
+// Federated charts join data that lives on different connections (e.g.
+// coupon master data in PostgreSQL, redemptions in MySQL). Each source's SQL
+// runs on its own connection with that connection's row cap, timeout and
+// result cache; the rows are loaded into an in-memory DuckDB as a table named
+// by the source alias, and the chart's SQL (DuckDB dialect) joins them.
+
+export const MAX_FEDERATED_SOURCES = 8;
+// Rows loaded per source, unless the connection policy allows fewer
+const SOURCE_ROW_LIMIT = Number(process.env.FEDERATED_SOURCE_MAX_ROWS) || 100000;
+
+const ALIAS = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+// Drivers return DECIMAL/NUMERIC and some dates as text
+const NUMERIC_TEXT = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+const LEADING_ZERO = /^-?0\d/; // Codes such as "0812", kept as text
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_TEXT = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+export type FederatedSourceQuery = {
+  alias: string;
+  connection: DbConnection;
+  database: string;
+  sql: string; // Bound and validated for the source's engine
+  params: unknown[];
+};
+
+export type FederatedSourceStats = {
+  alias: string;
+  rowCount: number;
+  truncated: boolean; // Stopped at the source's row cap
+};
+
+export type FederatedResult = QueryResultSet &
+  QueryCacheMeta & {
+    sources: FederatedSourceStats[];
+  };
+
+export type FederatedQueryOptions = {
+  limit?: number; // Rows returned by the chart's SQL
+  ttlSeconds?: number; // Per source, see lib/query-cache
+  refresh?: boolean;
+  queryId?: string; // Cancels whichever step is running
+  owner?: string;
+};
+
+/**
+ * Check a chart's sources: at most MAX_FEDERATED_SOURCES, each complete, with
+ * a unique alias usable as a table name
+ */
+export function validateFederatedSources(sources: unknown): string | null {
+  if (!Array.isArray(sources) || sources.length === 0) {
+    return "At least one source is required";
+  }
+  if (sources.length > MAX_FEDERATED_SOURCES) {
+    return `At most ${MAX_FEDERATED_SOURCES} sources are allowed`;
+  }
+  const aliases = new Set<string>();
+  for (const source of sources as Partial<FederatedSource>[]) {
+    if (!source.connectionId || !source.database || !source.sql?.trim()) {
+      return "Every source needs a connection, database and SQL";
+    }
+    if (!source.alias || !ALIAS.test(source.alias)) {
+      return `Invalid source alias "${source.alias ?? ""}": use letters, digits and _`;
+    }
+    // DuckDB table names are case-insensitive
+    if (aliases.has(source.alias.toLowerCase())) {
+      return `Duplicate source alias "${source.alias}"`;
+    }
+    aliases.add(source.alias.toLowerCase());
+  }
+  return null;
+}
+
+// The source's SQL capped at its row limit, whatever LIMIT it has itself
+const capSourceSql = (source: FederatedSourceQuery) => {
+  const dialect = getSqlDialect(source.connection.type);
+  const limit = clampRowLimit(source.connection.policy, SOURCE_ROW_LIMIT);
+  const sql =
+    SQL_DIALECTS[dialect].rowLimit === "limit"
+      ? `SELECT * FROM (${source.sql}) AS federated_source ${sqlRowLimit(dialect, limit)}`
+      : limitSelect(source.sql, limit, dialect, "federated_source");
+  return { sql, limit };
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// Drivers return dates in the server's local time; keep them that way
+const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+
+const toText = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : formatTimestamp(value);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const isNumeric = (v: unknown) =>
+  typeof v === "number" ||
+  (typeof v === "string" && NUMERIC_TEXT.test(v) && !LEADING_ZERO.test(v));
+const isDateText = (v: unknown) => typeof v === "string" && DATE_TEXT.test(v);
+const isTimestamp = (v: unknown) =>
+  v instanceof Date || isDateText(v) || (typeof v === "string" && TIMESTAMP_TEXT.test(v));
+
+// Column type from the values the driver returned, so joins and aggregates
+// work without casts; anything mixed is text
+const sqlTypeOf = (values: unknown[]) => {
+  const present = values.filter((v) => v !== null && v !== undefined);
+  if (present.length === 0) return "VARCHAR";
+  if (present.every(isNumeric)) return "DOUBLE";
+  if (present.every((v) => typeof v === "boolean")) return "BOOLEAN";
+  if (present.every(isDateText)) return "DATE";
+  if (present.every(isTimestamp)) return "TIMESTAMP";
+  return "VARCHAR";
+};
+
+/**
+ * Run every source (one at a time, so queryId always cancels the running
+ * one), load the rows into an in-memory DuckDB and run the chart's SQL on
+ * it. Source errors name the source alias.
+ */
+export async function runFederatedQuery(
+  sources: FederatedSourceQuery[],
+  sql: string,
+  params: unknown[],
+  { limit = 50000, ttlSeconds, refresh, queryId, owner }: FederatedQueryOptions = {},
+): Promise<FederatedResult> {
+  const loaded: {
+    source: FederatedSourceQuery;
+    result: QueryResultSet & QueryCacheMeta;
+    limit: number;
+  }[] = [];
+  for (const source of sources) {
+    const capped = capSourceSql(source);
+    const { connection, database } = source;
+    const sourceParams = source.params.length > 0 ? source.params : undefined;
+    try {
+      const result = await withQueryCache(
+        { connection, database, sql: capped.sql, params: sourceParams, ttlSeconds, refresh },
+        () =>
+          runQuery(connection, capped.sql, {
+            database,
+            params: sourceParams,
+            readOnly: true,
+            queryId,
+            owner,
+          }),
+      );
+      loaded.push({ source, result, limit: capped.limit });
+    } catch (error) {
+      const { status, message } = describeQueryError(error, connection);
+      throw Object.assign(new Error(`${source.alias}: ${message}`), { federatedStatus: status });
+    }
+  }
+
+  // No file, and no external access, so the chart's SQL only sees the sources
+  const instance = await DuckDBInstance.create(":memory:", { enable_external_access: "false" });
+  const conn = await instance.connect();
+  try {
+    for (const { source, result } of loaded) {
+      const columns = Array.from(
+        new Set(result.columns.length > 0 ? result.columns : Object.keys(result.rows[0] ?? {})),
+      );
+      if (columns.length === 0) throw new Error(`${source.alias}: the query returned no columns`);
+      await createTableFromText(
+        conn,
+        source.alias,
+        columns.map((name) => ({ name, sqlType: sqlTypeOf(result.rows.map((row) => row[name])) })),
+        result.rows.map((row) => columns.map((name) => toText(row[name]))),
+      );
+    }
+
+    // The strictest timeout among the sources also bounds the join
+    const timeouts = sources
+      .map((s) => getQueryTimeoutMs(s.connection))
+      .filter((t): t is number => t !== null);
+    const timeoutMs = timeouts.length > 0 ? Math.min(...timeouts) : null;
+    const finalSql = `SELECT * FROM (${sql}) AS federated_result ${sqlRowLimit("duckdb", limit)}`;
+    const untrack = owner
+      ? await trackQuery(
+          queryId,
+          { canceller: async () => async () => conn.interrupt() },
+          { owner, connection: sources[0].connection },
+        )
+      : () => {};
+    try {
+      const reader = await withStatementTimeout(
+        conn.runAndReadAll(finalSql, toBindable(params) as DuckDBValue[]),
+        timeoutMs,
+        () => conn.interrupt(),
+      );
+      // Oldest source decides how fresh the result is
+      const cachedAt = loaded
+        .map(({ result }) => result.cachedAt)
+        .reduce((oldest, at) => (at < oldest ? at : oldest), new Date().toISOString());
+      return {
+        rows: reader.getRowObjectsJson(),
+        columns: reader.columnNames(),
+        cachedAt,
+        cached: loaded.every(({ result }) => result.cached),
+        sources: loaded.map(({ source, result, limit: sourceLimit }) => ({
+          alias: source.alias,
+          rowCount: result.rows.length,
+          truncated: result.rows.length >= sourceLimit,
+        })),
+      };
+    } finally {
+      untrack();
+    }
+  } finally {
+    conn.closeSync();
+    instance.closeSync();
+  }
+}
+
+/**
+ * Status and message for a failed federated query: source errors keep the
+ * status of their own engine, errors in the join are DuckDB's
+ */
+export function describeFederatedError(error: unknown): { status: number; message: string } {
+  const { federatedStatus } = (error ?? {}) as { federatedStatus?: number };
+  if (federatedStatus && error instanceof Error) {
+    return { status: federatedStatus, message: error.message };
+  }
+  return describeQueryError(error);
+}
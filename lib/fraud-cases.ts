@@ -0,0 +1,397 @@
+import { NextResponse } from "next/server";
+import { getDb } from "@/lib/mongodb";
+import { AuthUser, requireTabAccess } from "@/lib/auth";
+import { requireConnection } from "@/lib/connection-policy";
+import { getSuperAdminEmail } from "@/lib/permissions";
+import { FRAUD_CASES_COLLECTION } from "@/lib/fraud";
+import {
+  FraudCase,
+  FraudCaseAttachment,
+  FraudCaseAttachmentInput,
+  FraudCaseComment,
+  FraudCaseHistory,
+  FraudCaseStatus,
+} from "@/types/fraud";
+import { UserPermission } from "@/types/permission";
+
+export const FRAUD_CASE_HISTORY_COLLECTION = "fraud_case_history";
+
+export const FRAUD_CASE_STATUSES: FraudCaseStatus[] = [
+  "open",
+  "investigating",
+  "confirmed",
+  "false_positive",
+];
+
+// Statuses that close a case with a label usable for tuning rules
+export const LABELLED_CASE_STATUSES: FraudCaseStatus[] = ["confirmed", "false_positive"];
+
+export type FraudCaseFilter = {
+  ruleId?: string;
+  status?: FraudCaseStatus;
+  assignee?: string; // Email, or "" for unassigned cases
+  chartId?: string; // Cases with this chart attached
+  connectionIds?: string[]; // Cases on these connections, plus manual cases without one
+};
+
+export type FraudCaseChanges = Partial<Pick<FraudCase, "status" | "assignee" | "severity" | "title">>;
+
+const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+const fraudCaseName = (fraudCase: Pick<FraudCase, "title" | "keyColumn" | "key">) =>
+  fraudCase.title || `${fraudCase.keyColumn}: ${fraudCase.key}`;
+
+const recordHistory = async (
+  fraudCase: FraudCase,
+  user: AuthUser,
+  action: FraudCaseHistory["action"],
+  changes: NonNullable<FraudCaseHistory["changes"]> = [],
+) => {
+  const db = await getDb();
+  const entry: FraudCaseHistory = {
+    id: createId("fraud_case_history"),
+    caseId: fraudCase.id,
+    userId: user.userId,
+    userName: user.name || user.email,
+    userEmail: user.email,
+    action,
+    entityType: "case",
+    entityId: fraudCase.id,
+    entityName: fraudCaseName(fraudCase),
+    changes,
+    timestamp: new Date(),
+  };
+  await db.collection<FraudCaseHistory>(FRAUD_CASE_HISTORY_COLLECTION).insertOne(entry);
+};
+
+/**
+ * Cases matching the filter, most recently detected first
+ */
+export async function listFraudCases(
+  filter: FraudCaseFilter = {},
+  limit = 500,
+): Promise<FraudCase[]> {
+  const db = await getDb();
+  const assignee =
+    filter.assignee === undefined
+      ? {}
+      : filter.assignee
+      ? { assignee: filter.assignee }
+      : { assignee: { $exists: false } };
+  return db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .find(
+      {
+        ...(filter.ruleId ? { ruleId: filter.ruleId } : {}),
+        ...(filter.status ? { status: filter.status } : {}),
+        ...(filter.chartId ? { "attachments.chartId": filter.chartId } : {}),
+        ...(filter.connectionIds
+          ? {
+              $or: [
+                { connectionId: { $in: filter.connectionIds } },
+                { connectionId: { $exists: false } },
+              ],
+            }
+          : {}),
+        ...assignee,
+      },
+      { projection: { _id: 0 } },
+    )
+    .sort({ lastDetectedAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+export async function getFraudCase(caseId: string): Promise<FraudCase | null> {
+  const db = await getDb();
+  return db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .findOne({ id: caseId }, { projection: { _id: 0 } });
+}
+
+type FraudCaseResult =
+  | { fraudCase: FraudCase; error?: undefined }
+  | { fraudCase?: undefined; error: NextResponse };
+
+/**
+ * Resolve a case for the current user: 404 when missing, 403 when it was
+ * flagged on a connection not shared with the user
+ */
+export async function requireFraudCase(
+  user: AuthUser,
+  caseId?: string | null,
+): Promise<FraudCaseResult> {
+  const fraudCase = caseId ? await getFraudCase(caseId) : null;
+  if (!fraudCase) {
+    return { error: NextResponse.json({ error: "Case not found" }, { status: 404 }) };
+  }
+  if (fraudCase.connectionId) {
+    const { error } = await requireConnection(user, fraudCase.connectionId);
+    if (error) return { error };
+  }
+  return { fraudCase };
+}
+
+type AttachmentResult =
+  | { attachment: FraudCaseAttachment; error?: undefined }
+  | { attachment?: undefined; error: NextResponse };
+
+/**
+ * Validate an attachment from a request body: charts must be on a tab the
+ * user can open, and either kind on a connection shared with the user
+ */
+export async function resolveFraudCaseAttachment(
+  user: AuthUser,
+  input: FraudCaseAttachmentInput,
+): Promise<AttachmentResult> {
+  const invalid = (message: string) => ({
+    error: NextResponse.json({ error: message }, { status: 400 }),
+  });
+  const title = input.title?.trim();
+  if (!title) return invalid("title is required");
+  if (input.connectionId) {
+    const { error } = await requireConnection(user, input.connectionId);
+    if (error) return { error };
+  }
+
+  const base = {
+    id: createId("fraud_attachment"),
+    title,
+    ...(input.sql?.trim() ? { sql: input.sql.trim() } : {}),
+    ...(input.connectionId ? { connectionId: input.connectionId } : {}),
+    ...(input.database ? { database: input.database } : {}),
+    addedBy: user.email,
+    addedAt: new Date().toISOString(),
+  };
+  if (input.type === "chart") {
+    if (!input.tabId || !input.chartId) return invalid("tabId and chartId are required");
+    const denied = await requireTabAccess(user, input.tabId);
+    if (denied) return { error: denied };
+    return {
+      attachment: { ...base, type: "chart", tabId: input.tabId, chartId: input.chartId },
+    };
+  }
+  if (input.type === "query") {
+    if (!base.sql) return invalid("sql is required");
+    return { attachment: { ...base, type: "query" } };
+  }
+  return invalid("Invalid attachment type");
+}
+
+/**
+ * Open a case by hand, e.g. from a chart that shows something suspicious
+ */
+export async function createFraudCase(
+  draft: Pick<FraudCase, "title" | "severity" | "keyColumn" | "key"> &
+    Partial<Pick<FraudCase, "assignee" | "connectionId" | "database">>,
+  attachments: FraudCaseAttachment[],
+  user: AuthUser,
+): Promise<FraudCase> {
+  const db = await getDb();
+  const now = new Date().toISOString();
+  const fraudCase: FraudCase = {
+    ...draft,
+    id: createId("fraud_case"),
+    metrics: {},
+    evidence: [],
+    status: "open",
+    comments: [],
+    attachments,
+    detectionCount: 1,
+    firstDetectedAt: now,
+    lastDetectedAt: now,
+    updatedAt: now,
+  };
+  await db.collection<FraudCase>(FRAUD_CASES_COLLECTION).insertOne({ ...fraudCase });
+  await recordHistory(fraudCase, user, "create");
+  return fraudCase;
+}
+
+/**
+ * Apply status/assignee/severity/title changes and record the ones that
+ * differ. Moving to a labelled status stamps who resolved the case and when;
+ * reopening clears it.
+ */
+export async function updateFraudCase(
+  fraudCase: FraudCase,
+  changes: FraudCaseChanges,
+  user: AuthUser,
+): Promise<FraudCase> {
+  const db = await getDb();
+  const now = new Date().toISOString();
+  const diff = (Object.keys(changes) as (keyof FraudCaseChanges)[])
+    .filter((field) => (changes[field] || undefined) !== (fraudCase[field] || undefined))
+    .map((field) => ({
+      field,
+      oldValue: fraudCase[field] ?? null,
+      newValue: changes[field] || null,
+    }));
+  if (diff.length === 0) return fraudCase;
+
+  const set: Partial<FraudCase> = { updatedAt: now };
+  const unset: Record<string, ""> = {};
+  for (const { field } of diff) {
+    const value = changes[field];
+    if (value) Object.assign(set, { [field]: value });
+    else unset[field] = "";
+  }
+  if (changes.status && changes.status !== fraudCase.status) {
+    if (LABELLED_CASE_STATUSES.includes(changes.status)) {
+      set.resolvedAt = now;
+      set.resolvedBy = user.email;
+    } else {
+      unset.resolvedAt = "";
+      unset.resolvedBy = "";
+    }
+  }
+
+  await db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .updateOne({ id: fraudCase.id }, { $set: set, $unset: unset });
+  await recordHistory(fraudCase, user, "update", diff);
+
+  const updated: FraudCase = { ...fraudCase, ...set };
+  for (const field of Object.keys(unset)) delete updated[field as keyof FraudCase];
+  return updated;
+}
+
+export async function addFraudCaseComment(
+  fraudCase: FraudCase,
+  text: string,
+  user: AuthUser,
+): Promise<FraudCaseComment> {
+  const db = await getDb();
+  const comment: FraudCaseComment = {
+    id: createId("fraud_comment"),
+    userEmail: user.email,
+    userName: user.name || user.email,
+    text,
+    createdAt: new Date().toISOString(),
+  };
+  await db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .updateOne(
+      { id: fraudCase.id },
+      { $push: { comments: comment }, $set: { updatedAt: comment.createdAt } },
+    );
+  await recordHistory(fraudCase, user, "comment", [
+    { field: "comment", oldValue: null, newValue: text },
+  ]);
+  return comment;
+}
+
+export async function addFraudCaseAttachment(
+  fraudCase: FraudCase,
+  attachment: FraudCaseAttachment,
+  user: AuthUser,
+): Promise<void> {
+  const db = await getDb();
+  await db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .updateOne(
+      { id: fraudCase.id },
+      { $push: { attachments: attachment }, $set: { updatedAt: attachment.addedAt } },
+    );
+  await recordHistory(fraudCase, user, "attach", [
+    { field: attachment.type, oldValue: null, newValue: attachment.title },
+  ]);
+}
+
+export async function removeFraudCaseAttachment(
+  fraudCase: FraudCase,
+  attachmentId: string,
+  user: AuthUser,
+): Promise<boolean> {
+  const attachment = fraudCase.attachments?.find((a) => a.id === attachmentId);
+  if (!attachment) return false;
+  const db = await getDb();
+  await db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .updateOne(
+      { id: fraudCase.id },
+      {
+        $pull: { attachments: { id: attachmentId } },
+        $set: { updatedAt: new Date().toISOString() },
+      },
+    );
+  await recordHistory(fraudCase, user, "detach", [
+    { field: attachment.type, oldValue: attachment.title, newValue: null },
+  ]);
+  return true;
+}
+
+/**
+ * History of a case, newest first
+ */
+export async function listFraudCaseHistory(
+  caseId: string,
+  limit = 200,
+): Promise<FraudCaseHistory[]> {
+  const db = await getDb();
+  return db
+    .collection<FraudCaseHistory>(FRAUD_CASE_HISTORY_COLLECTION)
+    .find({ caseId }, { projection: { _id: 0 } })
+    .sort({ timestamp: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Users who can work cases: editors and super admins
+ */
+export async function listFraudCaseAssignees(): Promise<string[]> {
+  const db = await getDb();
+  const permissions = await db
+    .collection<UserPermission>("user_permissions")
+    .find({ role: { $in: ["editor", "super_admin"] } }, { projection: { _id: 0, email: 1 } })
+    .toArray();
+  const emails = new Set(permissions.map((p) => p.email.toLowerCase()));
+  const superAdmin = getSuperAdminEmail();
+  if (superAdmin) emails.add(superAdmin.toLowerCase());
+  return [...emails].sort();
+}
+
+/**
+ * Confirmed and false-positive cases as flat label rows, for tuning rules
+ * against what analysts decided
+ */
+export async function listFraudCaseLabels(
+  filter: Pick<FraudCaseFilter, "ruleId" | "connectionIds"> = {},
+): Promise<Record<string, string | number>[]> {
+  const db = await getDb();
+  const cases = await db
+    .collection<FraudCase>(FRAUD_CASES_COLLECTION)
+    .find(
+      {
+        status: { $in: LABELLED_CASE_STATUSES },
+        ...(filter.ruleId ? { ruleId: filter.ruleId } : {}),
+        ...(filter.connectionIds
+          ? {
+              $or: [
+                { connectionId: { $in: filter.connectionIds } },
+                { connectionId: { $exists: false } },
+              ],
+            }
+          : {}),
+      },
+      { projection: { _id: 0 } },
+    )
+    .sort({ resolvedAt: -1 })
+    .toArray();
+  return cases.map((c) => ({
+    caseId: c.id,
+    ruleId: c.ruleId || "",
+    ruleName: c.ruleName || "",
+    keyColumn: c.keyColumn,
+    key: c.key,
+    label: c.status,
+    severity: c.severity,
+    detectionCount: c.detectionCount,
+    firstDetectedAt: c.firstDetectedAt,
+    lastDetectedAt: c.lastDetectedAt,
+    resolvedAt: c.resolvedAt || "",
+    resolvedBy: c.resolvedBy || "",
+    metrics: JSON.stringify(c.metrics || {}),
+  }));
+}
@@ -0,0 +1,157 @@
+import { quoteIdentifier, quoteTableName } from "@/lib/grid-query";
+import { castAsText, SqlDialect, sqlPlaceholder, sqlRowLimit } from "@/lib/sql-dialect";
+import { FraudRule } from "@/types/fraud";
+
+export type CompiledQuery = {
+  sql: string;
+  params: unknown[];
+};
+
+export type CompiledFraudRule = CompiledQuery & {
+  keyColumn: string; // Result column holding the case key
+  // Source rows behind one flagged key; custom SQL rules have none
+  evidence?: (key: unknown) => CompiledQuery;
+};
+
+// Flagged keys read per run, and source rows kept per case
+export const MAX_FRAUD_CASES_PER_RUN = 200;
+export const MAX_EVIDENCE_ROWS = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Numbers are inlined (they are validated as finite), so placeholders are only
+// used for timestamps and keys
+const literal = (value: number) => {
+  if (!Number.isFinite(value)) throw new Error(`Invalid number: ${value}`);
+  return String(value);
+};
+
+const createParams = (dialect: SqlDialect) => {
+  const params: unknown[] = [];
+  const add = (value: unknown) => {
+    params.push(value);
+    return sqlPlaceholder(dialect, params.length);
+  };
+  return { params, add };
+};
+
+/**
+ * Compile a fraud rule into one read-only SELECT. `now` anchors the time
+ * windows so a run and its evidence queries see the same period. Custom SQL
+ * is wrapped as given, so it must come from validateFraudRuleSql (lib/fraud).
+ */
+export function compileFraudRule(
+  rule: Pick<FraudRule, "table" | "definition">,
+  dialect: SqlDialect,
+  now: Date = new Date(),
+): CompiledFraudRule {
+  const q = (name: string) => quoteIdentifier(name, dialect);
+  const definition = rule.definition;
+  // Every generated SELECT below ends in an ORDER BY
+  const limit = sqlRowLimit(dialect, MAX_FRAUD_CASES_PER_RUN, { ordered: true });
+
+  if (definition.type === "custom_sql") {
+    return {
+      sql: `SELECT * FROM (${definition.sql}) fraud_rule_result ${sqlRowLimit(dialect, MAX_FRAUD_CASES_PER_RUN)}`,
+      params: [],
+      keyColumn: definition.keyColumn,
+    };
+  }
+
+  if (!rule.table) throw new Error("table is required");
+  const table = quoteTableName(rule.table, dialect);
+  const time = q(definition.timeColumn);
+  const windowStart = new Date(now.getTime() - definition.windowHours * HOUR_MS);
+
+  // Evidence: the newest source rows of the key inside the rule's period
+  const evidenceFor =
+    (keyColumn: string, since: Date, extraWhere = "") =>
+    (key: unknown): CompiledQuery => {
+      const { params, add } = createParams(dialect);
+      const where = `${q(keyColumn)} = ${add(key)} AND ${time} >= ${add(since)}${extraWhere}`;
+      const newest = sqlRowLimit(dialect, MAX_EVIDENCE_ROWS, { ordered: true });
+      return {
+        sql: `SELECT * FROM ${table} WHERE ${where} ORDER BY ${time} DESC ${newest}`,
+        params,
+      };
+    };
+
+  switch (definition.type) {
+    case "device_velocity": {
+      const { params, add } = createParams(dialect);
+      const device = q(definition.deviceColumn);
+      const counted = definition.couponColumn
+        ? `COUNT(DISTINCT ${q(definition.couponColumn)})`
+        : "COUNT(*)";
+      const sql = [
+        `SELECT ${device}, COUNT(*) AS redemptions`,
+        definition.couponColumn ? `, ${counted} AS coupons` : "",
+        `, MIN(${time}) AS first_at, MAX(${time}) AS last_at`,
+        ` FROM ${table}`,
+        ` WHERE ${time} >= ${add(windowStart)} AND ${device} IS NOT NULL`,
+        ` GROUP BY ${device}`,
+        ` HAVING ${counted} > ${literal(definition.threshold)}`,
+        ` ORDER BY ${counted} DESC ${limit}`,
+      ].join("");
+      return {
+        sql,
+        params,
+        keyColumn: definition.deviceColumn,
+        evidence: evidenceFor(definition.deviceColumn, windowStart),
+      };
+    }
+
+    case "non_member_branch": {
+      const { params, add } = createParams(dialect);
+      const branch = q(definition.branchColumn);
+      // Works for numeric and text member columns alike
+      const nonMember = ` AND COALESCE(TRIM(${castAsText(q(definition.memberColumn), dialect)}), '') = ''`;
+      const sql = [
+        `SELECT ${branch}, COUNT(*) AS non_member_redemptions`,
+        `, MIN(${time}) AS first_at, MAX(${time}) AS last_at`,
+        ` FROM ${table}`,
+        ` WHERE ${time} >= ${add(windowStart)} AND ${branch} IS NOT NULL${nonMember}`,
+        ` GROUP BY ${branch}`,
+        ` HAVING COUNT(*) > ${literal(definition.threshold)}`,
+        ` ORDER BY COUNT(*) DESC ${limit}`,
+      ].join("");
+      return {
+        sql,
+        params,
+        keyColumn: definition.branchColumn,
+        evidence: evidenceFor(definition.branchColumn, windowStart, nonMember),
+      };
+    }
+
+    case "velocity_spike": {
+      const { params, add } = createParams(dialect);
+      const key = q(definition.keyColumn);
+      const baselineStart = new Date(windowStart.getTime() - definition.baselineHours * HOUR_MS);
+      const windowHours = literal(definition.windowHours);
+      const baselineHours = literal(definition.baselineHours);
+      // Counts per key in a subquery, so the outer WHERE can compare the aliases
+      const counts = [
+        `SELECT ${key}`,
+        `, SUM(CASE WHEN ${time} >= ${add(windowStart)} THEN 1 ELSE 0 END) AS recent_count`,
+        `, SUM(CASE WHEN ${time} < ${add(windowStart)} THEN 1 ELSE 0 END) AS baseline_count`,
+        ` FROM ${table}`,
+        ` WHERE ${time} >= ${add(baselineStart)} AND ${key} IS NOT NULL`,
+        ` GROUP BY ${key}`,
+      ].join("");
+      const sql = [
+        // expected_count: what the baseline rate predicts for a window this long
+        `SELECT spikes.*, ROUND(baseline_count * ${windowHours} * 1.0 / ${baselineHours}, 2) AS expected_count`,
+        ` FROM (${counts}) spikes`,
+        ` WHERE recent_count >= ${literal(definition.minCount)}`,
+        ` AND recent_count * ${baselineHours} > ${literal(definition.multiplier)} * baseline_count * ${windowHours}`,
+        ` ORDER BY recent_count DESC ${limit}`,
+      ].join("");
+      return {
+        sql,
+        params,
+        keyColumn: definition.keyColumn,
+        evidence: evidenceFor(definition.keyColumn, windowStart),
+      };
+    }
+  }
+}
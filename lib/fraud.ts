@@ -0,0 +1,237 @@
+import { getDb } from "@/lib/mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import { FraudCase, FraudCaseStatus, FraudRule } from "@/types/fraud";
+import { getConnectionById } from "@/lib/connections";
+import { checkSqlAgainstPolicy } from "@/lib/connection-policy";
+import { getSqlDialect } from "@/lib/db-types";
+import { runQuery } from "@/lib/query-control";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+import { nextCronRun } from "@/lib/cron";
+import { CompiledQuery, compileFraudRule } from "@/lib/fraud-sql";
+
+export const FRAUD_RULES_COLLECTION = "fraud_rules";
+export const FRAUD_CASES_COLLECTION = "fraud_cases";
+
+const createCaseId = () =>
+  `fraud_case_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// Cases still being worked; a key flagged again while its case is in one of
+// these updates that case, otherwise it opens a new one
+export const ACTIVE_CASE_STATUSES: FraudCaseStatus[] = ["open", "investigating"];
+
+/**
+ * Next scheduled run of a rule, or undefined while it is disabled
+ */
+export function computeNextFraudRunAt(
+  rule: Pick<FraudRule, "enabled" | "schedule">,
+  after: Date = new Date(),
+): string | undefined {
+  return rule.enabled ? nextCronRun(rule.schedule, after).toISOString() : undefined;
+}
+
+export async function listFraudRules(): Promise<FraudRule[]> {
+  const db = await getDb();
+  return db
+    .collection<FraudRule>(FRAUD_RULES_COLLECTION)
+    .find({}, { projection: { _id: 0 } })
+    .sort({ name: 1 })
+    .toArray();
+}
+
+export async function getFraudRule(ruleId: string): Promise<FraudRule | null> {
+  const db = await getDb();
+  return db
+    .collection<FraudRule>(FRAUD_RULES_COLLECTION)
+    .findOne({ id: ruleId }, { projection: { _id: 0 } });
+}
+
+export async function saveFraudRule(rule: FraudRule): Promise<void> {
+  const db = await getDb();
+  await db
+    .collection<FraudRule>(FRAUD_RULES_COLLECTION)
+    .replaceOne({ id: rule.id }, rule, { upsert: true });
+}
+
+/**
+ * Delete a rule. Its cases are kept: they are the record of what was flagged.
+ */
+export async function deleteFraudRule(ruleId: string): Promise<void> {
+  const db = await getDb();
+  await db.collection(FRAUD_RULES_COLLECTION).deleteOne({ id: ruleId });
+}
+
+type FraudRuleSql = Pick<FraudRule, "table" | "definition" | "database">;
+
+type FraudRuleSqlResult =
+  | { rule: FraudRuleSql; error?: undefined }
+  | { rule?: undefined; error: string };
+
+/**
+ * Check that a rule's SQL can run on its connection. Checked on save and
+ * again before every run; runs compile the returned rule, whose custom SQL
+ * is the validated statement without trailing semicolons or comments.
+ */
+export function validateFraudRuleSql(
+  rule: FraudRuleSql,
+  connection: DbConnection,
+): FraudRuleSqlResult {
+  const dialect = getSqlDialect(connection.type);
+  let checked = rule;
+  if (rule.definition.type === "custom_sql") {
+    const validation = validateReadOnlySql(rule.definition.sql, dialect);
+    if (!validation.valid) return { error: validation.error };
+    checked = { ...rule, definition: { ...rule.definition, sql: validation.sql } };
+  }
+  try {
+    const compiled = compileFraudRule(checked, dialect);
+    const denied = checkSqlAgainstPolicy(connection, compiled.sql, rule.database);
+    return denied ? { error: denied } : { rule: checked };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Rows of a compiled query, read-only and under the connection's statement timeout
+const queryRows = async (
+  connection: DbConnection,
+  database: string,
+  query: CompiledQuery,
+): Promise<Record<string, unknown>[]> => {
+  const params = query.params.length > 0 ? query.params : undefined;
+  const { rows } = await runQuery(connection, query.sql, { database, params, readOnly: true });
+  return rows;
+};
+
+// Key column of a result row: exact name, then case-insensitive
+const readKey = (row: Record<string, unknown>, column: string) => {
+  const name =
+    Object.keys(row).find((key) => key === column) ??
+    Object.keys(row).find((key) => key.toLowerCase() === column.toLowerCase());
+  return name === undefined ? undefined : row[name];
+};
+
+// Mongo stores Dates and plain values; drivers may return Buffers or BigInts
+const toStorable = (row: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      typeof value === "bigint"
+        ? value.toString()
+        : Buffer.isBuffer(value)
+        ? value.toString("hex")
+        : value,
+    ]),
+  );
+
+/**
+ * Run a rule now: flag every key its SQL returns, opening a case per new key
+ * and refreshing the evidence of cases that are still being worked. Returns the
+ * number of keys flagged; failures are recorded on the rule and rethrown.
+ */
+export async function runFraudRule(rule: FraudRule): Promise<number> {
+  const db = await getDb();
+  const rules = db.collection<FraudRule>(FRAUD_RULES_COLLECTION);
+  const cases = db.collection<FraudCase>(FRAUD_CASES_COLLECTION);
+  const startedAt = new Date();
+
+  try {
+    const connection = await getConnectionById(rule.connectionId);
+    if (!connection) throw new Error("Connection not found");
+    const checked = validateFraudRuleSql(rule, connection);
+    if (!checked.rule) throw new Error(checked.error);
+
+    const compiled = compileFraudRule(checked.rule, getSqlDialect(connection.type), startedAt);
+    const rows = await queryRows(connection, rule.database, compiled);
+    const detectedAt = startedAt.toISOString();
+
+    let count = 0;
+    for (const row of rows) {
+      const rawKey = readKey(row, compiled.keyColumn);
+      if (rawKey === undefined || rawKey === null) continue;
+      const key = rawKey instanceof Date ? rawKey.toISOString() : String(rawKey);
+      const evidence = compiled.evidence
+        ? await queryRows(connection, rule.database, compiled.evidence(rawKey))
+        : [row];
+
+      const update = {
+        ruleName: rule.name,
+        severity: rule.severity,
+        metrics: toStorable(row),
+        evidence: evidence.map(toStorable),
+        lastDetectedAt: detectedAt,
+      };
+      const existing = await cases.updateOne(
+        { ruleId: rule.id, key, status: { $in: ACTIVE_CASE_STATUSES } },
+        { $set: update, $inc: { detectionCount: 1 } },
+      );
+      if (existing.matchedCount === 0) {
+        await cases.insertOne({
+          ...update,
+          id: createCaseId(),
+          ruleId: rule.id,
+          connectionId: rule.connectionId,
+          database: rule.database,
+          keyColumn: compiled.keyColumn,
+          key,
+          status: "open",
+          detectionCount: 1,
+          firstDetectedAt: detectedAt,
+        });
+      }
+      count++;
+    }
+
+    await rules.updateOne(
+      { id: rule.id },
+      {
+        $set: { lastRunAt: detectedAt, lastStatus: "success", lastCaseCount: count },
+        $unset: { lastError: "" },
+      },
+    );
+    return count;
+  } catch (error) {
+    console.error(`Error running fraud rule ${rule.id}:`, error);
+    await rules.updateOne(
+      { id: rule.id },
+      {
+        $set: {
+          lastRunAt: startedAt.toISOString(),
+          lastStatus: "failed",
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      },
+    );
+    throw error;
+  }
+}
+
+/**
+ * Run every enabled rule whose time has come, claimed the same way as
+ * scheduled reports so several server instances never run a rule twice.
+ */
+export async function runDueFraudRules(now: Date = new Date()): Promise<number> {
+  const db = await getDb();
+  const rules = db.collection<FraudRule>(FRAUD_RULES_COLLECTION);
+  const due = await rules
+    .find({ enabled: true, nextRunAt: { $lte: now.toISOString() } }, { projection: { _id: 0 } })
+    .toArray();
+
+  let count = 0;
+  for (const rule of due) {
+    let nextRunAt: string | undefined;
+    try {
+      nextRunAt = computeNextFraudRunAt(rule, now);
+    } catch (error) {
+      console.error(`Invalid schedule for fraud rule ${rule.id}:`, error);
+    }
+    const claimed = await rules.updateOne(
+      { id: rule.id, nextRunAt: rule.nextRunAt },
+      nextRunAt ? { $set: { nextRunAt } } : { $unset: { nextRunAt: "" } },
+    );
+    if (claimed.modifiedCount === 0) continue;
+    // Already recorded on the rule; keep going with the others
+    await runFraudRule(rule).catch(() => {});
+    count++;
+  }
+  return count;
+}
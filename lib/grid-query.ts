@@ -0,0 +1,198 @@
+import type { QueryCacheMeta } from "@/lib/query-cache";
+import {
+  castAsText,
+  quoteSqlIdentifier,
+  SQL_DIALECTS,
+  SqlDialect,
+  sqlDay,
+  sqlPlaceholder,
+} from "@/lib/sql-dialect";
+
+// Subset of AG Grid's sort and filter models sent by the infinite row model
+export type GridSortModelItem = {
+  colId: string;
+  sort: "asc" | "desc";
+};
+
+export type GridSimpleFilter = {
+  filterType?: "text" | "number" | "date";
+  type?: string;
+  filter?: string | number | null;
+  filterTo?: string | number | null;
+  dateFrom?: string | null;
+  dateTo?: string | null;
+};
+
+export type GridColumnFilter =
+  | GridSimpleFilter
+  | {
+      filterType?: "text" | "number" | "date";
+      operator: "AND" | "OR";
+      conditions: GridSimpleFilter[];
+    };
+
+export type GridFilterModel = Record<string, GridColumnFilter>;
+
+export type GridPageRequest = {
+  startRow: number;
+  endRow: number;
+  sortModel?: GridSortModelItem[];
+  filterModel?: GridFilterModel;
+};
+
+// Sort and filter the grid is showing, applied to exports of all rows
+export type GridExportRequest = Pick<GridPageRequest, "sortModel" | "filterModel">;
+
+export type GridPageResult = Partial<QueryCacheMeta> & {
+  rows: Record<string, unknown>[];
+  lastRow?: number; // Set once the end of the result is known
+};
+
+export const quoteIdentifier = quoteSqlIdentifier;
+
+const TABLE_NAME =
+  /^\s*(?:(`[^`]+`|"[^"]+"|\[[^\]]+\]|[^."`[\]\s]+)\s*\.\s*)?(`[^`]+`|"[^"]+"|\[[^\]]+\]|[^."`[\]\s]+)\s*$/;
+
+const unquote = (part: string) => part.replace(/^[`"[]|[`"\]]$/g, "");
+
+/**
+ * Split "table" or "schema.table" (parts optionally quoted) into its parts
+ */
+export const splitTableName = (name: string): { schema?: string; table: string } => {
+  const match = TABLE_NAME.exec(name);
+  if (!match) return { table: name };
+  return {
+    ...(match[1] ? { schema: unquote(match[1]) } : {}),
+    table: unquote(match[2]),
+  };
+};
+
+// A ChartConfig.tableName quoted for SQL: "schema"."table" or "table"
+export const quoteTableName = (name: string, dialect: SqlDialect) => {
+  const { schema, table } = splitTableName(name);
+  return schema
+    ? `${quoteIdentifier(schema, dialect)}.${quoteIdentifier(table, dialect)}`
+    : quoteIdentifier(table, dialect);
+};
+
+const NUMBER_OPERATORS: Record<string, string> = {
+  equals: "=",
+  notEqual: "<>",
+  greaterThan: ">",
+  greaterThanOrEqual: ">=",
+  lessThan: "<",
+  lessThanOrEqual: "<=",
+};
+
+/**
+ * Translate an AG Grid filter model into SQL conditions. Placeholders are
+ * numbered after paramOffset existing parameters ($n / @pn where numbered).
+ */
+export function buildGridFilterSql(
+  filterModel: GridFilterModel | undefined,
+  dialect: SqlDialect,
+  paramOffset = 0,
+): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const param = (value: unknown) => {
+    params.push(value);
+    return sqlPlaceholder(dialect, paramOffset + params.length);
+  };
+
+  const simpleCondition = (field: string, filter: GridSimpleFilter): string | null => {
+    const column = quoteIdentifier(field, dialect);
+    // Text and date filters compare the column as text so any column type works
+    const { castForTextCompare, caseInsensitiveLike: like } = SQL_DIALECTS[dialect];
+    const asText = castForTextCompare ? castAsText(column, dialect) : column;
+    const type = filter.type || "";
+
+    if (type === "blank") return `(${column} IS NULL OR ${asText} = '')`;
+    if (type === "notBlank") return `(${column} IS NOT NULL AND ${asText} <> '')`;
+
+    if (filter.filterType === "number") {
+      const value = Number(filter.filter);
+      if (filter.filter == null || !Number.isFinite(value)) return null;
+      if (type === "inRange") {
+        const to = Number(filter.filterTo);
+        if (!Number.isFinite(to)) return null;
+        return `${column} BETWEEN ${param(value)} AND ${param(to)}`;
+      }
+      const operator = NUMBER_OPERATORS[type];
+      return operator ? `${column} ${operator} ${param(value)}` : null;
+    }
+
+    if (filter.filterType === "date") {
+      const from = filter.dateFrom?.slice(0, 10);
+      if (!from) return null;
+      const day = sqlDay(column, dialect);
+      switch (type) {
+        case "equals":
+          return `${day} = ${param(from)}`;
+        case "notEqual":
+          return `${day} <> ${param(from)}`;
+        case "greaterThan":
+          return `${day} > ${param(from)}`;
+        case "lessThan":
+          return `${day} < ${param(from)}`;
+        case "inRange": {
+          const to = filter.dateTo?.slice(0, 10);
+          return to ? `${day} BETWEEN ${param(from)} AND ${param(to)}` : null;
+        }
+        default:
+          return null;
+      }
+    }
+
+    const text = filter.filter == null ? "" : String(filter.filter);
+    if (!text) return null;
+    switch (type) {
+      case "equals":
+        return `${asText} = ${param(text)}`;
+      case "notEqual":
+        return `${asText} <> ${param(text)}`;
+      case "contains":
+        return `${asText} ${like} ${param(`%${text}%`)}`;
+      case "notContains":
+        return `${asText} NOT ${like} ${param(`%${text}%`)}`;
+      case "startsWith":
+        return `${asText} ${like} ${param(`${text}%`)}`;
+      case "endsWith":
+        return `${asText} ${like} ${param(`%${text}`)}`;
+      default:
+        return null;
+    }
+  };
+
+  for (const [field, filter] of Object.entries(filterModel || {})) {
+    if (!filter) continue;
+    if ("conditions" in filter && Array.isArray(filter.conditions)) {
+      const parts = filter.conditions
+        .map((c) => simpleCondition(field, { filterType: filter.filterType, ...c }))
+        .filter((c): c is string => !!c);
+      if (parts.length > 0) {
+        const joiner = filter.operator === "OR" ? " OR " : " AND ";
+        conditions.push(`(${parts.join(joiner)})`);
+      }
+      continue;
+    }
+    const condition = simpleCondition(field, filter as GridSimpleFilter);
+    if (condition) conditions.push(condition);
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * ORDER BY clause for an AG Grid sort model, or "" when unsorted
+ */
+export function buildGridOrderBy(
+  sortModel: GridSortModelItem[] | undefined,
+  dialect: SqlDialect,
+): string {
+  const parts = (sortModel || [])
+    .filter((s) => s.colId && (s.sort === "asc" || s.sort === "desc"))
+    .map((s) => `${quoteIdentifier(s.colId, dialect)} ${s.sort === "desc" ? "DESC" : "ASC"}`);
+  return parts.length > 0 ? `ORDER BY ${parts.join(", ")}` : "";
+}
@@ -0,0 +1,80 @@
+import type { GridExportRequest, GridPageRequest, GridPageResult } from "@/lib/grid-query";
+
+const readError = async (res: Response) => {
+  const data = (await res.json().catch(() => null)) as { error?: string } | null;
+  return new Error(data?.error || `Request failed (${res.status})`);
+};
+
+/**
+ * Fetch one block of a table chart from /api/db/rows
+ */
+export async function fetchGridPage(
+  source: Record<string, unknown>,
+  request: GridPageRequest,
+  signal?: AbortSignal,
+): Promise<GridPageResult> {
+  const res = await fetch("/api/db/rows", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...source, ...request }),
+    signal,
+  });
+  if (!res.ok) throw await readError(res);
+  return (await res.json()) as GridPageResult;
+}
+
+/**
+ * Read every row of a table chart from /api/db/export, parsing the
+ * newline-delimited JSON as it arrives and handing each batch to onRows,
+ * so nothing holds the full result
+ */
+export async function readExportRows(
+  source: Record<string, unknown>,
+  request: GridExportRequest,
+  onRows: (rows: Record<string, unknown>[]) => Promise<void> | void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch("/api/db/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...source, ...request }),
+    signal,
+  });
+  if (!res.ok || !res.body) throw await readError(res);
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() ?? "";
+    const rows = lines
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    if (rows.length) await onRows(rows);
+    if (done) return;
+  }
+}
+
+/**
+ * Every row of a table chart in memory, for formats built from the whole
+ * result at once (Excel, PDF); CSV is written as it streams instead
+ */
+export async function fetchExportRows(
+  source: Record<string, unknown>,
+  request: GridExportRequest,
+  signal?: AbortSignal,
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  await readExportRows(
+    source,
+    request,
+    (batch) => {
+      for (const row of batch) rows.push(row);
+    },
+    signal,
+  );
+  return rows;
+}
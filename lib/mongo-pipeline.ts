@@ -0,0 +1,297 @@
+import { BSON, Decimal128, Document, Long, ObjectId } from "mongodb";
+import { FilterRule } from "@/types/chart";
+import {
+  coerceTabInputValue,
+  findTabInput,
+  rawTabInputValue,
+  TabInputBinding,
+} from "@/lib/sql-binder";
+
+// MongoDB charts: a collection plus an aggregation pipeline, written as JSON
+// (Extended JSON such as {"$date": "..."} and {"$oid": "..."} is accepted).
+// This is the Mongo counterpart of sql-binder + sql-guard + sql-filters.
+
+// Stages that write or read server state, and operators that run JavaScript
+const DENIED_KEYS = new Set([
+  "$out",
+  "$merge",
+  "$currentOp",
+  "$listSessions",
+  "$listLocalSessions",
+  "$planCacheStats",
+  "$function",
+  "$accumulator",
+  "$where",
+]);
+
+const PLACEHOLDER = /{{\s*(raw:)?\s*([\w.-]+)\s*}}/g;
+const WHOLE_PLACEHOLDER = /^\s*{{\s*([\w.-]+)\s*}}\s*$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parse a pipeline from the editor: a JSON array of single-stage objects
+ */
+export function parsePipeline(text: string): Document[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: unknown) {
+    throw new Error(`Pipeline is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("Pipeline must be a JSON array of stages");
+  }
+  parsed.forEach((stage, i) => {
+    const keys = isPlainObject(stage) ? Object.keys(stage) : [];
+    if (keys.length !== 1 || !keys[0].startsWith("$")) {
+      throw new Error(`Stage ${i + 1} must be an object with one $stage key`);
+    }
+  });
+  return parsed as Document[];
+}
+
+/**
+ * Bind {{key}} tab input placeholders in a parsed pipeline. A string that is
+ * only a placeholder takes the input's typed value (number, or a date for
+ * date inputs); placeholders inside longer strings are spliced as text.
+ * {{raw:key}} must be a plain identifier and may also appear in field names;
+ * its value comes from rawInputs only, as in bindTemplateSql.
+ */
+export function bindPipelineInputs(
+  pipeline: Document[],
+  inputs: TabInputBinding[],
+  rawInputs: TabInputBinding[],
+): Document[] {
+  const spliceText = (text: string) =>
+    text.replace(PLACEHOLDER, (_, raw: string | undefined, key: string) => {
+      if (raw) return rawTabInputValue(rawInputs, key);
+      const value = coerceTabInputValue(findTabInput(inputs, key), key);
+      return value === null ? "" : String(value);
+    });
+
+  const bindString = (text: string): unknown => {
+    const whole = WHOLE_PLACEHOLDER.exec(text);
+    if (!whole) return spliceText(text);
+    const input = findTabInput(inputs, whole[1]);
+    const value = coerceTabInputValue(input, whole[1]);
+    // Extended JSON, turned into a BSON date by EJSON below
+    if (input?.type === "date" && typeof value === "string") {
+      return { $date: new Date(value.replace(" ", "T")).toISOString() };
+    }
+    return value;
+  };
+
+  const bind = (value: unknown): unknown => {
+    if (typeof value === "string") return value.includes("{{") ? bindString(value) : value;
+    if (Array.isArray(value)) return value.map(bind);
+    if (!isPlainObject(value)) return value;
+    const out: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      if (Array.from(key.matchAll(PLACEHOLDER)).some(([, raw]) => !raw)) {
+        throw new Error("Use {{raw:key}} for field names");
+      }
+      // {"$date": "{{start}}"} already says it is a date
+      out[key.includes("{{") ? spliceText(key) : key] =
+        key === "$date" && typeof inner === "string" ? spliceText(inner) : bind(inner);
+    }
+    return out;
+  };
+
+  return BSON.EJSON.deserialize(bind(pipeline) as Document[]) as Document[];
+}
+
+/**
+ * Refuse write stages and server-side JavaScript anywhere in the pipeline,
+ * including nested $lookup / $facet / $unionWith pipelines
+ */
+export function validatePipeline(pipeline: Document[]): string | null {
+  const visit = (value: unknown): string | null => {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const error = visit(item);
+        if (error) return error;
+      }
+      return null;
+    }
+    if (!isPlainObject(value)) return null;
+    for (const [key, inner] of Object.entries(value)) {
+      if (DENIED_KEYS.has(key)) return `${key} is not allowed in chart pipelines`;
+      const error = visit(inner);
+      if (error) return error;
+    }
+    return null;
+  };
+  return visit(pipeline);
+}
+
+/**
+ * Collections a pipeline reads besides its own ($lookup, $graphLookup,
+ * $unionWith), for the connection policy. Lookups into another database
+ * are refused.
+ */
+export function pipelineCollections(pipeline: Document[]): string[] {
+  const found = new Set<string>();
+  const addFrom = (from: unknown) => {
+    if (typeof from !== "string") {
+      throw new Error("Lookups into another database are not allowed");
+    }
+    found.add(from);
+  };
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!isPlainObject(value)) return;
+    for (const [key, inner] of Object.entries(value)) {
+      if ((key === "$lookup" || key === "$graphLookup") && isPlainObject(inner)) {
+        // $lookup without "from" runs its pipeline on $documents only
+        if (inner.from !== undefined) addFrom(inner.from);
+      } else if (key === "$unionWith") {
+        addFrom(isPlainObject(inner) ? inner.coll : inner);
+      }
+      visit(inner);
+    }
+  };
+  visit(pipeline);
+  return Array.from(found);
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Values typed as text match both the string and the number they spell
+const textOrNumber = (value: string) => {
+  const num = Number(value);
+  return value.trim() !== "" && Number.isFinite(num) ? [value, num] : [value];
+};
+
+const toDate = (value: string) =>
+  value.toLowerCase() === "today" ? new Date() : new Date(value);
+
+/**
+ * Build a $match stage from chart filter rules, with the same meaning as
+ * buildWhereClause. Date filters compare against BSON dates.
+ */
+export function buildMatchStage(filters: FilterRule[]): Document | null {
+  const conditions: Document[] = [];
+  const range = (field: string, start: Date, end: Date, endExclusive = false) =>
+    conditions.push({ [field]: { $gte: start, [endExclusive ? "$lt" : "$lte"]: end } });
+
+  for (const filter of filters || []) {
+    // A field starting with $ would be read as a query operator
+    if (!filter.field || !filter.op || filter.field.startsWith("$")) continue;
+    const { field, op, value } = filter;
+    const hasValue = value !== undefined && value !== "";
+
+    switch (op) {
+      case "equals":
+        if (!hasValue) break;
+        if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          // A date input means the whole day
+          const startDate = new Date(value);
+          startDate.setHours(0, 0, 0, 0);
+          const endDate = new Date(value);
+          endDate.setHours(23, 59, 59, 999);
+          range(field, startDate, endDate);
+        } else {
+          conditions.push({ [field]: { $in: textOrNumber(value) } });
+        }
+        break;
+      case "not_equals":
+        if (hasValue) conditions.push({ [field]: { $nin: textOrNumber(value) } });
+        break;
+      case "contains":
+        if (hasValue) conditions.push({ [field]: { $regex: escapeRegex(value), $options: "i" } });
+        break;
+      case "not_contains":
+        if (hasValue) conditions.push({ [field]: { $not: new RegExp(escapeRegex(value), "i") } });
+        break;
+      case "begins_with":
+        if (hasValue) conditions.push({ [field]: { $regex: `^${escapeRegex(value)}`, $options: "i" } });
+        break;
+      case "ends_with":
+        if (hasValue) conditions.push({ [field]: { $regex: `${escapeRegex(value)}$`, $options: "i" } });
+        break;
+      case "gt":
+        if (hasValue) conditions.push({ [field]: { $gt: Number(value) } });
+        break;
+      case "lt":
+        if (hasValue) conditions.push({ [field]: { $lt: Number(value) } });
+        break;
+      case "blank":
+        // null also matches a missing field
+        conditions.push({ [field]: { $in: [null, ""] } });
+        break;
+      case "not_blank":
+        conditions.push({ [field]: { $nin: [null, ""] } });
+        break;
+      case "today": {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const tomorrow = new Date(today);
+        tomorrow.setDate(tomorrow.getDate() + 1);
+        range(field, today, tomorrow, true);
+        break;
+      }
+      case "before":
+        if (hasValue) conditions.push({ [field]: { $lt: toDate(value) } });
+        break;
+      case "after":
+        if (hasValue) conditions.push({ [field]: { $gt: toDate(value) } });
+        break;
+      case "between":
+        if (hasValue && filter.value2) {
+          const endDate = new Date(filter.value2);
+          endDate.setHours(23, 59, 59, 999);
+          range(field, new Date(value), endDate);
+        }
+        break;
+      case "last_days":
+      case "last_months": {
+        const count = Number(value);
+        if (!hasValue || Number.isNaN(count) || count <= 0) break;
+        const endDate = new Date();
+        endDate.setHours(23, 59, 59, 999);
+        const startDate = new Date(endDate);
+        if (op === "last_days") startDate.setDate(startDate.getDate() - count);
+        else startDate.setMonth(startDate.getMonth() - count);
+        startDate.setHours(0, 0, 0, 0);
+        range(field, startDate, endDate);
+        break;
+      }
+      case "last_week":
+      case "this_week": {
+        // Monday to Sunday, of this week or the one before
+        const today = new Date();
+        const daysFromMonday = today.getDay() === 0 ? 6 : today.getDay() - 1;
+        const monday = new Date(today);
+        monday.setDate(today.getDate() - daysFromMonday - (op === "last_week" ? 7 : 0));
+        monday.setHours(0, 0, 0, 0);
+        const sunday = new Date(monday);
+        sunday.setDate(monday.getDate() + 6);
+        sunday.setHours(23, 59, 59, 999);
+        range(field, monday, sunday);
+        break;
+      }
+    }
+  }
+
+  if (conditions.length === 0) return null;
+  return { $match: conditions.length === 1 ? conditions[0] : { $and: conditions } };
+}
+
+/**
+ * Make a result document JSON-friendly for charts: ObjectIds become hex
+ * strings, Decimal128 text (as SQL decimals are), Longs numbers
+ */
+export function toPlainRow(document: Document): Record<string, unknown> {
+  const plain = (value: unknown): unknown => {
+    if (value instanceof ObjectId) return value.toHexString();
+    if (value instanceof Decimal128) return value.toString();
+    if (value instanceof Long) return value.toNumber();
+    if (value instanceof Date || value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map(plain);
+    if (!isPlainObject(value) || "_bsontype" in value) return String(value);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, plain(v)]));
+  };
+  return plain(document) as Record<string, unknown>;
+}
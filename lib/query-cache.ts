@@ -0,0 +1,252 @@
+import { createHash } from "crypto";
+import { getDb } from "@/lib/mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import { getDriver } from "@/lib/db-drivers";
+
+export const QUERY_CACHE_COLLECTION = "query_cache";
+
+// Returned with every cacheable result so the chart can show "data as of"
+export type QueryCacheMeta = {
+  cachedAt: string; // ISO time the rows were read from the database
+  cached: boolean; // Served from the cache rather than the database
+};
+
+export type QueryCacheOptions = {
+  connection: DbConnection;
+  database: string;
+  sql: string; // Final statement, or another string identifying the query
+  params?: unknown[];
+  ttlSeconds?: number; // Chart override; 0 disables caching for the chart
+  refresh?: boolean; // Skip the cache read, still store the fresh result
+};
+
+type CacheEntry = {
+  connectionId: string;
+  fingerprint: string;
+  value: unknown;
+  cachedAt: number;
+  expiresAt: number;
+};
+
+// Mongo tier: the value is stored as JSON since column names may contain "." or "$"
+type CacheDocument = Omit<CacheEntry, "value" | "cachedAt" | "expiresAt"> & {
+  _id: string;
+  value: string;
+  cachedAt: Date;
+  expiresAt: Date;
+};
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const DEFAULT_TTL_SECONDS = envNumber("QUERY_CACHE_TTL_SECONDS", 300);
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+const MAX_ENTRIES = envNumber("QUERY_CACHE_MAX_ENTRIES", 200);
+// Larger results are not worth holding in memory
+const MAX_CACHED_ROWS = envNumber("QUERY_CACHE_MAX_ROWS", 50000);
+// Mongo documents are capped at 16MB
+const MAX_MONGO_BYTES = 8 * 1024 * 1024;
+const isMongoTierEnabled = () => process.env.QUERY_CACHE_MONGO === "true";
+
+// Kept on global so HMR in development does not drop the cache
+const globalWithCache = global as typeof globalThis & {
+  _queryCache?: Map<string, CacheEntry>;
+  _queryCacheInflight?: Map<string, Promise<unknown>>;
+  _queryCacheIndexed?: boolean;
+};
+// Map iteration order doubles as LRU order: reads move entries to the end
+const entries = (globalWithCache._queryCache ??= new Map());
+// Identical queries running at once (several viewers) share one database call
+const inflight = (globalWithCache._queryCacheInflight ??= new Map());
+
+/**
+ * Connection settings that change what a query returns. Editing any of them
+ * orphans the connection's cached results.
+ */
+const fingerprintOf = (conn: DbConnection) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        conn.type || "mysql",
+        conn.host,
+        conn.port,
+        conn.user,
+        conn.filePath ?? "",
+        conn.schema ?? "",
+        conn.searchPath ?? [],
+        conn.policy ?? null,
+      ]),
+    )
+    .digest("hex");
+
+const cacheKey = ({ connection, database, sql, params }: QueryCacheOptions) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([connection.id, fingerprintOf(connection), database, sql, params ?? []]),
+    )
+    .digest("hex");
+
+const ttlMsFor = (ttlSeconds?: number) => {
+  const seconds =
+    ttlSeconds !== undefined && Number.isFinite(ttlSeconds) ? ttlSeconds : DEFAULT_TTL_SECONDS;
+  return Math.max(0, Math.min(MAX_TTL_SECONDS, Math.trunc(seconds))) * 1000;
+};
+
+const rowCountOf = (value: unknown) => {
+  const rows = (value as { rows?: unknown }).rows;
+  return Array.isArray(rows) ? rows.length : 0;
+};
+
+const getCollection = async () => {
+  const db = await getDb();
+  const collection = db.collection<CacheDocument>(QUERY_CACHE_COLLECTION);
+  if (!globalWithCache._queryCacheIndexed) {
+    globalWithCache._queryCacheIndexed = true;
+    // Mongo drops documents once expiresAt has passed
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  }
+  return collection;
+};
+
+const readMemory = (key: string): CacheEntry | null => {
+  const entry = entries.get(key);
+  if (!entry) return null;
+  entries.delete(key);
+  if (entry.expiresAt <= Date.now()) return null;
+  entries.set(key, entry);
+  return entry;
+};
+
+const writeMemory = (key: string, entry: CacheEntry) => {
+  entries.delete(key);
+  entries.set(key, entry);
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+};
+
+const readMongo = async (key: string): Promise<CacheEntry | null> => {
+  try {
+    const collection = await getCollection();
+    const doc = await collection.findOne({ _id: key, expiresAt: { $gt: new Date() } });
+    if (!doc) return null;
+    return {
+      connectionId: doc.connectionId,
+      fingerprint: doc.fingerprint,
+      value: JSON.parse(doc.value),
+      cachedAt: doc.cachedAt.getTime(),
+      expiresAt: doc.expiresAt.getTime(),
+    };
+  } catch (error) {
+    console.error("Error reading query cache:", error);
+    return null;
+  }
+};
+
+const writeMongo = async (key: string, entry: CacheEntry) => {
+  try {
+    const value = JSON.stringify(entry.value);
+    if (value.length > MAX_MONGO_BYTES) return;
+    const collection = await getCollection();
+    await collection.replaceOne(
+      { _id: key },
+      {
+        connectionId: entry.connectionId,
+        fingerprint: entry.fingerprint,
+        value,
+        cachedAt: new Date(entry.cachedAt),
+        expiresAt: new Date(entry.expiresAt),
+      },
+      { upsert: true },
+    );
+  } catch (error) {
+    console.error("Error writing query cache:", error);
+  }
+};
+
+/**
+ * Serve a query result from the cache, or run it and cache the result for
+ * the chart's TTL. Keys cover connection, database, statement and parameters,
+ * so callers must check access before calling. A caller that joined an
+ * identical running query runs it again if the caller who started it
+ * cancelled it through /api/db/cancel.
+ */
+export async function withQueryCache<T extends object>(
+  options: QueryCacheOptions,
+  run: () => Promise<T>,
+): Promise<T & QueryCacheMeta> {
+  const ttlMs = ttlMsFor(options.ttlSeconds);
+  if (ttlMs === 0) {
+    return { ...(await run()), cachedAt: new Date().toISOString(), cached: false };
+  }
+
+  const key = cacheKey(options);
+  if (!options.refresh) {
+    const hit = readMemory(key) ?? (isMongoTierEnabled() ? await readMongo(key) : null);
+    if (hit) {
+      if (!entries.has(key)) writeMemory(key, hit);
+      return {
+        ...(hit.value as T),
+        cachedAt: new Date(hit.cachedAt).toISOString(),
+        cached: true,
+      };
+    }
+    const pending = inflight.get(key) as Promise<T & QueryCacheMeta> | undefined;
+    if (pending) {
+      try {
+        return await pending;
+      } catch (error) {
+        if (getDriver(options.connection).classifyError(error) !== "cancelled") throw error;
+        return withQueryCache(options, run);
+      }
+    }
+  }
+
+  const promise = (async () => {
+    const value = await run();
+    const cachedAt = Date.now();
+    if (rowCountOf(value) <= MAX_CACHED_ROWS) {
+      const entry: CacheEntry = {
+        connectionId: options.connection.id,
+        fingerprint: fingerprintOf(options.connection),
+        value,
+        cachedAt,
+        expiresAt: cachedAt + ttlMs,
+      };
+      writeMemory(key, entry);
+      if (isMongoTierEnabled()) void writeMongo(key, entry);
+    }
+    return { ...value, cachedAt: new Date(cachedAt).toISOString(), cached: false };
+  })();
+  inflight.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    if (inflight.get(key) === promise) inflight.delete(key);
+  }
+}
+
+/**
+ * Drop cached results for connections that were removed or whose settings changed
+ */
+export async function invalidateQueryCache(connections: DbConnection[]): Promise<void> {
+  const current = new Map(connections.map((c) => [c.id, fingerprintOf(c)]));
+  for (const [key, entry] of entries) {
+    if (current.get(entry.connectionId) !== entry.fingerprint) entries.delete(key);
+  }
+  if (!isMongoTierEnabled()) return;
+  try {
+    const collection = await getCollection();
+    const kept = Array.from(current, ([connectionId, fingerprint]) => ({
+      connectionId,
+      fingerprint,
+    }));
+    await collection.deleteMany(kept.length > 0 ? { $nor: kept } : {});
+  } catch (error) {
+    console.error("Error invalidating query cache:", error);
+  }
+}
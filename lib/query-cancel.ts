@@ -0,0 +1,48 @@
+export type RunningQueryHandle = {
+  queryId: string;
+  controller: AbortController;
+};
+
+export function createQueryId(): string {
+  return `query_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function startQuery(): RunningQueryHandle {
+  return { queryId: createQueryId(), controller: new AbortController() };
+}
+
+export function trackRunningQuery(
+  running: Map<string, RunningQueryHandle>,
+  key: string,
+): RunningQueryHandle {
+  const handle = startQuery();
+  running.set(key, handle);
+  return handle;
+}
+
+export function untrackRunningQuery(
+  running: Map<string, RunningQueryHandle>,
+  key: string,
+  handle: RunningQueryHandle,
+): void {
+  if (running.get(key) === handle) running.delete(key);
+}
+
+/**
+ * Stop waiting for a query and ask the server to kill it on the database
+ */
+export async function cancelRunningQuery(handle: RunningQueryHandle): Promise<void> {
+  handle.controller.abort();
+  try {
+    await fetch("/api/db/cancel", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ queryId: handle.queryId }),
+    });
+  } catch (error) {
+    console.error("Error cancelling query:", error);
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
@@ -0,0 +1,157 @@
+import { Document } from "mongodb";
+import { DbConnection } from "@/hooks/use-connections";
+import { getQueryTimeoutMs } from "@/lib/connection-policy";
+import { DriverSession, QueryResultSet } from "@/lib/db-driver";
+import { DB_DRIVERS, getDriver } from "@/lib/db-drivers";
+import { openPipelineSession } from "@/lib/db-driver-mongodb";
+
+type RunningQuery = {
+  cancel: () => Promise<void>; // From DriverSession.canceller
+};
+
+export type QueryTarget = {
+  owner: string; // Email of the user running the query
+  connection: DbConnection;
+  database?: string;
+};
+
+export type CancelResult = "cancelled" | "not_found";
+
+// Queries are only cancellable by the user who started them, so the
+// registry is keyed by owner + client-supplied query id
+const globalWithQueries = global as typeof globalThis & {
+  _runningQueries?: Map<string, RunningQuery>;
+};
+const runningQueries = (globalWithQueries._runningQueries ??= new Map());
+
+const QUERY_ID = /^[\w-]{8,64}$/;
+
+const registryKey = (owner: string, queryId: string) =>
+  `${owner.toLowerCase()}:${queryId}`;
+
+export function isValidQueryId(queryId: unknown): queryId is string {
+  return typeof queryId === "string" && QUERY_ID.test(queryId);
+}
+
+/**
+ * Make a session cancellable under queryId, for engines that support it.
+ * Returns a function that removes it from the registry.
+ */
+export async function trackQuery(
+  queryId: string | undefined,
+  session: Pick<DriverSession, "canceller">,
+  target: QueryTarget,
+): Promise<() => void> {
+  if (!isValidQueryId(queryId)) return () => {};
+  const cancel = await session.canceller();
+  if (!cancel) return () => {};
+  const key = registryKey(target.owner, queryId);
+  const entry = { cancel };
+  runningQueries.set(key, entry);
+  return () => {
+    if (runningQueries.get(key) === entry) runningQueries.delete(key);
+  };
+}
+
+export type RunQueryOptions = {
+  database?: string;
+  params?: unknown[];
+  readOnly?: boolean;
+  // Register the statement for /api/db/cancel under this id
+  queryId?: string;
+  owner?: string;
+};
+
+/**
+ * Run one statement on a fresh session with the connection's timeout,
+ * cancellable under queryId when an owner is given
+ */
+export async function runQuery(
+  connection: DbConnection,
+  sql: string,
+  { database, params, readOnly, queryId, owner }: RunQueryOptions = {},
+): Promise<QueryResultSet> {
+  const session = await getDriver(connection).connect(connection, database);
+  let untrack = () => {};
+  try {
+    if (owner) untrack = await trackQuery(queryId, session, { owner, connection, database });
+    const result = await session.query(sql, { params, readOnly });
+    await session.release();
+    return result;
+  } catch (error) {
+    await session.release(true).catch(() => {});
+    throw error;
+  } finally {
+    untrack();
+  }
+}
+
+export type RunPipelineOptions = Omit<RunQueryOptions, "params" | "readOnly"> & {
+  database: string;
+};
+
+/**
+ * Run an aggregation pipeline on a MongoDB collection with the connection's
+ * timeout, cancellable under queryId like runQuery
+ */
+export async function runPipeline(
+  connection: DbConnection,
+  collection: string,
+  pipeline: Document[],
+  { database, queryId, owner }: RunPipelineOptions,
+): Promise<QueryResultSet> {
+  const session = await openPipelineSession(connection, database);
+  let untrack = () => {};
+  try {
+    if (owner) untrack = await trackQuery(queryId, session, { owner, connection, database });
+    return await session.aggregate(collection, pipeline);
+  } finally {
+    untrack();
+    await session.release();
+  }
+}
+
+/**
+ * Cancel a running query from a separate session (pg_cancel_backend,
+ * KILL QUERY, ...) using the same credentials
+ */
+export async function cancelQuery(
+  owner: string,
+  queryId: string,
+): Promise<CancelResult> {
+  const key = registryKey(owner, queryId);
+  const running = runningQueries.get(key);
+  if (!running) return "not_found";
+
+  await running.cancel();
+  runningQueries.delete(key);
+  return "cancelled";
+}
+
+/**
+ * Map driver errors for timed out / cancelled statements to an HTTP status
+ * and a readable message
+ */
+export function describeQueryError(
+  error: unknown,
+  connection?: DbConnection,
+): { status: number; message: string } {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  // Without a connection, any engine that recognises the error decides
+  const drivers = connection ? [getDriver(connection)] : Object.values(DB_DRIVERS);
+  const kind = drivers.map((driver) => driver.classifyError(error)).find(Boolean);
+
+  if (kind === "timeout") {
+    const timeoutMs = connection ? getQueryTimeoutMs(connection) : null;
+    return {
+      status: 504,
+      message: timeoutMs
+        ? `Query timed out after ${Math.round(timeoutMs / 1000)}s`
+        : "Query timed out",
+    };
+  }
+  if (kind === "cancelled") {
+    return { status: 499, message: "Query was cancelled" };
+  }
+  return { status: 500, message };
+}
@@ -0,0 +1,112 @@
+import {
+  ReportDefinition,
+  ReportDelivery,
+  ReportDeliveryResult,
+  ReportDeliveryType,
+  ReportRun,
+} from "@/types/report";
+import { RenderedReport } from "@/lib/report-render";
+import { sendMail } from "@/lib/smtp";
+import { describeWebhookUrl, postLarkText, validateWebhookUrl } from "@/lib/webhook";
+
+export type ReportDeliveryPayload = {
+  report: ReportDefinition;
+  run: ReportRun;
+  file: RenderedReport;
+  downloadUrl?: string; // Set when REPORT_BASE_URL is configured
+};
+
+/**
+ * Sends a finished snapshot somewhere. Add a delivery type by extending
+ * ReportDelivery and registering an adapter below.
+ */
+export interface ReportDeliveryAdapter<T extends ReportDelivery> {
+  describe(target: T): string; // Short label for the run history
+  validate(target: T): string | null; // Error message, or null when usable
+  deliver(target: T, payload: ReportDeliveryPayload): Promise<void>;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+$/;
+
+const summaryText = ({ report, run, downloadUrl }: ReportDeliveryPayload) =>
+  [
+    `รายงาน: ${report.name}`,
+    `จำนวนกราฟ: ${run.chartCount ?? 0}`,
+    `ไฟล์: ${run.fileName}`,
+    ...(downloadUrl ? [`ดาวน์โหลด: ${downloadUrl}`] : []),
+  ].join("\n");
+
+// Lark custom bot: bots cannot post files, so the message links to the snapshot
+const larkAdapter: ReportDeliveryAdapter<Extract<ReportDelivery, { type: "lark" }>> = {
+  describe: (target) => describeWebhookUrl(target.webhookUrl),
+  validate: (target) => validateWebhookUrl(target.webhookUrl),
+  deliver: (target, payload) => postLarkText(target.webhookUrl, summaryText(payload)),
+};
+
+const smtpAdapter: ReportDeliveryAdapter<Extract<ReportDelivery, { type: "smtp" }>> = {
+  describe: (target) => target.to.join(", "),
+  validate: (target) =>
+    target.to.length === 0
+      ? "At least one recipient is required"
+      : target.to.every((email) => EMAIL_PATTERN.test(email))
+      ? null
+      : "Invalid email address",
+  deliver: (target, payload) =>
+    sendMail({
+      to: target.to,
+      subject: `[BearVault] ${payload.report.name}`,
+      text: summaryText(payload),
+      attachments: [
+        {
+          fileName: payload.file.fileName,
+          contentType: payload.file.contentType,
+          content: payload.file.content,
+        },
+      ],
+    }),
+};
+
+const ADAPTERS: {
+  [K in ReportDeliveryType]: ReportDeliveryAdapter<Extract<ReportDelivery, { type: K }>>;
+} = {
+  lark: larkAdapter,
+  smtp: smtpAdapter,
+};
+
+const adapterFor = (delivery: ReportDelivery) =>
+  ADAPTERS[delivery.type] as ReportDeliveryAdapter<ReportDelivery> | undefined;
+
+/**
+ * Error message for a delivery target that cannot be used, or null
+ */
+export function validateDelivery(delivery: ReportDelivery): string | null {
+  const adapter = adapterFor(delivery);
+  return adapter ? adapter.validate(delivery) : `Unknown delivery type "${delivery.type}"`;
+}
+
+/**
+ * Send a snapshot to one target. Failures are reported, not thrown, so one
+ * broken target does not stop the others.
+ */
+export async function deliverReport(
+  delivery: ReportDelivery,
+  payload: ReportDeliveryPayload,
+): Promise<ReportDeliveryResult> {
+  const adapter = adapterFor(delivery);
+  if (!adapter) {
+    return { type: delivery.type, target: "", ok: false, error: "Unknown delivery type" };
+  }
+  const target = adapter.describe(delivery);
+  try {
+    await adapter.deliver(delivery, payload);
+    return { type: delivery.type, target, ok: true };
+  } catch (error) {
+    console.error(`Error delivering report via ${delivery.type}:`, error);
+    return {
+      type: delivery.type,
+      target,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { readFile } from "fs/promises";
+import { ReportFormat } from "@/types/report";
+import { REPORT_TIMEZONE } from "@/lib/cron";
+
+export type ReportSection = {
+  title: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  error?: string; // The chart's query failed; rendered in place of its table
+};
+
+export type RenderedReport = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
+// PDF tables beyond this many rows are cut; Excel keeps every row
+const MAX_PDF_ROWS = 2000;
+// Optional TTF for the PDF (e.g. Sarabun); jsPDF's built-in fonts cannot draw Thai
+const PDF_FONT_PATH = process.env.REPORT_PDF_FONT_PATH;
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const formatGeneratedAt = (date: Date) =>
+  date.toLocaleString("th-TH", { timeZone: REPORT_TIMEZONE });
+
+const cellText = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Excel keeps numbers and dates typed; anything else becomes text
+const cellValue = (value: unknown) =>
+  typeof value === "number" || typeof value === "boolean" || value instanceof Date
+    ? value
+    : cellText(value);
+
+const columnsOf = (section: ReportSection) =>
+  section.columns.length > 0 ? section.columns : Object.keys(section.rows[0] || {});
+
+/**
+ * File name from the report name and run time, safe for downloads and email
+ */
+const fileNameFor = (name: string, generatedAt: Date, format: ReportFormat) => {
+  const base = name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "report";
+  const stamp = generatedAt
+    .toLocaleString("sv-SE", { timeZone: REPORT_TIMEZONE })
+    .replace(" ", "_")
+    .replace(/:/g, "")
+    .slice(0, 15);
+  return `${base}_${stamp}.${format}`;
+};
+
+async function renderXlsx(name: string, generatedAt: Date, sections: ReportSection[]) {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+
+  const summary = XLSX.utils.aoa_to_sheet([
+    [name],
+    ["สร้างเมื่อ", formatGeneratedAt(generatedAt)],
+    [],
+    ["กราฟ", "จำนวนแถว", "หมายเหตุ"],
+    ...sections.map((section) => [section.title, section.rows.length, section.error || ""]),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, summary, "สรุป");
+
+  const usedNames = new Set(["สรุป"]);
+  sections.forEach((section, index) => {
+    // Sheet names: at most 31 characters, none of []:*?/\, unique
+    const base = (section.title.replace(/[[\]:*?/\\]/g, " ").trim() || `Chart ${index + 1}`).slice(0, 28);
+    let sheetName = base;
+    for (let n = 2; usedNames.has(sheetName); n++) sheetName = `${base} ${n}`;
+    usedNames.add(sheetName);
+
+    const columns = columnsOf(section);
+    const sheet = XLSX.utils.aoa_to_sheet(
+      section.error
+        ? [[section.error]]
+        : [columns, ...section.rows.map((row) => columns.map((c) => cellValue(row[c])))],
+    );
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+  });
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+async function renderPdf(name: string, generatedAt: Date, sections: ReportSection[]) {
+  const { jsPDF } = await import("jspdf");
+  const autoTable = (await import("jspdf-autotable")).default;
+
+  const doc = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: "a4",
+    compress: true,
+  });
+
+  let font = "helvetica";
+  if (PDF_FONT_PATH) {
+    const data = await readFile(PDF_FONT_PATH);
+    doc.addFileToVFS("report-font.ttf", data.toString("base64"));
+    doc.addFont("report-font.ttf", "ReportFont", "normal");
+    doc.addFont("report-font.ttf", "ReportFont", "bold");
+    font = "ReportFont";
+  }
+
+  doc.setFont(font, "normal");
+  doc.setFontSize(16);
+  doc.text(name, 14, 14);
+  doc.setFontSize(9);
+  doc.text(formatGeneratedAt(generatedAt), 14, 20);
+
+  let y = 28;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  for (const section of sections) {
+    if (y > pageHeight - 30) {
+      doc.addPage();
+      y = 14;
+    }
+    doc.setFontSize(12);
+    doc.text(section.title, 14, y);
+    y += 4;
+
+    if (section.error || section.rows.length === 0) {
+      doc.setFontSize(9);
+      doc.text(section.error || "ไม่มีข้อมูล", 14, y + 4);
+      y += 14;
+      continue;
+    }
+
+    const columns = columnsOf(section);
+    const rows = section.rows.slice(0, MAX_PDF_ROWS);
+    autoTable(doc, {
+      head: [columns],
+      body: rows.map((row) => columns.map((c) => cellText(row[c]))),
+      startY: y,
+      styles: { font, fontSize: 7, cellPadding: 1.5, overflow: "linebreak" },
+      headStyles: { font, fillColor: [66, 66, 66], textColor: 255 },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      margin: { left: 14, right: 14 },
+    });
+    // jspdf-autotable records where the last table ended on the document
+    y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 4;
+    if (section.rows.length > rows.length) {
+      doc.setFontSize(8);
+      doc.text(`แสดง ${rows.length} จาก ${section.rows.length} แถว (ดูทั้งหมดในไฟล์ Excel)`, 14, y + 2);
+      y += 4;
+    }
+    y += 8;
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+/**
+ * Render a report snapshot: one table per chart, as PDF or Excel
+ */
+export async function renderReport(
+  name: string,
+  format: ReportFormat,
+  sections: ReportSection[],
+  generatedAt: Date = new Date(),
+): Promise<RenderedReport> {
+  const content =
+    format === "pdf"
+      ? await renderPdf(name, generatedAt, sections)
+      : await renderXlsx(name, generatedAt, sections);
+  return {
+    fileName: fileNameFor(name, generatedAt, format),
+    contentType: CONTENT_TYPES[format],
+    content,
+  };
+}
@@ -0,0 +1,271 @@
+import { Readable } from "stream";
+import { GridFSBucket } from "mongodb";
+import { getDb } from "@/lib/mongodb";
+import { ChartConfig } from "@/types/chart";
+import { ReportDefinition, ReportRun } from "@/types/report";
+import { getConnectionsState } from "@/lib/connections";
+import { getTabInputs } from "@/lib/tab-inputs";
+import { fetchChartData } from "@/lib/chart-data";
+import { getAccessSubject } from "@/lib/auth";
+import { nextCronRun } from "@/lib/cron";
+import { renderReport, ReportSection } from "@/lib/report-render";
+import { deliverReport } from "@/lib/report-delivery";
+
+export const REPORTS_COLLECTION = "reports";
+export const REPORT_RUNS_COLLECTION = "report_runs";
+// Snapshot files live in GridFS: a large Excel file can pass Mongo's 16MB document cap
+export const REPORT_SNAPSHOTS_BUCKET = "report_snapshots";
+
+const CHARTS_COLLECTION = "chart_configs";
+// Runs (and their snapshots) kept per report; older ones are deleted
+const MAX_RUNS_PER_REPORT = Number(process.env.REPORT_MAX_RUNS) || 50;
+
+const createRunId = () =>
+  `report_run_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+const getBucket = async () =>
+  new GridFSBucket(await getDb(), { bucketName: REPORT_SNAPSHOTS_BUCKET });
+
+/**
+ * Next scheduled time for a report, or undefined while it is disabled
+ */
+export function computeNextRunAt(
+  report: Pick<ReportDefinition, "enabled" | "schedule">,
+  after: Date = new Date(),
+): string | undefined {
+  return report.enabled ? nextCronRun(report.schedule, after).toISOString() : undefined;
+}
+
+export async function listReports(): Promise<ReportDefinition[]> {
+  const db = await getDb();
+  return db
+    .collection<ReportDefinition>(REPORTS_COLLECTION)
+    .find({}, { projection: { _id: 0 } })
+    .sort({ name: 1 })
+    .toArray();
+}
+
+export async function getReport(reportId: string): Promise<ReportDefinition | null> {
+  const db = await getDb();
+  return db
+    .collection<ReportDefinition>(REPORTS_COLLECTION)
+    .findOne({ id: reportId }, { projection: { _id: 0 } });
+}
+
+export async function saveReport(report: ReportDefinition): Promise<void> {
+  const db = await getDb();
+  await db
+    .collection<ReportDefinition>(REPORTS_COLLECTION)
+    .replaceOne({ id: report.id }, report, { upsert: true });
+}
+
+/**
+ * Delete a report with its run history and snapshot files
+ */
+export async function deleteReport(reportId: string): Promise<void> {
+  const db = await getDb();
+  await db.collection(REPORTS_COLLECTION).deleteOne({ id: reportId });
+  await db.collection(REPORT_RUNS_COLLECTION).deleteMany({ reportId });
+  const bucket = await getBucket();
+  const files = await bucket.find({ "metadata.reportId": reportId }).toArray();
+  for (const file of files) await bucket.delete(file._id);
+}
+
+/**
+ * Recent runs, newest first; all reports when reportId is not given
+ */
+export async function listReportRuns(reportId?: string, limit = 100): Promise<ReportRun[]> {
+  const db = await getDb();
+  return db
+    .collection<ReportRun>(REPORT_RUNS_COLLECTION)
+    .find(reportId ? { reportId } : {}, { projection: { _id: 0 } })
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+export async function getReportRun(runId: string): Promise<ReportRun | null> {
+  const db = await getDb();
+  return db
+    .collection<ReportRun>(REPORT_RUNS_COLLECTION)
+    .findOne({ id: runId }, { projection: { _id: 0 } });
+}
+
+/**
+ * Stream of a run's snapshot file, or null when the run has none
+ */
+export async function openReportSnapshot(
+  runId: string,
+): Promise<{ stream: Readable; contentType: string; fileName: string; size: number } | null> {
+  const bucket = await getBucket();
+  const [file] = await bucket.find({ "metadata.runId": runId }).limit(1).toArray();
+  if (!file) return null;
+  return {
+    stream: bucket.openDownloadStream(file._id),
+    contentType: String(file.metadata?.contentType || "application/octet-stream"),
+    fileName: file.filename,
+    size: file.length,
+  };
+}
+
+// Charts of the report's tab, in tab order
+const loadReportCharts = async (report: ReportDefinition) => {
+  const db = await getDb();
+  const doc = await db
+    .collection(CHARTS_COLLECTION)
+    .findOne<{ charts?: ChartConfig[] }>({ pagePath: `/dashboard/${report.tabId}` });
+  const charts = (doc?.charts || []).filter(
+    (chart) => chart.connectionId && chart.database && (chart.sqlQuery || chart.tableName),
+  );
+  if (!report.chartIds || report.chartIds.length === 0) return charts;
+  const selected = new Set(report.chartIds);
+  return charts.filter((chart) => selected.has(chart.id));
+};
+
+const pruneRuns = async (reportId: string) => {
+  const db = await getDb();
+  const runs = db.collection<ReportRun>(REPORT_RUNS_COLLECTION);
+  const old = await runs
+    .find({ reportId }, { projection: { id: 1 } })
+    .sort({ startedAt: -1 })
+    .skip(MAX_RUNS_PER_REPORT)
+    .toArray();
+  if (old.length === 0) return;
+  const runIds = old.map((run) => run.id);
+  await runs.deleteMany({ id: { $in: runIds } });
+  const bucket = await getBucket();
+  const files = await bucket.find({ "metadata.runId": { $in: runIds } }).toArray();
+  for (const file of files) await bucket.delete(file._id);
+};
+
+/**
+ * Render a report now: query its charts, store the snapshot and send it to
+ * every delivery target. The run is recorded even when it fails.
+ */
+export async function runReport(
+  report: ReportDefinition,
+  trigger: ReportRun["trigger"],
+  triggeredBy?: string,
+): Promise<ReportRun> {
+  const db = await getDb();
+  const runs = db.collection<ReportRun>(REPORT_RUNS_COLLECTION);
+  const run: ReportRun = {
+    id: createRunId(),
+    reportId: report.id,
+    reportName: report.name,
+    tabId: report.tabId,
+    trigger,
+    ...(triggeredBy ? { triggeredBy } : {}),
+    status: "running",
+    format: report.format,
+    startedAt: new Date().toISOString(),
+  };
+  await runs.insertOne({ ...run });
+
+  try {
+    const charts = await loadReportCharts(report);
+    const { connections } = await getConnectionsState();
+    // Charts are read with the report creator's access
+    const subject = await getAccessSubject(report.createdBy);
+    // Report values override the values saved on the tab
+    const inputs = (await getTabInputs(report.tabId)).map((input) =>
+      report.inputs && input.key in report.inputs
+        ? { ...input, value: report.inputs[input.key] }
+        : input,
+    );
+
+    // One chart at a time, so a report does not flood the databases
+    const sections: ReportSection[] = [];
+    for (const chart of charts) {
+      const connection = connections.find((c) => c.id === chart.connectionId);
+      const title = chart.title || chart.id;
+      if (!connection) {
+        sections.push({ title, columns: [], rows: [], error: "Connection not found" });
+        continue;
+      }
+      try {
+        const data = await fetchChartData(connection, chart, inputs, subject);
+        sections.push({ title, columns: data.columns, rows: data.rows });
+      } catch (error) {
+        sections.push({
+          title,
+          columns: [],
+          rows: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const file = await renderReport(report.name, report.format, sections);
+    const bucket = await getBucket();
+    await new Promise<void>((resolve, reject) => {
+      const upload = bucket.openUploadStream(file.fileName, {
+        metadata: { runId: run.id, reportId: report.id, contentType: file.contentType },
+      });
+      upload.once("finish", () => resolve());
+      upload.once("error", reject);
+      upload.end(file.content);
+    });
+
+    run.fileName = file.fileName;
+    run.size = file.content.length;
+    run.chartCount = sections.length;
+
+    const baseUrl = process.env.REPORT_BASE_URL?.replace(/\/+$/, "");
+    const payload = {
+      report,
+      run,
+      file,
+      downloadUrl: baseUrl ? `${baseUrl}/api/reports/download?runId=${run.id}` : undefined,
+    };
+    run.deliveries = [];
+    for (const delivery of report.deliveries || []) {
+      run.deliveries.push(await deliverReport(delivery, payload));
+    }
+    run.status = "success";
+  } catch (error) {
+    console.error(`Error running report ${report.id}:`, error);
+    run.status = "failed";
+    run.error = error instanceof Error ? error.message : String(error);
+  }
+
+  run.finishedAt = new Date().toISOString();
+  await runs.replaceOne({ id: run.id }, run);
+  await db
+    .collection<ReportDefinition>(REPORTS_COLLECTION)
+    .updateOne({ id: report.id }, { $set: { lastRunAt: run.startedAt, lastStatus: run.status } });
+  await pruneRuns(report.id).catch((error) =>
+    console.error("Error pruning report runs:", error),
+  );
+  return run;
+}
+
+/**
+ * Run every enabled report whose time has come. Each report is claimed by
+ * moving its nextRunAt first, so several server instances never run it twice.
+ */
+export async function runDueReports(now: Date = new Date()): Promise<number> {
+  const db = await getDb();
+  const reports = db.collection<ReportDefinition>(REPORTS_COLLECTION);
+  const due = await reports
+    .find({ enabled: true, nextRunAt: { $lte: now.toISOString() } }, { projection: { _id: 0 } })
+    .toArray();
+
+  let count = 0;
+  for (const report of due) {
+    let nextRunAt: string | undefined;
+    try {
+      nextRunAt = computeNextRunAt(report, now);
+    } catch (error) {
+      console.error(`Invalid schedule for report ${report.id}:`, error);
+    }
+    const claimed = await reports.updateOne(
+      { id: report.id, nextRunAt: report.nextRunAt },
+      nextRunAt ? { $set: { nextRunAt } } : { $unset: { nextRunAt: "" } },
+    );
+    if (claimed.modifiedCount === 0) continue;
+    await runReport(report, "schedule");
+    count++;
+  }
+  return count;
+}
@@ -84,8 +84,9 @@ export class BackendClient {
         }
     }
 
-    logout = () => {
+    logout = async () => {
         try {
+            await axios.delete("/api/authorization").catch(() => undefined);
             removeItem("user_info");
             window.location.href = "/";
         } catch (e) {
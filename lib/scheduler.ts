@@ -0,0 +1,35 @@
+import { runDueReports } from "@/lib/reports";
+import { runDueAlerts } from "@/lib/alerts";
+import { runDueFraudRules } from "@/lib/fraud";
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+const globalWithScheduler = global as typeof globalThis & {
+  _scheduler?: ReturnType<typeof setInterval>;
+  _schedulerBusy?: boolean;
+};
+
+/**
+ * Check for due reports, alert rules and fraud rules every minute in this server process
+ */
+export function startScheduler(): void {
+  if (globalWithScheduler._scheduler) return;
+  globalWithScheduler._scheduler = setInterval(async () => {
+    if (globalWithScheduler._schedulerBusy) return;
+    globalWithScheduler._schedulerBusy = true;
+    try {
+      // Alerts first: a long report run should not delay them
+      await runDueAlerts().catch((error) =>
+        console.error("Error running scheduled alerts:", error),
+      );
+      await runDueFraudRules().catch((error) =>
+        console.error("Error running scheduled fraud rules:", error),
+      );
+      await runDueReports().catch((error) =>
+        console.error("Error running scheduled reports:", error),
+      );
+    } finally {
+      globalWithScheduler._schedulerBusy = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+
+// Stored secrets:   enc:v1:<keyId>:<wrapped data key>:<payload>
+// Exported secrets: pbe:v1:<salt>:<payload>
+// Each sealed part is "<iv>.<tag>.<ciphertext>" (base64url, AES-256-GCM)
+const SECRET_PREFIX = "enc:v1:";
+const EXPORT_PREFIX = "pbe:v1:";
+
+type MasterKey = {
+  id: string;
+  key: Buffer;
+};
+
+const toMasterKey = (raw: string): MasterKey => {
+  const key = crypto.createHash("sha256").update(raw).digest();
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+};
+
+/**
+ * Current master key from CONNECTION_SECRET_KEY plus any retired keys
+ * listed (comma separated) in CONNECTION_SECRET_KEY_PREVIOUS
+ */
+function getKeyring(): { current: MasterKey | null; all: MasterKey[] } {
+  const currentRaw = process.env.CONNECTION_SECRET_KEY?.trim();
+  const previousRaw = (process.env.CONNECTION_SECRET_KEY_PREVIOUS || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+
+  const current = currentRaw ? toMasterKey(currentRaw) : null;
+  const all = [
+    ...(current ? [current] : []),
+    ...previousRaw.map(toMasterKey),
+  ];
+  return { current, all };
+}
+
+const seal = (key: Buffer, plain: Buffer): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plain), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, data].map((b) => b.toString("base64url")).join(".");
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const [iv, tag, data] = sealed.split(".").map((p) => Buffer.from(p, "base64url"));
+  if (!iv || !tag || !data) {
+    throw new Error("Malformed encrypted secret");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+};
+
+export function isEncryptedSecret(value?: string): boolean {
+  return typeof value === "string" && value.startsWith(SECRET_PREFIX);
+}
+
+export function isExportedSecret(value?: string): boolean {
+  return typeof value === "string" && value.startsWith(EXPORT_PREFIX);
+}
+
+/**
+ * Envelope-encrypt a secret: a fresh data key encrypts the value and the
+ * master key encrypts the data key
+ */
+export function encryptSecret(plain: string): string {
+  if (!plain || isEncryptedSecret(plain)) return plain;
+
+  const { current } = getKeyring();
+  if (!current) {
+    throw new Error("CONNECTION_SECRET_KEY is not configured");
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(current.key, dataKey);
+  const payload = seal(dataKey, Buffer.from(plain, "utf8"));
+  return `${SECRET_PREFIX}${current.id}:${wrappedKey}:${payload}`;
+}
+
+/**
+ * Decrypt a stored secret. Legacy plaintext values are returned unchanged.
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const [keyId, wrappedKey, payload] = value.slice(SECRET_PREFIX.length).split(":");
+  const masterKey = getKeyring().all.find((k) => k.id === keyId);
+  if (!masterKey) {
+    throw new Error(`No master key available for secret key id ${keyId}`);
+  }
+
+  const dataKey = open(masterKey.key, wrappedKey);
+  return open(dataKey, payload).toString("utf8");
+}
+
+/**
+ * Encrypt a secret for export with a user supplied passphrase
+ */
+export function encryptWithPassphrase(plain: string, passphrase: string): string {
+  if (!plain) return plain;
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(passphrase, salt, 32);
+  return `${EXPORT_PREFIX}${salt.toString("base64url")}:${seal(key, Buffer.from(plain, "utf8"))}`;
+}
+
+export function decryptWithPassphrase(value: string, passphrase: string): string {
+  if (!isExportedSecret(value)) return value;
+  const [salt, payload] = value.slice(EXPORT_PREFIX.length).split(":");
+  const key = crypto.scryptSync(passphrase, Buffer.from(salt, "base64url"), 32);
+  return open(key, payload).toString("utf8");
+}
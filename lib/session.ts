@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+export const SESSION_COOKIE_NAME = "bv_session";
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+export type SessionUser = {
+  email: string;
+  name: string;
+  userId: string;
+  openId?: string;
+};
+
+type SessionPayload = SessionUser & {
+  exp: number; // unix seconds
+};
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured");
+  }
+  return secret;
+}
+
+const sign = (data: string) =>
+  crypto.createHmac("sha256", getSessionSecret()).update(data).digest("base64url");
+
+/**
+ * Create a signed session token: base64url(payload).signature
+ */
+export function createSessionToken(user: SessionUser): string {
+  const payload: SessionPayload = {
+    ...user,
+    email: user.email.toLowerCase(),
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const data = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify signature and expiry; returns null for anything invalid
+ */
+export function verifySessionToken(token?: string | null): SessionUser | null {
+  if (!token) return null;
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  try {
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8")) as SessionPayload;
+    if (!payload.email || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return {
+      email: payload.email,
+      name: payload.name,
+      userId: payload.userId,
+      openId: payload.openId,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function setSessionCookie(response: NextResponse, user: SessionUser) {
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(user), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+  return response;
+}
@@ -0,0 +1,213 @@
+import net from "net";
+import tls from "tls";
+import { hostname } from "os";
+
+export type MailAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+// SMTP_SECURE=true: TLS from the first byte (port 465). Otherwise plain,
+// upgraded with STARTTLS when the server offers it (a local test server
+// such as MailHog on port 1025 does not). Credentials only go over TLS
+// unless SMTP_ALLOW_INSECURE=true.
+const getSmtpConfig = () => {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("SMTP_HOST is not configured");
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD || "",
+    allowInsecure: process.env.SMTP_ALLOW_INSECURE === "true",
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || `bearvault@${hostname()}`,
+  };
+};
+
+const SMTP_TIMEOUT_MS = 30000;
+
+export function isSmtpConfigured(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+/**
+ * Reads SMTP replies (multi-line "250-..." runs end with "250 ...") off a socket
+ */
+class ReplyReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    let index;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  };
+
+  private onError = (error: Error) => {
+    this.failure = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  };
+
+  private onClose = () => this.onError(new Error("SMTP connection closed"));
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+}
+
+const connect = (host: string, port: number, secure: boolean) =>
+  new Promise<net.Socket>((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once("error", reject);
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+  });
+
+const upgrade = (socket: net.Socket, host: string) =>
+  new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once("error", reject);
+  });
+
+// RFC 2047 encoded-word, for Thai subjects and file names
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const base64Lines = (content: Buffer) =>
+  (content.toString("base64").match(/.{1,76}/g) || []).join("\r\n");
+
+const buildMessage = (from: string, message: MailMessage) => {
+  const boundary = `bearvault_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+  const parts = [
+    [
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(Buffer.from(message.text, "utf8")),
+    ].join("\r\n"),
+    ...(message.attachments || []).map((attachment) =>
+      [
+        `Content-Type: ${attachment.contentType}; name="${encodeHeader(attachment.fileName)}"`,
+        `Content-Disposition: attachment; filename="${encodeHeader(attachment.fileName)}"`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(attachment.content),
+      ].join("\r\n"),
+    ),
+  ];
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join("\r\n");
+};
+
+/**
+ * Send one email through the SMTP server from the SMTP_* environment variables
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const config = getSmtpConfig();
+  let socket = await connect(config.host, config.port, config.secure);
+  let reader = new ReplyReader(socket);
+
+  const command = async (line: string | null, expected: number[]) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    const ehlo = await command(`EHLO ${hostname()}`, [250]);
+    let encrypted = config.secure;
+    if (!encrypted && ehlo.lines.some((l) => l.toUpperCase().startsWith("STARTTLS"))) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgrade(socket, config.host);
+      reader = new ReplyReader(socket);
+      encrypted = true;
+      await command(`EHLO ${hostname()}`, [250]);
+    }
+    if (config.user) {
+      // A missing STARTTLS may have been stripped on the way; never send the password in the clear
+      if (!encrypted && !config.allowInsecure) {
+        throw new Error(
+          "SMTP server does not offer STARTTLS; refusing to send credentials (set SMTP_ALLOW_INSECURE=true for a local test server)",
+        );
+      }
+      const token = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+    await command(`MAIL FROM:<${config.from.replace(/^.*<|>.*$/g, "")}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+    // Dot-stuffing: a line starting with "." gets another "."
+    const body = buildMessage(config.from, message).replace(/^\./gm, "..");
+    await command(`${body}\r\n.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
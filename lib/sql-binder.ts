@@ -0,0 +1,204 @@
+import { SQL_DIALECTS, sqlConcat, SqlDialect, sqlPlaceholder } from "@/lib/sql-dialect";
+import { TabInput } from "@/types/tab-input";
+
+export type TabInputBinding = Pick<TabInput, "key" | "type" | "value" | "defaultValue">;
+
+export type BoundSql = {
+  sql: string;
+  params: unknown[];
+};
+
+// {{key}} is bound as a driver parameter; {{raw:key}} is spliced as an identifier
+const PLACEHOLDER = /{{\s*(raw:)?\s*([\w.-]+)\s*}}/y;
+const HAS_PLACEHOLDER = /{{\s*(?:raw:)?\s*[\w.-]+\s*}}/;
+const IDENTIFIER = /^[A-Za-z_][\w$]*(?:\.[A-Za-z_][\w$]*)*$/;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const findTabInput = (inputs: TabInputBinding[], key: string) => {
+  const wanted = key.trim().toLowerCase();
+  return inputs.find((input) => (input.key || "").trim().toLowerCase() === wanted);
+};
+
+const inputValue = (input?: TabInputBinding) =>
+  (input?.value ?? input?.defaultValue ?? "").trim();
+
+/**
+ * Value of a {{raw:key}} placeholder, which must be a plain identifier
+ */
+export function rawTabInputValue(rawInputs: TabInputBinding[], key: string): string {
+  const value = inputValue(findTabInput(rawInputs, key));
+  if (!IDENTIFIER.test(value)) {
+    throw new Error(`Input "${key}" used as {{raw:${key}}} must be a column or table name`);
+  }
+  return value;
+}
+
+/**
+ * Convert a tab input value to the driver type for its TabInputType
+ */
+export function coerceTabInputValue(input: TabInputBinding | undefined, key: string): unknown {
+  const value = inputValue(input);
+  switch (input?.type) {
+    case "number": {
+      if (!value) return null;
+      const num = Number(value);
+      if (!Number.isFinite(num)) {
+        throw new Error(`Input "${key}" must be a number`);
+      }
+      return num;
+    }
+    case "date":
+      if (!value) return null;
+      if (!DATE_VALUE.test(value)) {
+        throw new Error(`Input "${key}" must be a date (YYYY-MM-DD)`);
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+const findQuoteEnd = (sql: string, start: number, quote: string, backslashEscapes: boolean) => {
+  let j = start + 1;
+  while (j < sql.length) {
+    if (backslashEscapes && sql[j] === "\\") {
+      j += 2;
+      continue;
+    }
+    if (sql[j] === quote) {
+      if (sql[j + 1] === quote) {
+        j += 2;
+        continue;
+      }
+      return j + 1;
+    }
+    j++;
+  }
+  return sql.length;
+};
+
+/**
+ * Compile {{key}} placeholders in a chart SQL template into bind parameters
+ * (? / $n / @pn, see lib/sql-dialect). Placeholders inside string literals,
+ * e.g. '%{{q}}%', become CONCAT('%', ?, '%') / ('%' || $1 || '%').
+ *
+ * {{raw:key}} is spliced into the SQL text and must be a plain identifier.
+ * Its value comes from rawInputs only, so callers decide whose values are
+ * trusted (editors: their own, everyone else: the stored tab inputs).
+ */
+export function bindTemplateSql(
+  template: string,
+  dialect: SqlDialect,
+  inputs: TabInputBinding[],
+  rawInputs: TabInputBinding[],
+): BoundSql {
+  const params: unknown[] = [];
+  const hints = SQL_DIALECTS[dialect];
+  if (!HAS_PLACEHOLDER.test(template)) {
+    return { sql: template, params };
+  }
+
+  const bindParam = (key: string) => {
+    params.push(coerceTabInputValue(findTabInput(inputs, key), key));
+    return sqlPlaceholder(dialect, params.length);
+  };
+
+  // Returns the replacement for a placeholder at index, or null when there is none
+  const readPlaceholder = (text: string, index: number) => {
+    PLACEHOLDER.lastIndex = index;
+    const match = PLACEHOLDER.exec(text);
+    if (!match) return null;
+    const [whole, raw, key] = match;
+    return { length: whole.length, raw: Boolean(raw), key };
+  };
+
+  const bindLiteral = (literal: string) => {
+    const quote = literal[0];
+    const inner = literal.slice(1, -1);
+    if (!HAS_PLACEHOLDER.test(inner)) return literal;
+
+    const parts: string[] = [];
+    let text = "";
+    for (let k = 0; k < inner.length; ) {
+      const placeholder = inner[k] === "{" ? readPlaceholder(inner, k) : null;
+      if (!placeholder) {
+        text += inner[k++];
+        continue;
+      }
+      if (placeholder.raw) {
+        text += rawTabInputValue(rawInputs, placeholder.key);
+      } else {
+        if (text) parts.push(`${quote}${text}${quote}`);
+        text = "";
+        parts.push(bindParam(placeholder.key));
+      }
+      k += placeholder.length;
+    }
+    if (text) parts.push(`${quote}${text}${quote}`);
+
+    if (parts.length === 0) return `${quote}${quote}`;
+    if (parts.length === 1) return parts[0];
+    return sqlConcat(parts, dialect);
+  };
+
+  let out = "";
+  let i = 0;
+  while (i < template.length) {
+    const ch = template[i];
+    const next = template[i + 1];
+
+    // Comments are copied as-is
+    if ((ch === "-" && next === "-") || (ch === "#" && hints.hashComments)) {
+      const end = template.indexOf("\n", i);
+      const stop = end === -1 ? template.length : end + 1;
+      out += template.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = template.indexOf("*/", i + 2);
+      const stop = end === -1 ? template.length : end + 2;
+      out += template.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // String literals ("..." is a string in MySQL)
+    if (ch === "'" || (ch === '"' && hints.doubleQuotedStrings)) {
+      const end = findQuoteEnd(template, i, ch, hints.backslashEscapes);
+      out += bindLiteral(template.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    // Quoted identifiers
+    if (
+      ch === '"' ||
+      (ch === "`" && hints.backtickIdentifiers) ||
+      (ch === "[" && hints.bracketIdentifiers)
+    ) {
+      const end = findQuoteEnd(template, i, ch === "[" ? "]" : ch, false);
+      const identifier = template.slice(i, end);
+      if (HAS_PLACEHOLDER.test(identifier)) {
+        throw new Error("Use {{raw:key}} without quotes for table or column names");
+      }
+      out += identifier;
+      i = end;
+      continue;
+    }
+
+    const placeholder = ch === "{" ? readPlaceholder(template, i) : null;
+    if (placeholder) {
+      out += placeholder.raw
+        ? rawTabInputValue(rawInputs, placeholder.key)
+        : bindParam(placeholder.key);
+      i += placeholder.length;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return { sql: out, params };
+}
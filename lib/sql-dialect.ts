@@ -0,0 +1,172 @@
+// SQL flavours the builders (chart filters, grid filters, aggregates, fraud
+// rules, the template binder and the read-only guard) write for. Pure, so the
+// editor can use it too. Each engine in lib/db-types.ts maps to one of these.
+export type SqlDialect = "mysql" | "postgresql" | "mssql" | "sqlite" | "duckdb";
+
+export type SqlDialectHints = {
+  identifierQuotes: [string, string];
+  placeholder: "dollar" | "question" | "at"; // $1 / ? / @p1
+  caseInsensitiveLike: "ILIKE" | "LIKE"; // LIKE is already case-insensitive on the others' default collations
+  textType: string; // Target of CAST(... AS ...) when a value is compared as text
+  castForTextCompare: boolean; // MySQL compares any column type as text without a cast
+  stringConcat: "operator" | "function"; // a || b, or CONCAT(a, b)
+  rowLimit: "limit" | "offset_fetch"; // LIMIT n OFFSET m, or OFFSET m ROWS FETCH NEXT n ROWS ONLY
+  // Lexical quirks read by the tokenizer and the template binder
+  hashComments: boolean;
+  executableComments: boolean; // /*! ... */ runs on MySQL
+  backslashEscapes: boolean;
+  doubleQuotedStrings: boolean;
+  backtickIdentifiers: boolean;
+  bracketIdentifiers: boolean;
+  dollarQuoting: boolean;
+  atVariables: boolean; // @name / @@name read as one word
+};
+
+const STANDARD: SqlDialectHints = {
+  identifierQuotes: ['"', '"'],
+  placeholder: "dollar",
+  caseInsensitiveLike: "ILIKE",
+  textType: "TEXT",
+  castForTextCompare: true,
+  stringConcat: "operator",
+  rowLimit: "limit",
+  hashComments: false,
+  executableComments: false,
+  backslashEscapes: false,
+  doubleQuotedStrings: false,
+  backtickIdentifiers: false,
+  bracketIdentifiers: false,
+  dollarQuoting: true,
+  atVariables: false,
+};
+
+export const SQL_DIALECTS: Record<SqlDialect, SqlDialectHints> = {
+  postgresql: STANDARD,
+  duckdb: { ...STANDARD, textType: "VARCHAR" },
+  mysql: {
+    ...STANDARD,
+    identifierQuotes: ["`", "`"],
+    placeholder: "question",
+    caseInsensitiveLike: "LIKE",
+    textType: "CHAR",
+    castForTextCompare: false,
+    stringConcat: "function",
+    hashComments: true,
+    executableComments: true,
+    backslashEscapes: true,
+    doubleQuotedStrings: true,
+    backtickIdentifiers: true,
+    dollarQuoting: false,
+    atVariables: true,
+  },
+  sqlite: {
+    ...STANDARD,
+    placeholder: "question",
+    caseInsensitiveLike: "LIKE",
+    backtickIdentifiers: true,
+    bracketIdentifiers: true,
+    dollarQuoting: false,
+  },
+  mssql: {
+    ...STANDARD,
+    identifierQuotes: ["[", "]"],
+    placeholder: "at",
+    caseInsensitiveLike: "LIKE",
+    textType: "NVARCHAR(MAX)",
+    stringConcat: "function",
+    rowLimit: "offset_fetch",
+    bracketIdentifiers: true,
+    dollarQuoting: false,
+    atVariables: true,
+  },
+};
+
+export const quoteSqlIdentifier = (name: string, dialect: SqlDialect) => {
+  const [open, close] = SQL_DIALECTS[dialect].identifierQuotes;
+  return `${open}${String(name).split(close).join(close + close)}${close}`;
+};
+
+/**
+ * Placeholder for the index-th (1-based) parameter of a statement
+ */
+export const sqlPlaceholder = (dialect: SqlDialect, index: number) => {
+  const style = SQL_DIALECTS[dialect].placeholder;
+  return style === "dollar" ? `$${index}` : style === "at" ? `@p${index}` : "?";
+};
+
+export const castAsText = (expr: string, dialect: SqlDialect) =>
+  `CAST(${expr} AS ${SQL_DIALECTS[dialect].textType})`;
+
+// The calendar day of a date/time value, comparable to 'YYYY-MM-DD'
+export const sqlDay = (expr: string, dialect: SqlDialect) =>
+  dialect === "mysql" ? `DATE(${expr})` : dialect === "sqlite" ? `date(${expr})` : `CAST(${expr} AS DATE)`;
+
+// The calendar day of a date/time value as 'YYYY-MM-DD' text
+export const sqlDayText = (expr: string, dialect: SqlDialect) => {
+  switch (dialect) {
+    case "postgresql":
+      return `to_char(CAST(${expr} AS DATE), 'YYYY-MM-DD')`;
+    case "duckdb":
+      return `strftime(CAST(${expr} AS DATE), '%Y-%m-%d')`;
+    case "sqlite":
+      return `date(${expr})`;
+    case "mssql":
+      return `CONVERT(CHAR(10), CAST(${expr} AS DATE), 23)`;
+    default:
+      return `DATE_FORMAT(${expr}, '%Y-%m-%d')`;
+  }
+};
+
+export const sqlConcat = (parts: string[], dialect: SqlDialect) =>
+  SQL_DIALECTS[dialect].stringConcat === "operator"
+    ? `(${parts.join(" || ")})`
+    : `CONCAT(${parts.join(", ")})`;
+
+/**
+ * Row limit appended to a SELECT. SQL Server's OFFSET ... FETCH needs an
+ * ORDER BY, so one is added when the statement has none (`ordered`).
+ */
+export function sqlRowLimit(
+  dialect: SqlDialect,
+  limit: number | string,
+  { offset, ordered = false }: { offset?: number | string; ordered?: boolean } = {},
+): string {
+  if (SQL_DIALECTS[dialect].rowLimit === "limit") {
+    return offset !== undefined ? `LIMIT ${limit} OFFSET ${offset}` : `LIMIT ${limit}`;
+  }
+  return `${ordered ? "" : "ORDER BY (SELECT NULL) "}OFFSET ${offset ?? 0} ROWS FETCH NEXT ${limit} ROWS ONLY`;
+}
+
+// ORDER BY outside any parentheses, i.e. ordering the statement itself
+const hasOuterOrderBy = (sql: string) => {
+  const code = sql.replace(/'(?:[^']|'')*'/g, "''");
+  let depth = 0;
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "(") depth++;
+    else if (code[i] === ")") depth--;
+    else if (depth === 0 && /^ORDER\s+BY\b/i.test(code.slice(i, i + 12))) return true;
+  }
+  return false;
+};
+
+/**
+ * Cap a complete SELECT at `limit` rows: the limit is appended where the
+ * dialect and statement allow it, otherwise the statement is wrapped as a
+ * subquery. SQL Server refuses ORDER BY in a subquery, so an ordered
+ * statement gets OFFSET ... FETCH appended instead.
+ */
+export function limitSelect(
+  sql: string,
+  limit: number | string,
+  dialect: SqlDialect,
+  alias = "limited_rows",
+): string {
+  if (SQL_DIALECTS[dialect].rowLimit !== "limit") {
+    return hasOuterOrderBy(sql)
+      ? `${sql} ${sqlRowLimit(dialect, limit, { ordered: true })}`
+      : `SELECT * FROM (${sql}) AS ${alias} ${sqlRowLimit(dialect, limit)}`;
+  }
+  return /\bUNION\b/i.test(sql)
+    ? `SELECT * FROM (${sql}) AS ${alias} ${sqlRowLimit(dialect, limit)}`
+    : `${sql} ${sqlRowLimit(dialect, limit)}`;
+}
@@ -0,0 +1,394 @@
+import { SQL_DIALECTS, SqlDialect } from "@/lib/sql-dialect";
+
+export type { SqlDialect } from "@/lib/sql-dialect";
+
+export type SqlToken = {
+  type: "word" | "identifier" | "string" | "number" | "param" | "punct" | "operator";
+  value: string;
+  pos: number;
+};
+
+export type SqlValidationResult =
+  | { valid: true; sql: string; error?: undefined }
+  | { valid: false; sql?: undefined; error: string };
+
+const syntaxError = (message: string, pos: number) =>
+  new Error(`${message} (at position ${pos})`);
+
+// Statements that may not open a parenthesised block, which is where
+// PostgreSQL allows data-modifying CTEs: WITH x AS (DELETE ... RETURNING *)
+const DATA_MODIFYING_KEYWORDS = new Set([
+  "INSERT", "UPDATE", "DELETE", "MERGE", "REPLACE",
+]);
+
+// Functions with side effects or that can stall/DoS the server
+const DEFAULT_FUNCTION_DENYLIST = [
+  // PostgreSQL
+  "pg_sleep", "pg_sleep_for", "pg_sleep_until",
+  "pg_read_file", "pg_read_binary_file", "pg_ls_dir", "pg_stat_file",
+  "pg_terminate_backend", "pg_cancel_backend", "pg_reload_conf", "pg_rotate_logfile",
+  "pg_advisory_lock", "pg_advisory_xact_lock", "pg_advisory_lock_shared",
+  "pg_try_advisory_lock", "pg_notify", "set_config",
+  "lo_import", "lo_export", "lo_unlink",
+  "dblink", "dblink_exec", "dblink_connect", "dblink_send_query",
+  "query_to_xml", "query_to_xml_and_xmlschema", "table_to_xml",
+  "nextval", "setval",
+  // MySQL
+  "sleep", "benchmark", "load_file", "get_lock", "release_lock",
+  "release_all_locks", "master_pos_wait", "source_pos_wait", "sys_exec", "sys_eval",
+  // SQL Server
+  "openrowset", "openquery", "opendatasource", "xp_cmdshell",
+  // SQLite
+  "load_extension",
+];
+
+/**
+ * Denied function names: the built-in list plus SQL_FUNCTION_DENYLIST
+ * (comma separated) from the environment
+ */
+export function getFunctionDenylist(): Set<string> {
+  const extra = (process.env.SQL_FUNCTION_DENYLIST || "")
+    .split(",")
+    .map((f) => f.trim().toLowerCase())
+    .filter(Boolean);
+  return new Set([...DEFAULT_FUNCTION_DENYLIST, ...extra]);
+}
+
+const isWordStart = (ch: string) => /[A-Za-z_\u0080-\uffff]/.test(ch);
+const isWordPart = (ch: string) => /[\w$\u0080-\uffff]/.test(ch);
+
+/**
+ * Split SQL into tokens. Comments are dropped; strings, quoted identifiers,
+ * dollar-quoted bodies (PostgreSQL), backtick identifiers (MySQL) and
+ * bracket identifiers (SQL Server) are kept as single tokens so their
+ * contents are never mistaken for keywords.
+ */
+export function tokenizeSql(sql: string, dialect: SqlDialect): SqlToken[] {
+  const hints = SQL_DIALECTS[dialect];
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const readQuoted = (quote: string, start: number, backslashEscapes: boolean) => {
+    let j = start + 1;
+    while (j < sql.length) {
+      const ch = sql[j];
+      if (backslashEscapes && ch === "\\") {
+        j += 2;
+        continue;
+      }
+      if (ch === quote) {
+        if (sql[j + 1] === quote) {
+          j += 2;
+          continue;
+        }
+        return j + 1;
+      }
+      j++;
+    }
+    throw syntaxError("Unterminated quoted text", start);
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if ((ch === "-" && next === "-") || (ch === "#" && hints.hashComments)) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      // MySQL runs the body of /*! ... */ and /*+ ... */ comments
+      if (hints.executableComments && (sql[i + 2] === "!" || sql[i + 2] === "+")) {
+        throw syntaxError("Executable comments are not allowed", i);
+      }
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) throw syntaxError("Unterminated comment", i);
+      i = end + 2;
+      continue;
+    }
+
+    // Strings (E'..' / N'..' / X'..' prefixes are read as part of the string)
+    if (ch === "'" || (/[EeNnXxBb]/.test(ch) && next === "'")) {
+      const quoteAt = ch === "'" ? i : i + 1;
+      const backslash = hints.backslashEscapes || (ch !== "'" && /[Ee]/.test(ch));
+      const end = readQuoted("'", quoteAt, backslash);
+      tokens.push({ type: "string", value: sql.slice(i, end), pos: i });
+      i = end;
+      continue;
+    }
+    if (ch === '"') {
+      const end = readQuoted('"', i, hints.backslashEscapes);
+      tokens.push({
+        type: hints.doubleQuotedStrings ? "string" : "identifier",
+        value: sql.slice(i, end),
+        pos: i,
+      });
+      i = end;
+      continue;
+    }
+    if (ch === "`" && hints.backtickIdentifiers) {
+      const end = readQuoted("`", i, false);
+      tokens.push({ type: "identifier", value: sql.slice(i, end), pos: i });
+      i = end;
+      continue;
+    }
+    if (ch === "[" && hints.bracketIdentifiers) {
+      const end = readQuoted("]", i, false);
+      tokens.push({ type: "identifier", value: sql.slice(i, end), pos: i });
+      i = end;
+      continue;
+    }
+
+    // PostgreSQL dollar quoting and positional parameters
+    if (ch === "$" && hints.dollarQuoting) {
+      const tag = /^\$([A-Za-z_][\w]*)?\$/.exec(sql.slice(i));
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        if (end === -1) throw syntaxError("Unterminated dollar-quoted text", i);
+        tokens.push({ type: "string", value: sql.slice(i, end + tag[0].length), pos: i });
+        i = end + tag[0].length;
+        continue;
+      }
+      const param = /^\$\d+/.exec(sql.slice(i));
+      if (param) {
+        tokens.push({ type: "param", value: param[0], pos: i });
+        i += param[0].length;
+        continue;
+      }
+    }
+    if (ch === "?") {
+      tokens.push({ type: "param", value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === "." && next && /\d/.test(next))) {
+      const num = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(i));
+      const value = num ? num[0] : ch;
+      tokens.push({ type: "number", value, pos: i });
+      i += value.length;
+      continue;
+    }
+
+    if (isWordStart(ch) || (ch === "@" && hints.atVariables)) {
+      let j = i + 1;
+      while (j < sql.length && (isWordPart(sql[j]) || (sql[i] === "@" && sql[j] === "@"))) j++;
+      tokens.push({ type: "word", value: sql.slice(i, j), pos: i });
+      i = j;
+      continue;
+    }
+
+    if ("(),;.[]{}".includes(ch)) {
+      tokens.push({ type: "punct", value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    const op = /^(?:::|:=|<=>|<>|!=|<=|>=|\|\||->>|->|#>>|#>|&&|[-+*/%<>=!~^&|:@#])/.exec(sql.slice(i));
+    if (op) {
+      tokens.push({ type: "operator", value: op[0], pos: i });
+      i += op[0].length;
+      continue;
+    }
+
+    throw syntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  return tokens;
+}
+
+const upper = (token?: SqlToken) =>
+  token && token.type === "word" ? token.value.toUpperCase() : "";
+
+const isName = (token?: SqlToken) =>
+  !!token && (token.type === "word" || token.type === "identifier");
+
+// Statements a WITH clause may lead into
+const QUERY_KEYWORDS = new Set(["SELECT", "VALUES", "TABLE"]);
+
+/**
+ * A name token as the engine reads it: quoted identifiers lose their quotes
+ * (and doubled closing quotes), bare words are returned as written
+ */
+export function unquoteIdentifier(token: SqlToken): string {
+  if (token.type !== "identifier") return token.value;
+  const close = token.value[token.value.length - 1];
+  return token.value.slice(1, -1).split(close + close).join(close);
+}
+
+// Index just past the parenthesised block opened at tokens[open]
+const skipBlock = (tokens: SqlToken[], open: number) => {
+  let depth = 0;
+  for (let idx = open; idx < tokens.length; idx++) {
+    if (tokens[idx].value === "(") depth++;
+    if (tokens[idx].value === ")" && --depth === 0) return idx + 1;
+  }
+  return tokens.length;
+};
+
+/**
+ * Read the CTE list of the WITH at tokens[withIndex]: each CTE's name token
+ * with the index just past its body, whether the list is RECURSIVE, and the
+ * index of the statement the list leads into
+ */
+export function readCteList(
+  tokens: SqlToken[],
+  withIndex: number,
+): { ctes: { name: SqlToken; bodyEnd: number }[]; recursive: boolean; end: number } {
+  const ctes: { name: SqlToken; bodyEnd: number }[] = [];
+  let pos = withIndex + 1;
+  const recursive = upper(tokens[pos]) === "RECURSIVE";
+  if (recursive) pos++;
+  while (isName(tokens[pos])) {
+    const name = tokens[pos];
+    pos++;
+    if (tokens[pos]?.value === "(") pos = skipBlock(tokens, pos);
+    if (upper(tokens[pos]) !== "AS") break;
+    pos++;
+    while (["NOT", "MATERIALIZED"].includes(upper(tokens[pos]))) pos++;
+    if (tokens[pos]?.value !== "(") break;
+    pos = skipBlock(tokens, pos);
+    ctes.push({ name, bodyEnd: pos });
+    if (tokens[pos]?.value !== ",") break;
+    pos++;
+  }
+  return { ctes, recursive, end: pos };
+}
+
+/**
+ * Validate that a SQL string is a single read-only SELECT / WITH statement.
+ * Rejects multiple statements, data-modifying CTEs, SELECT ... INTO,
+ * locking reads and calls to denylisted functions.
+ */
+export function validateReadOnlySql(
+  sql: string,
+  dialect: SqlDialect,
+): SqlValidationResult {
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenizeSql(sql, dialect);
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : "Invalid SQL",
+    };
+  }
+
+  // A single trailing semicolon is fine; anything after it is a second statement
+  let end = tokens.length;
+  while (end > 0 && tokens[end - 1].value === ";") end--;
+  const body = tokens.slice(0, end);
+  if (body.length === 0) {
+    return { valid: false, error: "SQL is empty" };
+  }
+  if (body.some((t) => t.type === "punct" && t.value === ";")) {
+    return { valid: false, error: "Multiple statements are not allowed" };
+  }
+
+  const first = body.find((t) => t.value !== "(");
+  if (!["SELECT", "WITH"].includes(upper(first))) {
+    return {
+      valid: false,
+      error: "Only SELECT and WITH statements are allowed",
+    };
+  }
+
+  const denylist = getFunctionDenylist();
+  let depth = 0;
+
+  for (let idx = 0; idx < body.length; idx++) {
+    const token = body[idx];
+    const next = body[idx + 1];
+    const keyword = upper(token);
+
+    if (token.value === "(") depth++;
+    if (token.value === ")") depth--;
+    if (depth < 0) {
+      return { valid: false, error: "Unbalanced parentheses" };
+    }
+
+    // First word of every parenthesised block must not be a data-modifying statement
+    if (token.value === "(" && next && DATA_MODIFYING_KEYWORDS.has(upper(next))) {
+      // REPLACE(...) is also a string function
+      const isFunctionCall = upper(next) === "REPLACE" && body[idx + 2]?.value === "(";
+      if (!isFunctionCall) {
+        return {
+          valid: false,
+          error: `Data-modifying statement ${upper(next)} is not allowed`,
+        };
+      }
+    }
+
+    // WITH ... DELETE / UPDATE: the statement after the CTE list must be a query.
+    // Other WITHs (WITH TIME ZONE, WITH ROLLUP, table hints) follow a word.
+    if (keyword === "WITH" && (idx === 0 || body[idx - 1].value === "(")) {
+      let main = readCteList(body, idx).end;
+      while (body[main]?.value === "(") main++;
+      if (!QUERY_KEYWORDS.has(upper(body[main]))) {
+        return {
+          valid: false,
+          error: upper(body[main])
+            ? `Statement ${upper(body[main])} after WITH is not allowed`
+            : "WITH must be followed by a SELECT",
+        };
+      }
+    }
+
+    // U&"..." identifiers can spell any name, denylisted functions included
+    const quoted = body[idx + 2];
+    if (
+      keyword === "U" &&
+      next?.value === "&" &&
+      quoted?.type === "identifier" &&
+      next.pos === token.pos + 1 &&
+      quoted.pos === next.pos + 1
+    ) {
+      return { valid: false, error: "Unicode-escaped identifiers are not allowed" };
+    }
+
+    if (keyword === "INTO") {
+      return { valid: false, error: "SELECT ... INTO is not allowed" };
+    }
+
+    // T-SQL runs WAITFOR as its own statement, even without a semicolon before it
+    if (dialect === "mssql" && keyword === "WAITFOR") {
+      return { valid: false, error: "Statement WAITFOR is not allowed" };
+    }
+
+    // FOR UPDATE / FOR SHARE / FOR NO KEY UPDATE / FOR KEY SHARE, LOCK IN SHARE MODE
+    if (
+      (keyword === "FOR" && ["UPDATE", "SHARE", "NO", "KEY"].includes(upper(next))) ||
+      (keyword === "LOCK" && upper(next) === "IN")
+    ) {
+      return { valid: false, error: "Locking reads are not allowed" };
+    }
+
+    // "pg_sleep"(1) calls pg_sleep too
+    if (isName(token) && next?.value === "(") {
+      const name = unquoteIdentifier(token).toLowerCase();
+      const prev = body[idx - 1];
+      const qualified =
+        prev?.value === "." && isName(body[idx - 2])
+          ? `${unquoteIdentifier(body[idx - 2]).toLowerCase()}.${name}`
+          : name;
+      if (denylist.has(name) || denylist.has(qualified)) {
+        return { valid: false, error: `Function ${name}() is not allowed` };
+      }
+    }
+  }
+
+  if (depth !== 0) {
+    return { valid: false, error: "Unbalanced parentheses" };
+  }
+
+  // Drop trailing semicolons/comments so callers can safely wrap or append LIMIT
+  const last = body[body.length - 1];
+  return { valid: true, sql: sql.slice(0, last.pos + last.value.length).trim() };
+}
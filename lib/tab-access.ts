@@ -0,0 +1,142 @@
+import {
+  DashboardTab,
+  DashboardTabsState,
+  TabAccess,
+  TabGroup,
+} from "@/types/dashboard";
+import { UserRole } from "@/types/permission";
+
+// Shared by API routes and the UI, so this file must stay free of server-only imports
+
+export type TabAccessSubject = {
+  email: string;
+  role: UserRole | null;
+};
+
+export function isRestricted(access?: TabAccess): boolean {
+  return Boolean(access?.users?.length || access?.roles?.length);
+}
+
+/**
+ * Check a single sharing list. Super admins always pass.
+ */
+export function matchesAccess(
+  access: TabAccess | undefined,
+  subject: TabAccessSubject,
+): boolean {
+  if (!isRestricted(access)) return true;
+  if (subject.role === "super_admin") return true;
+
+  const email = subject.email.toLowerCase();
+  if (access?.users?.some((u) => u.toLowerCase() === email)) return true;
+  return Boolean(subject.role && access?.roles?.includes(subject.role));
+}
+
+/**
+ * Group and all of its parents, nearest first (guards against parentId cycles)
+ */
+export function getGroupChain(
+  groupId: string | undefined,
+  groups: TabGroup[],
+): TabGroup[] {
+  const chain: TabGroup[] = [];
+  const seen = new Set<string>();
+  let current = groups.find((g) => g.id === groupId);
+  while (current && !seen.has(current.id)) {
+    chain.push(current);
+    seen.add(current.id);
+    const parentId = current.parentId;
+    current = parentId ? groups.find((g) => g.id === parentId) : undefined;
+  }
+  return chain;
+}
+
+export function canAccessGroup(
+  groupId: string | undefined,
+  groups: TabGroup[],
+  subject: TabAccessSubject,
+): boolean {
+  return getGroupChain(groupId, groups).every((g) =>
+    matchesAccess(g.access, subject),
+  );
+}
+
+export function canAccessTab(
+  tab: DashboardTab,
+  groups: TabGroup[],
+  subject: TabAccessSubject,
+): boolean {
+  return (
+    matchesAccess(tab.access, subject) &&
+    canAccessGroup(tab.groupId, groups, subject)
+  );
+}
+
+/**
+ * True when the tab or any of its parent groups has a sharing list
+ */
+export function isTabRestricted(tab: DashboardTab, groups: TabGroup[]): boolean {
+  return (
+    isRestricted(tab.access) ||
+    getGroupChain(tab.groupId, groups).some((g) => isRestricted(g.access))
+  );
+}
+
+/**
+ * Only the tabs and groups the subject is allowed to see
+ */
+export function filterTabsState(
+  state: DashboardTabsState,
+  subject: TabAccessSubject,
+): Required<DashboardTabsState> {
+  const groups = state.groups || [];
+  return {
+    tabs: state.tabs.filter((t) => canAccessTab(t, groups, subject)),
+    groups: groups.filter((g) => canAccessGroup(g.id, groups, subject)),
+  };
+}
+
+/**
+ * Merge tabs posted by a user who may only see part of the tree.
+ * Hidden tabs/groups are kept as stored and sharing lists always come from
+ * the stored copy (they are edited through the dedicated access endpoint).
+ */
+export function mergeTabsState(
+  incoming: Required<DashboardTabsState>,
+  stored: Required<DashboardTabsState>,
+  subject: TabAccessSubject,
+): Required<DashboardTabsState> {
+  const visible = filterTabsState(stored, subject);
+  const visibleTabIds = new Set(visible.tabs.map((t) => t.id));
+  const visibleGroupIds = new Set(visible.groups.map((g) => g.id));
+
+  const keepAccess = <T extends { id: string; access?: TabAccess }>(
+    item: T,
+    storedItems: T[],
+  ): T => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { access, ...rest } = item;
+    const storedAccess = storedItems.find((s) => s.id === item.id)?.access;
+    return (storedAccess ? { ...rest, access: storedAccess } : rest) as T;
+  };
+
+  const hiddenTabs = stored.tabs.filter((t) => !visibleTabIds.has(t.id));
+  const hiddenGroups = stored.groups.filter((g) => !visibleGroupIds.has(g.id));
+  const hiddenTabIds = new Set(hiddenTabs.map((t) => t.id));
+  const hiddenGroupIds = new Set(hiddenGroups.map((g) => g.id));
+
+  return {
+    tabs: [
+      ...incoming.tabs
+        .filter((t) => !hiddenTabIds.has(t.id))
+        .map((t) => keepAccess(t, stored.tabs)),
+      ...hiddenTabs,
+    ],
+    groups: [
+      ...incoming.groups
+        .filter((g) => !hiddenGroupIds.has(g.id))
+        .map((g) => keepAccess(g, stored.groups)),
+      ...hiddenGroups,
+    ],
+  };
+}
@@ -0,0 +1,16 @@
+import { getDb } from "@/lib/mongodb";
+import { TabInput } from "@/types/tab-input";
+
+export const TAB_INPUTS_COLLECTION = "tab_inputs";
+
+/**
+ * Stored inputs (and their saved values) for a tab
+ */
+export async function getTabInputs(tabId?: string | null): Promise<TabInput[]> {
+  if (!tabId) return [];
+  const db = await getDb();
+  const doc = await db
+    .collection(TAB_INPUTS_COLLECTION)
+    .findOne<{ inputs?: TabInput[] }>({ tabId });
+  return doc?.inputs || [];
+}
@@ -0,0 +1,151 @@
+import axios from "axios";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+const WEBHOOK_TIMEOUT_MS = 15000;
+
+// Webhooks are posted from the server, so they must not reach its own
+// network: loopback, private, link-local (cloud metadata) and other
+// non-public addresses are refused unless the host is in WEBHOOK_ALLOWED_HOSTS
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // Unspecified and loopback; IPv4-mapped addresses match the IPv4 rules
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string) => {
+  const family = net.isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+// Internal hosts an admin allows webhooks to, e.g. "hooks.internal,10.0.0.5"
+const isAllowedHost = (host: string) =>
+  (process.env.WEBHOOK_ALLOWED_HOSTS || "")
+    .split(",")
+    .some((allowed) => allowed.trim().toLowerCase() === host.toLowerCase());
+
+/**
+ * Error message for a webhook URL that cannot be used, or null.
+ * Host names are checked again when posting, against the addresses they
+ * resolve to.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid webhook URL";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "Webhook URL must be http(s)";
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isAllowedHost(host)) return null;
+  if (host === "localhost" || host.endsWith(".localhost") || isBlockedAddress(host)) {
+    return "Webhook URL must not point to a private or local address";
+  }
+  return null;
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | dns.LookupAddress[],
+  family?: number,
+) => void;
+
+// dns.lookup for the webhook agents: the connection goes to the address that
+// was checked, so a name cannot resolve (or re-resolve) into the private network
+function publicOnlyLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: LookupCallback,
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (!isAllowedHost(hostname) && addresses.some((a) => isBlockedAddress(a.address))) {
+      return callback(
+        new Error(`Webhook host ${hostname} resolves to a private or local address`),
+        [],
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Redirects are not followed: the target could be any address
+const REQUEST_OPTIONS = {
+  timeout: WEBHOOK_TIMEOUT_MS,
+  maxRedirects: 0,
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup as net.LookupFunction }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup as net.LookupFunction }),
+};
+
+// Webhooks saved before a URL rule existed are checked again on every post
+const assertWebhookUrl = (url: string) => {
+  const invalid = validateWebhookUrl(url);
+  if (invalid) throw new Error(invalid);
+};
+
+// Host only, so history entries do not expose webhook tokens
+export function describeWebhookUrl(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Post a text message to a Lark custom bot
+ */
+export async function postLarkText(webhookUrl: string, text: string): Promise<void> {
+  assertWebhookUrl(webhookUrl);
+  const response = await axios.post(
+    webhookUrl,
+    { msg_type: "text", content: { text } },
+    REQUEST_OPTIONS,
+  );
+  // Lark answers 200 with a non-zero code when the message is rejected
+  const code = response.data?.code ?? response.data?.StatusCode;
+  if (code !== undefined && code !== 0) {
+    throw new Error(response.data?.msg || `Lark webhook error ${code}`);
+  }
+}
+
+/**
+ * POST a JSON body to a webhook; non-2xx answers throw
+ */
+export async function postJsonWebhook(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  assertWebhookUrl(url);
+  await axios.post(url, body, {
+    ...REQUEST_OPTIONS,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
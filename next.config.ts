@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Report rendering runs jsPDF on the server; load its Node build instead of bundling the browser one
+  // Native database drivers (SQLite, DuckDB) and mssql are loaded from node_modules as well
+  serverExternalPackages: ["jspdf", "jspdf-autotable", "better-sqlite3", "@duckdb/node-api", "mssql"],
 };
 
 export default nextConfig;
@@ -0,0 +1,27 @@
+// Re-encrypt every stored connection password with CONNECTION_SECRET_KEY.
+//
+//   1. Set the new key in CONNECTION_SECRET_KEY and the old one in
+//      CONNECTION_SECRET_KEY_PREVIOUS (comma separated if several)
+//   2. npm run rotate-connection-key
+//   3. Once it reports success, CONNECTION_SECRET_KEY_PREVIOUS can be emptied
+//
+// Reads .env* files from the app directory the way Next.js does.
+import { loadEnvConfig } from "@next/env";
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  // lib/mongodb needs the environment when it is first imported
+  const { rotateConnectionSecrets } = await import("@/lib/connections");
+  const { default: clientPromise } = await import("@/lib/mongodb");
+  try {
+    const rotated = await rotateConnectionSecrets();
+    console.log(`Re-encrypted ${rotated} connection password(s) with CONNECTION_SECRET_KEY`);
+  } finally {
+    await clientPromise.then((client) => client.close()).catch(() => {});
+  }
+}
+
+main().catch((error) => {
+  console.error("Failed to rotate connection secrets:", error);
+  process.exitCode = 1;
+});
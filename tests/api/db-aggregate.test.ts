@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { mongoStandIn } from "@/tests/support/mongo-stand-in";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/lib/session";
+import { POST } from "@/app/api/db/aggregate/route";
+
+const VIEWER = "viewer@bearhouse.test";
+
+const aggregate = (body: unknown) => {
+  const token = createSessionToken({ email: VIEWER, name: "viewer", userId: "viewer" });
+  return POST(
+    new NextRequest("http://localhost/api/db/aggregate", {
+      method: "POST",
+      headers: { cookie: `${SESSION_COOKIE_NAME}=${token}`, "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  );
+};
+
+beforeEach(async () => {
+  mongoStandIn.reset();
+  await mongoStandIn.collection("user_permissions").insertOne({ email: VIEWER, role: "viewer" });
+  await mongoStandIn.collection("db_connections").insertOne({
+    id: "default",
+    connections: [
+      {
+        id: "mongo-1",
+        name: "Events",
+        type: "mongodb",
+        host: "mongo.internal",
+        port: 27017,
+        user: "",
+        password: "",
+        database: "events",
+      },
+    ],
+  });
+});
+
+describe("POST /api/db/aggregate", () => {
+  it("rejects a MongoDB connection before building SQL", async () => {
+    const response = await aggregate({
+      connectionId: "mongo-1",
+      database: "events",
+      table: "clicks",
+      aggregation: { kind: "group", groupKey: "page", valueKey: "page", aggregate: "count" },
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Aggregation requires a SQL connection" });
+  });
+});
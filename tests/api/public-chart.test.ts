@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { mongoStandIn } from "@/tests/support/mongo-stand-in";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/lib/session";
+import { GET } from "@/app/api/public/chart/[chartId]/route";
+
+const VIEWER = "viewer@bearhouse.test";
+const OTHER_VIEWER = "other@bearhouse.test";
+
+const chartOn = (tabId: string) => ({
+  id: `chart-${tabId}`,
+  title: "Notes",
+  type: "markdown",
+  markdownContent: "# Sales",
+  columns: [],
+});
+
+const fetchChart = (chartId: string, email?: string) => {
+  const headers = new Headers();
+  if (email) {
+    const token = createSessionToken({ email, name: email, userId: email });
+    headers.set("cookie", `${SESSION_COOKIE_NAME}=${token}`);
+  }
+  return GET(new NextRequest(`http://localhost/api/public/chart/${chartId}`, { headers }), {
+    params: { chartId },
+  });
+};
+
+beforeEach(async () => {
+  mongoStandIn.reset();
+  await mongoStandIn.collection("user_permissions").insertMany([
+    { email: VIEWER, role: "viewer" },
+    { email: OTHER_VIEWER, role: "viewer" },
+  ]);
+  await mongoStandIn.collection("dashboard_tabs").insertOne({
+    id: "default",
+    tabs: [
+      { id: "public", name: "Public", isPublic: true },
+      { id: "team", name: "Team" },
+      { id: "private", name: "Private", access: { users: [VIEWER] } },
+    ],
+    groups: [],
+  });
+  await mongoStandIn.collection("chart_configs").insertMany(
+    ["public", "team", "private"].map((tabId) => ({
+      pagePath: `/dashboard/${tabId}`,
+      charts: [chartOn(tabId)],
+    })),
+  );
+});
+
+describe("GET /api/public/chart/[chartId]", () => {
+  it("serves a chart on a public tab to anyone", async () => {
+    const response = await fetchChart("chart-public");
+    expect(response.status).toBe(200);
+    expect((await response.json()).chart.id).toBe("chart-public");
+  });
+
+  it.each(["chart-team", "chart-private"])("hides %s from anonymous callers", async (chartId) => {
+    const response = await fetchChart(chartId);
+    expect(response.status).toBe(404);
+  });
+
+  it("serves a chart to a signed-in viewer the tab is shared with", async () => {
+    expect((await fetchChart("chart-team", OTHER_VIEWER)).status).toBe(200);
+    expect((await fetchChart("chart-private", VIEWER)).status).toBe(200);
+  });
+
+  it("hides a chart on a tab that is not shared with the viewer", async () => {
+    expect((await fetchChart("chart-private", OTHER_VIEWER)).status).toBe(404);
+    expect((await fetchChart("chart-private", "nobody@bearhouse.test")).status).toBe(404);
+  });
+
+  it("does not list other charts when one is missing", async () => {
+    const response = await fetchChart("missing");
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Chart not found" });
+  });
+});
@@ -0,0 +1,276 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { mongoStandIn } from "@/tests/support/mongo-stand-in";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/lib/session";
+import { ACCESS_POLICY, AuthLevel } from "@/lib/auth";
+import * as charts from "@/app/api/user-configs/charts/route";
+import * as dashboardTabs from "@/app/api/user-configs/dashboard-tabs/route";
+import * as connections from "@/app/api/user-configs/connections/route";
+import * as tabInputs from "@/app/api/user-configs/tab-inputs/route";
+import * as notes from "@/app/api/user-configs/notes/route";
+import * as importRoute from "@/app/api/user-configs/import/route";
+import * as exportRoute from "@/app/api/user-configs/export/route";
+import * as permissions from "@/app/api/user-configs/permissions/route";
+import * as changeHistory from "@/app/api/user-configs/change-history/route";
+
+type Role = "anonymous" | "unregistered" | "viewer" | "editor" | "super_admin";
+
+const USERS: Record<Exclude<Role, "anonymous">, string> = {
+  unregistered: "nobody@bearhouse.test",
+  viewer: "viewer@bearhouse.test",
+  editor: "editor@bearhouse.test",
+  super_admin: "admin@bearhouse.test", // NEXT_PUBLIC_SUPER_ADMIN in vitest.config.ts
+};
+
+// Levels each role holds: viewer = read only, editor = chart/tab/note
+// writes, super_admin = connections, import/export and permissions
+const LEVELS: Record<Role, AuthLevel[]> = {
+  anonymous: [],
+  unregistered: [],
+  viewer: ["view"],
+  editor: ["view", "edit"],
+  super_admin: ["view", "edit", "manage"],
+};
+
+type Handler = (request: NextRequest) => Promise<Response>;
+
+type RouteCase = {
+  name: string;
+  handler: Handler;
+  method: "GET" | "POST" | "DELETE";
+  level: AuthLevel;
+  query?: string;
+  body?: unknown;
+};
+
+const TAB_ID = "sales";
+
+const ROUTES: RouteCase[] = [
+  { name: "charts", handler: charts.GET, method: "GET", level: "view", query: `pagePath=/dashboard/${TAB_ID}` },
+  {
+    name: "charts",
+    handler: charts.POST,
+    method: "POST",
+    level: "edit",
+    body: { pagePath: `/dashboard/${TAB_ID}`, charts: [] },
+  },
+  { name: "dashboard-tabs", handler: dashboardTabs.GET, method: "GET", level: "view" },
+  {
+    name: "dashboard-tabs",
+    handler: dashboardTabs.POST,
+    method: "POST",
+    level: "edit",
+    body: { tabs: [{ id: TAB_ID, name: "Sales" }], groups: [] },
+  },
+  { name: "connections", handler: connections.GET, method: "GET", level: "view" },
+  {
+    name: "connections",
+    handler: connections.POST,
+    method: "POST",
+    level: "manage",
+    body: { connections: [] },
+  },
+  { name: "tab-inputs", handler: tabInputs.GET, method: "GET", level: "view", query: `tabId=${TAB_ID}` },
+  {
+    name: "tab-inputs",
+    handler: tabInputs.POST,
+    method: "POST",
+    level: "edit",
+    body: { tabId: TAB_ID, inputs: [] },
+  },
+  { name: "notes", handler: notes.GET, method: "GET", level: "view", query: `tabId=${TAB_ID}` },
+  {
+    name: "notes",
+    handler: notes.POST,
+    method: "POST",
+    level: "edit",
+    body: { id: "note-1", tabId: TAB_ID, createdBy: "editor@bearhouse.test" },
+  },
+  { name: "notes", handler: notes.DELETE, method: "DELETE", level: "edit", query: "id=note-1" },
+  { name: "change-history", handler: changeHistory.GET, method: "GET", level: "view", query: `tabId=${TAB_ID}` },
+  {
+    name: "change-history",
+    handler: changeHistory.POST,
+    method: "POST",
+    level: "edit",
+    body: { tabId: TAB_ID, userId: "u1", action: "update", entityType: "chart", entityId: "c1" },
+  },
+  { name: "import", handler: importRoute.POST, method: "POST", level: "manage", body: {} },
+  { name: "export", handler: exportRoute.GET, method: "GET", level: "manage" },
+  { name: "permissions", handler: permissions.GET, method: "GET", level: "manage" },
+  {
+    name: "permissions",
+    handler: permissions.POST,
+    method: "POST",
+    level: "manage",
+    body: { email: "new@bearhouse.test", role: "viewer" },
+  },
+  {
+    name: "permissions",
+    handler: permissions.DELETE,
+    method: "DELETE",
+    level: "manage",
+    body: { email: "new@bearhouse.test" },
+  },
+];
+
+const makeRequest = (
+  route: RouteCase,
+  role: Role,
+  email = role === "anonymous" ? "" : USERS[role],
+) => {
+  const headers = new Headers();
+  if (role !== "anonymous") {
+    const token = createSessionToken({ email, name: role, userId: role });
+    headers.set("cookie", `${SESSION_COOKIE_NAME}=${token}`);
+  }
+  if (route.body !== undefined) headers.set("content-type", "application/json");
+  const url = `http://localhost/api/user-configs/${route.name}${route.query ? `?${route.query}` : ""}`;
+  return new NextRequest(url, {
+    method: route.method,
+    headers,
+    body: route.body === undefined ? undefined : JSON.stringify(route.body),
+  });
+};
+
+beforeEach(async () => {
+  mongoStandIn.reset();
+  await mongoStandIn.collection("user_permissions").insertMany([
+    { email: USERS.viewer, role: "viewer" },
+    { email: USERS.editor, role: "editor" },
+  ]);
+});
+
+describe("ACCESS_POLICY", () => {
+  it.each(ROUTES)("$name $method requires $level", (route) => {
+    const policy = ACCESS_POLICY[route.name as keyof typeof ACCESS_POLICY];
+    expect(policy[route.method === "GET" ? "read" : "write"]).toBe(route.level);
+  });
+});
+
+describe.each(Object.keys(LEVELS) as Role[])("%s", (role) => {
+  it.each(ROUTES)("$name $method", async (route) => {
+    const response = await route.handler(makeRequest(route, role));
+    if (role === "anonymous") {
+      expect(response.status).toBe(401);
+    } else if (LEVELS[role].includes(route.level)) {
+      expect(response.status).toBe(200);
+    } else {
+      expect(response.status).toBe(403);
+    }
+  });
+});
+
+describe("rejected writes", () => {
+  it("leave the stored documents untouched", async () => {
+    const route = ROUTES.find((r) => r.name === "charts" && r.method === "POST")!;
+    await route.handler(makeRequest(route, "viewer"));
+    expect(await mongoStandIn.collection("chart_configs").countDocuments()).toBe(0);
+
+    await route.handler(makeRequest(route, "editor"));
+    expect(await mongoStandIn.collection("chart_configs").countDocuments()).toBe(1);
+  });
+});
+
+describe("saving charts", () => {
+  const pagePath = `/dashboard/${TAB_ID}`;
+  const chart = {
+    id: "c1",
+    title: "Orders",
+    type: "table",
+    height: 300,
+    columns: [],
+    connectionId: "pg-1",
+    database: "shop",
+    tableName: "orders",
+  };
+
+  const save = (role: Role, charts: unknown[], email?: string) => {
+    const route = ROUTES.find((r) => r.name === "charts" && r.method === "POST")!;
+    return route.handler(makeRequest({ ...route, body: { pagePath, charts } }, role, email));
+  };
+
+  const storedCharts = async () =>
+    (await mongoStandIn.collection("chart_configs").findOne({ pagePath }))?.charts as
+      | { id: string; owner?: string }[]
+      | undefined;
+
+  beforeEach(async () => {
+    await mongoStandIn.collection("db_connections").insertOne({
+      id: "default",
+      connections: [
+        {
+          id: "pg-1",
+          name: "Sales",
+          type: "postgresql",
+          host: "db.internal",
+          port: 5432,
+          user: "reader",
+          password: "",
+          database: "shop",
+          policy: { users: [USERS.editor], allowedTables: ["public.orders"] },
+        },
+      ],
+    });
+  });
+
+  it("checks a new data source against the connection policy", async () => {
+    expect((await save("editor", [{ ...chart, tableName: "secrets" }])).status).toBe(403);
+    expect(await storedCharts()).toBeUndefined();
+
+    expect((await save("editor", [chart])).status).toBe(200);
+    expect(await storedCharts()).toMatchObject([{ id: "c1", owner: USERS.editor }]);
+  });
+
+  it("checks the saving user's access to the connection", async () => {
+    expect((await save("super_admin", [chart])).status).toBe(200);
+    const other = "other@bearhouse.test";
+    await mongoStandIn.collection("user_permissions").insertOne({ email: other, role: "editor" });
+
+    // Moving the chart to another table is a new data source
+    const moved = { ...chart, tableName: "public.orders" };
+    expect((await save("editor", [moved], other)).status).toBe(403);
+    // Layout edits keep the data source and its owner
+    expect((await save("editor", [{ ...chart, height: 500 }], other)).status).toBe(200);
+    expect(await storedCharts()).toMatchObject([{ id: "c1", owner: USERS.super_admin }]);
+  });
+});
+
+describe("importing connections", () => {
+  const route = ROUTES.find((r) => r.name === "import")!;
+  const sales = {
+    id: "pg-1",
+    name: "Sales",
+    type: "postgresql",
+    host: "db.internal",
+    port: 5432,
+    user: "reader",
+    password: "",
+    database: "shop",
+  };
+  const upload = {
+    id: "dataset-1",
+    name: "orders.csv",
+    type: "sqlite",
+    host: "",
+    port: 0,
+    user: "",
+    password: "",
+    database: "",
+    filePath: "/data/datasets/dataset-1.db",
+    datasetId: "dataset-1",
+  };
+
+  it("keeps the connections of uploaded datasets", async () => {
+    await mongoStandIn
+      .collection("db_connections")
+      .insertOne({ id: "default", connections: [sales, upload] });
+
+    // A config exported before the upload
+    const body = { connections: { connections: [{ ...sales, name: "Sales (old)" }] } };
+    expect((await route.handler(makeRequest({ ...route, body }, "super_admin"))).status).toBe(200);
+
+    const stored = await mongoStandIn.collection("db_connections").findOne({ id: "default" });
+    expect(stored?.connections).toMatchObject([{ id: "pg-1", name: "Sales (old)" }, upload]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { checkChartSource, fetchChartData } from "@/lib/chart-data";
+import { TabAccessSubject } from "@/lib/tab-access";
+
+const connection: DbConnection = {
+  id: "pg-1",
+  name: "Sales",
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  user: "reader",
+  password: "",
+  database: "shop",
+  policy: { allowedTables: ["public.orders"], users: ["owner@bearhouse.test"] },
+};
+
+const owner: TabAccessSubject = { email: "owner@bearhouse.test", role: "editor" };
+const stranger: TabAccessSubject = { email: "stranger@bearhouse.test", role: "editor" };
+
+const chart = (source: { tableName?: string; sqlQuery?: string; pipeline?: string }) => ({
+  database: "shop",
+  columns: [],
+  ...source,
+});
+
+describe("checkChartSource", () => {
+  it.each([
+    chart({ tableName: "orders" }),
+    chart({ sqlQuery: "SELECT * FROM orders WHERE id = {{order_id}}" }),
+  ])("allows %o for a user the connection is shared with", async (source) => {
+    expect(await checkChartSource(connection, source, [], owner)).toBeNull();
+  });
+
+  it("rejects a connection that is not shared with the subject", async () => {
+    expect(await checkChartSource(connection, chart({ tableName: "orders" }), [], stranger)).toMatch(
+      /not shared with stranger@bearhouse.test/,
+    );
+  });
+
+  it.each([
+    [chart({ tableName: "secrets" }), /Table is not allowed/],
+    [chart({ sqlQuery: "SELECT * FROM orders JOIN secrets ON true" }), /secrets is not allowed/],
+    [chart({ sqlQuery: "DELETE FROM orders" }), /Only SELECT/],
+  ])("rejects %o", async (source, error) => {
+    expect(await checkChartSource(connection, source, [], owner)).toMatch(error);
+  });
+});
+
+describe("fetchChartData", () => {
+  it("refuses to query for a subject without access", async () => {
+    await expect(
+      fetchChartData(connection, chart({ tableName: "secrets" }), [], owner),
+    ).rejects.toThrow(/Table is not allowed/);
+    await expect(
+      fetchChartData(connection, chart({ tableName: "orders" }), [], stranger),
+    ).rejects.toThrow(/not shared/);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { checkSqlAgainstPolicy, extractTableReferences } from "@/lib/connection-policy";
+
+const connection = (
+  type: DbConnection["type"],
+  allowedTables: string[],
+): DbConnection =>
+  ({
+    id: `${type}-1`,
+    name: type,
+    type,
+    host: "db.internal",
+    port: 5432,
+    user: "reader",
+    password: "",
+    database: "shop",
+    policy: { allowedTables },
+  }) as DbConnection;
+
+describe("checkSqlAgainstPolicy on PostgreSQL", () => {
+  const pg = connection("postgresql", ["public.allowed"]);
+
+  it.each([
+    "SELECT * FROM allowed",
+    "SELECT a.id FROM public.allowed AS a JOIN allowed b ON a.id = b.id",
+    "WITH secret AS (SELECT * FROM allowed) SELECT * FROM secret",
+    "WITH x AS (SELECT * FROM allowed), y AS (SELECT * FROM x) SELECT * FROM y",
+    "WITH RECURSIVE r(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM r) SELECT * FROM r",
+    "SELECT EXTRACT(YEAR FROM created_at), SUBSTRING(code FROM 2) FROM allowed",
+    "SELECT * FROM allowed WHERE a IS DISTINCT FROM b",
+    "SELECT * FROM allowed -- FROM secret",
+    "SELECT 'FROM secret' FROM allowed",
+    "SELECT $$ FROM secret $$ FROM allowed",
+  ])("allows %s", (sql) => {
+    expect(checkSqlAgainstPolicy(pg, sql, "shop")).toBeNull();
+  });
+
+  it.each([
+    // Backslash does not escape a quote, so the subquery is real SQL
+    String.raw`SELECT 'a\', (SELECT x FROM secret), 'b' FROM allowed`,
+    // # is an operator, not a comment
+    "SELECT id # 1 FROM secret",
+    "SELECT * FROM allowed, secret",
+    "SELECT * FROM allowed a JOIN allowed b ON a.id = b.id, secret",
+    "SELECT * FROM allowed a LEFT JOIN LATERAL (SELECT * FROM secret) s ON true",
+    "SELECT * FROM (allowed CROSS JOIN secret)",
+    "SELECT * FROM ONLY secret",
+    "SELECT * FROM allowed UNION TABLE secret",
+    "SELECT * FROM allowed WHERE id IN (SELECT id FROM secret)",
+    "WITH x AS (SELECT 1) SELECT * FROM public.secret",
+    // A CTE named like a table only hides it inside the CTE's own scope
+    "SELECT * FROM secret WHERE EXISTS (WITH secret AS (SELECT 1) SELECT * FROM secret)",
+    // ... and only after its own body, unless the WITH is RECURSIVE
+    "WITH secret AS (SELECT * FROM secret) SELECT * FROM secret",
+    "WITH x AS (SELECT * FROM secret), secret AS (SELECT 1) SELECT * FROM x",
+    'SELECT * FROM "public"."secret"',
+    'SELECT * FROM "public.allowed"',
+    "SELECT * FROM other.allowed",
+  ])("rejects %s", (sql) => {
+    expect(checkSqlAgainstPolicy(pg, sql, "shop")).toMatch(/not allowed/);
+  });
+
+  it("rejects SQL it cannot read", () => {
+    expect(checkSqlAgainstPolicy(pg, "SELECT 'open FROM allowed", "shop")).toMatch(
+      /Unterminated/,
+    );
+  });
+});
+
+describe("checkSqlAgainstPolicy on MySQL", () => {
+  const mysql = connection("mysql", ["shop.allowed"]);
+
+  it.each([
+    "SELECT * FROM allowed # FROM secret",
+    String.raw`SELECT 'it\'s FROM secret' FROM allowed`,
+    "SELECT * FROM shop.`allowed`",
+  ])("allows %s", (sql) => {
+    expect(checkSqlAgainstPolicy(mysql, sql, "shop")).toBeNull();
+  });
+
+  it.each([
+    "SELECT * FROM other.allowed",
+    "SELECT * FROM (allowed, secret)",
+    "SELECT * FROM allowed STRAIGHT_JOIN secret",
+    "WITH secret AS (SELECT * FROM secret) SELECT * FROM secret",
+    "WITH x AS (SELECT * FROM secret), secret AS (SELECT 1) SELECT * FROM x",
+  ])("rejects %s", (sql) => {
+    expect(checkSqlAgainstPolicy(mysql, sql, "shop")).toMatch(/not allowed/);
+  });
+});
+
+describe("checkSqlAgainstPolicy on SQL Server", () => {
+  const mssql = connection("mssql", ["dbo.allowed"]);
+
+  it("allows three-part names in the selected database", () => {
+    expect(checkSqlAgainstPolicy(mssql, "SELECT * FROM shop.dbo.[allowed]", "shop")).toBeNull();
+  });
+
+  it("rejects three-part names in another database", () => {
+    expect(checkSqlAgainstPolicy(mssql, "SELECT * FROM other.dbo.allowed", "shop")).toMatch(
+      /not allowed/,
+    );
+  });
+});
+
+describe("extractTableReferences", () => {
+  it("returns unquoted name parts", () => {
+    expect(
+      extractTableReferences('SELECT * FROM "Sales"."Orders" o JOIN items i ON true', "postgresql"),
+    ).toEqual([["Sales", "Orders"], ["items"]]);
+  });
+
+  it("skips table functions and derived tables", () => {
+    expect(
+      extractTableReferences(
+        "SELECT * FROM generate_series(1, 3) g, (SELECT 1) s, unnest(ARRAY[1]) u",
+        "postgresql",
+      ),
+    ).toEqual([]);
+  });
+});
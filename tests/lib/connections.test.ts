@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { mergeConnectionSecrets } from "@/lib/connections";
+
+const stored: DbConnection = {
+  id: "pg-1",
+  name: "Sales",
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  user: "reader",
+  password: "s3cret",
+  database: "shop",
+};
+
+// What the browser posts back: the redacted connection plus its edits
+const posted = (patch: Partial<DbConnection> = {}): DbConnection => ({
+  ...stored,
+  password: "",
+  hasPassword: true,
+  ...patch,
+});
+
+describe("mergeConnectionSecrets", () => {
+  it("keeps the stored password for an unchanged endpoint", () => {
+    expect(mergeConnectionSecrets([posted({ database: "archive" })], [stored])).toEqual([
+      { ...stored, database: "archive" },
+    ]);
+  });
+
+  it("uses a newly entered password", () => {
+    const [merged] = mergeConnectionSecrets([posted({ password: "n3w" })], [stored]);
+    expect(merged.password).toBe("n3w");
+  });
+
+  it.each<Partial<DbConnection>>([
+    { host: "evil.example.com" },
+    { port: 6543 },
+    { user: "postgres" },
+    { type: "mysql" },
+  ])("drops the stored password when the endpoint changes to %o", (patch) => {
+    const [merged] = mergeConnectionSecrets([posted(patch)], [stored]);
+    expect(merged.password).toBe("");
+  });
+
+  it("drops the stored password when asked to clear it", () => {
+    const [merged] = mergeConnectionSecrets([posted({ clearPassword: true })], [stored]);
+    expect(merged.password).toBe("");
+    expect(merged).not.toHaveProperty("clearPassword");
+    expect(merged).not.toHaveProperty("hasPassword");
+  });
+
+  it("has no password for a new connection", () => {
+    const [merged] = mergeConnectionSecrets([posted({ id: "pg-2" })], [stored]);
+    expect(merged.password).toBe("");
+  });
+});
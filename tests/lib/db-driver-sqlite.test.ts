@@ -0,0 +1,103 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { sqliteDriver } from "@/lib/db-driver-sqlite";
+
+const RUNAWAY = "WITH RECURSIVE r(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM r) SELECT count(*) FROM r";
+
+let dir: string;
+let connection: DbConnection;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "sqlite-driver-"));
+  const filePath = path.join(dir, "shop.db");
+  const db = new Database(filePath);
+  db.exec("CREATE TABLE orders (id INTEGER PRIMARY KEY, total REAL)");
+  db.exec("INSERT INTO orders (total) VALUES (10), (20), (30)");
+  db.close();
+  connection = {
+    id: "sqlite-1",
+    name: "Shop",
+    type: "sqlite",
+    host: "",
+    port: 0,
+    user: "",
+    password: "",
+    database: "",
+    filePath,
+    queryTimeoutMs: 300,
+  };
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("sqliteDriver sessions", () => {
+  it("runs statements with parameters", async () => {
+    const session = await sqliteDriver.connect(connection);
+    try {
+      expect(
+        await session.query("SELECT id, total FROM orders WHERE total > ? ORDER BY id", {
+          params: [15],
+        }),
+      ).toEqual({
+        rows: [
+          { id: 2, total: 20 },
+          { id: 3, total: 30 },
+        ],
+        columns: ["id", "total"],
+      });
+    } finally {
+      await session.release();
+    }
+  });
+
+  it("reads a cursor in batches", async () => {
+    const session = await sqliteDriver.connect(connection);
+    try {
+      const reader = await session.openCursor("SELECT id FROM orders ORDER BY id", [], 2);
+      expect(await reader.read()).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(await reader.read()).toEqual([{ id: 3 }]);
+      expect(await reader.read()).toEqual([]);
+      await reader.finish();
+    } finally {
+      await session.release();
+    }
+  });
+
+  it("stops a runaway statement at the timeout without blocking the event loop", async () => {
+    const session = await sqliteDriver.connect(connection);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 20);
+    try {
+      const error = await session.query(RUNAWAY).catch((e: unknown) => e);
+      expect(sqliteDriver.classifyError(error)).toBe("timeout");
+      expect(ticks).toBeGreaterThan(3);
+    } finally {
+      clearInterval(timer);
+      await session.release(true);
+    }
+  });
+
+  it("cancels a running statement", async () => {
+    const session = await sqliteDriver.connect({ ...connection, queryTimeoutMs: 60000 });
+    try {
+      const running = session.query(RUNAWAY).catch((e: unknown) => e);
+      const cancel = await session.canceller();
+      setTimeout(() => void cancel?.(), 50);
+      expect(sqliteDriver.classifyError(await running)).toBe("cancelled");
+    } finally {
+      await session.release(true);
+    }
+  });
+
+  it("rejects a missing file", async () => {
+    await expect(
+      sqliteDriver.connect({ ...connection, filePath: path.join(dir, "missing.db") }),
+    ).rejects.toThrow();
+  });
+});
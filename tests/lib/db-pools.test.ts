@@ -0,0 +1,73 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+
+// Pools that hand out clients without a server, and remember being closed
+const pgPools = vi.hoisted(() => [] as { ended: boolean }[]);
+vi.mock("pg", () => ({
+  Pool: class {
+    ended = false;
+    constructor() {
+      pgPools.push(this);
+    }
+    on() {}
+    async connect() {
+      return { query: async () => ({ rows: [] }), release: () => {} };
+    }
+    async end() {
+      this.ended = true;
+    }
+  },
+}));
+
+const { getPgPoolClient } = await import("@/lib/db-pools");
+
+const connection: DbConnection = {
+  id: "pg-1",
+  name: "Sales",
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  user: "reader",
+  password: "",
+  database: "shop",
+};
+
+const IDLE_MS = 5 * 60 * 1000;
+
+// The sweeper interval starts with the first pool, so the clock stays fake for the whole file
+vi.useFakeTimers();
+
+beforeEach(() => {
+  pgPools.length = 0;
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+describe("idle pool sweeper", () => {
+  it("keeps a pool open while a client is checked out", async () => {
+    const client = await getPgPoolClient(connection, "sales_busy");
+    await vi.advanceTimersByTimeAsync(IDLE_MS * 3);
+    expect(pgPools[0].ended).toBe(false);
+
+    client.release();
+    await vi.advanceTimersByTimeAsync(IDLE_MS / 2);
+    expect(pgPools[0].ended).toBe(false);
+    await vi.advanceTimersByTimeAsync(IDLE_MS);
+    expect(pgPools[0].ended).toBe(true);
+  });
+
+  it("counts a client released twice only once", async () => {
+    const busy = await getPgPoolClient(connection, "sales_twice");
+    const done = await getPgPoolClient(connection, "sales_twice");
+    done.release();
+    done.release();
+    await vi.advanceTimersByTimeAsync(IDLE_MS * 2);
+    expect(pgPools[0].ended).toBe(false);
+
+    busy.release();
+    await vi.advanceTimersByTimeAsync(IDLE_MS * 2);
+    expect(pgPools[0].ended).toBe(true);
+  });
+});
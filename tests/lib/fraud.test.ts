@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { validateFraudRuleSql } from "@/lib/fraud";
+import { compileFraudRule } from "@/lib/fraud-sql";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+
+const connection = {
+  id: "pg-1",
+  name: "Coupons",
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  user: "reader",
+  password: "",
+  database: "shop",
+} as DbConnection;
+
+const customRule = (sql: string) => ({
+  database: "shop",
+  definition: { type: "custom_sql" as const, sql, keyColumn: "device_id" },
+});
+
+describe("validateFraudRuleSql", () => {
+  it("returns the rule with its SQL cleaned of trailing comments", () => {
+    const checked = validateFraudRuleSql(
+      customRule("SELECT device_id FROM redemptions; -- devices over the limit"),
+      connection,
+    );
+    expect(checked.error).toBeUndefined();
+
+    const compiled = compileFraudRule(checked.rule!, "postgresql");
+    expect(compiled.sql).toBe(
+      "SELECT * FROM (SELECT device_id FROM redemptions) fraud_rule_result LIMIT 200",
+    );
+    expect(validateReadOnlySql(compiled.sql, "postgresql").valid).toBe(true);
+  });
+
+  it("rejects SQL that is not read-only", () => {
+    expect(validateFraudRuleSql(customRule("DELETE FROM redemptions"), connection).error).toMatch(
+      /Only SELECT/,
+    );
+  });
+});
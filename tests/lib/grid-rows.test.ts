@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchExportRows, readExportRows } from "@/lib/grid-rows";
+
+// An /api/db/export response whose chunks split lines mid-row
+const mockExport = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("readExportRows", () => {
+  it("hands over each batch as it arrives", async () => {
+    mockExport(['{"id":1}\n{"id"', ':2}\n', '{"id":3}']);
+    const batches: unknown[][] = [];
+    await readExportRows({}, {}, (rows) => {
+      batches.push(rows);
+    });
+    expect(batches).toEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]]);
+  });
+
+  it("waits for each batch to be written before reading on", async () => {
+    mockExport(['{"id":1}\n', '{"id":2}\n']);
+    const events: string[] = [];
+    await readExportRows({}, {}, async (rows) => {
+      events.push(`start ${rows[0].id}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push(`end ${rows[0].id}`);
+    });
+    expect(events).toEqual(["start 1", "end 1", "start 2", "end 2"]);
+  });
+
+  it("reports the server error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ error: "Table is not allowed" }, { status: 403 })),
+    );
+    await expect(readExportRows({}, {}, () => {})).rejects.toThrow("Table is not allowed");
+  });
+});
+
+describe("fetchExportRows", () => {
+  it("collects every row", async () => {
+    mockExport(['{"id":1}\n{"id":2}\n']);
+    expect(await fetchExportRows({}, {})).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
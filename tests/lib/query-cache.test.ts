@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+import { DbConnection } from "@/hooks/use-connections";
+import { withQueryCache } from "@/lib/query-cache";
+
+const connection: DbConnection = {
+  id: "sqlite-1",
+  name: "Shop",
+  type: "sqlite",
+  host: "",
+  port: 0,
+  user: "",
+  password: "",
+  database: "",
+  filePath: "/data/shop.db",
+};
+
+// What the SQLite driver throws when /api/db/cancel stops a statement
+const cancelled = () => Object.assign(new Error("Query was cancelled"), { code: "ECANCELLED" });
+
+const options = (sql: string) => ({ connection, database: "main", sql, ttlSeconds: 60 });
+
+describe("withQueryCache", () => {
+  it("shares one run between identical queries", async () => {
+    const run = vi.fn(async () => ({ rows: [{ id: 1 }] }));
+    const [first, second] = await Promise.all([
+      withQueryCache(options("SELECT 1"), run),
+      withQueryCache(options("SELECT 1"), run),
+    ]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(first.rows).toEqual([{ id: 1 }]);
+    expect(second).toMatchObject({ rows: [{ id: 1 }], cached: false });
+  });
+
+  it("runs the query again for a caller whose shared query another caller cancelled", async () => {
+    let cancel = () => {};
+    const started = vi.fn(
+      () =>
+        new Promise<{ rows: unknown[] }>((_resolve, reject) => {
+          cancel = () => reject(cancelled());
+        }),
+    );
+    const retried = vi.fn(async () => ({ rows: [{ id: 2 }] }));
+
+    const canceller = withQueryCache(options("SELECT 2"), started);
+    const viewer = withQueryCache(options("SELECT 2"), retried);
+    cancel();
+
+    await expect(canceller).rejects.toThrow("Query was cancelled");
+    expect(await viewer).toMatchObject({ rows: [{ id: 2 }] });
+    expect(started).toHaveBeenCalledTimes(1);
+    expect(retried).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes other failures on to every caller", async () => {
+    const run = vi.fn(async () => {
+      throw new Error("no such table: orders");
+    });
+    const results = await Promise.allSettled([
+      withQueryCache(options("SELECT 3"), run),
+      withQueryCache(options("SELECT 3"), run),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,75 @@
+import net from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { sendMail } from "@/lib/smtp";
+
+// A plain-text SMTP server that never offers STARTTLS and records every line it gets
+let server: net.Server;
+let received: string[];
+
+beforeEach(async () => {
+  received = [];
+  server = net.createServer((socket) => {
+    socket.write("220 test ESMTP\r\n");
+    let buffer = "";
+    let inData = false;
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let index;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+          continue;
+        }
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "AUTH") socket.write("235 ok\r\n");
+        else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String((server.address() as net.AddressInfo).port);
+  process.env.SMTP_USER = "reports@bearhouse.test";
+  process.env.SMTP_PASSWORD = "s3cret";
+});
+
+afterEach(async () => {
+  for (const name of ["SMTP_HOST", "SMTP_PORT", "SMTP_USER", "SMTP_PASSWORD", "SMTP_ALLOW_INSECURE"]) {
+    delete process.env[name];
+  }
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const message = { to: ["team@bearhouse.test"], subject: "Daily report", text: "Hello" };
+
+describe("sendMail", () => {
+  it("does not send credentials when the server does not offer STARTTLS", async () => {
+    await expect(sendMail(message)).rejects.toThrow(/STARTTLS/);
+    expect(received.some((line) => line.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("sends credentials in the clear only when allowed", async () => {
+    process.env.SMTP_ALLOW_INSECURE = "true";
+    await sendMail(message);
+    expect(received.some((line) => line.startsWith("AUTH PLAIN"))).toBe(true);
+    expect(received).toContain("RCPT TO:<team@bearhouse.test>");
+  });
+
+  it("sends without credentials over a plain connection", async () => {
+    delete process.env.SMTP_USER;
+    await sendMail(message);
+    expect(received.some((line) => line.startsWith("AUTH"))).toBe(false);
+    expect(received).toContain(".");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { validateReadOnlySql } from "@/lib/sql-guard";
+
+const check = (sql: string, dialect: Parameters<typeof validateReadOnlySql>[1] = "postgresql") =>
+  validateReadOnlySql(sql, dialect);
+
+describe("validateReadOnlySql", () => {
+  it.each([
+    "SELECT 1",
+    "WITH x AS (SELECT 1) SELECT * FROM x",
+    "WITH RECURSIVE x(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM x WHERE n < 3) SELECT n FROM x",
+    "WITH a AS MATERIALIZED (SELECT 1), b AS (SELECT 2) (SELECT * FROM a) UNION SELECT * FROM b",
+    "SELECT * FROM (WITH x AS (SELECT 1) SELECT * FROM x) s",
+    "SELECT CAST(now() AS timestamp WITH TIME ZONE)",
+    "SELECT * FROM unnest(ARRAY[1, 2]) WITH ORDINALITY AS u(v, i)",
+    "SELECT REPLACE(code, 'a', 'b') FROM coupons",
+    "SELECT u & 1 FROM flags",
+  ])("allows %s", (sql) => {
+    expect(check(sql)).toMatchObject({ valid: true });
+  });
+
+  it.each([
+    ["WITH x AS (SELECT 1) DELETE FROM t", /DELETE after WITH/],
+    ["WITH x AS (SELECT 1) UPDATE t SET a = 1", /UPDATE after WITH/],
+    ["WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x", /INSERT after WITH/],
+    ["SELECT * FROM (WITH x AS (SELECT 1) DELETE FROM t RETURNING *) s", /DELETE after WITH/],
+    ["WITH x AS (DELETE FROM t RETURNING *) SELECT * FROM x", /DELETE is not allowed/],
+    ["WITH x AS (SELECT 1)", /must be followed by a SELECT/],
+    ["SELECT 1; DELETE FROM t", /Multiple statements/],
+    ["SELECT pg_sleep(10)", /pg_sleep\(\) is not allowed/],
+    ['SELECT "pg_sleep"(10)', /pg_sleep\(\) is not allowed/],
+    ['SELECT "PG_SLEEP"(10)', /pg_sleep\(\) is not allowed/],
+    ['SELECT pg_catalog."pg_sleep"(10)', /pg_sleep\(\) is not allowed/],
+    ['SELECT U&"pg_sleep"(10)', /Unicode-escaped/],
+    ["SELECT * INTO backup FROM t", /INTO is not allowed/],
+  ])("rejects %s", (sql, error) => {
+    const result = check(sql);
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(error);
+  });
+
+  it("reads quoted function names per dialect", () => {
+    expect(check("SELECT `sleep`(5)", "mysql")).toMatchObject({ valid: false });
+    expect(check("SELECT [xp_cmdshell]('dir')", "mssql")).toMatchObject({ valid: false });
+    // MySQL reads "sleep" as a string, not a function name
+    expect(check('SELECT "sleep"', "mysql")).toMatchObject({ valid: true });
+  });
+
+  it("rejects WAITFOR on SQL Server", () => {
+    expect(check("SELECT 1 WAITFOR DELAY '00:00:30'", "mssql")).toMatchObject({
+      valid: false,
+      error: "Statement WAITFOR is not allowed",
+    });
+    expect(check("SELECT * FROM t WHERE 1 = 1 waitfor time '23:00'", "mssql")).toMatchObject({
+      valid: false,
+    });
+    // Only a name elsewhere
+    expect(check("SELECT waitfor FROM jobs")).toMatchObject({ valid: true });
+  });
+
+  it("returns the statement without trailing comments", () => {
+    expect(check("SELECT 1 -- note")).toEqual({ valid: true, sql: "SELECT 1" });
+  });
+});
@@ -0,0 +1,64 @@
+import dns from "dns";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postJsonWebhook, validateWebhookUrl } from "@/lib/webhook";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.WEBHOOK_ALLOWED_HOSTS;
+});
+
+describe("validateWebhookUrl", () => {
+  it.each([
+    "https://open.larksuite.com/open-apis/bot/v2/hook/abc",
+    "http://hooks.example.com:8080/alert",
+    "https://8.8.8.8/hook",
+  ])("allows %s", (url) => {
+    expect(validateWebhookUrl(url)).toBeNull();
+  });
+
+  it.each([
+    "http://169.254.169.254/latest/meta-data/",
+    "http://localhost:3000/api",
+    "http://api.localhost/",
+    "http://127.0.0.1/",
+    "http://2130706433/", // 127.0.0.1 as a number
+    "http://10.1.2.3/",
+    "http://172.16.0.1/",
+    "http://192.168.1.1/",
+    "http://0.0.0.0/",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[fd00::1]/",
+    "http://[fe80::1]/",
+  ])("rejects %s", (url) => {
+    expect(validateWebhookUrl(url)).toMatch(/private or local/);
+  });
+
+  it("rejects other schemes", () => {
+    expect(validateWebhookUrl("file:///etc/passwd")).toMatch(/http\(s\)/);
+  });
+
+  it("allows hosts an admin listed", () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = "hooks.internal, 10.0.0.5";
+    expect(validateWebhookUrl("http://10.0.0.5/hook")).toBeNull();
+    expect(validateWebhookUrl("http://10.0.0.6/hook")).toMatch(/private or local/);
+  });
+});
+
+describe("postJsonWebhook", () => {
+  it("refuses a host name that resolves to a private address", async () => {
+    vi.spyOn(dns, "lookup").mockImplementation(((
+      _hostname: string,
+      _options: dns.LookupOptions,
+      callback: (error: null, addresses: dns.LookupAddress[]) => void,
+    ) => callback(null, [{ address: "169.254.169.254", family: 4 }])) as typeof dns.lookup);
+
+    await expect(postJsonWebhook("http://metadata.example.com/", {})).rejects.toThrow(
+      /resolves to a private or local address/,
+    );
+  });
+
+  it("refuses a private address before sending", async () => {
+    await expect(postJsonWebhook("http://127.0.0.1:9/", {})).rejects.toThrow(/private or local/);
+  });
+});
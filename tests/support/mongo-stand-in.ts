@@ -0,0 +1,261 @@
+import type { Db } from "mongodb";
+
+// In-memory stand-in for the parts of the MongoDB driver the API routes use:
+// equality and comparison filters, $set/$setOnInsert/$unset/$inc/$push
+// updates with upsert, and find() cursors with sort/skip/limit.
+
+type Doc = Record<string, unknown>;
+type Filter = Record<string, unknown>;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const getPath = (doc: Doc, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Doc)[key] : undefined),
+    doc,
+  );
+
+const setPath = (doc: Doc, path: string, value: unknown) => {
+  const keys = path.split(".");
+  let target = doc;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key] as Doc;
+  }
+  target[keys[keys.length - 1]] = value;
+};
+
+const unsetPath = (doc: Doc, path: string) => {
+  const keys = path.split(".");
+  const parent = keys.slice(0, -1).reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Doc)[key] : undefined),
+    doc,
+  );
+  if (parent && typeof parent === "object") delete (parent as Doc)[keys[keys.length - 1]];
+};
+
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+
+const matchesValue = (value: unknown, condition: unknown): boolean => {
+  const isOperatorObject =
+    condition !== null &&
+    typeof condition === "object" &&
+    !(condition instanceof Date) &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).some((k) => k.startsWith("$"));
+  if (!isOperatorObject) {
+    return Array.isArray(value) && !Array.isArray(condition)
+      ? value.some((v) => isEqual(v, condition))
+      : isEqual(value, condition);
+  }
+  return Object.entries(condition as Doc).every(([op, operand]) => {
+    const v = comparable(value) as number;
+    const o = comparable(operand) as number;
+    switch (op) {
+      case "$eq":
+        return isEqual(value, operand);
+      case "$ne":
+        return !isEqual(value, operand);
+      case "$lt":
+        return value !== undefined && v < o;
+      case "$lte":
+        return value !== undefined && v <= o;
+      case "$gt":
+        return value !== undefined && v > o;
+      case "$gte":
+        return value !== undefined && v >= o;
+      case "$in":
+        return (operand as unknown[]).some((x) => matchesValue(value, x));
+      case "$nin":
+        return !(operand as unknown[]).some((x) => matchesValue(value, x));
+      case "$exists":
+        return (value !== undefined) === Boolean(operand);
+      default:
+        throw new Error(`Unsupported query operator ${op}`);
+    }
+  });
+};
+
+const matches = (doc: Doc, filter: Filter = {}): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") return (condition as Filter[]).every((f) => matches(doc, f));
+    if (key === "$or") return (condition as Filter[]).some((f) => matches(doc, f));
+    return matchesValue(getPath(doc, key), condition);
+  });
+
+const applyUpdate = (doc: Doc, update: Doc, inserting: boolean) => {
+  for (const [op, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Doc)) {
+      switch (op) {
+        case "$set":
+          setPath(doc, path, clone(value));
+          break;
+        case "$setOnInsert":
+          if (inserting) setPath(doc, path, clone(value));
+          break;
+        case "$unset":
+          unsetPath(doc, path);
+          break;
+        case "$inc":
+          setPath(doc, path, ((getPath(doc, path) as number) || 0) + (value as number));
+          break;
+        case "$push": {
+          const list = (getPath(doc, path) as unknown[]) || [];
+          const { $each } = (value ?? {}) as { $each?: unknown[] };
+          setPath(doc, path, [...list, ...clone($each ?? [value])]);
+          break;
+        }
+        default:
+          throw new Error(`Unsupported update operator ${op}`);
+      }
+    }
+  }
+};
+
+class StandInCursor {
+  private sortSpec: Record<string, 1 | -1> = {};
+  private skipCount = 0;
+  private limitCount = 0;
+
+  constructor(private readonly docs: Doc[]) {}
+
+  sort(spec: Record<string, 1 | -1>) {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  skip(count: number) {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  project() {
+    return this;
+  }
+
+  async toArray(): Promise<Doc[]> {
+    const sorted = [...this.docs].sort((a, b) => {
+      for (const [path, direction] of Object.entries(this.sortSpec)) {
+        const x = comparable(getPath(a, path)) as number;
+        const y = comparable(getPath(b, path)) as number;
+        if (x < y) return -direction;
+        if (x > y) return direction;
+      }
+      return 0;
+    });
+    const from = sorted.slice(this.skipCount);
+    return clone(this.limitCount ? from.slice(0, this.limitCount) : from);
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* await this.toArray();
+  }
+}
+
+class StandInCollection {
+  readonly docs: Doc[] = [];
+
+  find(filter?: Filter) {
+    return new StandInCursor(this.docs.filter((d) => matches(d, filter)));
+  }
+
+  async findOne(filter?: Filter) {
+    const doc = this.docs.find((d) => matches(d, filter));
+    return doc ? clone(doc) : null;
+  }
+
+  async countDocuments(filter?: Filter) {
+    return this.docs.filter((d) => matches(d, filter)).length;
+  }
+
+  async insertOne(doc: Doc) {
+    this.docs.push(clone(doc));
+    return { acknowledged: true };
+  }
+
+  async insertMany(docs: Doc[]) {
+    this.docs.push(...clone(docs));
+    return { acknowledged: true, insertedCount: docs.length };
+  }
+
+  async updateOne(filter: Filter, update: Doc, options: { upsert?: boolean } = {}) {
+    const doc = this.docs.find((d) => matches(d, filter));
+    if (doc) {
+      applyUpdate(doc, update, false);
+      return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+    }
+    if (!options.upsert) return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+    const inserted: Doc = {};
+    for (const [key, value] of Object.entries(filter)) {
+      if (!key.startsWith("$") && (typeof value !== "object" || value === null)) {
+        setPath(inserted, key, value);
+      }
+    }
+    applyUpdate(inserted, update, true);
+    this.docs.push(inserted);
+    return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+  }
+
+  async updateMany(filter: Filter, update: Doc) {
+    const targets = this.docs.filter((d) => matches(d, filter));
+    targets.forEach((doc) => applyUpdate(doc, update, false));
+    return { matchedCount: targets.length, modifiedCount: targets.length };
+  }
+
+  async replaceOne(filter: Filter, replacement: Doc, options: { upsert?: boolean } = {}) {
+    const index = this.docs.findIndex((d) => matches(d, filter));
+    if (index >= 0) this.docs[index] = clone(replacement);
+    else if (options.upsert) this.docs.push(clone(replacement));
+    return { matchedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteOne(filter: Filter) {
+    const index = this.docs.findIndex((d) => matches(d, filter));
+    if (index >= 0) this.docs.splice(index, 1);
+    return { deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter?: Filter) {
+    const kept = this.docs.filter((d) => !matches(d, filter));
+    const deletedCount = this.docs.length - kept.length;
+    this.docs.splice(0, this.docs.length, ...kept);
+    return { deletedCount };
+  }
+
+  async createIndex() {
+    return "index";
+  }
+}
+
+export type MongoStandIn = {
+  db: Db;
+  collection: (name: string) => StandInCollection;
+  reset: () => void;
+};
+
+/**
+ * A fresh in-memory database
+ */
+export function createMongoStandIn(): MongoStandIn {
+  const collections = new Map<string, StandInCollection>();
+  const collection = (name: string) => {
+    if (!collections.has(name)) collections.set(name, new StandInCollection());
+    return collections.get(name)!;
+  };
+  return {
+    db: { collection } as unknown as Db,
+    collection,
+    reset: () => collections.clear(),
+  };
+}
+
+// What lib/mongodb's getDb returns in every test (see tests/support/setup.ts)
+export const mongoStandIn = createMongoStandIn();
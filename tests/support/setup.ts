@@ -0,0 +1,10 @@
+import { vi } from "vitest";
+
+// lib/mongodb connects on import; tests get the in-memory stand-in instead
+vi.mock("@/lib/mongodb", async () => {
+  const { mongoStandIn } = await import("@/tests/support/mongo-stand-in");
+  return {
+    default: Promise.resolve(null),
+    getDb: async () => mongoStandIn.db,
+  };
+});
@@ -0,0 +1,77 @@
+// The number an alert watches, read from the chart's query result
+export type AlertMetric =
+  | { type: "matrix"; column: string } // A matrix card: the column's value in the first row
+  | {
+      type: "series";
+      field: string; // Value column, usually the chart's yAxisKey
+      aggregate: AlertAggregate;
+      series?: string; // Only rows of this series (chart's seriesKey); empty = all rows
+    }
+  | { type: "row_count" };
+
+export type AlertAggregate = "sum" | "avg" | "min" | "max" | "count" | "last";
+
+export type AlertThresholdOperator = ">" | ">=" | "<" | "<=" | "=" | "!=";
+
+export type AlertCondition =
+  | { type: "threshold"; op: AlertThresholdOperator; value: number }
+  // Percent change against the value of the previous evaluation
+  | { type: "change"; direction: "up" | "down" | "either"; percent: number }
+  // The latest point of the chart's line falls outside its anomaly band
+  | { type: "anomaly"; direction: "up" | "down" | "either" };
+
+// Where a triggered alert is sent
+export type AlertNotifier =
+  | { type: "webhook"; url: string } // JSON POST, signed when ALERT_WEBHOOK_SECRET is set
+  | { type: "lark"; webhookUrl: string }; // Lark custom bot webhook
+
+export type AlertNotifierType = AlertNotifier["type"];
+
+export type AlertState = "ok" | "triggered" | "error";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  tabId: string;
+  chartId: string;
+  metric: AlertMetric;
+  condition: AlertCondition;
+  schedule: string; // Cron expression: minute hour day-of-month month day-of-week
+  cooldownMinutes: number; // No new notification this long after the last one
+  notifiers: AlertNotifier[];
+  enabled: boolean;
+  nextRunAt?: string; // ISO; unset while disabled
+  lastEvaluatedAt?: string;
+  lastValue?: number; // Baseline for "change" conditions
+  lastTriggeredAt?: string;
+  state?: AlertState;
+  lastError?: string;
+  createdBy: string; // Email
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertNotifyResult {
+  type: AlertNotifierType;
+  target: string; // Webhook host, for display
+  ok: boolean;
+  error?: string;
+}
+
+// Kept for evaluations that fired or failed; quiet "ok" checks are not stored
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  alertName: string;
+  tabId: string;
+  chartId: string;
+  chartTitle?: string;
+  status: "triggered" | "error";
+  value?: number;
+  previousValue?: number;
+  message: string;
+  notified: boolean; // False while in cooldown
+  notifications?: AlertNotifyResult[];
+  trigger: "schedule" | "manual";
+  evaluatedAt: string;
+}
@@ -1,6 +1,14 @@
 import { ColDef } from "ag-grid-community";
 
-export type ChartType = "table" | "bar" | "line" | "pie" | "matrix" | "markdown";
+export type ChartType =
+  | "table"
+  | "bar"
+  | "line"
+  | "pie"
+  | "matrix"
+  | "markdown"
+  | "cohort"
+  | "funnel";
 
 export type FilterOperator =
   | "equals"
@@ -29,6 +37,44 @@ export interface FilterRule {
   value2?: string; // For "between" operator - end date
 }
 
+// Rolling-baseline anomaly detection for line charts, computed by lib/anomaly
+export interface ChartAnomalyConfig {
+  method: "moving_average" | "median_mad" | "seasonal_weekday";
+  window: number; // Earlier points behind each baseline (same-weekday points for seasonal_weekday)
+  sensitivity: number; // Band half-width in standard deviations; lower flags more points
+}
+
+export type CohortPeriod = "day" | "week" | "month";
+
+// Retention heatmap: each entity joins the cohort of its first active period,
+// cells count the entities still active N periods later (lib/cohort-funnel)
+export interface ChartCohortConfig {
+  entityKey: string; // Who is followed, e.g. member_id
+  dateKey: string; // When they were active, e.g. redeemed_at
+  period: CohortPeriod; // Weeks start on Monday
+  maxOffset?: number; // Last period offset shown; default 12
+}
+
+export interface ChartFunnelStep {
+  column: string; // Rows with a non-NULL value here reached the step
+  label?: string;
+}
+
+// Ordered steps, e.g. issued -> claimed -> redeemed -> repeated
+export interface ChartFunnelConfig {
+  steps: ChartFunnelStep[];
+  entityKey?: string; // Count distinct values of this column instead of rows
+}
+
+// One input of a federated chart: SQL run on its own connection, loaded into
+// an embedded DuckDB as a table named by alias (lib/federated-query)
+export interface FederatedSource {
+  alias: string; // Table name in the chart's SQL
+  connectionId: string;
+  database: string;
+  sql: string; // May contain {{key}} tab input placeholders
+}
+
 export interface ChartConfig {
   id: string;
   title: string;
@@ -39,6 +85,8 @@ export interface ChartConfig {
   database?: string;
   tableName?: string;
   sqlQuery?: string; // SQL query for dynamic charts
+  pipeline?: string; // MongoDB: aggregation pipeline (JSON) run on the tableName collection
+  federated?: FederatedSource[]; // sqlQuery is then DuckDB SQL over the source aliases; connectionId/database are the first source's
   columns: string[];
   // สำหรับ table
   columnDefs?: ColDef[];
@@ -50,7 +98,12 @@ export interface ChartConfig {
   groupByKey?: string; // field to group X by (defaults to xAxisKey)
   seriesKey?: string; // field to split into multiple series
   aggregate?: "sum" | "count" | "avg"; // aggregate yAxisKey over group
+  anomaly?: ChartAnomalyConfig; // Line charts: highlight points outside the baseline band
+  cohort?: ChartCohortConfig;
+  funnel?: ChartFunnelConfig;
   filters?: FilterRule[];
+  cacheTtlSeconds?: number; // Server result cache TTL; unset = QUERY_CACHE_TTL_SECONDS, 0 = no cache
+  owner?: string; // Email of who last set the data source; public links read the data as them (set by the server)
   sortBy?: string; // field to sort by
   sortOrder?: "asc" | "desc"; // sort order
   color?: string; // hex or CSS var used for chart series
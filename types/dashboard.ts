@@ -1,8 +1,18 @@
+import { UserRole } from "@/types/permission";
+
+// Sharing list for a tab or group. Empty/undefined = no extra restriction.
+// A tab is visible only when the user passes its own list and every parent group's list.
+export type TabAccess = {
+  users?: string[]; // Emails (lowercase)
+  roles?: UserRole[];
+};
+
 export type TabGroup = {
   id: string;
   name: string;
   order: number;
   parentId?: string; // ID of parent group for nested folders. If undefined, group is at root level
+  access?: TabAccess; // Restrict this folder (and everything inside it) to named users/roles
 };
 
 export type DashboardTab = {
@@ -13,6 +23,8 @@ export type DashboardTab = {
   groupId?: string; // ID of the group this tab belongs to. If undefined, tab is in "Uncategorized"
   link?: string; // External link URL - if set, clicking tab opens this link in new tab
   icon?: string; // Icon name from @tabler/icons-react (e.g., "IconHome", "IconDatabase")
+  access?: TabAccess; // Restrict this tab to named users/roles (on top of its groups)
+  refreshIntervalMinutes?: number; // Refetch charts every N minutes (wall screens). Unset = manual refresh only
 };
 
 export type DashboardTabsState = {
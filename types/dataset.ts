@@ -0,0 +1,32 @@
+// Inferred from the uploaded values; each maps to a DuckDB column type
+export type DatasetColumnType = "number" | "boolean" | "date" | "timestamp" | "text";
+
+export interface DatasetColumn {
+  name: string; // Header cleaned up for SQL: trimmed, unique, never empty
+  type: DatasetColumnType;
+}
+
+// One upload. Every version is its own database file, so earlier versions
+// stay readable and can be restored.
+export interface DatasetVersion {
+  version: number;
+  fileName: string; // Original upload name
+  sheet?: string; // Worksheet read from an Excel upload
+  rowCount: number;
+  columns: DatasetColumn[];
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+// A CSV/Excel upload exposed as a read-only DuckDB connection with one table
+export interface Dataset {
+  id: string;
+  name: string;
+  tableName: string; // Fixed at the first upload so saved charts keep working
+  connectionId: string;
+  currentVersion: number;
+  versions: DatasetVersion[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,146 @@
+export type FraudSeverity = "low" | "medium" | "high" | "critical";
+
+// Heuristic a rule runs; each one compiles to a single grouped SELECT over the
+// redemption table, one result row per suspicious key
+export type FraudRuleDefinition =
+  | {
+      // Same device redeeming more than `threshold` coupons within the window
+      type: "device_velocity";
+      deviceColumn: string;
+      couponColumn?: string; // Counts distinct coupons when set, otherwise rows
+      timeColumn: string;
+      windowHours: number;
+      threshold: number;
+    }
+  | {
+      // Redemptions without a member id, per branch, above `threshold` in the window
+      type: "non_member_branch";
+      branchColumn: string;
+      memberColumn: string; // NULL or empty = non-member
+      timeColumn: string;
+      windowHours: number;
+      threshold: number;
+    }
+  | {
+      // Redemptions of a key in the window, against its own rate over the
+      // baseline period before it
+      type: "velocity_spike";
+      keyColumn: string;
+      timeColumn: string;
+      windowHours: number;
+      baselineHours: number;
+      multiplier: number; // Flag when the window's count exceeds baseline rate x multiplier
+      minCount: number; // Ignore keys with fewer redemptions in the window
+    }
+  | {
+      // Analyst-written read-only SELECT; every result row is a case
+      type: "custom_sql";
+      sql: string;
+      keyColumn: string; // Column identifying the case (device, member, branch...)
+    };
+
+export type FraudRuleType = FraudRuleDefinition["type"];
+
+export type FraudRuleRunStatus = "success" | "failed";
+
+export interface FraudRule {
+  id: string;
+  name: string;
+  description?: string;
+  connectionId: string;
+  database: string;
+  table?: string; // Redemption table; unused by custom_sql
+  definition: FraudRuleDefinition;
+  severity: FraudSeverity;
+  schedule: string; // Cron expression: minute hour day-of-month month day-of-week
+  enabled: boolean;
+  nextRunAt?: string; // ISO; unset while disabled
+  lastRunAt?: string;
+  lastStatus?: FraudRuleRunStatus;
+  lastCaseCount?: number; // Keys flagged by the last run
+  lastError?: string;
+  createdBy: string; // Email
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FraudCaseStatus = "open" | "investigating" | "confirmed" | "false_positive";
+
+// Evidence an analyst links to a case
+export type FraudCaseAttachment = {
+  id: string;
+  title: string;
+  sql?: string; // Query behind the chart, or a standalone query
+  connectionId?: string;
+  database?: string;
+  addedBy: string; // Email
+  addedAt: string;
+} & (
+  | { type: "chart"; tabId: string; chartId: string } // Opens /dashboard/<tabId>#chart-<chartId>
+  | { type: "query" }
+);
+
+// Attachment as sent by the client; the server stamps id and author
+export type FraudCaseAttachmentInput = {
+  type?: FraudCaseAttachment["type"];
+  title?: string;
+  sql?: string;
+  connectionId?: string;
+  database?: string;
+  tabId?: string;
+  chartId?: string;
+};
+
+export interface FraudCaseComment {
+  id: string;
+  userEmail: string;
+  userName: string;
+  text: string;
+  createdAt: string;
+}
+
+// A case is opened by a rule run (one per suspicious key) or by hand from a
+// chart. A key flagged again while its case is still being worked updates
+// that case instead of opening a new one.
+export interface FraudCase {
+  id: string;
+  title?: string; // Set on manual cases; rule cases show "<keyColumn>: <key>"
+  ruleId?: string; // Unset on manual cases
+  ruleName?: string;
+  severity: FraudSeverity;
+  connectionId?: string;
+  database?: string;
+  keyColumn: string;
+  key: string;
+  metrics: Record<string, unknown>; // The rule's result row for the key
+  evidence: Record<string, unknown>[]; // Latest matching source rows
+  status: FraudCaseStatus;
+  assignee?: string; // Email
+  comments?: FraudCaseComment[];
+  attachments?: FraudCaseAttachment[];
+  detectionCount: number;
+  firstDetectedAt: string;
+  lastDetectedAt: string;
+  resolvedAt?: string; // Set when confirmed or marked a false positive
+  resolvedBy?: string;
+  updatedAt?: string;
+}
+
+// Same shape as change_history entries, scoped to a case
+export interface FraudCaseHistory {
+  id: string;
+  caseId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  action: "create" | "update" | "comment" | "attach" | "detach";
+  entityType: "case";
+  entityId: string;
+  entityName: string;
+  changes?: {
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+  }[];
+  timestamp: Date;
+}
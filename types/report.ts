@@ -0,0 +1,53 @@
+export type ReportFormat = "pdf" | "xlsx";
+
+// Where a finished snapshot is sent
+export type ReportDelivery =
+  | { type: "lark"; webhookUrl: string } // Lark custom bot webhook
+  | { type: "smtp"; to: string[] }; // Email with the snapshot attached
+
+export type ReportDeliveryType = ReportDelivery["type"];
+
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  tabId: string;
+  chartIds?: string[]; // Charts to include, in tab order. Empty = every chart on the tab
+  inputs?: Record<string, string>; // Tab input values by key, over the values saved on the tab
+  schedule: string; // Cron expression: minute hour day-of-month month day-of-week
+  format: ReportFormat;
+  deliveries?: ReportDelivery[];
+  enabled: boolean;
+  nextRunAt?: string; // ISO; unset while disabled
+  lastRunAt?: string;
+  lastStatus?: ReportRunStatus;
+  createdBy: string; // Email
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReportRunStatus = "running" | "success" | "failed";
+
+export interface ReportDeliveryResult {
+  type: ReportDeliveryType;
+  target: string; // Recipients or webhook host, for display
+  ok: boolean;
+  error?: string;
+}
+
+export interface ReportRun {
+  id: string;
+  reportId: string;
+  reportName: string;
+  tabId: string;
+  trigger: "schedule" | "manual";
+  triggeredBy?: string; // Email, for manual runs
+  status: ReportRunStatus;
+  format: ReportFormat;
+  fileName?: string;
+  size?: number; // Bytes
+  chartCount?: number;
+  error?: string;
+  deliveries?: ReportDeliveryResult[];
+  startedAt: string;
+  finishedAt?: string;
+}
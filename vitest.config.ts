@@ -0,0 +1,18 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/support/setup.ts"],
+    env: {
+      SESSION_SECRET: "test-session-secret",
+      CONNECTION_SECRET_KEY: "test-connection-key",
+      NEXT_PUBLIC_SUPER_ADMIN: "admin@bearhouse.test",
+    },
+  },
+});